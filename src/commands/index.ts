@@ -13,6 +13,8 @@ enum EXTENSION_COMMANDS {
   MDB_CREATE_PLAYGROUND = 'mdb.createPlayground',
   MDB_CREATE_PLAYGROUND_FROM_OVERVIEW_PAGE = 'mdb.createNewPlaygroundFromOverviewPage',
   MDB_RUN_SELECTED_PLAYGROUND_BLOCKS = 'mdb.runSelectedPlaygroundBlocks',
+  MDB_EXPLAIN_SELECTED_PLAYGROUND_QUERY = 'mdb.explainSelectedPlaygroundQuery',
+  MDB_OPEN_PLAYGROUND_RESULTS_VIEW = 'mdb.openPlaygroundResultsView',
   MDB_RUN_ALL_PLAYGROUND_BLOCKS = 'mdb.runAllPlaygroundBlocks',
   MDB_RUN_ALL_OR_SELECTED_PLAYGROUND_BLOCKS = 'mdb.runPlayground',
   MDB_EXPORT_CODE_TO_PLAYGROUND = 'mdb.exportCodeToPlayground',
@@ -27,10 +29,15 @@ enum EXTENSION_COMMANDS {
   MDB_OPEN_MONGODB_DOCUMENT_FROM_CODE_LENS = 'mdb.openMongoDBDocumentFromCodeLens',
   MDB_OPEN_MONGODB_DOCUMENT_FROM_TREE = 'mdb.openMongoDBDocumentFromTree',
   MDB_SAVE_MONGODB_DOCUMENT = 'mdb.saveMongoDBDocument',
+  MDB_EDIT_COLLECTION_DOCUMENTS = 'mdb.editCollectionDocuments',
+  MDB_SAVE_RESULTS_AS = 'mdb.saveResultsAs',
 
   MDB_CHANGE_ACTIVE_CONNECTION = 'mdb.changeActiveConnection',
+  MDB_CHANGE_PLAYGROUND_CONNECTION = 'mdb.changePlaygroundConnection',
 
-  MDB_CODELENS_SHOW_MORE_DOCUMENTS = 'mdb.codeLens.showMoreDocumentsClicked',
+  MDB_CODELENS_SHOW_NEXT_DOCUMENTS_PAGE = 'mdb.codeLens.showNextDocumentsPageClicked',
+  MDB_CODELENS_SHOW_PREVIOUS_DOCUMENTS_PAGE = 'mdb.codeLens.showPreviousDocumentsPageClicked',
+  MDB_CODELENS_GO_TO_DOCUMENTS_PAGE = 'mdb.codeLens.goToDocumentsPageClicked',
 
   // Commands from the tree view.
   MDB_ADD_CONNECTION = 'mdb.addConnection',
@@ -47,6 +54,14 @@ enum EXTENSION_COMMANDS {
   MDB_EDIT_PRESET_CONNECTIONS = 'mdb.editPresetConnections',
   MDB_REMOVE_CONNECTION_TREE_VIEW = 'mdb.treeItemRemoveConnection',
   MDB_RENAME_CONNECTION = 'mdb.renameConnection',
+  MDB_SET_CONNECTION_WRITE_PROTECTION = 'mdb.setConnectionWriteProtection',
+  MDB_CREATE_CONNECTION_GROUP = 'mdb.createConnectionGroup',
+  MDB_MOVE_CONNECTION_TO_GROUP = 'mdb.moveConnectionToGroup',
+  MDB_RENAME_CONNECTION_GROUP = 'mdb.renameConnectionGroup',
+  MDB_SET_CONNECTION_GROUP_COLOR = 'mdb.setConnectionGroupColor',
+  MDB_REMOVE_CONNECTION_GROUP = 'mdb.removeConnectionGroup',
+  MDB_EXPORT_CONNECTIONS = 'mdb.exportConnections',
+  MDB_IMPORT_CONNECTIONS = 'mdb.importConnections',
   MDB_ADD_DATABASE = 'mdb.addDatabase',
   MDB_SEARCH_FOR_DOCUMENTS = 'mdb.searchForDocuments',
   MDB_COPY_DATABASE_NAME = 'mdb.copyDatabaseName',
@@ -57,12 +72,31 @@ enum EXTENSION_COMMANDS {
   MDB_DROP_COLLECTION = 'mdb.dropCollection',
   MDB_VIEW_COLLECTION_DOCUMENTS = 'mdb.viewCollectionDocuments',
   MDB_REFRESH_COLLECTION = 'mdb.refreshCollection',
+  MDB_IMPORT_DOCUMENTS = 'mdb.importDocuments',
+  MDB_DUMP_DATABASE = 'mdb.dumpDatabase',
+  MDB_DUMP_COLLECTION = 'mdb.dumpCollection',
+  MDB_RESTORE_DATABASE = 'mdb.restoreDatabase',
+  MDB_COPY_COLLECTION_TO_CONNECTION = 'mdb.copyCollectionToConnection',
+  MDB_GENERATE_TYPES_FROM_COLLECTION = 'mdb.generateTypesFromCollection',
+  MDB_SAVE_SCHEMA_SNAPSHOT = 'mdb.saveSchemaSnapshot',
+  MDB_COMPARE_COLLECTION_SCHEMA_WITH_SNAPSHOT = 'mdb.compareCollectionSchemaWithSnapshot',
+  MDB_COMPARE_SCHEMA_SNAPSHOT = 'mdb.compareSchemaSnapshot',
   MDB_REFRESH_DOCUMENT_LIST = 'mdb.refreshDocumentList',
+  MDB_SET_DOCUMENT_LIST_FILTER = 'mdb.setDocumentListFilter',
+  MDB_CLEAR_DOCUMENT_LIST_FILTER = 'mdb.clearDocumentListFilter',
   MDB_INSERT_DOCUMENT_FROM_TREE_VIEW = 'mdb.insertDocumentFromTreeView',
   MDB_REFRESH_SCHEMA = 'mdb.refreshSchema',
+  MDB_ANALYZE_SCHEMA = 'mdb.analyzeSchema',
+  MDB_GENERATE_VALIDATION_RULES = 'mdb.generateValidationRules',
   MDB_COPY_SCHEMA_FIELD_NAME = 'mdb.copySchemaFieldName',
   MDB_REFRESH_INDEXES = 'mdb.refreshIndexes',
+  MDB_REFRESH_VALIDATION = 'mdb.refreshValidation',
+  MDB_EDIT_VALIDATION_RULES = 'mdb.editValidationRules',
   MDB_CREATE_INDEX_TREE_VIEW = 'mdb.createIndexFromTreeView',
+  MDB_DROP_INDEX = 'mdb.dropIndex',
+  MDB_HIDE_INDEX = 'mdb.hideIndex',
+  MDB_UNHIDE_INDEX = 'mdb.unhideIndex',
+  MDB_RENAME_INDEX = 'mdb.renameIndex',
   MDB_INSERT_OBJECTID_TO_EDITOR = 'mdb.insertObjectIdToEditor',
   MDB_GENERATE_OBJECTID_TO_CLIPBOARD = 'mdb.generateObjectIdToClipboard',
   MDB_COPY_DOCUMENT_CONTENTS_FROM_TREE_VIEW = 'mdb.copyDocumentContentsFromTreeView',
@@ -72,6 +106,9 @@ enum EXTENSION_COMMANDS {
   MDB_START_STREAM_PROCESSOR = 'mdb.startStreamProcessor',
   MDB_STOP_STREAM_PROCESSOR = 'mdb.stopStreamProcessor',
   MDB_DROP_STREAM_PROCESSOR = 'mdb.dropStreamProcessor',
+  MDB_SHOW_STREAM_PROCESSOR_STATS = 'mdb.showStreamProcessorStats',
+  MDB_SAMPLE_STREAM_PROCESSOR = 'mdb.sampleStreamProcessor',
+  MDB_EDIT_STREAM_PROCESSOR_PIPELINE = 'mdb.editStreamProcessorPipeline',
 
   // Chat participant.
   OPEN_PARTICIPANT_CODE_IN_PLAYGROUND = 'mdb.openParticipantCodeInPlayground',
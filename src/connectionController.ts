@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import fs from 'fs/promises';
 import { connect, createConnectionAttempt } from 'mongodb-data-service';
 import type {
   DataService,
@@ -22,11 +23,28 @@ import type { StatusView } from './views';
 import type { TelemetryService } from './telemetry';
 import { openLink } from './utils/linkHelper';
 import type {
+  ConnectionGroupColor,
   ConnectionSource,
+  ConnectionWriteProtection,
   LoadedConnection,
+  StoreConnectionGroupInfo,
 } from './storage/connectionStorage';
-import { ConnectionStorage } from './storage/connectionStorage';
+import {
+  CONNECTION_GROUP_COLORS,
+  ConnectionStorage,
+} from './storage/connectionStorage';
+import { StorageLocation } from './storage/storageController';
+import {
+  deserializeConnections,
+  hasEncryptedSecrets,
+  parseConnectionsExport,
+  serializeConnections,
+} from './storage/connectionExport';
 import LINKS from './utils/links';
+import {
+  hasConnectionStringPlaceholders,
+  resolveConnectionStringPlaceholders,
+} from './utils/connectionStringPlaceholders';
 import { isAtlasStream } from 'mongodb-build-info';
 import type { ConnectionTreeItem } from './explorer';
 import { PresetConnectionEditedTelemetryEvent } from './telemetry';
@@ -39,9 +57,16 @@ const log = createLogger('connection controller');
 
 const MAX_CONNECTION_NAME_LENGTH = 512;
 
+// A lost connection is reconnected with an exponential backoff, unless the
+// MongoDB driver restores it first.
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+const MAX_RECONNECT_ATTEMPTS = 10;
+
 export enum DataServiceEventTypes {
   CONNECTIONS_DID_CHANGE = 'CONNECTIONS_DID_CHANGE',
   ACTIVE_CONNECTION_CHANGED = 'ACTIVE_CONNECTION_CHANGED',
+  PLAYGROUND_CONNECTIONS_CHANGED = 'PLAYGROUND_CONNECTIONS_CHANGED',
 }
 
 export enum ConnectionTypes {
@@ -60,8 +85,30 @@ interface ConnectionAttemptResult {
   connectionErrorMessage: string;
 }
 
+interface WriteProtectionQuickPick extends vscode.QuickPickItem {
+  writeProtection?: ConnectionWriteProtection;
+}
+
+interface ConnectionGroupQuickPick extends vscode.QuickPickItem {
+  groupName?: string;
+  isNewGroup?: boolean;
+}
+
+interface ConnectionGroupColorQuickPick extends vscode.QuickPickItem {
+  color?: ConnectionGroupColor;
+}
+
+interface ConnectionExportQuickPick extends vscode.QuickPickItem {
+  connectionId: string;
+}
+
+interface ConnectionExportSecretsQuickPick extends vscode.QuickPickItem {
+  encryptSecrets: boolean;
+}
+
 interface ConnectionQuickPicks {
   label: string;
+  description?: string;
   data: { type: NewConnectionType; connectionId?: string };
 }
 
@@ -79,6 +126,22 @@ interface NewConnectionParams {
   reuseExisting?: boolean;
 }
 
+const WRITE_PROTECTION_LEVELS: (ConnectionWriteProtection | undefined)[] = [
+  undefined,
+  'production',
+  'readOnly',
+];
+
+function getStrongerWriteProtection(
+  writeProtection?: ConnectionWriteProtection,
+  otherWriteProtection?: ConnectionWriteProtection,
+): ConnectionWriteProtection | undefined {
+  return WRITE_PROTECTION_LEVELS.indexOf(writeProtection) >
+    WRITE_PROTECTION_LEVELS.indexOf(otherWriteProtection)
+    ? writeProtection
+    : otherWriteProtection;
+}
+
 function isOIDCAuth(connectionString: string): boolean {
   const authMechanismString = (
     new ConnectionString(connectionString).searchParams.get('authMechanism') ||
@@ -131,6 +194,11 @@ export default class ConnectionController {
   _connections: {
     [connectionId: string]: LoadedConnection;
   } = Object.create(null);
+  // The folders of the connections tree, keyed by name. Connections are
+  // added to a folder with their `group`.
+  private _connectionGroups: {
+    [groupName: string]: StoreConnectionGroupInfo;
+  } = Object.create(null);
   // Additional connection information that is merged with the connections
   // when connecting. This is useful for instances like OIDC sessions where we
   // have a setting on the system for storing credentials.
@@ -142,6 +210,25 @@ export default class ConnectionController {
   > = Object.create(null);
 
   private _activeDataService: DataService | null = null;
+  // The data services of all the connections that are connected, including
+  // the active one. The active connection is the one new playgrounds and the
+  // status bar use, the others stay connected in the explorer.
+  private _connectedDataServices: {
+    [connectionId: string]: DataService;
+  } = Object.create(null);
+  // The connected connections whose servers can't be reached, with the
+  // reconnect attempts made so far.
+  private _reconnectingConnections: {
+    [connectionId: string]: {
+      attempts: number;
+      timeout?: ReturnType<typeof setTimeout>;
+    };
+  } = Object.create(null);
+  // The connection each playground runs against, keyed by the playground uri.
+  // Playgrounds that are not bound to a connection use the active one.
+  private _playgroundConnectionIds: {
+    [playgroundUri: string]: string;
+  } = Object.create(null);
   _connectionStorage: ConnectionStorage;
   _telemetryService: TelemetryService;
 
@@ -230,6 +317,12 @@ export default class ConnectionController {
       this._connections[connection.id] = connection;
     }
 
+    this._connectionGroups = Object.create(null);
+
+    for (const group of this._connectionStorage.loadConnectionGroups()) {
+      this._connectionGroups[group.name] = group;
+    }
+
     if (loadedConnections.length) {
       this.eventEmitter.emit(DataServiceEventTypes.CONNECTIONS_DID_CHANGE);
     }
@@ -395,6 +488,12 @@ export default class ConnectionController {
   private _overrideLegacyConnectionStringAppName(
     connectionId: string,
   ): boolean {
+    if (this._isPresetConnection(connectionId)) {
+      // Preset connection strings were never stored with an appName, and
+      // they can contain placeholders that are not a valid connection string.
+      return false;
+    }
+
     const connectionString = new ConnectionString(
       this._connections[connectionId].connectionOptions.connectionString,
     );
@@ -414,6 +513,54 @@ export default class ConnectionController {
     return false;
   }
 
+  private _isPresetConnection(connectionId: string): boolean {
+    const source = this._connections[connectionId]?.source;
+
+    return source === 'globalSettings' || source === 'workspaceSettings';
+  }
+
+  // The placeholders of preset connection strings, like ${env:NAME}, are
+  // resolved on every connect. The resolved connection string is only passed
+  // to the driver, it is never saved.
+  private async _resolvePresetConnectionOptions(
+    connectionInfo: LoadedConnection,
+  ): Promise<ConnectionOptions> {
+    if (!this._isPresetConnection(connectionInfo.id)) {
+      return connectionInfo.connectionOptions;
+    }
+
+    // A workspace could otherwise send environment variables and the output
+    // of the user's commands to a host of its choice.
+    if (
+      connectionInfo.source === 'workspaceSettings' &&
+      !vscode.workspace.isTrusted &&
+      hasConnectionStringPlaceholders(
+        connectionInfo.connectionOptions.connectionString,
+      )
+    ) {
+      throw new Error(
+        'The placeholders of connections from the workspace settings are only resolved in trusted workspaces.',
+      );
+    }
+
+    return {
+      ...connectionInfo.connectionOptions,
+      connectionString: await resolveConnectionStringPlaceholders(
+        connectionInfo.connectionOptions.connectionString,
+        {
+          env: process.env,
+          workspaceFolder: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
+          // Commands are only read from the user settings, so that opening
+          // a workspace can't run commands on connect.
+          commands:
+            vscode.workspace.getConfiguration('mdb').inspect<{
+              [commandName: string]: string;
+            }>('connectionStringCommands')?.globalValue ?? {},
+        },
+      ),
+    };
+  }
+
   // eslint-disable-next-line complexity
   async _connect(
     connectionId: string,
@@ -427,25 +574,17 @@ export default class ConnectionController {
     // Cancel the current connection attempt if we're connecting.
     this._connectionAttempt?.cancelConnectionAttempt();
 
-    const connectionAttempt = createConnectionAttempt({
-      connectFn: (connectionConfig) =>
-        connect({
-          ...connectionConfig,
-          productName: packageJSON.name,
-          productDocsLink: LINKS.extensionDocs(),
-        }),
-      logger: Object.assign(log, { mongoLogId }),
-      proxyOptions: {},
-    });
+    const connectionAttempt = this._createConnectionAttempt();
     this._connectionAttempt = connectionAttempt;
     this._connectingConnectionId = connectionId;
     this.eventEmitter.emit(DataServiceEventTypes.CONNECTIONS_DID_CHANGE);
 
-    if (this._activeDataService) {
-      log.info('Disconnecting from the previous connection...', {
-        connectionId: this._currentConnectionId,
+    if (this.isConnectedToConnection(connectionId)) {
+      // Reconnect so that updated connection options are used.
+      log.info('Disconnecting from the connection before reconnecting...', {
+        connectionId,
       });
-      await this.disconnect();
+      await this.disconnect(connectionId);
     }
 
     if (connectionAttempt.isClosed()) {
@@ -473,45 +612,13 @@ export default class ConnectionController {
 
     let dataService;
     try {
-      const notifyDeviceFlow = getNotifyDeviceFlowForConnectionAttempt(
-        connectionInfo.connectionOptions,
+      dataService = await connectionAttempt.connect(
+        this._getConnectionOptionsForConnect(
+          connectionId,
+          await this._resolvePresetConnectionOptions(connectionInfo),
+        ),
       );
 
-      const connectionOptions = adjustConnectionOptionsBeforeConnect({
-        connectionOptions: connectionInfo.connectionOptions,
-        connectionId,
-        defaultAppName: `${packageJSON.name} ${packageJSON.version}`,
-        notifyDeviceFlow,
-        preferences: {
-          forceConnectionOptions: [],
-          telemetryAnonymousId: this._connectionStorage.getUserAnonymousId(),
-          browserCommandForOIDCAuth: undefined, // We overwrite this below.
-        },
-      });
-      const browserAuthCommand = vscode.workspace
-        .getConfiguration('mdb')
-        .get<string>('browserCommandForOIDCAuth');
-      dataService = await connectionAttempt.connect({
-        ...connectionOptions,
-        oidc: {
-          ...cloneDeep(connectionOptions.oidc),
-          openBrowser: browserAuthCommand
-            ? { command: browserAuthCommand }
-            : async ({ signal, url }): Promise<void> => {
-                try {
-                  await openLink(url);
-                } catch (err) {
-                  if (signal.aborted) return;
-                  // If opening the link fails we default to regular link opening.
-                  await vscode.commands.executeCommand(
-                    'vscode.open',
-                    vscode.Uri.parse(url),
-                  );
-                }
-              },
-        },
-      });
-
       if (!dataService || connectionAttempt.isClosed()) {
         return {
           successfullyConnected: false,
@@ -538,16 +645,12 @@ export default class ConnectionController {
 
     this._statusView.showTemporaryMessage('MongoDB connection successful.');
 
-    dataService.addReauthenticationHandler(
-      this._reauthenticationHandler.bind(this),
-    );
-    this.setActiveDataService(dataService);
-    this._currentConnectionId = connectionId;
+    this._addConnectedDataService(connectionId, dataService);
     this._connectionAttempt = null;
     this._connectingConnectionId = null;
 
     this._connections[connectionId].lastUsed = new Date();
-    this.eventEmitter.emit(DataServiceEventTypes.ACTIVE_CONNECTION_CHANGED);
+    this._activateConnection(connectionId);
     await this._connectionStorage.saveConnection(
       this._connections[connectionId],
     );
@@ -555,18 +658,6 @@ export default class ConnectionController {
     // Send metrics to Segment
     this.sendTelemetry(dataService, connectionType);
 
-    void vscode.commands.executeCommand(
-      'setContext',
-      'mdb.connectedToMongoDB',
-      true,
-    );
-
-    void vscode.commands.executeCommand(
-      'setContext',
-      'mdb.isAtlasStreams',
-      this.isConnectedToAtlasStreams(),
-    );
-
     void this.onConnectSuccess({
       connectionInfo,
       dataService,
@@ -578,6 +669,258 @@ export default class ConnectionController {
     };
   }
 
+  private _createConnectionAttempt(): ConnectionAttempt {
+    return createConnectionAttempt({
+      connectFn: (connectionConfig) =>
+        connect({
+          ...connectionConfig,
+          productName: packageJSON.name,
+          productDocsLink: LINKS.extensionDocs(),
+        }),
+      logger: Object.assign(log, { mongoLogId }),
+      proxyOptions: {},
+    });
+  }
+
+  private _addConnectedDataService(
+    connectionId: string,
+    dataService: DataService,
+  ): void {
+    dataService.addReauthenticationHandler(
+      this._reauthenticationHandler.bind(this),
+    );
+    this._connectedDataServices[connectionId] = dataService;
+    // Disconnect the connection if its MongoDB client is closed.
+    dataService.once('close', () => {
+      if (this._connectedDataServices[connectionId] === dataService) {
+        void this.disconnect(connectionId);
+      }
+    });
+
+    // The driver keeps monitoring the servers of a connection. When none of
+    // them can be reached the connection is lost, until a heartbeat succeeds.
+    dataService.on('topologyDescriptionChanged', ({ newDescription }) => {
+      if (this._connectedDataServices[connectionId] !== dataService) {
+        return;
+      }
+
+      if (newDescription.hasKnownServers) {
+        this._onConnectionRestored(connectionId);
+      } else {
+        this._onConnectionLost(connectionId);
+      }
+    });
+    dataService.on('serverHeartbeatFailed', ({ connectionId: address }) => {
+      log.warn('Server heartbeat failed', { connectionId, address });
+    });
+    dataService.on('serverHeartbeatSucceeded', () => {
+      if (this._connectedDataServices[connectionId] === dataService) {
+        this._onConnectionRestored(connectionId);
+      }
+    });
+  }
+
+  isReconnecting(connectionId: string): boolean {
+    return !!this._reconnectingConnections[connectionId];
+  }
+
+  // Exposed for testing.
+  _onConnectionLost(connectionId: string): void {
+    if (this.isReconnecting(connectionId)) {
+      return;
+    }
+
+    log.warn('Lost the connection, reconnecting...', { connectionId });
+
+    this._reconnectingConnections[connectionId] = { attempts: 0 };
+    this._statusView.showMessage(
+      `Reconnecting to ${this.getSavedConnectionName(connectionId)}...`,
+    );
+    this.eventEmitter.emit(DataServiceEventTypes.CONNECTIONS_DID_CHANGE);
+
+    this._scheduleReconnect(connectionId);
+  }
+
+  // Exposed for testing.
+  _onConnectionRestored(connectionId: string): void {
+    if (!this.isReconnecting(connectionId)) {
+      return;
+    }
+
+    log.info('The connection was restored', { connectionId });
+
+    this._stopReconnecting(connectionId);
+    this._statusView.showTemporaryMessage('MongoDB connection restored.');
+    // Refreshing the tree restores its expanded items with the data service
+    // of the restored connection.
+    this.eventEmitter.emit(DataServiceEventTypes.CONNECTIONS_DID_CHANGE);
+  }
+
+  private _stopReconnecting(connectionId: string): void {
+    clearTimeout(this._reconnectingConnections[connectionId]?.timeout);
+    delete this._reconnectingConnections[connectionId];
+  }
+
+  private _scheduleReconnect(connectionId: string): void {
+    const reconnecting = this._reconnectingConnections[connectionId];
+
+    if (reconnecting.attempts >= MAX_RECONNECT_ATTEMPTS) {
+      log.error('Unable to reconnect, disconnecting', { connectionId });
+
+      this._stopReconnecting(connectionId);
+      this._statusView.hideMessage();
+      void vscode.window.showErrorMessage(
+        `Lost the connection to ${this.getSavedConnectionName(connectionId)}.`,
+      );
+      void this.disconnect(connectionId);
+      return;
+    }
+
+    reconnecting.timeout = setTimeout(
+      () => void this._attemptReconnect(connectionId),
+      Math.min(
+        RECONNECT_BASE_DELAY_MS * 2 ** reconnecting.attempts,
+        RECONNECT_MAX_DELAY_MS,
+      ),
+    );
+  }
+
+  // Replaces the data service of a lost connection with a new one. The
+  // connection stays connected, and active if it was, in the meantime.
+  // Exposed for testing.
+  async _attemptReconnect(connectionId: string): Promise<void> {
+    const reconnecting = this._reconnectingConnections[connectionId];
+
+    if (!reconnecting) {
+      return;
+    }
+
+    reconnecting.attempts++;
+    log.info('Reconnecting...', {
+      connectionId,
+      attempt: reconnecting.attempts,
+    });
+
+    let dataService: DataService | void;
+    try {
+      const connectionInfo: LoadedConnection = merge(
+        cloneDeep(this._connections[connectionId]),
+        this._connectionMergeInfos[connectionId] ?? {},
+      );
+
+      dataService = await this._createConnectionAttempt().connect(
+        this._getConnectionOptionsForConnect(
+          connectionId,
+          await this._resolvePresetConnectionOptions(connectionInfo),
+        ),
+      );
+    } catch (error) {
+      log.error('Reconnect attempt failed', { connectionId, error });
+    }
+
+    if (this._reconnectingConnections[connectionId] !== reconnecting) {
+      // The connection was restored or disconnected in the meantime.
+      void dataService?.disconnect();
+      return;
+    }
+
+    if (!dataService) {
+      this._scheduleReconnect(connectionId);
+      return;
+    }
+
+    const lostDataService = this._connectedDataServices[connectionId];
+    const isActiveConnection = this._activeDataService === lostDataService;
+
+    this._addConnectedDataService(connectionId, dataService);
+    if (isActiveConnection) {
+      this._activeDataService = dataService;
+      this.eventEmitter.emit(DataServiceEventTypes.ACTIVE_CONNECTION_CHANGED);
+    }
+
+    this._onConnectionRestored(connectionId);
+
+    try {
+      await lostDataService?.disconnect();
+    } catch (error) {
+      log.error('Unable to disconnect the lost data service', error);
+    }
+  }
+
+  _getConnectionOptionsForConnect(
+    connectionId: string,
+    savedConnectionOptions: ConnectionOptions,
+  ): ConnectionOptions {
+    const notifyDeviceFlow = getNotifyDeviceFlowForConnectionAttempt(
+      savedConnectionOptions,
+    );
+
+    const connectionOptions = adjustConnectionOptionsBeforeConnect({
+      connectionOptions: savedConnectionOptions,
+      connectionId,
+      defaultAppName: `${packageJSON.name} ${packageJSON.version}`,
+      notifyDeviceFlow,
+      preferences: {
+        forceConnectionOptions: [],
+        telemetryAnonymousId: this._connectionStorage.getUserAnonymousId(),
+        browserCommandForOIDCAuth: undefined, // We overwrite this below.
+      },
+    });
+    const browserAuthCommand = vscode.workspace
+      .getConfiguration('mdb')
+      .get<string>('browserCommandForOIDCAuth');
+
+    return {
+      ...connectionOptions,
+      oidc: {
+        ...cloneDeep(connectionOptions.oidc),
+        openBrowser: browserAuthCommand
+          ? { command: browserAuthCommand }
+          : async ({ signal, url }): Promise<void> => {
+              try {
+                await openLink(url);
+              } catch (err) {
+                if (signal.aborted) return;
+                // If opening the link fails we default to regular link opening.
+                await vscode.commands.executeCommand(
+                  'vscode.open',
+                  vscode.Uri.parse(url),
+                );
+              }
+            },
+      },
+    };
+  }
+
+  /**
+   * Connects to a saved connection without making it the active connection,
+   * for tasks that need a second connection. The caller disconnects it.
+   */
+  async connectWithoutActivating(connectionId: string): Promise<DataService> {
+    const connectionInfo: LoadedConnection = merge(
+      cloneDeep(this._connections[connectionId]),
+      this._connectionMergeInfos[connectionId] ?? {},
+    );
+
+    if (!connectionInfo?.connectionOptions) {
+      throw new Error('Connect failed: connectionOptions are missing.');
+    }
+
+    log.info('Connecting without activating the connection', {
+      connectionId,
+    });
+
+    return connect({
+      connectionOptions: this._getConnectionOptionsForConnect(
+        connectionId,
+        await this._resolvePresetConnectionOptions(connectionInfo),
+      ),
+      logger: Object.assign(log, { mongoLogId }),
+      productName: packageJSON.name,
+      productDocsLink: LINKS.extensionDocs(),
+    });
+  }
+
   // Used to re-authenticate with OIDC.
   async _reauthenticationHandler(): Promise<void> {
     const removeConfirmationResponse =
@@ -680,6 +1023,16 @@ export default class ConnectionController {
       throw new Error('Connection not found.');
     }
 
+    if (this.isConnectedToConnection(connectionId)) {
+      // The connection is already live, it only becomes the active one.
+      this.setActiveConnection(connectionId);
+
+      return {
+        successfullyConnected: true,
+        connectionErrorMessage: '',
+      };
+    }
+
     try {
       const wasOverridden =
         this._overrideLegacyConnectionStringAppName(connectionId);
@@ -711,7 +1064,19 @@ export default class ConnectionController {
     }
   }
 
-  async disconnect(): Promise<boolean> {
+  async disconnect(
+    connectionId: string | null = this._currentConnectionId,
+  ): Promise<boolean> {
+    const isActiveConnection = connectionId === this._currentConnectionId;
+
+    if (connectionId) {
+      this._stopReconnecting(connectionId);
+    }
+
+    if (!isActiveConnection) {
+      return this._disconnectInactiveConnection(connectionId);
+    }
+
     log.info(
       'Disconnect called, currently connected to',
       this._currentConnectionId,
@@ -732,6 +1097,10 @@ export default class ConnectionController {
     const originalDisconnect = this._activeDataService.disconnect.bind(this);
     this._activeDataService = null;
 
+    if (connectionId) {
+      delete this._connectedDataServices[connectionId];
+    }
+
     try {
       // Disconnect from the active connection.
       await originalDisconnect();
@@ -739,10 +1108,11 @@ export default class ConnectionController {
       log.error('Unable to disconnect', error);
     }
 
+    // Other connections can still be connected without being active.
     void vscode.commands.executeCommand(
       'setContext',
       'mdb.connectedToMongoDB',
-      false,
+      Object.keys(this._connectedDataServices).length > 0,
     );
     void vscode.commands.executeCommand(
       'setContext',
@@ -756,6 +1126,48 @@ export default class ConnectionController {
     return true;
   }
 
+  // Disconnects from the active and all other connected connections.
+  async disconnectAll(): Promise<void> {
+    for (const connectionId of this.getConnectedConnectionIds()) {
+      if (connectionId !== this._currentConnectionId) {
+        await this.disconnect(connectionId);
+      }
+    }
+
+    await this.disconnect();
+  }
+
+  private async _disconnectInactiveConnection(
+    connectionId: string | null,
+  ): Promise<boolean> {
+    const dataService = connectionId
+      ? this._connectedDataServices[connectionId]
+      : undefined;
+
+    if (!connectionId || !dataService) {
+      log.error('Unable to disconnect: not connected', { connectionId });
+      return false;
+    }
+
+    log.info('Disconnect called for an inactive connection', connectionId);
+
+    delete this._connectedDataServices[connectionId];
+    this.eventEmitter.emit(DataServiceEventTypes.CONNECTIONS_DID_CHANGE);
+    void vscode.commands.executeCommand(
+      'setContext',
+      'mdb.connectedToMongoDB',
+      Object.keys(this._connectedDataServices).length > 0,
+    );
+
+    try {
+      await dataService.disconnect();
+    } catch (error) {
+      log.error('Unable to disconnect', error);
+    }
+
+    return true;
+  }
+
   async removeSavedConnection(connectionId: string): Promise<void> {
     if (
       this._connectionAttempt &&
@@ -764,8 +1176,10 @@ export default class ConnectionController {
       this.cancelConnectionAttempt();
     }
 
+    this._stopReconnecting(connectionId);
     delete this._connections[connectionId];
     await this._connectionStorage.removeConnection(connectionId);
+    this._removePlaygroundConnectionIds(connectionId);
     this.eventEmitter.emit(DataServiceEventTypes.CONNECTIONS_DID_CHANGE);
   }
 
@@ -798,8 +1212,8 @@ export default class ConnectionController {
       }
     }
 
-    if (this._activeDataService && connectionId === this._currentConnectionId) {
-      await this.disconnect();
+    if (this.isConnectedToConnection(connectionId)) {
+      await this.disconnect(connectionId);
     }
 
     if (!this._connections[connectionId]) {
@@ -968,19 +1382,585 @@ export default class ConnectionController {
     return true;
   }
 
-  addEventListener(
-    eventType: DataServiceEventTypes,
-    listener: () => void,
-  ): void {
-    this.eventEmitter.addListener(eventType, listener);
-  }
+  async setConnectionWriteProtection(connectionId: string): Promise<boolean> {
+    const connection = this._connections[connectionId];
 
-  removeEventListener(
-    eventType: DataServiceEventTypes,
-    listener: () => void,
-  ): void {
-    this.eventEmitter.removeListener(eventType, listener);
-  }
+    if (!connection) {
+      return false;
+    }
+
+    if (
+      connection.source === 'globalSettings' ||
+      connection.source === 'workspaceSettings'
+    ) {
+      void vscode.window.showErrorMessage(
+        'The write protection of a preset connection is set in the mdb.presetConnections setting.',
+      );
+      return false;
+    }
+
+    const writeProtectionQuickPicks: WriteProtectionQuickPick[] = [
+      {
+        label: 'None',
+        description: 'Allow write operations',
+      },
+      {
+        label: 'Production',
+        description: 'Enter the connection name to confirm write operations',
+        writeProtection: 'production',
+      },
+      {
+        label: 'Read-only',
+        description: 'Block write operations',
+        writeProtection: 'readOnly',
+      },
+    ];
+    const selectedQuickPickItem = await vscode.window.showQuickPick(
+      writeProtectionQuickPicks,
+      {
+        placeHolder: `Select the write protection of ${connection.name}...`,
+      },
+    );
+
+    if (!selectedQuickPickItem) {
+      return false;
+    }
+
+    connection.writeProtection = selectedQuickPickItem.writeProtection;
+    this.eventEmitter.emit(DataServiceEventTypes.CONNECTIONS_DID_CHANGE);
+    this.eventEmitter.emit(DataServiceEventTypes.ACTIVE_CONNECTION_CHANGED);
+
+    await this._connectionStorage.saveConnection(connection);
+
+    return true;
+  }
+
+  getConnectionWriteProtection(
+    connectionId: string | null,
+  ): ConnectionWriteProtection | undefined {
+    return connectionId
+      ? this._connections[connectionId]?.writeProtection
+      : undefined;
+  }
+
+  // Resolves to false when the write protection of the connection
+  // does not allow the operation, e.g. 'drop the database'.
+  async confirmWriteOperation({
+    connectionId,
+    operation,
+  }: {
+    connectionId: string | null;
+    operation: string;
+  }): Promise<boolean> {
+    const writeProtection = this.getConnectionWriteProtection(connectionId);
+
+    if (!connectionId || !writeProtection) {
+      return true;
+    }
+
+    const connectionName = this.getSavedConnectionName(connectionId);
+
+    if (writeProtection === 'readOnly') {
+      void vscode.window.showErrorMessage(
+        `Unable to ${operation}: ${connectionName} is a read-only connection.`,
+      );
+      return false;
+    }
+
+    const inputtedConnectionName = await vscode.window.showInputBox({
+      value: '',
+      placeHolder: connectionName,
+      prompt: `${connectionName} is a production connection. Enter the connection name to confirm that you want to ${operation}.`,
+      validateInput: (inputConnectionName: string) => {
+        if (
+          inputConnectionName &&
+          !connectionName.startsWith(inputConnectionName)
+        ) {
+          return 'Connection name does not match';
+        }
+
+        return null;
+      },
+    });
+
+    return inputtedConnectionName === connectionName;
+  }
+
+  // The folders of the connections tree, including the ones that preset
+  // connections are declared in without being created.
+  getConnectionGroups(): StoreConnectionGroupInfo[] {
+    const groups = { ...this._connectionGroups };
+
+    for (const { group } of this.getSavedConnections()) {
+      if (group && !groups[group]) {
+        groups[group] = { name: group, storageLocation: StorageLocation.NONE };
+      }
+    }
+
+    return Object.values(groups);
+  }
+
+  getConnectionGroupName(connectionId: string): string | undefined {
+    return this._connections[connectionId]?.group;
+  }
+
+  private async _inputConnectionGroupName(
+    currentGroupName = '',
+  ): Promise<string | undefined> {
+    const existingGroupNames = this.getConnectionGroups().map(
+      ({ name }) => name,
+    );
+    const groupName = await vscode.window.showInputBox({
+      value: currentGroupName,
+      placeHolder: 'e.g. Production',
+      prompt: 'Enter the folder name.',
+      validateInput: (inputGroupName: string) => {
+        const trimmedGroupName = inputGroupName.trim();
+
+        if (!trimmedGroupName) {
+          return 'Folder name is required';
+        }
+
+        if (trimmedGroupName.length > MAX_CONNECTION_NAME_LENGTH) {
+          return `Folder name too long (Max ${MAX_CONNECTION_NAME_LENGTH} characters).`;
+        }
+
+        if (
+          trimmedGroupName !== currentGroupName &&
+          existingGroupNames.includes(trimmedGroupName)
+        ) {
+          return 'A folder with this name already exists';
+        }
+
+        return null;
+      },
+    });
+
+    return groupName?.trim() || undefined;
+  }
+
+  private async _saveConnectionGroup(
+    group: StoreConnectionGroupInfo,
+  ): Promise<void> {
+    this._connectionGroups[group.name] = group;
+    this.eventEmitter.emit(DataServiceEventTypes.CONNECTIONS_DID_CHANGE);
+
+    await this._connectionStorage.saveConnectionGroup(group);
+  }
+
+  async createConnectionGroup(): Promise<string | undefined> {
+    const groupName = await this._inputConnectionGroupName();
+
+    if (!groupName) {
+      return;
+    }
+
+    await this._saveConnectionGroup({
+      name: groupName,
+      storageLocation:
+        this._connectionStorage.getPreferredStorageLocationFromConfiguration(),
+    });
+
+    return groupName;
+  }
+
+  // Moves a saved connection into a folder, or to the top level of the
+  // connections tree when no folder is given.
+  async moveConnectionToGroup(
+    connectionId: string,
+    groupName: string | undefined,
+  ): Promise<boolean> {
+    const connection = this._connections[connectionId];
+
+    if (!connection || connection.group === groupName) {
+      return false;
+    }
+
+    if (
+      connection.source === 'globalSettings' ||
+      connection.source === 'workspaceSettings'
+    ) {
+      void vscode.window.showErrorMessage(
+        'The folder of a preset connection is set in the mdb.presetConnections setting.',
+      );
+      return false;
+    }
+
+    connection.group = groupName;
+    this.eventEmitter.emit(DataServiceEventTypes.CONNECTIONS_DID_CHANGE);
+
+    await this._connectionStorage.saveConnection(connection);
+
+    return true;
+  }
+
+  async selectConnectionGroup(connectionId: string): Promise<boolean> {
+    const currentGroupName = this.getConnectionGroupName(connectionId);
+    const groupQuickPicks: ConnectionGroupQuickPick[] = [
+      ...this.getConnectionGroups()
+        .map(({ name }) => name)
+        .sort((a, b) => a.localeCompare(b))
+        .map((groupName) => ({
+          label: groupName,
+          description: groupName === currentGroupName ? 'current' : undefined,
+          groupName,
+        })),
+      {
+        label: 'No folder',
+        description: 'Show the connection at the top level',
+      },
+      {
+        label: 'New folder...',
+        isNewGroup: true,
+      },
+    ];
+    const selectedQuickPickItem = await vscode.window.showQuickPick(
+      groupQuickPicks,
+      {
+        placeHolder: `Select the folder to move ${this.getSavedConnectionName(connectionId)} to...`,
+      },
+    );
+
+    if (!selectedQuickPickItem) {
+      return false;
+    }
+
+    const groupName = selectedQuickPickItem.isNewGroup
+      ? await this.createConnectionGroup()
+      : selectedQuickPickItem.groupName;
+
+    if (selectedQuickPickItem.isNewGroup && !groupName) {
+      return false;
+    }
+
+    return this.moveConnectionToGroup(connectionId, groupName);
+  }
+
+  async renameConnectionGroup(groupName: string): Promise<boolean> {
+    const newGroupName = await this._inputConnectionGroupName(groupName);
+
+    if (!newGroupName || newGroupName === groupName) {
+      return false;
+    }
+
+    const group = this._connectionGroups[groupName] ?? {
+      name: groupName,
+      storageLocation:
+        this._connectionStorage.getPreferredStorageLocationFromConfiguration(),
+    };
+
+    delete this._connectionGroups[groupName];
+    await this._connectionStorage.removeConnectionGroup(groupName);
+
+    // Preset connections keep the folder they are declared in.
+    for (const connection of this.getConnectionsFromHistory()) {
+      if (connection.group === groupName) {
+        connection.group = newGroupName;
+        await this._connectionStorage.saveConnection(connection);
+      }
+    }
+
+    await this._saveConnectionGroup({ ...group, name: newGroupName });
+
+    return true;
+  }
+
+  async setConnectionGroupColor(groupName: string): Promise<boolean> {
+    const colorQuickPicks: ConnectionGroupColorQuickPick[] = [
+      { label: 'No color' },
+      ...CONNECTION_GROUP_COLORS.map((color) => ({
+        label: `$(circle-filled) ${color}`,
+        color,
+      })),
+    ];
+    const selectedQuickPickItem = await vscode.window.showQuickPick(
+      colorQuickPicks,
+      { placeHolder: `Select the color of ${groupName}...` },
+    );
+
+    if (!selectedQuickPickItem) {
+      return false;
+    }
+
+    await this._saveConnectionGroup({
+      storageLocation:
+        this._connectionStorage.getPreferredStorageLocationFromConfiguration(),
+      ...this._connectionGroups[groupName],
+      name: groupName,
+      color: selectedQuickPickItem.color,
+    });
+
+    return true;
+  }
+
+  // Removes a folder, its connections are moved to the top level.
+  async removeConnectionGroup(groupName: string): Promise<boolean> {
+    const confirmationResult = await vscode.window.showWarningMessage(
+      `Are you sure you want to remove the folder ${groupName}? Its connections are moved to the top level.`,
+      { modal: true },
+      'Remove',
+    );
+
+    if (confirmationResult !== 'Remove') {
+      return false;
+    }
+
+    delete this._connectionGroups[groupName];
+    await this._connectionStorage.removeConnectionGroup(groupName);
+
+    for (const connection of this.getConnectionsFromHistory()) {
+      if (connection.group === groupName) {
+        connection.group = undefined;
+        await this._connectionStorage.saveConnection(connection);
+      }
+    }
+
+    this.eventEmitter.emit(DataServiceEventTypes.CONNECTIONS_DID_CHANGE);
+
+    return true;
+  }
+
+  private async _inputConnectionsExportPassphrase(
+    prompt: string,
+  ): Promise<string | undefined> {
+    return vscode.window.showInputBox({
+      password: true,
+      prompt,
+      validateInput: (inputPassphrase: string) =>
+        inputPassphrase ? null : 'Passphrase is required',
+    });
+  }
+
+  // Writes the selected saved connections to a JSON file. The secrets of the
+  // connections are either removed or encrypted with a passphrase.
+  async exportConnections(): Promise<boolean> {
+    const connections = this.getSavedConnections();
+
+    if (!connections.length) {
+      void vscode.window.showErrorMessage(
+        'There are no saved connections to export.',
+      );
+      return false;
+    }
+
+    const selectedConnectionQuickPicks = await vscode.window.showQuickPick(
+      connections
+        .map<ConnectionExportQuickPick>(({ id, name, group }) => ({
+          label: name,
+          description: group,
+          picked: true,
+          connectionId: id,
+        }))
+        .sort((a, b) => a.label.localeCompare(b.label)),
+      {
+        canPickMany: true,
+        placeHolder: 'Select the connections to export...',
+      },
+    );
+
+    if (!selectedConnectionQuickPicks?.length) {
+      return false;
+    }
+
+    const secretsQuickPick =
+      await vscode.window.showQuickPick<ConnectionExportSecretsQuickPick>(
+        [
+          {
+            label: 'Remove secrets',
+            description: 'Passwords and other secrets are not exported',
+            encryptSecrets: false,
+          },
+          {
+            label: 'Encrypt secrets',
+            description: 'Secrets are encrypted with a passphrase',
+            encryptSecrets: true,
+          },
+        ],
+        { placeHolder: 'Select how to export the secrets of the connections' },
+      );
+
+    if (!secretsQuickPick) {
+      return false;
+    }
+
+    const passphrase = secretsQuickPick.encryptSecrets
+      ? await this._inputConnectionsExportPassphrase(
+          'Enter the passphrase to encrypt the secrets with. It is needed to import the connections.',
+        )
+      : undefined;
+
+    if (secretsQuickPick.encryptSecrets && !passphrase) {
+      return false;
+    }
+
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const fileName = 'connections.json';
+    const fileUri = await vscode.window.showSaveDialog({
+      defaultUri: workspaceFolder
+        ? vscode.Uri.joinPath(workspaceFolder, fileName)
+        : vscode.Uri.file(fileName),
+      filters: { JSON: ['json'] },
+      saveLabel: 'Export Connections',
+    });
+
+    if (!fileUri) {
+      return false;
+    }
+
+    const connectionIds = selectedConnectionQuickPicks.map(
+      ({ connectionId }) => connectionId,
+    );
+
+    try {
+      await fs.writeFile(
+        fileUri.fsPath,
+        serializeConnections(
+          connections.filter(({ id }) => connectionIds.includes(id)),
+          { passphrase },
+        ),
+      );
+    } catch (error) {
+      void vscode.window.showErrorMessage(
+        `Unable to export connections: ${formatError(error).message}`,
+      );
+      return false;
+    }
+
+    void vscode.window.showInformationMessage(
+      `Exported ${connectionIds.length} connection${
+        connectionIds.length === 1 ? '' : 's'
+      } to ${fileUri.fsPath}`,
+    );
+
+    return true;
+  }
+
+  // Imports the connections of a JSON file exported by this extension or by
+  // MongoDB Compass. Connections with the id of a saved connection replace it
+  // when the user confirms, otherwise they are imported with a new id.
+  async importConnections(): Promise<boolean> {
+    const fileUri = (
+      await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        filters: { JSON: ['json'] },
+        openLabel: 'Import Connections',
+      })
+    )?.[0];
+
+    if (!fileUri) {
+      return false;
+    }
+
+    try {
+      const connectionsExport = parseConnectionsExport(
+        await fs.readFile(fileUri.fsPath, 'utf8'),
+      );
+      const passphrase = hasEncryptedSecrets(connectionsExport)
+        ? await this._inputConnectionsExportPassphrase(
+            'Enter the passphrase the secrets of the connections were encrypted with.',
+          )
+        : undefined;
+
+      if (hasEncryptedSecrets(connectionsExport) && !passphrase) {
+        return false;
+      }
+
+      const importedConnections = deserializeConnections(connectionsExport, {
+        passphrase,
+      });
+
+      const savedConnectionCount = importedConnections.filter(
+        ({ id }) => id && this._connections[id],
+      ).length;
+      let replaceSavedConnections = false;
+
+      if (savedConnectionCount > 0) {
+        const selectedAction = await vscode.window.showWarningMessage(
+          `${savedConnectionCount} of the imported connections ${
+            savedConnectionCount === 1 ? 'is' : 'are'
+          } already saved. Do you want to replace the saved connections or import them as new connections?`,
+          { modal: true },
+          'Replace',
+          'Import as New',
+        );
+
+        if (!selectedAction) {
+          return false;
+        }
+
+        replaceSavedConnections = selectedAction === 'Replace';
+      }
+
+      for (const importedConnection of importedConnections) {
+        const savedConnection = importedConnection.id
+          ? this._connections[importedConnection.id]
+          : undefined;
+        // Preset connections and connections that are in use are never
+        // replaced, the imported connection is added next to them.
+        const replacesSavedConnection =
+          !!savedConnection &&
+          replaceSavedConnections &&
+          savedConnection.source !== 'globalSettings' &&
+          savedConnection.source !== 'workspaceSettings' &&
+          !this.isConnectedToConnection(savedConnection.id) &&
+          this._connectingConnectionId !== savedConnection.id;
+        const connection: LoadedConnection = {
+          ...this._connectionStorage.createNewConnection({
+            connectionOptions: importedConnection.connectionOptions,
+            connectionId:
+              savedConnection && !replacesSavedConnection
+                ? uuidv4()
+                : (importedConnection.id ?? uuidv4()),
+            name: importedConnection.name,
+          }),
+          ...(savedConnection && replacesSavedConnection
+            ? { storageLocation: savedConnection.storageLocation }
+            : {}),
+          // An import never lowers the write protection of a saved connection.
+          writeProtection:
+            savedConnection && replacesSavedConnection
+              ? getStrongerWriteProtection(
+                  savedConnection.writeProtection,
+                  importedConnection.writeProtection,
+                )
+              : importedConnection.writeProtection,
+          group: importedConnection.group,
+        };
+
+        await this._connectionStorage.saveConnection(connection);
+        this._connections[connection.id] = connection;
+      }
+
+      this.eventEmitter.emit(DataServiceEventTypes.CONNECTIONS_DID_CHANGE);
+
+      void vscode.window.showInformationMessage(
+        `Imported ${importedConnections.length} connection${
+          importedConnections.length === 1 ? '' : 's'
+        }.`,
+      );
+
+      return true;
+    } catch (error) {
+      void vscode.window.showErrorMessage(
+        `Unable to import connections: ${formatError(error).message}`,
+      );
+      return false;
+    }
+  }
+
+  addEventListener(
+    eventType: DataServiceEventTypes,
+    listener: () => void,
+  ): void {
+    this.eventEmitter.addListener(eventType, listener);
+  }
+
+  removeEventListener(
+    eventType: DataServiceEventTypes,
+    listener: () => void,
+  ): void {
+    this.eventEmitter.removeListener(eventType, listener);
+  }
 
   deactivate(): void {
     this.eventEmitter.removeAllListeners();
@@ -1002,6 +1982,15 @@ export default class ConnectionController {
     return this._activeDataService !== null;
   }
 
+  isConnectedToConnection(connectionId: string | null): boolean {
+    return this.getConnectedDataService(connectionId) !== null;
+  }
+
+  // The ids of the connected connections, the active one included.
+  getConnectedConnectionIds(): string[] {
+    return Object.keys(this._connectedDataServices);
+  }
+
   getSavedConnections(): LoadedConnection[] {
     return Object.values(this._connections);
   }
@@ -1090,7 +2079,15 @@ export default class ConnectionController {
     return connectionStringData.toString();
   }
 
-  isConnectedToAtlasStreams(): boolean {
+  isConnectedToAtlasStreams(
+    connectionId: string | null = this._currentConnectionId,
+  ): boolean {
+    if (connectionId !== this._currentConnectionId) {
+      const url = this.getMongoClientConnectionOptions(connectionId)?.url;
+
+      return !!url && isAtlasStream(url);
+    }
+
     return (
       this.isCurrentlyConnected() &&
       isAtlasStream(this.getActiveConnectionString())
@@ -1116,7 +2113,71 @@ export default class ConnectionController {
     return this._activeDataService;
   }
 
-  getMongoClientConnectionOptions():
+  // Returns the data service of the connection when it is connected,
+  // whether or not it is the active connection.
+  getConnectedDataService(connectionId: string | null): DataService | null {
+    if (connectionId === this.getActiveConnectionId()) {
+      return this.getActiveDataService();
+    }
+
+    return connectionId
+      ? (this._connectedDataServices[connectionId] ?? null)
+      : null;
+  }
+
+  getPlaygroundConnectionId(playgroundUri?: vscode.Uri): string | null {
+    return (
+      (playgroundUri && this.getPlaygroundBoundConnectionId(playgroundUri)) ||
+      this.getActiveConnectionId()
+    );
+  }
+
+  getPlaygroundBoundConnectionId(
+    playgroundUri: vscode.Uri,
+  ): string | undefined {
+    return this._playgroundConnectionIds[playgroundUri.toString()];
+  }
+
+  setPlaygroundConnectionId(
+    playgroundUri: vscode.Uri,
+    connectionId: string,
+  ): void {
+    this._playgroundConnectionIds[playgroundUri.toString()] = connectionId;
+    this.eventEmitter.emit(
+      DataServiceEventTypes.PLAYGROUND_CONNECTIONS_CHANGED,
+    );
+  }
+
+  private _removePlaygroundConnectionIds(connectionId: string): void {
+    for (const [playgroundUri, playgroundConnectionId] of Object.entries(
+      this._playgroundConnectionIds,
+    )) {
+      if (playgroundConnectionId === connectionId) {
+        delete this._playgroundConnectionIds[playgroundUri];
+      }
+    }
+
+    this.eventEmitter.emit(
+      DataServiceEventTypes.PLAYGROUND_CONNECTIONS_CHANGED,
+    );
+  }
+
+  getConnectionIdForDataService(dataService: DataService): string | null {
+    if (dataService === this.getActiveDataService()) {
+      return this.getActiveConnectionId();
+    }
+
+    return (
+      Object.keys(this._connectedDataServices).find(
+        (connectionId) =>
+          this._connectedDataServices[connectionId] === dataService,
+      ) ?? null
+    );
+  }
+
+  getMongoClientConnectionOptions(
+    connectionId: string | null = this._currentConnectionId,
+  ):
     | {
         url: string;
         options: NonNullable<
@@ -1124,6 +2185,12 @@ export default class ConnectionController {
         >['options'];
       }
     | undefined {
+    if (connectionId !== this._currentConnectionId) {
+      return this.getConnectedDataService(
+        connectionId,
+      )?.getMongoClientConnectionOptions();
+    }
+
     return this._activeDataService?.getMongoClientConnectionOptions();
   }
 
@@ -1159,11 +2226,21 @@ export default class ConnectionController {
   }
 
   getConnectionStatusStringForConnection(connectionId: string): string {
+    if (this.isReconnecting(connectionId)) {
+      return 'reconnecting...';
+    }
+
     if (this.getActiveConnectionId() === connectionId) {
       if (this.isDisconnecting()) {
         return 'disconnecting...';
       }
 
+      return this.getConnectedConnectionIds().length > 1
+        ? 'connected (active)'
+        : 'connected';
+    }
+
+    if (this.isConnectedToConnection(connectionId)) {
       return 'connected';
     }
 
@@ -1180,7 +2257,13 @@ export default class ConnectionController {
   // Exposed for testing.
   clearAllConnections(): void {
     this._connections = {};
+    this._connectionGroups = Object.create(null);
+    for (const connectionId of Object.keys(this._reconnectingConnections)) {
+      this._stopReconnecting(connectionId);
+    }
     this._activeDataService = null;
+    this._connectedDataServices = Object.create(null);
+    this._playgroundConnectionIds = Object.create(null);
     this._currentConnectionId = null;
     this._connectionAttempt?.cancelConnectionAttempt();
     this._connectionAttempt = null;
@@ -1188,6 +2271,36 @@ export default class ConnectionController {
     this._connectingConnectionId = '';
   }
 
+  // Makes a connected connection the active one.
+  setActiveConnection(connectionId: string): void {
+    this._activateConnection(connectionId);
+    this.eventEmitter.emit(DataServiceEventTypes.CONNECTIONS_DID_CHANGE);
+  }
+
+  private _activateConnection(connectionId: string): void {
+    const dataService = this._connectedDataServices[connectionId];
+
+    if (!dataService) {
+      throw new Error('Unable to activate a connection that is not connected.');
+    }
+
+    this._activeDataService = dataService;
+    this._currentConnectionId = connectionId;
+
+    this.eventEmitter.emit(DataServiceEventTypes.ACTIVE_CONNECTION_CHANGED);
+
+    void vscode.commands.executeCommand(
+      'setContext',
+      'mdb.connectedToMongoDB',
+      true,
+    );
+    void vscode.commands.executeCommand(
+      'setContext',
+      'mdb.isAtlasStreams',
+      this.isConnectedToAtlasStreams(),
+    );
+  }
+
   setActiveDataService(newDataService: DataService): void {
     this._activeDataService = newDataService;
 
@@ -1222,6 +2335,9 @@ export default class ConnectionController {
         )
         .map((item: LoadedConnection) => ({
           label: item.name,
+          description: this.isConnectedToConnection(item.id)
+            ? 'connected'
+            : undefined,
           data: {
             type: NewConnectionType.SAVED_CONNECTION,
             connectionId: item.id,
@@ -1255,4 +2371,21 @@ export default class ConnectionController {
     );
     return successfullyConnected;
   }
+
+  // Connects the playground to another connection. The selected connection
+  // also becomes the active one.
+  async changePlaygroundConnection(
+    playgroundUri: vscode.Uri,
+  ): Promise<boolean> {
+    const successfullyConnected = await this.changeActiveConnection();
+    const connectionId = this.getActiveConnectionId();
+
+    if (!successfullyConnected || !connectionId) {
+      return false;
+    }
+
+    this.setPlaygroundConnectionId(playgroundUri, connectionId);
+
+    return true;
+  }
 }
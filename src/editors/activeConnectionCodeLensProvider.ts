@@ -31,6 +31,14 @@ export default class ActiveConnectionCodeLensProvider
       DataServiceEventTypes.ACTIVE_CONNECTION_CHANGED,
       this._activeConnectionChangedHandler,
     );
+    this._connectionController.addEventListener(
+      DataServiceEventTypes.CONNECTIONS_DID_CHANGE,
+      this._activeConnectionChangedHandler,
+    );
+    this._connectionController.addEventListener(
+      DataServiceEventTypes.PLAYGROUND_CONNECTIONS_CHANGED,
+      this._activeConnectionChangedHandler,
+    );
   }
 
   provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
@@ -39,27 +47,39 @@ export default class ActiveConnectionCodeLensProvider
     }
 
     const codeLens = new vscode.CodeLens(new vscode.Range(0, 0, 0, 0));
+    const connectionId = this._connectionController.getPlaygroundConnectionId(
+      document.uri,
+    );
     let message = '';
 
     if (this._connectionController.isConnecting()) {
       message = 'Connecting...';
-    } else if (this._connectionController.getActiveDataService()) {
+    } else if (
+      connectionId &&
+      this._connectionController.isConnectedToConnection(connectionId)
+    ) {
+      const connectionName =
+        this._connectionController.getSavedConnectionName(connectionId);
       const connectionString =
-        this._connectionController.getMongoClientConnectionOptions()?.url;
+        this._connectionController.getMongoClientConnectionOptions(
+          connectionId,
+        )?.url;
       const defaultDB = connectionString
         ? getDBFromConnectionString(connectionString)
         : null;
       message = defaultDB
-        ? `$(mdb-connection-active)Connected to ${this._connectionController.getActiveConnectionName()} with default database ${defaultDB}`
-        : `$(mdb-connection-active)Connected to ${this._connectionController.getActiveConnectionName()}`;
+        ? `$(mdb-connection-active)Connected to ${connectionName} with default database ${defaultDB}`
+        : `$(mdb-connection-active)Connected to ${connectionName}`;
+    } else if (connectionId) {
+      message = `$(mdb-connection-inactive)Connect to ${this._connectionController.getSavedConnectionName(connectionId)}`;
     } else {
       message = '$(mdb-connection-inactive)Connect';
     }
 
     codeLens.command = {
       title: message,
-      command: EXTENSION_COMMANDS.MDB_CHANGE_ACTIVE_CONNECTION,
-      arguments: [],
+      command: EXTENSION_COMMANDS.MDB_CHANGE_PLAYGROUND_CONNECTION,
+      arguments: [document.uri],
     };
 
     return [codeLens];
@@ -70,5 +90,13 @@ export default class ActiveConnectionCodeLensProvider
       DataServiceEventTypes.ACTIVE_CONNECTION_CHANGED,
       this._activeConnectionChangedHandler,
     );
+    this._connectionController.removeEventListener(
+      DataServiceEventTypes.CONNECTIONS_DID_CHANGE,
+      this._activeConnectionChangedHandler,
+    );
+    this._connectionController.removeEventListener(
+      DataServiceEventTypes.PLAYGROUND_CONNECTIONS_CHANGED,
+      this._activeConnectionChangedHandler,
+    );
   }
 }
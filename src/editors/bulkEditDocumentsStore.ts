@@ -0,0 +1,42 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Document } from 'bson';
+
+// When documents are edited in bulk we need to remember what was originally
+// fetched, so that on save we can compute which documents were inserted,
+// updated or deleted. The reference is passed as a part of the URI query.
+export default class BulkEditDocumentsStore {
+  _bulkEdits: {
+    bulkEditReference: string;
+    originalDocuments: Document[];
+  }[] = [];
+
+  add(originalDocuments: Document[]): string {
+    const bulkEditReference = uuidv4();
+
+    this._bulkEdits.push({ bulkEditReference, originalDocuments });
+
+    return bulkEditReference;
+  }
+
+  get(bulkEditReference: string): Document[] | undefined {
+    return this._bulkEdits.find(
+      (item) => item.bulkEditReference === bulkEditReference,
+    )?.originalDocuments;
+  }
+
+  update(bulkEditReference: string, originalDocuments: Document[]): void {
+    const existingBulkEdit = this._bulkEdits.find(
+      (item) => item.bulkEditReference === bulkEditReference,
+    );
+
+    if (existingBulkEdit) {
+      existingBulkEdit.originalDocuments = originalDocuments;
+    }
+  }
+
+  removeByBulkEditReference(bulkEditReference: string): void {
+    this._bulkEdits = this._bulkEdits.filter(
+      (item) => item.bulkEditReference !== bulkEditReference,
+    );
+  }
+}
@@ -14,7 +14,6 @@ export default class CollectionDocumentsCodeLensProvider
 {
   _codeLenses: vscode.CodeLens[] = [];
   _activeOperationsStore: CollectionDocumentsOperationStore;
-  _uri: vscode.Uri = vscode.Uri.parse('');
   _onDidChangeCodeLenses: vscode.EventEmitter<void> =
     new vscode.EventEmitter<void>();
   readonly onDidChangeCodeLenses: vscode.Event<void> =
@@ -30,71 +29,87 @@ export default class CollectionDocumentsCodeLensProvider
 
   provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
     const uriParams = new URLSearchParams(document.uri.query);
+    const namespace = uriParams.get(NAMESPACE_URI_IDENTIFIER);
+    const connectionId = uriParams.get(CONNECTION_ID_URI_IDENTIFIER);
     const operationId = uriParams.get(OPERATION_ID_URI_IDENTIFIER);
 
     if (!operationId) {
       return [];
     }
 
-    if (
-      !this._activeOperationsStore.operations[operationId]
-        .hasMoreDocumentsToShow
-    ) {
+    const operation = this._activeOperationsStore.operations[operationId];
+
+    // All of the documents fit on one page, there is nothing to page through.
+    if (operation.currentPage === 0 && !operation.hasMoreDocumentsToShow) {
       return [];
     }
 
-    // Create a codelens at the second to last line. This should be before
+    // Create the codelenses at the second to last line. This should be before
     // the closing ']'.
-    this._codeLenses = [
-      new vscode.CodeLens(
-        new vscode.Range(
-          new vscode.Position(document.lineCount - 1, 0),
-          new vscode.Position(document.lineCount, 0),
-        ),
-      ),
-    ];
+    const range = new vscode.Range(
+      new vscode.Position(document.lineCount - 1, 0),
+      new vscode.Position(document.lineCount, 0),
+    );
+    const commandArguments = [{ operationId, connectionId, namespace }];
+    const pageNumber = operation.currentPage + 1;
 
-    this._uri = document.uri;
+    if (operation.isCurrentlyFetchingMoreDocuments) {
+      this._codeLenses = [
+        new vscode.CodeLens(range, {
+          title: `... Fetching page ${pageNumber}...`,
+          command: '',
+        }),
+      ];
+      return this._codeLenses;
+    }
 
-    return this._codeLenses;
-  }
+    const firstDocumentNumber = operation.currentPage * operation.pageSize + 1;
+    const pageTitle =
+      operation.documents.length > 0
+        ? `... Page ${pageNumber}, showing documents ${firstDocumentNumber}-${
+            firstDocumentNumber + operation.documents.length - 1
+          }.`
+        : `... Page ${pageNumber}, no documents.`;
 
-  resolveCodeLens?(codeLens: vscode.CodeLens): vscode.CodeLens {
-    const uriParams = new URLSearchParams(this._uri.query);
-    const namespace = uriParams.get(NAMESPACE_URI_IDENTIFIER);
-    const connectionId = uriParams.get(CONNECTION_ID_URI_IDENTIFIER);
-    const operationId = uriParams.get(OPERATION_ID_URI_IDENTIFIER);
+    this._codeLenses = [
+      new vscode.CodeLens(range, {
+        title: pageTitle,
+        tooltip: `Showing ${operation.pageSize} documents per page, this amount can be changed in the extension settings.`,
+        command: '',
+      }),
+    ];
 
-    if (!operationId) {
-      return codeLens;
+    if (operation.currentPage > 0) {
+      this._codeLenses.push(
+        new vscode.CodeLens(range, {
+          title: 'Previous page',
+          tooltip: `Open page ${pageNumber - 1}.`,
+          command: EXTENSION_COMMANDS.MDB_CODELENS_SHOW_PREVIOUS_DOCUMENTS_PAGE,
+          arguments: commandArguments,
+        }),
+      );
     }
 
-    const operation = this._activeOperationsStore.operations[operationId];
-    const amountOfDocs = operation.currentLimit;
-
-    let commandTitle;
-    let commandTooltip;
-
-    if (operation.isCurrentlyFetchingMoreDocuments) {
-      commandTitle = `... Fetching ${amountOfDocs} documents...`;
-      commandTooltip =
-        'Currently fetching more documents. The amount of documents fetched can be adjusted in the extension settings.';
-    } else {
-      const additionalDocumentsToFetch = vscode.workspace
-        .getConfiguration('mdb')
-        .get('defaultLimit');
-
-      commandTitle = `... Showing ${amountOfDocs} documents. Click to open ${additionalDocumentsToFetch} more documents.`;
-      commandTooltip = `Click to open ${additionalDocumentsToFetch} more documents, this amount can be changed in the extension settings.`;
+    if (operation.hasMoreDocumentsToShow) {
+      this._codeLenses.push(
+        new vscode.CodeLens(range, {
+          title: 'Next page',
+          tooltip: `Open page ${pageNumber + 1}.`,
+          command: EXTENSION_COMMANDS.MDB_CODELENS_SHOW_NEXT_DOCUMENTS_PAGE,
+          arguments: commandArguments,
+        }),
+      );
     }
 
-    codeLens.command = {
-      title: commandTitle,
-      tooltip: commandTooltip,
-      command: EXTENSION_COMMANDS.MDB_CODELENS_SHOW_MORE_DOCUMENTS,
-      arguments: [{ operationId, connectionId, namespace }],
-    };
+    this._codeLenses.push(
+      new vscode.CodeLens(range, {
+        title: 'Go to page...',
+        tooltip: 'Jump to a page of documents.',
+        command: EXTENSION_COMMANDS.MDB_CODELENS_GO_TO_DOCUMENTS_PAGE,
+        arguments: commandArguments,
+      }),
+    );
 
-    return codeLens;
+    return this._codeLenses;
   }
 }
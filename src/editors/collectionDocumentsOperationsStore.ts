@@ -1,45 +1,67 @@
 import { v4 as uuidv4 } from 'uuid';
 import * as vscode from 'vscode';
+import type { Document } from 'bson';
+
+import type { DocumentFilter } from '../types/documentFilterType';
 
 export class CollectionDocumentsOperation {
-  currentLimit: number;
+  pageSize: number;
+  // Zero based index of the page currently shown.
+  currentPage = 0;
+  // The documents shown on the current page, used when editing them in bulk.
+  documents: Document[] = [];
   hasMoreDocumentsToShow = true;
   isCurrentlyFetchingMoreDocuments = false;
+  documentFilter: DocumentFilter | null;
+  // The `_id` of the last document of each fetched page. The next page
+  // resumes from there with a range query instead of re-reading the prefix.
+  lastIdOfPage: unknown[] = [];
+
+  constructor(pageSize: number, documentFilter: DocumentFilter | null = null) {
+    this.pageSize = pageSize;
+    this.documentFilter = documentFilter;
+  }
+
+  // A range query on `_id` needs the documents to be sorted by `_id`,
+  // so a user defined sort or a projection without `_id` falls back to skip.
+  canPageByIdRange(): boolean {
+    const sort = this.documentFilter?.sort;
+    const projection = this.documentFilter?.projection;
 
-  constructor(initialDocumentsLimit: number) {
-    this.currentLimit = initialDocumentsLimit;
+    if (sort && Object.keys(sort).length > 0) {
+      return false;
+    }
+
+    return !projection || (projection._id !== 0 && projection._id !== false);
   }
 }
 
 const DEFAULT_LIMIT_CONFIG_NAME = 'defaultLimit';
 
-// In order to provide `show more documents...` code lens functionality we
-// need to store the current limit of documents outside of each document.
+// In order to provide the paging code lenses we need to store the current
+// page of documents outside of each document.
 // This store helps maintain the metadata around the queries that have been run.
 export default class CollectionDocumentsOperationsStore {
   operations: { [key: string]: CollectionDocumentsOperation } = {};
 
-  createNewOperation(): string {
+  createNewOperation(documentFilter: DocumentFilter | null = null): string {
     const operationId = uuidv4();
 
-    const initialDocumentsLimit = vscode.workspace
+    const pageSize = vscode.workspace
       .getConfiguration('mdb')
       .get(DEFAULT_LIMIT_CONFIG_NAME);
     this.operations[operationId] = new CollectionDocumentsOperation(
-      Number(initialDocumentsLimit),
+      Number(pageSize),
+      documentFilter,
     );
 
     return operationId;
   }
 
-  increaseOperationDocumentLimit(operationId: string): void {
-    this.operations[operationId].isCurrentlyFetchingMoreDocuments = false;
+  setOperationPage(operationId: string, page: number): void {
+    const operation = this.operations[operationId];
 
-    const additionalDocumentsToFetch = vscode.workspace
-      .getConfiguration('mdb')
-      .get(DEFAULT_LIMIT_CONFIG_NAME);
-    this.operations[operationId].currentLimit += Number(
-      additionalDocumentsToFetch,
-    );
+    operation.isCurrentlyFetchingMoreDocuments = true;
+    operation.currentPage = Math.max(0, Math.floor(page));
   }
 }
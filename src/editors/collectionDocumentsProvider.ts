@@ -1,7 +1,9 @@
 import * as vscode from 'vscode';
 import { URLSearchParams } from 'url';
+import type { Document } from 'bson';
 
 import type CollectionDocumentsOperationsStore from './collectionDocumentsOperationsStore';
+import type { CollectionDocumentsOperation } from './collectionDocumentsOperationsStore';
 import type ConnectionController from '../connectionController';
 import type EditDocumentCodeLensProvider from './editDocumentCodeLensProvider';
 import formatError from '../utils/formatError';
@@ -60,10 +62,9 @@ export default class CollectionViewProvider
     }
 
     const operation = this._operationsStore.operations[operationId];
-    const documentLimit = operation.currentLimit;
 
     // Ensure we're still connected to the correct connection.
-    if (connectionId !== this._connectionController.getActiveConnectionId()) {
+    if (!this._connectionController.isConnectedToConnection(connectionId)) {
       operation.isCurrentlyFetchingMoreDocuments = false;
       const oldConnectionName =
         this._connectionController.getSavedConnectionName(connectionId || '') ||
@@ -79,7 +80,8 @@ export default class CollectionViewProvider
 
     this._statusView.showMessage('Fetching documents...');
 
-    const dataservice = this._connectionController.getActiveDataService();
+    const dataservice =
+      this._connectionController.getConnectedDataService(connectionId);
 
     if (dataservice === null) {
       const errorMessage = 'Unable to list documents: no longer connected';
@@ -90,23 +92,40 @@ export default class CollectionViewProvider
     }
 
     try {
-      const documents = await dataservice.find(
-        namespace,
-        {}, // No filter.
-        { limit: documentLimit },
-      );
+      const { filter, options, isIdRange } = this._getPageQuery(operation);
+      let documents = await dataservice.find(namespace, filter, options);
+
+      // A range query on `_id` only matches the `_id`s of the same BSON type
+      // as the last `_id`, so a page that ends early can be missing the
+      // documents whose `_id`s are of a type that sorts after it.
+      if (isIdRange && documents.length < operation.pageSize) {
+        const skipQuery = this._getPageQuery(operation, {
+          resumeAfterLastId: false,
+        });
+        documents = await dataservice.find(
+          namespace,
+          skipQuery.filter,
+          skipQuery.options,
+        );
+      }
 
       operation.isCurrentlyFetchingMoreDocuments = false;
       this._statusView.hideMessage();
 
-      if (documents.length !== documentLimit) {
-        operation.hasMoreDocumentsToShow = false;
+      operation.documents = documents;
+      operation.hasMoreDocumentsToShow =
+        documents.length === operation.pageSize;
+
+      const lastDocument = documents[documents.length - 1];
+      if (operation.canPageByIdRange() && lastDocument?._id !== undefined) {
+        operation.lastIdOfPage[operation.currentPage] = lastDocument._id;
       }
 
       this._editDocumentCodeLensProvider.updateCodeLensesForCollection({
         content: documents,
         namespace,
         uri,
+        connectionId,
       });
 
       return JSON.stringify(documents, null, 2);
@@ -115,9 +134,70 @@ export default class CollectionViewProvider
         formatError(error).message
       }`;
 
+      operation.isCurrentlyFetchingMoreDocuments = false;
       void vscode.window.showErrorMessage(errorMessage);
 
       throw Error(errorMessage);
     }
   }
+
+  _getPageQuery(
+    operation: CollectionDocumentsOperation,
+    { resumeAfterLastId = true }: { resumeAfterLastId?: boolean } = {},
+  ): {
+    filter: Document;
+    options: Document;
+    isIdRange: boolean;
+  } {
+    const { documentFilter, currentPage, pageSize } = operation;
+    const filter = documentFilter?.filter ?? {};
+    const options: Document = {
+      limit: pageSize,
+      ...(documentFilter?.projection
+        ? { projection: documentFilter.projection }
+        : {}),
+      ...(documentFilter?.sort ? { sort: documentFilter.sort } : {}),
+    };
+    const withSkip = (skip: number): Document =>
+      skip > 0 ? { ...options, skip } : options;
+
+    if (!operation.canPageByIdRange()) {
+      return {
+        filter,
+        options: withSkip(currentPage * pageSize),
+        isIdRange: false,
+      };
+    }
+
+    options.sort = { _id: 1 };
+
+    // Resume after the closest preceding page we know the last `_id` of,
+    // and only skip over the pages in between when jumping ahead.
+    for (
+      let page = resumeAfterLastId ? currentPage - 1 : -1;
+      page >= 0;
+      page--
+    ) {
+      const lastId = operation.lastIdOfPage[page];
+
+      if (lastId !== undefined) {
+        const idRange = { _id: { $gt: lastId } };
+
+        return {
+          filter:
+            Object.keys(filter).length > 0
+              ? { $and: [filter, idRange] }
+              : idRange,
+          options: withSkip((currentPage - page - 1) * pageSize),
+          isIdRange: true,
+        };
+      }
+    }
+
+    return {
+      filter,
+      options: withSkip(currentPage * pageSize),
+      isIdRange: false,
+    };
+  }
 }
@@ -1,30 +1,39 @@
 import { v4 as uuidv4 } from 'uuid';
+import type { Document } from 'bson';
 
 // In order to provide opening documents with various _id types we need
 // to pass the documentId and create associated documentIdReference.
 // documentId can potentially be large, therefore we want to avoid
 // passing it as a part of URI query.
+// We also keep the document as it was fetched, so that on save we can
+// check whether it was changed on the server in the meantime.
 export default class DocumentIdStore {
   _documents: {
     documentIdReference: string;
     documentId: any;
+    originalDocument?: Document;
   }[] = [];
 
-  add(documentId: any): string {
+  add(documentId: any, originalDocument?: Document): string {
     const existingDocument = this._documents.find(
       (item) => item.documentId === documentId,
     );
 
     if (existingDocument) {
+      existingDocument.originalDocument =
+        originalDocument ?? existingDocument.originalDocument;
+
       return existingDocument.documentIdReference;
     }
 
     const newDocument: {
       documentIdReference: string;
       documentId: any;
+      originalDocument?: Document;
     } = {
       documentIdReference: uuidv4(),
       documentId,
+      originalDocument,
     };
 
     this._documents.push(newDocument);
@@ -40,6 +49,27 @@ export default class DocumentIdStore {
     return existingDocument?.documentId;
   }
 
+  getOriginalDocument(documentIdReference: string): Document | undefined {
+    const existingDocument = this._documents.find(
+      (item) => item.documentIdReference === documentIdReference,
+    );
+
+    return existingDocument?.originalDocument;
+  }
+
+  setOriginalDocument(
+    documentIdReference: string,
+    originalDocument: Document,
+  ): void {
+    const existingDocument = this._documents.find(
+      (item) => item.documentIdReference === documentIdReference,
+    );
+
+    if (existingDocument) {
+      existingDocument.originalDocument = originalDocument;
+    }
+  }
+
   removeByDocumentIdReference(documentIdReference: string): void {
     this._documents = this._documents.filter(
       (item) => item.documentIdReference !== documentIdReference,
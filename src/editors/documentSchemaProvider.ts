@@ -0,0 +1,261 @@
+import * as vscode from 'vscode';
+import { URLSearchParams } from 'url';
+
+import type ConnectionController from '../connectionController';
+import { DataServiceEventTypes } from '../connectionController';
+import {
+  CONNECTION_ID_URI_IDENTIFIER,
+  NAMESPACE_URI_IDENTIFIER,
+} from './collectionDocumentsProvider';
+import { createLogger } from '../logging';
+import type {
+  DocumentJSONSchema,
+  DocumentSchemaSource,
+} from '../utils/documentSchema';
+import {
+  getDocumentSchemaFromSample,
+  getDocumentSchemaProblems,
+  getSchemaAtPath,
+  getSchemaBsonTypes,
+} from '../utils/documentSchema';
+import { getSampledSchema } from '../explorer/schemaTreeItem';
+import {
+  getJSONLocation,
+  getJSONPropertyAtOffset,
+  parseJSONTree,
+} from '../utils/jsonTree';
+import { VIEW_DOCUMENT_SCHEME } from './mongoDBDocumentService';
+
+const log = createLogger('document schema provider');
+
+export type DocumentSchemaInfo = {
+  namespace: string;
+  source: DocumentSchemaSource;
+  schema: DocumentJSONSchema;
+};
+
+/**
+ * Provides field name completion, type hints and schema warnings for the
+ * documents opened in the editor. The schema comes from the `$jsonSchema`
+ * validator of the collection when it has one, otherwise from sampled documents.
+ */
+export default class DocumentSchemaProvider
+  implements vscode.CompletionItemProvider, vscode.HoverProvider
+{
+  _connectionController: ConnectionController;
+  _diagnosticCollection: vscode.DiagnosticCollection;
+  _schemas = new Map<string, Promise<DocumentSchemaInfo | undefined>>();
+
+  constructor(connectionController: ConnectionController) {
+    this._connectionController = connectionController;
+    this._diagnosticCollection = vscode.languages.createDiagnosticCollection(
+      'mongodb-document-schema',
+    );
+
+    this._connectionController.addEventListener(
+      DataServiceEventTypes.ACTIVE_CONNECTION_CHANGED,
+      () => this._schemas.clear(),
+    );
+  }
+
+  async getDocumentSchema(
+    uri: vscode.Uri,
+  ): Promise<DocumentSchemaInfo | undefined> {
+    const uriParams = new URLSearchParams(uri.query);
+    const namespace = uriParams.get(NAMESPACE_URI_IDENTIFIER);
+    const connectionId = uriParams.get(CONNECTION_ID_URI_IDENTIFIER);
+
+    if (
+      uri.scheme !== VIEW_DOCUMENT_SCHEME ||
+      !namespace ||
+      !connectionId ||
+      !this._connectionController.isConnectedToConnection(connectionId)
+    ) {
+      return;
+    }
+
+    const cacheKey = `${connectionId}:${namespace}`;
+    let schemaInfo = this._schemas.get(cacheKey);
+
+    if (!schemaInfo) {
+      schemaInfo = this._fetchDocumentSchema(namespace, connectionId);
+      this._schemas.set(cacheKey, schemaInfo);
+    }
+
+    return schemaInfo;
+  }
+
+  async _fetchDocumentSchema(
+    namespace: string,
+    connectionId: string | null,
+  ): Promise<DocumentSchemaInfo | undefined> {
+    const dataService =
+      this._connectionController.getConnectedDataService(connectionId);
+
+    if (!dataService) {
+      return;
+    }
+
+    try {
+      const [database, ...collection] = namespace.split('.');
+      const collectionInfo = await dataService.collectionInfo(
+        database,
+        collection.join('.'),
+      );
+      const validatorSchema =
+        collectionInfo?.validation?.validator?.$jsonSchema;
+
+      // The validator is what the server enforces, so it takes precedence.
+      if (validatorSchema) {
+        return { namespace, source: 'validator', schema: validatorSchema };
+      }
+
+      const sampledSchema = await getSampledSchema(dataService, namespace);
+
+      return sampledSchema
+        ? {
+            namespace,
+            source: 'sample',
+            schema: getDocumentSchemaFromSample(sampledSchema),
+          }
+        : undefined;
+    } catch (error) {
+      log.error('Unable to get the schema of the documents', error);
+    }
+  }
+
+  // Documents edited in bulk are an array of documents.
+  _getRootSchema(text: string, schema: DocumentJSONSchema): DocumentJSONSchema {
+    return text.trimStart().startsWith('[')
+      ? { bsonType: 'array', items: schema }
+      : schema;
+  }
+
+  async updateDiagnostics(document: vscode.TextDocument): Promise<void> {
+    const schemaInfo = await this.getDocumentSchema(document.uri);
+    const text = document.getText();
+    const tree = parseJSONTree(text);
+
+    // Invalid JSON is already reported by the JSON language support.
+    if (!schemaInfo || !tree) {
+      this._diagnosticCollection.delete(document.uri);
+      return;
+    }
+
+    const severity =
+      schemaInfo.source === 'validator'
+        ? vscode.DiagnosticSeverity.Error
+        : vscode.DiagnosticSeverity.Warning;
+    const problems = getDocumentSchemaProblems(
+      tree,
+      this._getRootSchema(text, schemaInfo.schema),
+      schemaInfo.source,
+    );
+
+    this._diagnosticCollection.set(
+      document.uri,
+      problems.map(({ offset, length, message }) => {
+        const diagnostic = new vscode.Diagnostic(
+          new vscode.Range(
+            document.positionAt(offset),
+            document.positionAt(offset + length),
+          ),
+          message,
+          severity,
+        );
+        diagnostic.source = 'MongoDB';
+
+        return diagnostic;
+      }),
+    );
+  }
+
+  clearDiagnostics(uri: vscode.Uri): void {
+    this._diagnosticCollection.delete(uri);
+  }
+
+  async provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+  ): Promise<vscode.CompletionItem[]> {
+    const text = document.getText();
+    const location = getJSONLocation(text, document.offsetAt(position));
+
+    if (!location.isAtPropertyKey) {
+      return [];
+    }
+
+    const schemaInfo = await this.getDocumentSchema(document.uri);
+    const objectSchema =
+      schemaInfo &&
+      getSchemaAtPath(
+        this._getRootSchema(text, schemaInfo.schema),
+        location.path,
+      );
+
+    return Object.entries(objectSchema?.properties ?? {}).map(
+      ([fieldName, fieldSchema]) => {
+        const item = new vscode.CompletionItem(
+          fieldName,
+          vscode.CompletionItemKind.Field,
+        );
+        item.detail = getSchemaBsonTypes(fieldSchema).join(' | ');
+        item.documentation = fieldSchema.description;
+
+        if (location.keyStringOffset !== undefined) {
+          // Replace the field name that is being typed, including its quote.
+          item.range = new vscode.Range(
+            document.positionAt(location.keyStringOffset),
+            position,
+          );
+          item.insertText = `"${fieldName}"`;
+          item.filterText = `"${fieldName}"`;
+        } else {
+          item.insertText = `"${fieldName}": `;
+        }
+
+        return item;
+      },
+    );
+  }
+
+  async provideHover(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+  ): Promise<vscode.Hover | undefined> {
+    const text = document.getText();
+    const tree = parseJSONTree(text);
+    const found =
+      tree && getJSONPropertyAtOffset(tree, document.offsetAt(position));
+
+    if (!found) {
+      return;
+    }
+
+    const schemaInfo = await this.getDocumentSchema(document.uri);
+    const fieldSchema =
+      schemaInfo &&
+      getSchemaAtPath(this._getRootSchema(text, schemaInfo.schema), found.path);
+
+    if (!schemaInfo || !fieldSchema) {
+      return;
+    }
+
+    const contents = new vscode.MarkdownString();
+    contents.appendMarkdown(
+      `**${found.key}**: ${getSchemaBsonTypes(fieldSchema).join(' | ')}`,
+    );
+
+    if (fieldSchema.description) {
+      contents.appendMarkdown(`\n\n${fieldSchema.description}`);
+    }
+
+    contents.appendMarkdown(
+      schemaInfo.source === 'validator'
+        ? `\n\nFrom the $jsonSchema validator of \`${schemaInfo.namespace}\`.`
+        : `\n\nFrom sampled documents of \`${schemaInfo.namespace}\`.`,
+    );
+
+    return new vscode.Hover(contents);
+  }
+}
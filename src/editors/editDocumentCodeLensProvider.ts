@@ -33,6 +33,7 @@ export default class EditDocumentCodeLensProvider
     content: Document;
     namespace?: string;
     uri: vscode.Uri;
+    connectionId?: string | null;
   }): void {
     let resultCodeLensesInfo: EditDocumentInfo[] = [];
 
@@ -44,7 +45,12 @@ export default class EditDocumentCodeLensProvider
     this._codeLensesInfo[data.uri.toString()] = resultCodeLensesInfo;
   }
 
-  updateCodeLensesForPlayground(playgroundResult: PlaygroundRunResult): void {
+  updateCodeLensesForPlayground(
+    playgroundResult: PlaygroundRunResult,
+    connectionId:
+      | string
+      | null = this._connectionController.getActiveConnectionId(),
+  ): void {
     const source = DocumentSource.DOCUMENT_SOURCE_PLAYGROUND;
     let resultCodeLensesInfo: EditDocumentInfo[] = [];
 
@@ -55,7 +61,7 @@ export default class EditDocumentCodeLensProvider
     }
 
     const { content, namespace, type } = playgroundResult;
-    const data = { content, namespace, source };
+    const data = { content, namespace, source, connectionId };
 
     // Show code lenses only for the list of documents or a single document
     // that are returned by the find() method.
@@ -73,12 +79,17 @@ export default class EditDocumentCodeLensProvider
     content: any;
     namespace?: string;
     source: DocumentSource;
+    connectionId?: string | null;
   }): EditDocumentInfo[] {
     const resultCodeLensesInfo: EditDocumentInfo[] = [];
 
     if (Array.isArray(data.content)) {
-      const connectionId = this._connectionController.getActiveConnectionId();
-      const { content, namespace, source } = data;
+      const {
+        content,
+        namespace,
+        source,
+        connectionId = this._connectionController.getActiveConnectionId(),
+      } = data;
 
       // When the playground result is the collection,
       // show the first code lense after [{.
@@ -111,13 +122,17 @@ export default class EditDocumentCodeLensProvider
     content: any;
     namespace?: string;
     source: DocumentSource;
+    connectionId?: string | null;
   }): EditDocumentInfo[] {
-    const { content, namespace, source } = data;
+    const {
+      content,
+      namespace,
+      source,
+      connectionId = this._connectionController.getActiveConnectionId(),
+    } = data;
     const resultCodeLensesInfo: EditDocumentInfo[] = [];
 
     if (content._id && namespace) {
-      const connectionId = this._connectionController.getActiveConnectionId();
-
       // When the playground result is the single document,
       // show the single code lense after {.
       resultCodeLensesInfo.push({
@@ -1,5 +1,7 @@
 import * as vscode from 'vscode';
-import { EJSON } from 'bson';
+import fs from 'fs';
+import path from 'path';
+import { EJSON, ObjectId } from 'bson';
 import type { Document } from 'bson';
 
 import type ActiveConnectionCodeLensProvider from './activeConnectionCodeLensProvider';
@@ -9,6 +11,7 @@ import PlaygroundDiagnosticsCodeActionProvider from './playgroundDiagnosticsCode
 import type ConnectionController from '../connectionController';
 import CollectionDocumentsCodeLensProvider from './collectionDocumentsCodeLensProvider';
 import CollectionDocumentsOperationsStore from './collectionDocumentsOperationsStore';
+import type { CollectionDocumentsOperation } from './collectionDocumentsOperationsStore';
 import CollectionDocumentsProvider, {
   CONNECTION_ID_URI_IDENTIFIER,
   OPERATION_ID_URI_IDENTIFIER,
@@ -16,13 +19,42 @@ import CollectionDocumentsProvider, {
   VIEW_COLLECTION_SCHEME,
 } from './collectionDocumentsProvider';
 import { createLogger } from '../logging';
+import BulkEditDocumentsStore from './bulkEditDocumentsStore';
+import type { BulkEditChanges } from '../utils/bulkEditChanges';
+import {
+  getBulkEditChanges,
+  getBulkEditSummary,
+  hasBulkEditChanges,
+} from '../utils/bulkEditChanges';
 import DocumentIdStore from './documentIdStore';
-import type { DocumentSource } from '../documentSource';
+import DocumentSchemaProvider from './documentSchemaProvider';
+import type { DocumentUpdate } from '../utils/documentUpdate';
+import {
+  getDocumentUpdate,
+  getDocumentUpdatePaths,
+} from '../utils/documentUpdate';
+import type { DocumentFilter } from '../types/documentFilterType';
+import { DocumentSource } from '../documentSource';
 import type EditDocumentCodeLensProvider from './editDocumentCodeLensProvider';
 import type { EditDocumentInfo } from '../types/editDocumentInfoType';
 import formatError from '../utils/formatError';
+import { createFileWriter } from '../utils/fileWriter';
 import { MemoryFileSystemProvider } from './memoryFileSystemProvider';
+import {
+  getCanonicalEJSON,
+  getEJSON,
+  getEJSONFromCanonical,
+} from '../utils/ejson';
+import type {
+  CsvNestedFieldsMode,
+  ResultsExportFormat,
+} from '../utils/resultsExport';
+import {
+  exportResults,
+  RESULTS_EXPORT_FILE_EXTENSIONS,
+} from '../utils/resultsExport';
 import MongoDBDocumentService, {
+  BULK_EDIT_URI_IDENTIFIER,
   DOCUMENT_ID_URI_IDENTIFIER,
   DOCUMENT_SOURCE_URI_IDENTIFIER,
   VIEW_DOCUMENT_SCHEME,
@@ -30,12 +62,52 @@ import MongoDBDocumentService, {
 import type PlaygroundController from './playgroundController';
 import type PlaygroundResultProvider from './playgroundResultProvider';
 import { PLAYGROUND_RESULT_SCHEME } from './playgroundResultProvider';
+import { isExportToLanguageResult } from '../types/playgroundType';
 import { StatusView } from '../views';
 import type { TelemetryService } from '../telemetry';
 import type { QueryWithCopilotCodeLensProvider } from './queryWithCopilotCodeLensProvider';
 
 const log = createLogger('editors controller');
 
+type ResultsToExport = {
+  fileName: string;
+  getDocuments: (
+    token: vscode.CancellationToken,
+  ) => Iterable<Document> | AsyncIterable<Document>;
+};
+
+const RESULTS_EXPORT_FORMAT_ITEMS: (vscode.QuickPickItem & {
+  format: ResultsExportFormat;
+})[] = [
+  { label: 'CSV', format: 'csv' },
+  {
+    label: 'JSON Lines',
+    description: 'A relaxed extended JSON document per line',
+    format: 'ndjson',
+  },
+  { label: 'Extended JSON (relaxed)', format: 'ejson-relaxed' },
+  {
+    label: 'Extended JSON (canonical)',
+    description: 'Keeps the type of every value',
+    format: 'ejson-canonical',
+  },
+];
+
+const CSV_NESTED_FIELDS_ITEMS: (vscode.QuickPickItem & {
+  mode: CsvNestedFieldsMode;
+})[] = [
+  {
+    label: 'Flatten nested fields',
+    description: 'A column per field path, e.g. crew.commander',
+    mode: 'flatten',
+  },
+  {
+    label: 'Keep nested fields as JSON',
+    description: 'A column per top-level field',
+    mode: 'json',
+  },
+];
+
 export function getFileDisplayNameForDocument(
   documentId: any,
   namespace: string,
@@ -96,6 +168,8 @@ export default class EditorsController {
   _statusView: StatusView;
   _memoryFileSystemProvider: MemoryFileSystemProvider;
   _documentIdStore: DocumentIdStore;
+  _documentSchemaProvider: DocumentSchemaProvider;
+  _bulkEditDocumentsStore: BulkEditDocumentsStore;
   _mongoDBDocumentService: MongoDBDocumentService;
   _telemetryService: TelemetryService;
   _playgroundResultProvider: PlaygroundResultProvider;
@@ -139,6 +213,10 @@ export default class EditorsController {
     this._telemetryService = telemetryService;
     this._memoryFileSystemProvider = new MemoryFileSystemProvider();
     this._documentIdStore = new DocumentIdStore();
+    this._bulkEditDocumentsStore = new BulkEditDocumentsStore();
+    this._documentSchemaProvider = new DocumentSchemaProvider(
+      this._connectionController,
+    );
     this._mongoDBDocumentService = new MongoDBDocumentService({
       context: this._context,
       connectionController: this._connectionController,
@@ -172,15 +250,38 @@ export default class EditorsController {
         uriParams.get(DOCUMENT_ID_URI_IDENTIFIER) || '';
 
       this._documentIdStore.removeByDocumentIdReference(documentIdReference);
+      this._bulkEditDocumentsStore.removeByBulkEditReference(
+        uriParams.get(BULK_EDIT_URI_IDENTIFIER) || '',
+      );
+      this._documentSchemaProvider.clearDiagnostics(e.uri);
     });
+    this._context.subscriptions.push(
+      this._documentSchemaProvider._diagnosticCollection,
+      vscode.workspace.onDidOpenTextDocument((document) => {
+        if (document.uri.scheme === VIEW_DOCUMENT_SCHEME) {
+          void this._documentSchemaProvider.updateDiagnostics(document);
+        }
+      }),
+      vscode.workspace.onDidChangeTextDocument(({ document }) => {
+        if (document.uri.scheme === VIEW_DOCUMENT_SCHEME) {
+          void this._documentSchemaProvider.updateDiagnostics(document);
+        }
+      }),
+    );
   }
 
   async openMongoDBDocument(data: EditDocumentInfo): Promise<boolean> {
     try {
-      const mdbDocument =
-        await this._mongoDBDocumentService.fetchDocument(data);
+      // Fetched in the canonical format so the version compared with the
+      // server on save keeps the numeric types of its values.
+      const originalDocument = await this._mongoDBDocumentService.fetchDocument(
+        data,
+        {
+          canonical: true,
+        },
+      );
 
-      if (!mdbDocument) {
+      if (!originalDocument) {
         void vscode.window.showErrorMessage(`
           Unable to open mongodb document: document ${JSON.stringify(
             data.documentId,
@@ -190,11 +291,14 @@ export default class EditorsController {
         return false;
       }
 
-      const activeConnectionId =
-        this._connectionController.getActiveConnectionId() || '';
       const namespaceUriQuery = `${NAMESPACE_URI_IDENTIFIER}=${data.namespace}`;
-      const connectionIdUriQuery = `${CONNECTION_ID_URI_IDENTIFIER}=${activeConnectionId}`;
-      const documentIdReference = this._documentIdStore.add(data.documentId);
+      const connectionIdUriQuery = `${CONNECTION_ID_URI_IDENTIFIER}=${
+        data.connectionId || ''
+      }`;
+      const documentIdReference = this._documentIdStore.add(
+        data.documentId,
+        originalDocument,
+      );
       const documentIdUriQuery = `${DOCUMENT_ID_URI_IDENTIFIER}=${documentIdReference}`;
       const documentSourceUriQuery = `${DOCUMENT_SOURCE_URI_IDENTIFIER}=${data.source}`;
 
@@ -207,7 +311,10 @@ export default class EditorsController {
         query: `?${namespaceUriQuery}&${connectionIdUriQuery}&${documentIdUriQuery}&${documentSourceUriQuery}`,
       });
 
-      this._saveDocumentToMemoryFileSystem(fileUri, mdbDocument);
+      this._saveDocumentToMemoryFileSystem(
+        fileUri,
+        getEJSONFromCanonical(originalDocument),
+      );
 
       const document = await vscode.workspace.openTextDocument(fileUri);
 
@@ -229,6 +336,19 @@ export default class EditorsController {
       return false;
     }
 
+    const bulkEditReference = new URLSearchParams(
+      editor.document.uri.query,
+    ).get(BULK_EDIT_URI_IDENTIFIER);
+
+    // Documents of a collection that are edited together as an array.
+    if (bulkEditReference) {
+      return this._saveMongoDBDocuments(editor, bulkEditReference);
+    }
+
+    return this._saveMongoDBDocument(editor);
+  }
+
+  async _saveMongoDBDocument(editor: vscode.TextEditor): Promise<boolean> {
     const uriParams = new URLSearchParams(editor.document.uri.query);
     const namespace = uriParams.get(NAMESPACE_URI_IDENTIFIER);
     const connectionId = uriParams.get(CONNECTION_ID_URI_IDENTIFIER);
@@ -252,22 +372,481 @@ export default class EditorsController {
       return false;
     }
 
+    if (
+      !(await this._connectionController.confirmWriteOperation({
+        connectionId,
+        operation: 'save the document',
+      }))
+    ) {
+      return false;
+    }
+
     try {
       const newDocument = EJSON.parse(editor.document.getText() || '');
 
-      await this._mongoDBDocumentService.replaceDocument({
+      if (
+        !(await this._writeMongoDBDocument({
+          editor,
+          documentIdReference,
+          documentId,
+          namespace,
+          connectionId,
+          newDocument,
+          source,
+        }))
+      ) {
+        return false;
+      }
+
+      // What we saved is now the version we compare with on the next save.
+      this._documentIdStore.setOriginalDocument(
+        documentIdReference,
+        getCanonicalEJSON(newDocument),
+      );
+
+      // Save document changes to active editor.
+      await editor.document.save();
+
+      void vscode.window.showInformationMessage(
+        `The document was saved successfully to '${namespace}'`,
+      );
+
+      return true;
+    } catch (error) {
+      void vscode.window.showErrorMessage(formatError(error).message);
+
+      return false;
+    }
+  }
+
+  // Saves the document either by replacing it or, when configured, with an
+  // update of only the fields that changed since it was opened.
+  async _writeMongoDBDocument({
+    editor,
+    documentIdReference,
+    documentId,
+    namespace,
+    connectionId,
+    newDocument,
+    source,
+  }: {
+    editor: vscode.TextEditor;
+    documentIdReference: string;
+    documentId: any;
+    namespace: string;
+    connectionId: string;
+    newDocument: Document;
+    source: DocumentSource;
+  }): Promise<boolean> {
+    const documentSaveMode = vscode.workspace
+      .getConfiguration('mdb')
+      .get('documentSaveMode');
+
+    // The update has the changes made in the editor since the document was
+    // opened, it is not affected by an overwrite of the conflict check.
+    const update =
+      documentSaveMode === 'update'
+        ? this._getMongoDBDocumentUpdate(documentIdReference, newDocument)
+        : undefined;
+
+    if (update && !update.$set && !update.$unset) {
+      void vscode.window.showInformationMessage(
+        `The document has no changes to save to '${namespace}'.`,
+      );
+      return false;
+    }
+
+    if (
+      !(await this._checkDocumentConflict({
+        editor,
+        documentIdReference,
+        documentId,
+        namespace,
+        connectionId,
+        paths: update && getDocumentUpdatePaths(update),
+      }))
+    ) {
+      return false;
+    }
+
+    // Read after the conflict check, which can replace it with the
+    // server version the user chose to overwrite.
+    const originalDocument =
+      this._documentIdStore.getOriginalDocument(documentIdReference);
+
+    if (update) {
+      await this._mongoDBDocumentService.updateDocument({
         namespace,
         connectionId,
         documentId,
-        newDocument,
+        update,
         source,
+        originalDocument,
       });
 
+      return true;
+    }
+
+    await this._mongoDBDocumentService.replaceDocument({
+      namespace,
+      connectionId,
+      documentId,
+      newDocument,
+      source,
+      originalDocument,
+    });
+
+    return true;
+  }
+
+  _getMongoDBDocumentUpdate(
+    documentIdReference: string,
+    newDocument: Document,
+  ): DocumentUpdate {
+    const originalDocument =
+      this._documentIdStore.getOriginalDocument(documentIdReference);
+
+    try {
+      if (!originalDocument) {
+        throw new Error('the document as it was opened is unknown');
+      }
+
+      return getDocumentUpdate(
+        EJSON.deserialize(originalDocument),
+        newDocument,
+      );
+    } catch (error) {
+      throw new Error(`Unable to save document: ${formatError(error).message}`);
+    }
+  }
+
+  // Checks that the document was not changed on the server since it was
+  // opened. Returns false when the save should not continue.
+  async _checkDocumentConflict({
+    editor,
+    documentIdReference,
+    documentId,
+    namespace,
+    connectionId,
+    paths,
+  }: {
+    editor: vscode.TextEditor;
+    documentIdReference: string;
+    documentId: any;
+    namespace: string;
+    connectionId: string;
+    paths?: string[];
+  }): Promise<boolean> {
+    const originalDocument =
+      this._documentIdStore.getOriginalDocument(documentIdReference);
+
+    if (!originalDocument) {
+      return true;
+    }
+
+    const conflict = await this._mongoDBDocumentService.getDocumentConflict({
+      documentId,
+      namespace,
+      connectionId,
+      originalDocument,
+      paths,
+    });
+
+    if (!conflict) {
+      return true;
+    }
+
+    const { serverDocument } = conflict;
+
+    if (!serverDocument) {
+      void vscode.window.showErrorMessage(
+        `Unable to save document: it was deleted from '${namespace}' after it was opened.`,
+      );
+      return false;
+    }
+
+    const choice = await vscode.window.showWarningMessage(
+      `The document was changed in '${namespace}' after it was opened. Saving it would overwrite those changes.`,
+      { modal: true },
+      'Compare Changes',
+      'Overwrite',
+    );
+
+    if (choice === 'Overwrite') {
+      // Only the server version the user agreed to overwrite is replaced.
+      this._documentIdStore.setOriginalDocument(
+        documentIdReference,
+        serverDocument,
+      );
+      return true;
+    }
+
+    if (choice === 'Compare Changes') {
+      // The version that was opened is kept, so the next save checks
+      // again and only overwrites the server changes when the user agrees.
+      await this._openDocumentConflict({ editor, serverDocument });
+      void vscode.window.showInformationMessage(
+        'Merge the changes from the server into the document, then save it again and choose Overwrite.',
+      );
+    }
+
+    return false;
+  }
+
+  async _openDocumentConflict({
+    editor,
+    serverDocument,
+  }: {
+    editor: vscode.TextEditor;
+    serverDocument: Document;
+  }): Promise<void> {
+    const { uri } = editor.document;
+    const serverUri = uri.with({
+      path: uri.path.replace(/\.json$/, '.server.json'),
+      query: '',
+    });
+
+    this._saveDocumentToMemoryFileSystem(
+      serverUri,
+      getEJSONFromCanonical(serverDocument),
+    );
+
+    // The editor side of the diff is the document itself, so the server
+    // changes can be merged into it.
+    await vscode.commands.executeCommand(
+      'vscode.diff',
+      serverUri,
+      uri,
+      `${path.posix.basename(uri.path)}: Server vs. Editor`,
+    );
+  }
+
+  async onEditCollectionDocuments(
+    uri: vscode.Uri | undefined = vscode.window.activeTextEditor?.document.uri,
+  ): Promise<boolean> {
+    if (!uri || uri.scheme !== VIEW_COLLECTION_SCHEME) {
+      void vscode.window.showErrorMessage(
+        'Please open the documents of a collection to edit them.',
+      );
+      return false;
+    }
+
+    const uriParams = new URLSearchParams(uri.query);
+    const namespace = uriParams.get(NAMESPACE_URI_IDENTIFIER);
+    const connectionId = uriParams.get(CONNECTION_ID_URI_IDENTIFIER);
+    const operationId = uriParams.get(OPERATION_ID_URI_IDENTIFIER) || '';
+    const operation =
+      this._collectionDocumentsOperationsStore.operations[operationId];
+
+    if (!namespace || !connectionId || !operation) {
+      void vscode.window.showErrorMessage(
+        `Unable to edit documents: invalid URL ${uri.toString()}`,
+      );
+      return false;
+    }
+
+    if (!this._canEditCollectionDocuments(operation, connectionId)) {
+      return false;
+    }
+
+    log.info('Edit collection documents', {
+      namespace,
+      page: operation.currentPage,
+    });
+
+    const bulkEditReference = this._bulkEditDocumentsStore.add(
+      operation.documents,
+    );
+    // Encode special file uri characters to ensure VSCode handles
+    // it correctly in a uri while avoiding collisions.
+    const fileTitle = encodeURIComponent(
+      `${namespace.replace(/[\\/%]/gi, function (c) {
+        return `%${c.charCodeAt(0).toString(16)}`;
+      })} (page ${operation.currentPage + 1})`,
+    );
+    const fileUri = vscode.Uri.parse(
+      `${VIEW_DOCUMENT_SCHEME}:/${fileTitle}.json`,
+      true,
+    ).with({
+      query: [
+        `?${NAMESPACE_URI_IDENTIFIER}=${namespace}`,
+        `${CONNECTION_ID_URI_IDENTIFIER}=${connectionId}`,
+        `${OPERATION_ID_URI_IDENTIFIER}=${operationId}`,
+        `${BULK_EDIT_URI_IDENTIFIER}=${bulkEditReference}`,
+        `${DOCUMENT_SOURCE_URI_IDENTIFIER}=${DocumentSource.DOCUMENT_SOURCE_COLLECTIONVIEW}`,
+      ].join('&'),
+    });
+
+    try {
+      this._saveDocumentToMemoryFileSystem(
+        fileUri,
+        getEJSON(operation.documents),
+      );
+
+      const document = await vscode.workspace.openTextDocument(fileUri);
+
+      await vscode.window.showTextDocument(document, { preview: false });
+
+      return true;
+    } catch (error) {
+      void vscode.window.showErrorMessage(
+        `Unable to edit documents: ${formatError(error).message}`,
+      );
+
+      return false;
+    }
+  }
+
+  _parseBulkEdit(
+    editor: vscode.TextEditor,
+    originalDocuments: Document[],
+  ): { editedDocuments: Document[]; changes: BulkEditChanges } | null {
+    try {
+      const editedDocuments = EJSON.parse(editor.document.getText() || '');
+
+      if (!Array.isArray(editedDocuments)) {
+        throw new Error('the documents must be an array');
+      }
+
+      const changes = getBulkEditChanges(originalDocuments, editedDocuments);
+
+      // Give new documents an _id up front so that they can be written back
+      // into the editor and are matched as updates on the next save.
+      for (const document of changes.inserts) {
+        if (document._id === undefined) {
+          document._id = new ObjectId();
+        }
+      }
+
+      return { editedDocuments, changes };
+    } catch (error) {
+      void vscode.window.showErrorMessage(
+        `Unable to save documents: ${formatError(error).message}`,
+      );
+
+      return null;
+    }
+  }
+
+  _canEditCollectionDocuments(
+    operation: CollectionDocumentsOperation,
+    connectionId: string,
+  ): boolean {
+    const projection = operation.documentFilter?.projection;
+
+    if (projection && Object.keys(projection).length > 0) {
+      void vscode.window.showErrorMessage(
+        'Unable to edit documents: the documents are shown with a projection, clear it to edit the full documents.',
+      );
+      return false;
+    }
+
+    // Ensure we're still connected to the correct connection.
+    if (!this._connectionController.isConnectedToConnection(connectionId)) {
+      const oldConnectionName =
+        this._connectionController.getSavedConnectionName(connectionId) ||
+        'the database';
+
+      void vscode.window.showErrorMessage(
+        `Unable to edit documents: no longer connected to ${oldConnectionName}`,
+      );
+      return false;
+    }
+
+    return true;
+  }
+
+  async _saveMongoDBDocuments(
+    editor: vscode.TextEditor,
+    bulkEditReference: string,
+  ): Promise<boolean> {
+    const uriParams = new URLSearchParams(editor.document.uri.query);
+    const namespace = uriParams.get(NAMESPACE_URI_IDENTIFIER);
+    const connectionId = uriParams.get(CONNECTION_ID_URI_IDENTIFIER);
+    const operationId = uriParams.get(OPERATION_ID_URI_IDENTIFIER) || '';
+    const originalDocuments =
+      this._bulkEditDocumentsStore.get(bulkEditReference);
+
+    if (
+      editor.document.uri.scheme !== VIEW_DOCUMENT_SCHEME ||
+      !namespace ||
+      !connectionId ||
+      !originalDocuments
+    ) {
+      void vscode.window.showErrorMessage(
+        `The current file can not be saved as MongoDB documents. Invalid URL: ${editor.document.uri.toString()}`,
+      );
+      return false;
+    }
+
+    const bulkEdit = this._parseBulkEdit(editor, originalDocuments);
+
+    if (!bulkEdit) {
+      return false;
+    }
+
+    const { editedDocuments, changes } = bulkEdit;
+
+    if (!hasBulkEditChanges(changes)) {
+      void vscode.window.showInformationMessage(
+        'There are no changes to save.',
+      );
+      return false;
+    }
+
+    if (
+      !(await this._connectionController.confirmWriteOperation({
+        connectionId,
+        operation: 'save the documents',
+      }))
+    ) {
+      return false;
+    }
+
+    const summary = getBulkEditSummary(changes);
+    const confirmation = await vscode.window.showInformationMessage(
+      `Are you sure you want to apply ${summary} to '${namespace}'?`,
+      { modal: true },
+      'Apply',
+    );
+
+    if (confirmation !== 'Apply') {
+      return false;
+    }
+
+    try {
+      await this._mongoDBDocumentService.bulkWriteDocuments({
+        namespace,
+        connectionId,
+        changes,
+        source: DocumentSource.DOCUMENT_SOURCE_COLLECTIONVIEW,
+      });
+
+      this._bulkEditDocumentsStore.update(bulkEditReference, editedDocuments);
+
+      const edit = new vscode.WorkspaceEdit();
+      edit.replace(
+        editor.document.uri,
+        new vscode.Range(
+          new vscode.Position(0, 0),
+          editor.document.lineAt(editor.document.lineCount - 1).range.end,
+        ),
+        JSON.stringify(getEJSON(editedDocuments), null, 2),
+      );
+      await vscode.workspace.applyEdit(edit);
+
       // Save document changes to active editor.
-      await editor?.document.save();
+      await editor.document.save();
+
+      // Refresh the collection view the documents were edited from.
+      if (this._collectionDocumentsOperationsStore.operations[operationId]) {
+        this._collectionViewProvider.onDidChangeEmitter.fire(
+          getViewCollectionDocumentsUri(operationId, namespace, connectionId),
+        );
+      }
 
       void vscode.window.showInformationMessage(
-        `The document was saved successfully to '${namespace}'`,
+        `The documents were saved successfully to '${namespace}' (${summary})`,
       );
 
       return true;
@@ -278,17 +857,23 @@ export default class EditorsController {
     }
   }
 
-  async onViewCollectionDocuments(namespace: string): Promise<boolean> {
+  async onViewCollectionDocuments(
+    namespace: string,
+    documentFilter: DocumentFilter | null = null,
+    connectionId:
+      | string
+      | null = this._connectionController.getActiveConnectionId(),
+  ): Promise<boolean> {
     log.info('View collection documents', namespace);
 
     const operationId =
-      this._collectionDocumentsOperationsStore.createNewOperation();
-    const activeConnectionId =
-      this._connectionController.getActiveConnectionId() || '';
+      this._collectionDocumentsOperationsStore.createNewOperation(
+        documentFilter,
+      );
     const uri = getViewCollectionDocumentsUri(
       operationId,
       namespace,
-      activeConnectionId,
+      connectionId || '',
     );
 
     try {
@@ -306,31 +891,37 @@ export default class EditorsController {
     }
   }
 
-  onViewMoreCollectionDocuments(
-    operationId: string,
-    connectionId: string,
-    namespace: string,
-  ): Promise<boolean> {
-    log.info('View more collection documents', namespace);
+  onViewCollectionDocumentsPage({
+    operationId,
+    connectionId,
+    namespace,
+    page,
+  }: {
+    operationId: string;
+    connectionId: string;
+    namespace: string;
+    page: number;
+  }): Promise<boolean> {
+    log.info('View collection documents page', { namespace, page });
 
-    // A user might click to fetch more documents multiple times,
+    // A user might click to change the page multiple times,
     // this ensures it only performs one fetch at a time.
     if (
       this._collectionDocumentsOperationsStore.operations[operationId]
         .isCurrentlyFetchingMoreDocuments
     ) {
-      void vscode.window.showErrorMessage('Already fetching more documents...');
+      void vscode.window.showErrorMessage('Already fetching documents...');
       return Promise.resolve(false);
     }
 
     // Ensure we're still connected to the correct connection.
-    if (connectionId !== this._connectionController.getActiveConnectionId()) {
+    if (!this._connectionController.isConnectedToConnection(connectionId)) {
       const oldConnectionName =
         this._connectionController.getSavedConnectionName(connectionId || '') ||
         'the database';
 
       void vscode.window.showErrorMessage(
-        `Unable to view more documents: no longer connected to ${oldConnectionName}`,
+        `Unable to view documents: no longer connected to ${oldConnectionName}`,
       );
       return Promise.resolve(false);
     }
@@ -347,16 +938,294 @@ export default class EditorsController {
       connectionId,
     );
 
-    this._collectionDocumentsOperationsStore.increaseOperationDocumentLimit(
+    this._collectionDocumentsOperationsStore.setOperationPage(
       operationId,
+      page,
     );
 
-    // Notify the document provider to update with the new document limit.
+    // Notify the document provider to update with the new page.
     this._collectionViewProvider.onDidChangeEmitter.fire(uri);
 
     return Promise.resolve(true);
   }
 
+  onViewNextCollectionDocumentsPage(
+    operationId: string,
+    connectionId: string,
+    namespace: string,
+  ): Promise<boolean> {
+    const { currentPage } =
+      this._collectionDocumentsOperationsStore.operations[operationId];
+
+    return this.onViewCollectionDocumentsPage({
+      operationId,
+      connectionId,
+      namespace,
+      page: currentPage + 1,
+    });
+  }
+
+  onViewPreviousCollectionDocumentsPage(
+    operationId: string,
+    connectionId: string,
+    namespace: string,
+  ): Promise<boolean> {
+    const { currentPage } =
+      this._collectionDocumentsOperationsStore.operations[operationId];
+
+    if (currentPage === 0) {
+      return Promise.resolve(false);
+    }
+
+    return this.onViewCollectionDocumentsPage({
+      operationId,
+      connectionId,
+      namespace,
+      page: currentPage - 1,
+    });
+  }
+
+  async onGoToCollectionDocumentsPage(
+    operationId: string,
+    connectionId: string,
+    namespace: string,
+  ): Promise<boolean> {
+    const { currentPage } =
+      this._collectionDocumentsOperationsStore.operations[operationId];
+
+    const pageInput = await vscode.window.showInputBox({
+      value: `${currentPage + 1}`,
+      prompt: 'Enter the page of documents to open',
+      validateInput: (value: string) => {
+        return /^[1-9]\d*$/.test(value.trim())
+          ? null
+          : 'Page must be a positive whole number';
+      },
+    });
+
+    if (pageInput === undefined) {
+      return false;
+    }
+
+    return this.onViewCollectionDocumentsPage({
+      operationId,
+      connectionId,
+      namespace,
+      page: Number(pageInput.trim()) - 1,
+    });
+  }
+
+  _getPlaygroundResultsToExport(): ResultsToExport | null {
+    const result = this._playgroundResultProvider._playgroundResult;
+
+    if (
+      !result ||
+      isExportToLanguageResult(result) ||
+      result.content === null ||
+      typeof result.content !== 'object'
+    ) {
+      void vscode.window.showErrorMessage(
+        'Unable to save results: the playground result is not a list of documents.',
+      );
+      return null;
+    }
+
+    // Results are shown as relaxed extended JSON, they are deserialized
+    // without relaxing to keep the numeric types in canonical files.
+    const content: Document[] = Array.isArray(result.content)
+      ? result.content
+      : [result.content];
+
+    return {
+      fileName: result.namespace ?? 'playground-results',
+      getDocuments: function* (token): Generator<Document> {
+        for (const document of content) {
+          if (token.isCancellationRequested) {
+            return;
+          }
+          yield EJSON.deserialize(document, { relaxed: false });
+        }
+      },
+    };
+  }
+
+  _getCollectionResultsToExport(uri: vscode.Uri): ResultsToExport | null {
+    const uriParams = new URLSearchParams(uri.query);
+    const namespace = uriParams.get(NAMESPACE_URI_IDENTIFIER);
+    const connectionId = uriParams.get(CONNECTION_ID_URI_IDENTIFIER);
+    const operationId = uriParams.get(OPERATION_ID_URI_IDENTIFIER) || '';
+    const operation =
+      this._collectionDocumentsOperationsStore.operations[operationId];
+    const dataService =
+      this._connectionController.getConnectedDataService(connectionId);
+
+    if (!namespace || !operation) {
+      void vscode.window.showErrorMessage(
+        `Unable to save results: invalid URL ${uri.toString()}`,
+      );
+      return null;
+    }
+
+    if (!dataService) {
+      const oldConnectionName =
+        this._connectionController.getSavedConnectionName(connectionId || '') ||
+        'the database';
+
+      void vscode.window.showErrorMessage(
+        `Unable to save results: no longer connected to ${oldConnectionName}`,
+      );
+      return null;
+    }
+
+    // Every document matching the query is saved, not only the current page.
+    const { filter = {}, projection, sort } = operation.documentFilter ?? {};
+
+    return {
+      fileName: namespace,
+      getDocuments: async function* (token): AsyncGenerator<Document> {
+        const cursor = dataService.findCursor(namespace, filter, {
+          ...(projection ? { projection } : {}),
+          ...(sort ? { sort } : {}),
+        });
+
+        try {
+          for await (const document of cursor) {
+            if (token.isCancellationRequested) {
+              return;
+            }
+            yield document;
+          }
+        } finally {
+          await cursor.close();
+        }
+      },
+    };
+  }
+
+  async _pickResultsExportOptions(): Promise<{
+    format: ResultsExportFormat;
+    csvNestedFields?: CsvNestedFieldsMode;
+  } | null> {
+    const formatItem = await vscode.window.showQuickPick(
+      RESULTS_EXPORT_FORMAT_ITEMS,
+      { placeHolder: 'Select the format of the file' },
+    );
+
+    if (!formatItem) {
+      return null;
+    }
+
+    if (formatItem.format !== 'csv') {
+      return { format: formatItem.format };
+    }
+
+    const nestedFieldsItem = await vscode.window.showQuickPick(
+      CSV_NESTED_FIELDS_ITEMS,
+      { placeHolder: 'Select how nested documents are written' },
+    );
+
+    return nestedFieldsItem
+      ? { format: 'csv', csvNestedFields: nestedFieldsItem.mode }
+      : null;
+  }
+
+  async onSaveResultsAs(
+    uri: vscode.Uri | undefined = vscode.window.activeTextEditor?.document.uri,
+  ): Promise<boolean> {
+    let results: ResultsToExport | null = null;
+
+    if (uri?.scheme === PLAYGROUND_RESULT_SCHEME) {
+      results = this._getPlaygroundResultsToExport();
+    } else if (uri?.scheme === VIEW_COLLECTION_SCHEME) {
+      results = this._getCollectionResultsToExport(uri);
+    } else {
+      void vscode.window.showErrorMessage(
+        'Please open playground results or the documents of a collection to save them.',
+      );
+    }
+
+    const options = results && (await this._pickResultsExportOptions());
+
+    if (!results || !options) {
+      return false;
+    }
+
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const fileName = `${results.fileName}.${
+      RESULTS_EXPORT_FILE_EXTENSIONS[options.format]
+    }`;
+    const fileUri = await vscode.window.showSaveDialog({
+      defaultUri: workspaceFolder
+        ? vscode.Uri.joinPath(workspaceFolder, fileName)
+        : vscode.Uri.file(fileName),
+      saveLabel: 'Save Results',
+    });
+
+    if (!fileUri) {
+      return false;
+    }
+
+    return this._writeResultsToFile({ results, options, fileUri });
+  }
+
+  async _writeResultsToFile({
+    results,
+    options,
+    fileUri,
+  }: {
+    results: ResultsToExport;
+    options: {
+      format: ResultsExportFormat;
+      csvNestedFields?: CsvNestedFieldsMode;
+    };
+    fileUri: vscode.Uri;
+  }): Promise<boolean> {
+    log.info('Save results', { format: options.format });
+
+    const writer = createFileWriter(fileUri.fsPath);
+
+    try {
+      const { count, cancelled } = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: 'Saving results...',
+          cancellable: true,
+        },
+        async (progress, token) => ({
+          count: await exportResults({
+            ...options,
+            getDocuments: () => results.getDocuments(token),
+            write: writer.write,
+          }),
+          cancelled: token.isCancellationRequested,
+        }),
+      );
+
+      await writer.close();
+
+      if (cancelled) {
+        await fs.promises.rm(fileUri.fsPath, { force: true });
+        return false;
+      }
+
+      void vscode.window.showInformationMessage(
+        `Saved ${count} document${count === 1 ? '' : 's'} to ${path.basename(
+          fileUri.fsPath,
+        )}.`,
+      );
+
+      return true;
+    } catch (error) {
+      writer.destroy();
+
+      void vscode.window.showErrorMessage(
+        `Unable to save results: ${formatError(error).message}`,
+      );
+
+      return false;
+    }
+  }
+
   _saveDocumentToMemoryFileSystem(
     fileUri: vscode.Uri,
     document: Document,
@@ -469,6 +1338,24 @@ export default class EditorsController {
         },
       ),
     );
+    // REGISTER DOCUMENT SCHEMA PROVIDERS.
+    this._context.subscriptions.push(
+      vscode.languages.registerCompletionItemProvider(
+        {
+          scheme: VIEW_DOCUMENT_SCHEME,
+          language: 'json',
+        },
+        this._documentSchemaProvider,
+        '"',
+      ),
+      vscode.languages.registerHoverProvider(
+        {
+          scheme: VIEW_DOCUMENT_SCHEME,
+          language: 'json',
+        },
+        this._documentSchemaProvider,
+      ),
+    );
   }
 
   deactivate(): void {
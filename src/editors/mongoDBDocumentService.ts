@@ -1,14 +1,23 @@
 import type * as vscode from 'vscode';
+import { createHash } from 'crypto';
+import { EJSON } from 'bson';
 import type { Document } from 'bson';
 
 import type ConnectionController from '../connectionController';
 import { createLogger } from '../logging';
 import { DocumentSource } from '../documentSource';
 import type { EditDocumentInfo } from '../types/editDocumentInfoType';
+import type { BulkEditChanges } from '../utils/bulkEditChanges';
+import type { DocumentUpdate } from '../utils/documentUpdate';
+import {
+  getDocumentUpdatePaths,
+  getValueAtPath,
+} from '../utils/documentUpdate';
+import { getBulkEditSummary } from '../utils/bulkEditChanges';
 import formatError from '../utils/formatError';
 import type { StatusView } from '../views';
 import type { TelemetryService } from '../telemetry';
-import { getEJSON } from '../utils/ejson';
+import { getCanonicalEJSON, getEJSON } from '../utils/ejson';
 import { DocumentUpdatedTelemetryEvent } from '../telemetry';
 
 const log = createLogger('document controller');
@@ -17,8 +26,72 @@ export const DOCUMENT_ID_URI_IDENTIFIER = 'documentId';
 
 export const DOCUMENT_SOURCE_URI_IDENTIFIER = 'source';
 
+export const BULK_EDIT_URI_IDENTIFIER = 'bulkEdit';
+
 export const VIEW_DOCUMENT_SCHEME = 'VIEW_DOCUMENT_SCHEME';
 
+// The version of a document on the server when it no longer matches
+// the version that was opened in the editor.
+export type DocumentConflict = {
+  serverDocument: Document | null;
+};
+
+export function getDocumentFingerprint(document: Document): string {
+  return createHash('sha256')
+    .update(EJSON.stringify(document, { relaxed: false }))
+    .digest('hex');
+}
+
+// Only matches the document while it is still the version that was opened,
+// so a change made on the server in the meantime is never overwritten.
+// The version is a literal, its string values are not field paths.
+export function getDocumentSaveFilter(
+  documentId: any,
+  originalDocument?: Document,
+): Document {
+  return originalDocument
+    ? {
+        _id: documentId,
+        $expr: {
+          $eq: [
+            '$$ROOT',
+            {
+              $literal: EJSON.deserialize(originalDocument, { relaxed: false }),
+            },
+          ],
+        },
+      }
+    : { _id: documentId };
+}
+
+// Only matches the document while the fields the update changes still have
+// the values they had when it was opened, so changes made on the server to
+// other fields are kept and changes to the same fields are never overwritten.
+export function getDocumentUpdateFilter(
+  documentId: any,
+  update: DocumentUpdate,
+  originalDocument?: Document,
+): Document {
+  if (!originalDocument) {
+    return { _id: documentId };
+  }
+
+  const original = EJSON.deserialize(originalDocument, { relaxed: false });
+
+  return {
+    _id: documentId,
+    $expr: {
+      $and: getDocumentUpdatePaths(update).map((path) => {
+        const value = getValueAtPath(original, path);
+
+        return value === undefined
+          ? { $eq: [{ $type: `$${path}` }, 'missing'] }
+          : { $eq: [`$${path}`, { $literal: value }] };
+      }),
+    },
+  };
+}
+
 export default class MongoDBDocumentService {
   _context: vscode.ExtensionContext;
   _connectionController: ConnectionController;
@@ -61,28 +134,101 @@ export default class MongoDBDocumentService {
     throw new Error(errorMessage);
   }
 
+  _saveDocumentsFailed(message: string, source: DocumentSource): void {
+    const errorMessage = `Unable to save documents: ${message}`;
+
+    this._telemetryService.track(
+      new DocumentUpdatedTelemetryEvent(source, false),
+    );
+
+    throw new Error(errorMessage);
+  }
+
   async replaceDocument(data: {
     documentId: any;
     namespace: string;
     connectionId: string;
     newDocument: Document;
     source: DocumentSource;
+    // The canonical extended JSON of the document as it was opened, it is
+    // not saved when it changed since.
+    originalDocument?: Document;
   }): Promise<void> {
     log.info('Replace document in MongoDB', data);
 
-    const { documentId, namespace, connectionId, newDocument, source } = data;
-    const activeConnectionId =
-      this._connectionController.getActiveConnectionId();
+    const {
+      documentId,
+      namespace,
+      connectionId,
+      newDocument,
+      source,
+      originalDocument,
+    } = data;
     const connectionName =
       this._connectionController.getSavedConnectionName(connectionId);
 
-    if (activeConnectionId !== connectionId) {
+    const dataService =
+      this._connectionController.getConnectedDataService(connectionId);
+
+    if (dataService === null) {
       return this._saveDocumentFailed(
         `no longer connected to '${connectionName}'`,
       );
     }
 
-    const dataService = this._connectionController.getActiveDataService();
+    this._statusView.showMessage('Saving document...');
+
+    try {
+      const replacedDocument = await dataService.findOneAndReplace(
+        namespace,
+        getDocumentSaveFilter(documentId, originalDocument),
+        newDocument,
+        {
+          returnDocument: 'after',
+        },
+      );
+
+      if (originalDocument && !replacedDocument) {
+        throw new Error(
+          `it was changed or deleted in '${namespace}' after it was opened`,
+        );
+      }
+
+      this._telemetryService.track(
+        new DocumentUpdatedTelemetryEvent(source, true),
+      );
+    } catch (error) {
+      return this._saveDocumentFailed(formatError(error).message);
+    } finally {
+      this._statusView.hideMessage();
+    }
+  }
+
+  async updateDocument(data: {
+    documentId: any;
+    namespace: string;
+    connectionId: string;
+    update: DocumentUpdate;
+    source: DocumentSource;
+    // The canonical extended JSON of the document as it was opened, it is
+    // not updated when it changed since.
+    originalDocument?: Document;
+  }): Promise<void> {
+    log.info('Update document fields in MongoDB', data);
+
+    const {
+      documentId,
+      namespace,
+      connectionId,
+      update,
+      source,
+      originalDocument,
+    } = data;
+    const connectionName =
+      this._connectionController.getSavedConnectionName(connectionId);
+
+    const dataService =
+      this._connectionController.getConnectedDataService(connectionId);
 
     if (dataService === null) {
       return this._saveDocumentFailed(
@@ -90,17 +236,27 @@ export default class MongoDBDocumentService {
       );
     }
 
+    // Nothing changed, an empty update would be rejected by the server.
+    if (!update.$set && !update.$unset) {
+      return;
+    }
+
     this._statusView.showMessage('Saving document...');
 
     try {
-      await dataService.findOneAndReplace(
+      const { matchedCount } = await dataService.updateOne(
         namespace,
-        { _id: documentId },
-        newDocument,
-        {
-          returnDocument: 'after',
-        },
+        getDocumentUpdateFilter(documentId, update, originalDocument),
+        update,
+        {},
       );
+
+      if (originalDocument && matchedCount === 0) {
+        throw new Error(
+          `it was changed or deleted in '${namespace}' after it was opened`,
+        );
+      }
+
       this._telemetryService.track(
         new DocumentUpdatedTelemetryEvent(source, true),
       );
@@ -111,27 +267,116 @@ export default class MongoDBDocumentService {
     }
   }
 
-  async fetchDocument(data: EditDocumentInfo): Promise<Document | void> {
+  async bulkWriteDocuments(data: {
+    namespace: string;
+    connectionId: string;
+    changes: BulkEditChanges;
+    source: DocumentSource;
+  }): Promise<void> {
+    log.info('Bulk write documents in MongoDB', {
+      namespace: data.namespace,
+      connectionId: data.connectionId,
+      summary: getBulkEditSummary(data.changes),
+    });
+
+    const { namespace, connectionId, changes, source } = data;
+    const connectionName =
+      this._connectionController.getSavedConnectionName(connectionId);
+
+    const dataService =
+      this._connectionController.getConnectedDataService(connectionId);
+
+    if (dataService === null) {
+      return this._saveDocumentsFailed(
+        `no longer connected to '${connectionName}'`,
+        source,
+      );
+    }
+
+    this._statusView.showMessage('Saving documents...');
+
+    try {
+      await dataService.bulkWrite(
+        namespace,
+        [
+          ...changes.inserts.map((document) => ({
+            insertOne: { document },
+          })),
+          ...changes.updates.map((document) => ({
+            replaceOne: {
+              filter: { _id: document._id },
+              replacement: document,
+            },
+          })),
+          ...changes.deletes.map((documentId) => ({
+            deleteOne: { filter: { _id: documentId } },
+          })),
+        ],
+        { ordered: true },
+      );
+      this._telemetryService.track(
+        new DocumentUpdatedTelemetryEvent(source, true),
+      );
+    } catch (error) {
+      return this._saveDocumentsFailed(formatError(error).message, source);
+    } finally {
+      this._statusView.hideMessage();
+    }
+  }
+
+  // With `paths`, only changes to those fields are a conflict, as an update
+  // of them keeps the changes made to the other fields.
+  async getDocumentConflict(data: {
+    documentId: any;
+    namespace: string;
+    connectionId: string;
+    originalDocument: Document;
+    paths?: string[];
+  }): Promise<DocumentConflict | undefined> {
+    const { originalDocument, paths, ...documentInfo } = data;
+    const serverDocument = await this.fetchDocument(documentInfo, {
+      canonical: true,
+    });
+
+    if (!serverDocument) {
+      return { serverDocument: null };
+    }
+
+    const getComparedFields = (document: Document): Document =>
+      paths
+        ? Object.fromEntries(
+            paths.map((path) => [path, getValueAtPath(document, path)]),
+          )
+        : document;
+
+    if (
+      getDocumentFingerprint(getComparedFields(serverDocument)) !==
+      getDocumentFingerprint(getComparedFields(originalDocument))
+    ) {
+      return { serverDocument };
+    }
+  }
+
+  // The document is in the relaxed format shown in the editor, or with
+  // `canonical` in the format that keeps the types of its values.
+  async fetchDocument(
+    data: Pick<EditDocumentInfo, 'documentId' | 'namespace' | 'connectionId'> &
+      Partial<EditDocumentInfo>,
+    { canonical = false }: { canonical?: boolean } = {},
+  ): Promise<Document | void> {
     log.info('Fetch document from MongoDB', data);
 
     const { documentId, namespace, connectionId } = data;
-    const activeConnectionId =
-      this._connectionController.getActiveConnectionId();
     const connectionName = connectionId
       ? this._connectionController.getSavedConnectionName(connectionId)
       : 'the database';
 
-    if (activeConnectionId !== connectionId) {
-      return this._fetchDocumentFailed(
-        `no longer connected to '${connectionName}'`,
-      );
-    }
-
-    const dataService = this._connectionController.getActiveDataService();
+    const dataService =
+      this._connectionController.getConnectedDataService(connectionId);
 
     if (dataService === null) {
       return this._fetchDocumentFailed(
-        `no longer connected to ${connectionName}`,
+        `no longer connected to '${connectionName}'`,
       );
     }
 
@@ -141,14 +386,16 @@ export default class MongoDBDocumentService {
       const documents = await dataService.find(
         namespace,
         { _id: documentId },
-        { limit: 1 },
+        canonical ? { limit: 1, promoteValues: false } : { limit: 1 },
       );
 
       if (!documents || documents.length === 0) {
         return;
       }
 
-      return getEJSON(documents[0]);
+      return canonical
+        ? getCanonicalEJSON(documents[0])
+        : getEJSON(documents[0]);
     } catch (error) {
       return this._fetchDocumentFailed(formatError(error).message);
     } finally {
@@ -1,5 +1,7 @@
 import * as vscode from 'vscode';
 import path from 'path';
+import type { Document } from 'bson';
+import { toJSString } from 'mongodb-query-parser';
 import { ProgressLocation } from 'vscode';
 import os from 'os';
 
@@ -12,6 +14,7 @@ import { CollectionTreeItem } from '../explorer';
 import { DatabaseTreeItem } from '../explorer';
 import formatError from '../utils/formatError';
 import type { LanguageServerController } from '../language';
+import type { LoadedConnection } from '../storage/connectionStorage';
 import playgroundBasicTextTemplate from '../templates/playgroundBasicTextTemplate';
 import playgroundCreateIndexTemplate from '../templates/playgroundCreateIndexTemplate';
 import playgroundCreateCollectionTemplate from '../templates/playgroundCreateCollectionTemplate';
@@ -25,6 +28,7 @@ import {
   type AllDiagnosticFixes,
   type PlaygroundRunResult,
   type ExportToLanguageResult,
+  isExportToLanguageResult,
 } from '../types/playgroundType';
 import type PlaygroundResultProvider from './playgroundResultProvider';
 import {
@@ -34,11 +38,22 @@ import {
 import playgroundSearchTemplate from '../templates/playgroundSearchTemplate';
 import playgroundTemplate from '../templates/playgroundTemplate';
 import type { StatusView } from '../views';
+import ExplainPlanView from '../views/explainPlanView';
+import PlaygroundResultsView from '../views/playgroundResultsView';
+import { getExplainCode, getExplainPlanSummary } from '../utils/explainPlan';
 import type { TelemetryService } from '../telemetry';
 import { isPlayground, getSelectedText, getAllText } from '../utils/playground';
+import {
+  findPlaygroundConnectionHeader,
+  getPlaygroundConnectionHeaderText,
+} from '../utils/playgroundConnection';
 import type ExportToLanguageCodeLensProvider from './exportToLanguageCodeLensProvider';
 import { playgroundFromDatabaseTreeItemTemplate } from '../templates/playgroundFromDatabaseTreeItemTemplate';
 import { playgroundFromCollectionTreeItemTemplate } from '../templates/playgroundFromCollectionTreeItemTemplate';
+import { playgroundSchemaValueQueryTemplate } from '../templates/playgroundSchemaValueQueryTemplate';
+import { playgroundValidationRulesTemplate } from '../templates/playgroundValidationRulesTemplate';
+import { playgroundModifyStreamProcessorTemplate } from '../templates/playgroundModifyStreamProcessorTemplate';
+import { getShellValue } from '../utils/schemaAnalysis';
 import {
   PlaygroundCreatedTelemetryEvent,
   PlaygroundExecutedTelemetryEvent,
@@ -51,6 +66,12 @@ function getActiveEditorFilePath(): string | undefined {
   return vscode.window.activeTextEditor?.document.uri.fsPath;
 }
 
+const isCursorResult = (
+  result: PlaygroundRunResult | ExportToLanguageResult,
+): result is PlaygroundRunResult =>
+  !isExportToLanguageResult(result) &&
+  (result.type === 'Cursor' || result.type === 'AggregationCursor');
+
 const connectBeforeRunningMessage =
   'Please connect to a database before running a playground.';
 
@@ -60,18 +81,22 @@ const connectBeforeRunningMessage =
 export default class PlaygroundController {
   _connectionController: ConnectionController;
   _playgroundResult?: PlaygroundRunResult | ExportToLanguageResult;
+  _playgroundResultConnectionId?: string | null;
   _languageServerController: LanguageServerController;
   _playgroundSelectionCodeActionProvider: PlaygroundSelectionCodeActionProvider;
   _telemetryService: TelemetryService;
   _exportToLanguageCodeLensProvider: ExportToLanguageCodeLensProvider;
 
   _isPartialRun = false;
+  _explainPlanView = new ExplainPlanView();
+  _playgroundResultsView = new PlaygroundResultsView();
 
   private _playgroundResultViewColumn?: vscode.ViewColumn;
   private _playgroundResultTextDocument?: vscode.TextDocument;
   private _statusView: StatusView;
   private _playgroundResultProvider: PlaygroundResultProvider;
   private _activeConnectionChangedHandler: () => void;
+  private _playgroundConnectionsChangedHandler: () => void;
 
   constructor({
     connectionController,
@@ -106,6 +131,13 @@ export default class PlaygroundController {
       DataServiceEventTypes.ACTIVE_CONNECTION_CHANGED,
       this._activeConnectionChangedHandler,
     );
+    this._playgroundConnectionsChangedHandler = (): void => {
+      void this._playgroundConnectionChanged();
+    };
+    this._connectionController.addEventListener(
+      DataServiceEventTypes.PLAYGROUND_CONNECTIONS_CHANGED,
+      this._playgroundConnectionsChangedHandler,
+    );
 
     const onDidChangeActiveTextEditor = (
       editor: vscode.TextEditor | undefined,
@@ -120,6 +152,10 @@ export default class PlaygroundController {
         'mdb.isPlayground',
         isPlaygroundEditor,
       );
+
+      if (isPlaygroundEditor) {
+        void this._playgroundConnectionChanged();
+      }
     };
 
     vscode.workspace.textDocuments.forEach((document) => {
@@ -136,6 +172,13 @@ export default class PlaygroundController {
         // TODO: re-enable with fewer 'Playground Loaded' events
         // https://jira.mongodb.org/browse/VSCODE-432
         // this._telemetryService.track(new PlaygroundLoadedTelemetryEvent(document.uri));
+
+        // Changing the language reopens the document,
+        // so the connection header is applied to the reopened document.
+        if (document.languageId === 'javascript') {
+          void this.applyPlaygroundConnectionHeader(document);
+        }
+
         await vscode.languages.setTextDocumentLanguage(document, 'javascript');
       }
     });
@@ -145,18 +188,25 @@ export default class PlaygroundController {
         this._telemetryService.track(
           new PlaygroundSavedTelemetryEvent(document.uri),
         );
+        void this.applyPlaygroundConnectionHeader(document);
       }
     });
   }
 
   async _activeConnectionChanged(): Promise<void> {
-    const dataService = this._connectionController.getActiveDataService();
-    const connectionId = this._connectionController.getActiveConnectionId();
+    const playgroundConnectionId = this._getPlaygroundConnectionId();
+    const connectionId = this._connectionController.isConnectedToConnection(
+      playgroundConnectionId,
+    )
+      ? playgroundConnectionId
+      : null;
     let mongoClientOption;
 
-    if (dataService && connectionId) {
+    if (connectionId) {
       mongoClientOption =
-        this._connectionController.getMongoClientConnectionOptions();
+        this._connectionController.getMongoClientConnectionOptions(
+          connectionId,
+        );
     }
 
     // The connectionId is null when disconnecting.
@@ -167,8 +217,31 @@ export default class PlaygroundController {
     });
   }
 
+  // Completions use the connection of the focused playground.
+  async _playgroundConnectionChanged(): Promise<void> {
+    const connectionId = this._getPlaygroundConnectionId();
+
+    if (
+      this._connectionController.isConnectedToConnection(connectionId) &&
+      connectionId !== this._languageServerController._currentConnectionId
+    ) {
+      await this._activeConnectionChanged();
+    }
+  }
+
+  // The connection of the focused playground,
+  // or the active connection when no playground is focused.
+  _getPlaygroundConnectionId(): string | null {
+    const documentUri = vscode.window.activeTextEditor?.document.uri;
+
+    return this._connectionController.getPlaygroundConnectionId(
+      isPlayground(documentUri) ? documentUri : undefined,
+    );
+  }
+
   async _createPlaygroundFileWithContent(
     content: string | undefined,
+    connectionId = this._connectionController.getActiveConnectionId(),
   ): Promise<boolean> {
     try {
       // The MacOS default folder for saving files is a read-only root (/) directory,
@@ -208,6 +281,15 @@ export default class PlaygroundController {
       // as an identifier that distinguishes them from regular JS files.
       const document = await vscode.workspace.openTextDocument(documentUri);
 
+      // Bind the playground to the connection it was created for,
+      // so that changing the active connection later does not change it.
+      if (connectionId) {
+        this._connectionController.setPlaygroundConnectionId(
+          document.uri,
+          connectionId,
+        );
+      }
+
       // Focus new text document.
       await vscode.window.showTextDocument(document);
 
@@ -247,13 +329,20 @@ export default class PlaygroundController {
       this._telemetryService.track(
         new PlaygroundCreatedTelemetryEvent('createCollection'),
       );
-    } else {
-      this._telemetryService.track(
-        new PlaygroundCreatedTelemetryEvent('createDatabase'),
+
+      return this._createPlaygroundFileWithContent(
+        content,
+        this._connectionController.getConnectionIdForDataService(
+          element.getDataService(),
+        ),
       );
     }
 
-    return this._createPlaygroundFileWithContent(content);
+    this._telemetryService.track(
+      new PlaygroundCreatedTelemetryEvent('createDatabase'),
+    );
+
+    return this._createPlaygroundFileWithContent(content, element.connectionId);
   }
 
   createPlaygroundForNewIndex(
@@ -313,6 +402,63 @@ export default class PlaygroundController {
     return this._createPlaygroundFileWithContent(content);
   }
 
+  // Queries the documents that have a value of the schema analysis of a collection.
+  createPlaygroundForSchemaValue({
+    databaseName,
+    collectionName,
+    fieldPath,
+    value,
+    connectionId,
+  }: {
+    databaseName: string;
+    collectionName: string;
+    fieldPath: string;
+    value: unknown;
+    connectionId: string | null;
+  }): Promise<boolean> {
+    const content = playgroundSchemaValueQueryTemplate({
+      databaseName,
+      collectionName,
+      fieldPath,
+      shellValue: getShellValue(value),
+    });
+
+    this._telemetryService.track(
+      new PlaygroundCreatedTelemetryEvent('schemaAnalysis'),
+    );
+    return this._createPlaygroundFileWithContent(content, connectionId);
+  }
+
+  // Opens validation rules for review, running the playground applies them with collMod.
+  createPlaygroundForValidationRules({
+    databaseName,
+    collectionName,
+    validator,
+    validationLevel,
+    validationAction,
+    connectionId,
+  }: {
+    databaseName: string;
+    collectionName: string;
+    validator: Document;
+    validationLevel: string;
+    validationAction: string;
+    connectionId: string | null;
+  }): Promise<boolean> {
+    const content = playgroundValidationRulesTemplate({
+      databaseName,
+      collectionName,
+      validator: toJSString(validator, 2) ?? '{}',
+      validationLevel,
+      validationAction,
+    });
+
+    this._telemetryService.track(
+      new PlaygroundCreatedTelemetryEvent('validationRules'),
+    );
+    return this._createPlaygroundFileWithContent(content, connectionId);
+  }
+
   async createPlaygroundForCreateStreamProcessor(
     element: ConnectionTreeItem,
   ): Promise<boolean> {
@@ -324,7 +470,30 @@ export default class PlaygroundController {
       new PlaygroundCreatedTelemetryEvent('createStreamProcessor'),
     );
 
-    return this._createPlaygroundFileWithContent(content);
+    return this._createPlaygroundFileWithContent(content, element.connectionId);
+  }
+
+  async createPlaygroundForModifyStreamProcessor({
+    streamProcessorName,
+    pipeline,
+    isStarted,
+    connectionId,
+  }: {
+    streamProcessorName: string;
+    pipeline: Document[];
+    isStarted: boolean;
+    connectionId: string | null;
+  }): Promise<boolean> {
+    const content = playgroundModifyStreamProcessorTemplate({
+      streamProcessorName,
+      pipeline: toJSString(pipeline, 2) ?? '[]',
+      isStarted,
+    });
+
+    this._telemetryService.track(
+      new PlaygroundCreatedTelemetryEvent('modifyStreamProcessor'),
+    );
+    return this._createPlaygroundFileWithContent(content, connectionId);
   }
 
   async createPlaygroundFromTreeItem(
@@ -346,7 +515,12 @@ export default class PlaygroundController {
       );
     }
 
-    return this._createPlaygroundFileWithContent(content);
+    return this._createPlaygroundFileWithContent(
+      content,
+      this._connectionController.getConnectionIdForDataService(
+        treeItem.getDataService(),
+      ),
+    );
   }
 
   async createPlayground(): Promise<boolean> {
@@ -369,16 +543,20 @@ export default class PlaygroundController {
   async _evaluate(
     {
       codeToEvaluate,
+      connectionId,
       filePath,
     }: {
       codeToEvaluate: string;
+      connectionId: string | null;
       filePath?: string;
     },
     token: vscode.CancellationToken,
   ): Promise<ShellEvaluateResult> {
-    const connectionId = this._connectionController.getActiveConnectionId();
+    const mongoClientOption = connectionId
+      ? this._connectionController.getMongoClientConnectionOptions(connectionId)
+      : undefined;
 
-    if (!connectionId) {
+    if (!connectionId || !mongoClientOption) {
       throw new Error(connectBeforeRunningMessage);
     }
 
@@ -391,6 +569,8 @@ export default class PlaygroundController {
         {
           codeToEvaluate,
           connectionId,
+          connectionString: mongoClientOption.url,
+          connectionOptions: mongoClientOption.options,
           filePath,
         },
         token,
@@ -414,17 +594,53 @@ export default class PlaygroundController {
     return result;
   }
 
+  // The language server is only asked for the write operations
+  // in the code when the connection is write protected.
+  async _confirmWriteOperations({
+    codeToEvaluate,
+    connectionId,
+  }: {
+    codeToEvaluate: string;
+    connectionId: string | null;
+  }): Promise<boolean> {
+    if (
+      !this._connectionController.getConnectionWriteProtection(connectionId)
+    ) {
+      return true;
+    }
+
+    const writeOperations =
+      await this._languageServerController.getWriteOperations(codeToEvaluate);
+
+    if (writeOperations.length === 0) {
+      return true;
+    }
+
+    return this._connectionController.confirmWriteOperation({
+      connectionId,
+      operation: `run ${writeOperations.join(', ')}`,
+    });
+  }
+
   async _evaluateWithCancelModal({
     codeToEvaluate,
+    connectionId,
     filePath,
   }: {
     codeToEvaluate: string;
+    connectionId: string | null;
     filePath?: string;
   }): Promise<ShellEvaluateResult> {
-    if (!this._connectionController.isCurrentlyConnected()) {
+    if (!this._connectionController.isConnectedToConnection(connectionId)) {
       throw new Error(connectBeforeRunningMessage);
     }
 
+    if (
+      !(await this._confirmWriteOperations({ codeToEvaluate, connectionId }))
+    ) {
+      return null;
+    }
+
     return await vscode.window.withProgress(
       {
         location: ProgressLocation.Notification,
@@ -435,6 +651,7 @@ export default class PlaygroundController {
         return this._evaluate(
           {
             codeToEvaluate,
+            connectionId,
             filePath,
           },
           token,
@@ -445,8 +662,9 @@ export default class PlaygroundController {
 
   async _openInResultPane(
     result: PlaygroundRunResult | ExportToLanguageResult,
+    connectionId = this._getPlaygroundConnectionId(),
   ): Promise<void> {
-    this._playgroundResultProvider.setPlaygroundResult(result);
+    this._playgroundResultProvider.setPlaygroundResult(result, connectionId);
 
     if (!this._playgroundResultTextDocument) {
       await this._openResultAsVirtualDocument();
@@ -517,16 +735,19 @@ export default class PlaygroundController {
       }
     }
 
+    // The participant runs its code against the active connection.
+    const connectionId = this._connectionController.getActiveConnectionId();
     const evaluateResponse: ShellEvaluateResult =
       await this._evaluateWithCancelModal({
         codeToEvaluate,
+        connectionId,
       });
 
     if (!evaluateResponse || !evaluateResponse.result) {
       return false;
     }
 
-    await this._openInResultPane(evaluateResponse.result);
+    await this._openInResultPane(evaluateResponse.result, connectionId);
 
     return true;
   }
@@ -545,18 +766,24 @@ export default class PlaygroundController {
     codeToEvaluate: string;
     filePath?: string;
   }): Promise<boolean> {
+    if (!(await this._applyActivePlaygroundConnectionHeader())) {
+      return false;
+    }
+
     const shouldConfirmRunAll = vscode.workspace
       .getConfiguration('mdb')
       .get('confirmRunAll');
+    const connectionId = this._getPlaygroundConnectionId();
 
-    if (!this._connectionController.isCurrentlyConnected()) {
+    if (!this._connectionController.isConnectedToConnection(connectionId)) {
       void vscode.window.showErrorMessage(connectBeforeRunningMessage);
 
       return false;
     }
 
-    if (shouldConfirmRunAll === true) {
-      const name = this._connectionController.getActiveConnectionName();
+    if (shouldConfirmRunAll === true && connectionId) {
+      const name =
+        this._connectionController.getSavedConnectionName(connectionId);
       const confirmRunAll = await vscode.window.showInformationMessage(
         `Are you sure you want to run this playground against ${name}? This confirmation can be disabled in the extension settings.`,
         { modal: true },
@@ -571,6 +798,7 @@ export default class PlaygroundController {
     const evaluateResponse: ShellEvaluateResult =
       await this._evaluateWithCancelModal({
         codeToEvaluate,
+        connectionId,
         filePath,
       });
 
@@ -579,11 +807,42 @@ export default class PlaygroundController {
     }
 
     this._playgroundResult = evaluateResponse.result;
-    await this._openInResultPane(this._playgroundResult);
+    this._playgroundResultConnectionId = connectionId;
+    await this._openInResultPane(this._playgroundResult, connectionId);
+    void vscode.commands.executeCommand(
+      'setContext',
+      'mdb.isCursorPlaygroundResult',
+      isCursorResult(this._playgroundResult),
+    );
 
     return true;
   }
 
+  openPlaygroundResultsView(): Promise<boolean> {
+    const playgroundResult = this._playgroundResult;
+
+    if (
+      !playgroundResult ||
+      !isCursorResult(playgroundResult) ||
+      !Array.isArray(playgroundResult.content)
+    ) {
+      void vscode.window.showInformationMessage(
+        'Please run a playground that returns a cursor, such as find() or aggregate(), to view its results.',
+      );
+      return Promise.resolve(false);
+    }
+
+    this._playgroundResultsView.show({
+      documents: playgroundResult.content,
+      namespace: playgroundResult.namespace,
+      connectionId:
+        this._playgroundResultConnectionId ??
+        this._connectionController.getActiveConnectionId(),
+    });
+
+    return Promise.resolve(true);
+  }
+
   runSelectedPlaygroundBlocks(): Promise<boolean> {
     const editor = vscode.window.activeTextEditor;
     const selectedText = getSelectedText();
@@ -603,6 +862,62 @@ export default class PlaygroundController {
     });
   }
 
+  async explainSelectedPlaygroundQuery(): Promise<boolean> {
+    const editor = vscode.window.activeTextEditor;
+    const selectedText = getSelectedText();
+
+    if (!editor || !isPlayground(editor.document.uri) || !selectedText) {
+      void vscode.window.showInformationMessage(
+        'Please select a find or aggregate query in the playground.',
+      );
+      return false;
+    }
+
+    if (!(await this._applyActivePlaygroundConnectionHeader())) {
+      return false;
+    }
+
+    const connectionId = this._getPlaygroundConnectionId();
+
+    if (!this._connectionController.isConnectedToConnection(connectionId)) {
+      void vscode.window.showErrorMessage(connectBeforeRunningMessage);
+      return false;
+    }
+
+    const selectionStart = editor.selections
+      .map((selection) => selection.start)
+      .reduce((first, position) =>
+        position.isBefore(first) ? position : first,
+      );
+    const evaluateResponse: ShellEvaluateResult =
+      await this._evaluateWithCancelModal({
+        codeToEvaluate: getExplainCode(
+          editor.document.getText(
+            new vscode.Range(new vscode.Position(0, 0), selectionStart),
+          ),
+          selectedText,
+        ),
+        connectionId,
+        filePath: getActiveEditorFilePath(),
+      });
+    const content = evaluateResponse?.result?.content;
+
+    if (!content) {
+      return false;
+    }
+
+    try {
+      this._explainPlanView.show(getExplainPlanSummary(content));
+    } catch (error) {
+      void vscode.window.showErrorMessage(
+        `Unable to show the explain plan: ${formatError(error).message}`,
+      );
+      return false;
+    }
+
+    return true;
+  }
+
   runAllPlaygroundBlocks(): Promise<boolean> {
     const codeToEvaluate = getAllText();
 
@@ -666,6 +981,187 @@ export default class PlaygroundController {
     return true;
   }
 
+  async changePlaygroundConnection(
+    playgroundUri?: vscode.Uri,
+  ): Promise<boolean> {
+    const documentUri =
+      playgroundUri ?? vscode.window.activeTextEditor?.document.uri;
+
+    if (!documentUri || !isPlayground(documentUri)) {
+      void vscode.window.showErrorMessage(
+        'Please open a MongoDB playground file before changing its connection.',
+      );
+      return false;
+    }
+
+    const successfullyChanged =
+      await this._connectionController.changePlaygroundConnection(documentUri);
+
+    if (successfullyChanged) {
+      await this._updatePlaygroundConnectionHeader(documentUri);
+    }
+
+    return successfullyChanged;
+  }
+
+  // Binds the playground to the saved connection declared in its
+  // `// @connection:` header and connects to it when it is not connected.
+  async applyPlaygroundConnectionHeader(
+    document: vscode.TextDocument,
+  ): Promise<boolean> {
+    const header = findPlaygroundConnectionHeader(document.getText());
+
+    if (!header) {
+      return false;
+    }
+
+    const savedConnections = this._connectionController.getSavedConnections();
+    const connectionWithId = savedConnections.find(
+      ({ id }) => id === header.connectionName,
+    );
+    // Connection names are not unique, an id in the header is.
+    const matchingConnections = connectionWithId
+      ? [connectionWithId]
+      : savedConnections.filter(({ name }) => name === header.connectionName);
+
+    if (matchingConnections.length === 0) {
+      void vscode.window.showWarningMessage(
+        `The playground runs against '${header.connectionName}', which is not a saved connection. Change the connection in its header to run it.`,
+      );
+      return false;
+    }
+
+    const boundConnectionId =
+      this._connectionController.getPlaygroundBoundConnectionId(document.uri);
+    const connection =
+      matchingConnections.length === 1
+        ? matchingConnections[0]
+        : (matchingConnections.find(({ id }) => id === boundConnectionId) ??
+          (await this._selectPlaygroundHeaderConnection(
+            header.connectionName,
+            matchingConnections,
+          )));
+
+    if (!connection) {
+      return false;
+    }
+
+    if (boundConnectionId === connection.id) {
+      return true;
+    }
+
+    this._connectionController.setPlaygroundConnectionId(
+      document.uri,
+      connection.id,
+    );
+
+    if (matchingConnections.length > 1) {
+      // The header names the selected connection by its id from now on.
+      await this._updatePlaygroundConnectionHeader(document.uri);
+    }
+
+    if (this._connectionController.isConnectedToConnection(connection.id)) {
+      return true;
+    }
+
+    const shouldConfirmConnect = vscode.workspace
+      .getConfiguration('mdb')
+      .get('confirmPlaygroundConnection');
+
+    if (shouldConfirmConnect === true) {
+      const confirmConnect = await vscode.window.showInformationMessage(
+        `The playground runs against ${connection.name}. Do you want to connect to it?`,
+        'Connect',
+      );
+
+      if (confirmConnect !== 'Connect') {
+        return false;
+      }
+    }
+
+    const { successfullyConnected } =
+      await this._connectionController.connectWithConnectionId(connection.id);
+
+    return successfullyConnected;
+  }
+
+  async _selectPlaygroundHeaderConnection(
+    connectionName: string,
+    connections: LoadedConnection[],
+  ): Promise<LoadedConnection | undefined> {
+    const selectedQuickPickItem = await vscode.window.showQuickPick(
+      connections.map((connection) => ({
+        label: connection.name,
+        description: connection.id,
+        connection,
+      })),
+      {
+        placeHolder: `More than one saved connection is named '${connectionName}'. Select the connection the playground runs against...`,
+      },
+    );
+
+    return selectedQuickPickItem?.connection;
+  }
+
+  // A playground with a header only runs against the connection it names,
+  // never against the active connection when the header does not resolve.
+  async _applyActivePlaygroundConnectionHeader(): Promise<boolean> {
+    const document = vscode.window.activeTextEditor?.document;
+
+    if (
+      !document ||
+      !isPlayground(document.uri) ||
+      !findPlaygroundConnectionHeader(document.getText())
+    ) {
+      return true;
+    }
+
+    return this.applyPlaygroundConnectionHeader(document);
+  }
+
+  applyOpenPlaygroundConnectionHeaders(): void {
+    for (const document of vscode.workspace.textDocuments) {
+      if (isPlayground(document.uri)) {
+        void this.applyPlaygroundConnectionHeader(document);
+      }
+    }
+  }
+
+  // Keeps the header in sync when the playground is switched to another connection.
+  async _updatePlaygroundConnectionHeader(
+    documentUri: vscode.Uri,
+  ): Promise<void> {
+    const document = vscode.workspace.textDocuments.find(
+      ({ uri }) => uri.toString() === documentUri.toString(),
+    );
+    const header = document
+      ? findPlaygroundConnectionHeader(document.getText())
+      : undefined;
+    const connectionId =
+      this._connectionController.getPlaygroundBoundConnectionId(documentUri);
+
+    if (!document || !header || !connectionId) {
+      return;
+    }
+
+    const connectionName =
+      this._connectionController.getSavedConnectionName(connectionId);
+    const isConnectionNameUnique =
+      this._connectionController
+        .getSavedConnections()
+        .filter(({ name }) => name === connectionName).length === 1;
+
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(
+      documentUri,
+      document.lineAt(header.line).range,
+      getPlaygroundConnectionHeaderText(
+        isConnectionNameUnique ? connectionName : connectionId,
+      ),
+    );
+    await vscode.workspace.applyEdit(edit);
+  }
+
   async openPlayground(filePath: string): Promise<boolean> {
     try {
       const document = await vscode.workspace.openTextDocument(filePath);
@@ -687,5 +1183,9 @@ export default class PlaygroundController {
       DataServiceEventTypes.ACTIVE_CONNECTION_CHANGED,
       this._activeConnectionChangedHandler,
     );
+    this._connectionController.removeEventListener(
+      DataServiceEventTypes.PLAYGROUND_CONNECTIONS_CHANGED,
+      this._playgroundConnectionsChangedHandler,
+    );
   }
 }
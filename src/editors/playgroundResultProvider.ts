@@ -20,6 +20,8 @@ export default class PlaygroundResultProvider
   _connectionController: ConnectionController;
   _editDocumentCodeLensProvider: EditDocumentCodeLensProvider;
   _playgroundResult?: PlaygroundRunResult | ExportToLanguageResult;
+  // The connection the playground that produced the result ran against.
+  _playgroundResultConnectionId?: string | null;
 
   constructor(
     connectionController: ConnectionController,
@@ -34,9 +36,11 @@ export default class PlaygroundResultProvider
 
   setPlaygroundResult(
     playgroundResult?: PlaygroundRunResult | ExportToLanguageResult,
+    connectionId?: string | null,
   ): void {
     if (playgroundResult) {
       this._playgroundResult = playgroundResult;
+      this._playgroundResultConnectionId = connectionId;
     }
   }
 
@@ -62,6 +66,7 @@ export default class PlaygroundResultProvider
 
     this._editDocumentCodeLensProvider?.updateCodeLensesForPlayground(
       this._playgroundResult,
+      this._playgroundResultConnectionId ?? undefined,
     );
 
     return JSON.stringify(this._playgroundResult.content, null, 2);
@@ -68,6 +68,12 @@ export default class PlaygroundSelectionCodeActionProvider
       ];
     }
 
-    return codeActions;
+    return [
+      ...codeActions,
+      this.createCodeAction({
+        title: 'Explain selected query',
+        command: EXTENSION_COMMANDS.MDB_EXPLAIN_SELECTED_PLAYGROUND_QUERY,
+      }),
+    ];
   }
 }
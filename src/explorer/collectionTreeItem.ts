@@ -11,6 +11,10 @@ import { getImagesPath } from '../extensionConstants';
 import IndexListTreeItem from './indexListTreeItem';
 import type TreeItemParent from './treeItemParentInterface';
 import SchemaTreeItem from './schemaTreeItem';
+import ValidationTreeItem from './validationTreeItem';
+import { importDocumentsFromFile } from './importDocuments';
+import { dumpToFolder } from './dumpAndRestore';
+import { openGeneratedTypes } from './generateTypes';
 
 function getIconPath(
   type: string,
@@ -47,7 +51,11 @@ export type CollectionDetailsType = Awaited<
 >[number];
 
 function isChildCacheOutOfSync(
-  child: DocumentListTreeItem | SchemaTreeItem | IndexListTreeItem,
+  child:
+    | DocumentListTreeItem
+    | SchemaTreeItem
+    | IndexListTreeItem
+    | ValidationTreeItem,
 ): boolean {
   const isExpanded = child.isExpanded;
   const collapsibleState = child.collapsibleState;
@@ -65,6 +73,7 @@ export default class CollectionTreeItem
   private _documentListChild: DocumentListTreeItem;
   private _schemaChild: SchemaTreeItem;
   private _indexListChild: IndexListTreeItem;
+  private _validationChild: ValidationTreeItem;
 
   collection: CollectionDetailsType;
   collectionName: string;
@@ -93,6 +102,7 @@ export default class CollectionTreeItem
     existingDocumentListChild,
     existingSchemaChild,
     existingIndexListChild,
+    existingValidationChild,
   }: {
     collection: CollectionDetailsType;
     databaseName: string;
@@ -103,6 +113,7 @@ export default class CollectionTreeItem
     existingDocumentListChild?: DocumentListTreeItem;
     existingSchemaChild?: SchemaTreeItem;
     existingIndexListChild?: IndexListTreeItem;
+    existingValidationChild?: ValidationTreeItem;
   }) {
     super(
       collection.name,
@@ -156,6 +167,29 @@ export default class CollectionTreeItem
           cacheIsUpToDate: false,
           childrenCache: [], // Empty cache.
         });
+    this._validationChild = existingValidationChild
+      ? existingValidationChild
+      : new ValidationTreeItem({
+          collectionName: this.collectionName,
+          databaseName: this.databaseName,
+          dataService: this._dataService,
+          isExpanded: false,
+          cacheIsUpToDate: false,
+          validation: null, // Empty cache.
+        });
+
+    // Children of a connection that was restored keep the data service that
+    // was lost, they are rebuilt with the new one and keep their state.
+    if (
+      [
+        this._documentListChild,
+        this._schemaChild,
+        this._indexListChild,
+        this._validationChild,
+      ].some((child) => child.getDataService() !== dataService)
+    ) {
+      this.rebuildChildrenCache();
+    }
 
     this.tooltip =
       collection.type === CollectionTypes.view
@@ -183,7 +217,7 @@ export default class CollectionTreeItem
     }
 
     if (this.cacheIsUpToDate) {
-      return [this._documentListChild, this._schemaChild, this._indexListChild];
+      return this.getChildTreeItems();
     }
 
     this.cacheIsUpToDate = true;
@@ -192,7 +226,19 @@ export default class CollectionTreeItem
     // is ensure to be set by vscode.
     this.rebuildChildrenCache();
 
-    return [this._documentListChild, this._schemaChild, this._indexListChild];
+    return this.getChildTreeItems();
+  }
+
+  getChildTreeItems(): vscode.TreeItem[] {
+    // Views and time series collections have no validation rules.
+    return this._type === CollectionTypes.collection
+      ? [
+          this._documentListChild,
+          this._schemaChild,
+          this._indexListChild,
+          this._validationChild,
+        ]
+      : [this._documentListChild, this._schemaChild, this._indexListChild];
   }
 
   rebuildDocumentListTreeItem(): void {
@@ -207,6 +253,7 @@ export default class CollectionTreeItem
       refreshDocumentCount: this.refreshDocumentCount,
       cacheIsUpToDate: this._documentListChild.cacheIsUpToDate,
       childrenCache: this._documentListChild.getChildrenCache(),
+      documentFilter: this._documentListChild.getDocumentFilter(),
     });
   }
 
@@ -234,19 +281,32 @@ export default class CollectionTreeItem
     });
   }
 
+  rebuildValidationTreeItem(): void {
+    this._validationChild = new ValidationTreeItem({
+      collectionName: this.collectionName,
+      databaseName: this.databaseName,
+      dataService: this._dataService,
+      isExpanded: this._validationChild.isExpanded,
+      cacheIsUpToDate: this._validationChild.cacheIsUpToDate,
+      validation: this._validationChild.getValidationCache(),
+    });
+  }
+
   rebuildChildrenCache(): void {
     // We rebuild the children here so their controlled `expanded` state
     // is ensure to be set by vscode.
     this.rebuildDocumentListTreeItem();
     this.rebuildSchemaTreeItem();
     this.rebuildIndexListTreeItem();
+    this.rebuildValidationTreeItem();
   }
 
   needsToUpdateCache(): boolean {
     return (
       isChildCacheOutOfSync(this._documentListChild) ||
       isChildCacheOutOfSync(this._schemaChild) ||
-      isChildCacheOutOfSync(this._indexListChild)
+      isChildCacheOutOfSync(this._indexListChild) ||
+      isChildCacheOutOfSync(this._validationChild)
     );
   }
 
@@ -268,6 +328,9 @@ export default class CollectionTreeItem
     this.cacheIsUpToDate = false;
     this.documentCount = null;
 
+    // The document filter is set by the user so we keep it when refreshing.
+    const documentFilter = this._documentListChild.getDocumentFilter();
+
     this._documentListChild = new DocumentListTreeItem({
       collectionName: this.collectionName,
       databaseName: this.databaseName,
@@ -279,6 +342,7 @@ export default class CollectionTreeItem
       refreshDocumentCount: this.refreshDocumentCount,
       cacheIsUpToDate: false,
       childrenCache: [], // Empty cache.
+      documentFilter,
     });
     this._schemaChild = new SchemaTreeItem({
       collectionName: this.collectionName,
@@ -298,6 +362,14 @@ export default class CollectionTreeItem
       cacheIsUpToDate: false,
       childrenCache: [], // Empty cache.
     });
+    this._validationChild = new ValidationTreeItem({
+      collectionName: this.collectionName,
+      databaseName: this.databaseName,
+      dataService: this._dataService,
+      isExpanded: false,
+      cacheIsUpToDate: false,
+      validation: null, // Empty cache.
+    });
   }
 
   getDocumentListChild(): DocumentListTreeItem {
@@ -309,6 +381,12 @@ export default class CollectionTreeItem
   getIndexListChild(): IndexListTreeItem {
     return this._indexListChild;
   }
+  getValidationChild(): ValidationTreeItem {
+    return this._validationChild;
+  }
+  getDataService(): DataService {
+    return this._dataService;
+  }
 
   getMaxDocumentsToShow(): number {
     if (!this._documentListChild) {
@@ -391,4 +469,24 @@ export default class CollectionTreeItem
       return false;
     }
   }
+
+  onImportDataClicked(): Promise<boolean> {
+    return importDocumentsFromFile({
+      dataService: this._dataService,
+      databaseName: this.databaseName,
+      collectionName: this.collectionName,
+    });
+  }
+
+  onGenerateTypesClicked(): Promise<boolean> {
+    return openGeneratedTypes(this._schemaChild);
+  }
+
+  onDumpCollectionClicked(): Promise<boolean> {
+    return dumpToFolder({
+      dataService: this._dataService,
+      databaseName: this.databaseName,
+      collectionNames: [this.collectionName],
+    });
+  }
 }
@@ -0,0 +1,67 @@
+import * as vscode from 'vscode';
+
+import type ConnectionTreeItem from './connectionTreeItem';
+import type TreeItemParent from './treeItemParentInterface';
+import type { StoreConnectionGroupInfo } from '../storage/connectionStorage';
+import { sortTreeItemsByLabel } from './treeItemUtils';
+
+export default class ConnectionGroupTreeItem
+  extends vscode.TreeItem
+  implements TreeItemParent, vscode.TreeDataProvider<ConnectionTreeItem>
+{
+  contextValue = 'connectionGroupTreeItem' as const;
+  cacheIsUpToDate = true;
+  doesNotRequireTreeUpdate = true;
+
+  private _connectionTreeItems: ConnectionTreeItem[];
+
+  groupName: string;
+  isExpanded: boolean;
+
+  constructor({
+    group,
+    isExpanded,
+    connectionTreeItems,
+  }: {
+    group: StoreConnectionGroupInfo;
+    isExpanded: boolean;
+    connectionTreeItems: ConnectionTreeItem[];
+  }) {
+    super(
+      group.name,
+      isExpanded
+        ? vscode.TreeItemCollapsibleState.Expanded
+        : vscode.TreeItemCollapsibleState.Collapsed,
+    );
+
+    this.groupName = group.name;
+    this.isExpanded = isExpanded;
+    this._connectionTreeItems = connectionTreeItems;
+
+    this.id = `connection-group-${group.name}`;
+    this.tooltip = group.name;
+    this.description = `${connectionTreeItems.length}`;
+    this.iconPath = new vscode.ThemeIcon(
+      'folder',
+      group.color ? new vscode.ThemeColor(`charts.${group.color}`) : undefined,
+    );
+  }
+
+  getTreeItem(element: ConnectionGroupTreeItem): ConnectionGroupTreeItem {
+    return element;
+  }
+
+  getChildren(): Promise<vscode.TreeItem[]> {
+    return Promise.resolve(sortTreeItemsByLabel(this._connectionTreeItems));
+  }
+
+  onDidCollapse(): void {
+    this.isExpanded = false;
+  }
+
+  onDidExpand(): Promise<boolean> {
+    this.isExpanded = true;
+
+    return Promise.resolve(true);
+  }
+}
@@ -11,7 +11,10 @@ import formatError from '../utils/formatError';
 import { getImagesPath } from '../extensionConstants';
 import type TreeItemParent from './treeItemParentInterface';
 import StreamProcessorTreeItem from './streamProcessorTreeItem';
-import type { ConnectionSource } from '../storage/connectionStorage';
+import type {
+  ConnectionSource,
+  ConnectionWriteProtection,
+} from '../storage/connectionStorage';
 
 export type ConnectionItemContextValue = `${'disconnected' | 'connected'}${
   | ''
@@ -35,6 +38,21 @@ function getIconPath(isActiveConnection: boolean): {
       };
 }
 
+const WRITE_PROTECTION_LABELS: Record<ConnectionWriteProtection, string> = {
+  production: 'production',
+  readOnly: 'read-only',
+};
+
+// Write protected connections get a colored icon so that they can't be
+// mistaken for the other connections.
+function getWriteProtectionIcon(
+  writeProtection: ConnectionWriteProtection,
+): vscode.ThemeIcon {
+  return writeProtection === 'production'
+    ? new vscode.ThemeIcon('shield', new vscode.ThemeColor('charts.red'))
+    : new vscode.ThemeIcon('lock', new vscode.ThemeColor('charts.yellow'));
+}
+
 export default class ConnectionTreeItem
   extends vscode.TreeItem
   implements TreeItemParent, vscode.TreeDataProvider<ConnectionTreeItem>
@@ -77,9 +95,12 @@ export default class ConnectionTreeItem
     );
 
     const isConnected =
-      connectionController.getActiveConnectionId() === connectionId &&
-      !connectionController.isDisconnecting() &&
-      !connectionController.isConnecting();
+      connectionController.isConnectedToConnection(connectionId) &&
+      !(
+        connectionController.getActiveConnectionId() === connectionId &&
+        connectionController.isDisconnecting()
+      ) &&
+      connectionController.getConnectingConnectionId() !== connectionId;
 
     this.contextValue = `${isConnected ? 'connected' : 'disconnected'}${
       source === 'user' ? '' : 'Preset'
@@ -104,8 +125,22 @@ export default class ConnectionTreeItem
         this.connectionId,
       );
     this.iconPath = getIconPath(
-      connectionController.getActiveConnectionId() === this.connectionId,
+      connectionController.isConnectedToConnection(this.connectionId),
+    );
+
+    const writeProtection = connectionController.getConnectionWriteProtection(
+      this.connectionId,
     );
+
+    if (writeProtection) {
+      const writeProtectionLabel = WRITE_PROTECTION_LABELS[writeProtection];
+
+      this.tooltip = `${this.tooltip} (${writeProtectionLabel})`;
+      this.description = this.description
+        ? `${writeProtectionLabel}, ${this.description}`
+        : writeProtectionLabel;
+      this.iconPath = getWriteProtectionIcon(writeProtection);
+    }
   }
 
   getTreeItem(element: ConnectionTreeItem): ConnectionTreeItem {
@@ -113,7 +148,9 @@ export default class ConnectionTreeItem
   }
 
   async listDatabases(): Promise<string[]> {
-    const dataService = this._connectionController.getActiveDataService();
+    const dataService = this._connectionController.getConnectedDataService(
+      this.connectionId,
+    );
 
     if (dataService === null) {
       throw new Error('Not currently connected.');
@@ -132,7 +169,9 @@ export default class ConnectionTreeItem
   }
 
   async listStreamProcessors(): Promise<StreamProcessor[]> {
-    const dataService = this._connectionController.getActiveDataService();
+    const dataService = this._connectionController.getConnectedDataService(
+      this.connectionId,
+    );
 
     if (dataService === null) {
       throw new Error('Not currently connected.');
@@ -149,22 +188,32 @@ export default class ConnectionTreeItem
   }
 
   async getChildren(): Promise<any[]> {
+    const isActiveConnection =
+      this._connectionController.getActiveConnectionId() === this.connectionId;
+
     if (
       !this.isExpanded ||
-      this._connectionController.isDisconnecting() ||
-      this._connectionController.isConnecting()
+      (isActiveConnection && this._connectionController.isDisconnecting()) ||
+      this._connectionController.getConnectingConnectionId() ===
+        this.connectionId ||
+      // The children are kept in the cache and shown again when the
+      // connection is restored.
+      this._connectionController.isReconnecting(this.connectionId)
     ) {
       return [];
     }
 
-    const dataService = this._connectionController.getActiveDataService();
+    const dataService = this._connectionController.getConnectedDataService(
+      this.connectionId,
+    );
 
     if (dataService === null) {
       throw new Error('Not currently connected.');
     }
 
-    const isAtlasStreams =
-      this._connectionController.isConnectedToAtlasStreams();
+    const isAtlasStreams = this._connectionController.isConnectedToAtlasStreams(
+      this.connectionId,
+    );
 
     if (this.cacheIsUpToDate) {
       const pastChildrenCache = this._childrenCache;
@@ -267,13 +316,11 @@ export default class ConnectionTreeItem
     this.cacheIsUpToDate = false;
     this.isExpanded = true;
 
-    if (
-      this._connectionController.getActiveConnectionId() === this.connectionId
-    ) {
+    if (this._connectionController.isConnectedToConnection(this.connectionId)) {
       return true;
     }
 
-    // If we aren't the active connection, we reconnect.
+    // If we aren't connected to the connection, we connect.
     try {
       const { successfullyConnected } =
         await this._connectionController.connectWithConnectionId(
@@ -0,0 +1,269 @@
+import * as vscode from 'vscode';
+import type { Document } from 'bson';
+import type { DataService } from 'mongodb-data-service';
+
+import type ConnectionController from '../connectionController';
+import type { ImportFailure, ImportRow } from '../utils/documentsImport';
+import { importDocuments } from '../utils/documentsImport';
+import { createIndexes, getIndexSpecifications } from '../utils/databaseDump';
+import formatError from '../utils/formatError';
+import { createLogger } from '../logging';
+
+const log = createLogger('copy collection');
+
+const COPY_BATCH_SIZE = 1000;
+
+const COPY_INDEXES_ITEMS: (vscode.QuickPickItem & { copyIndexes: boolean })[] =
+  [
+    { label: 'Copy documents and indexes', copyIndexes: true },
+    { label: 'Copy documents only', copyIndexes: false },
+  ];
+
+type CopyTarget = {
+  connectionId: string;
+  connectionName: string;
+  namespace: string;
+  copyIndexes: boolean;
+};
+
+async function* readCollectionRows(
+  dataService: DataService,
+  namespace: string,
+): AsyncGenerator<ImportRow> {
+  // Values are not promoted so numbers keep their BSON type in the copy.
+  const cursor = dataService.findCursor(
+    namespace,
+    {},
+    { promoteValues: false },
+  );
+  let row = 0;
+
+  try {
+    for await (const document of cursor) {
+      yield { row: ++row, document: document as Document };
+    }
+  } finally {
+    await cursor.close();
+  }
+}
+
+async function pickCopyTarget(
+  connectionController: ConnectionController,
+  sourceNamespace: string,
+): Promise<CopyTarget | undefined> {
+  const connectionItem = await vscode.window.showQuickPick(
+    connectionController
+      .getSavedConnections()
+      .sort((a, b) => (a.name || '').localeCompare(b.name || ''))
+      .map(({ id, name }) => ({
+        label: name,
+        description: connectionController.isConnectedToConnection(id)
+          ? 'connected'
+          : undefined,
+        connectionId: id,
+      })),
+    { placeHolder: 'Select the connection to copy the collection to' },
+  );
+
+  if (!connectionItem) {
+    return;
+  }
+
+  const namespace = await vscode.window.showInputBox({
+    value: sourceNamespace,
+    prompt: `Enter the namespace to copy the documents to on '${connectionItem.label}'`,
+    validateInput: (value) =>
+      /^[^.\s]+\.[^\s]+$/.test(value.trim())
+        ? null
+        : 'Namespace must be a database and collection name, e.g. test.movies',
+  });
+  const copyIndexesItem =
+    namespace &&
+    (await vscode.window.showQuickPick(COPY_INDEXES_ITEMS, {
+      placeHolder: 'Select whether to recreate the indexes',
+    }));
+
+  if (!namespace || !copyIndexesItem) {
+    return;
+  }
+
+  return {
+    connectionId: connectionItem.connectionId,
+    connectionName: connectionItem.label,
+    namespace: namespace.trim(),
+    copyIndexes: copyIndexesItem.copyIndexes,
+  };
+}
+
+async function copyDocuments({
+  sourceDataService,
+  sourceNamespace,
+  targetDataService,
+  target,
+}: {
+  sourceDataService: DataService;
+  sourceNamespace: string;
+  targetDataService: DataService;
+  target: CopyTarget;
+}): Promise<{
+  insertedCount: number;
+  failures: ImportFailure[];
+  cancelled: boolean;
+}> {
+  const documentCount = await sourceDataService.estimatedCount(
+    sourceNamespace,
+    {},
+  );
+  const failures: ImportFailure[] = [];
+
+  const { insertedCount, cancelled } = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `Copying '${sourceNamespace}' to '${target.namespace}' on ${target.connectionName}...`,
+      cancellable: true,
+    },
+    async (progress, token) => {
+      let reportedCount = 0;
+      const result = await importDocuments({
+        rows: readCollectionRows(sourceDataService, sourceNamespace),
+        batchSize: COPY_BATCH_SIZE,
+        insertMany: (documents) =>
+          targetDataService.insertMany(target.namespace, documents, {
+            ordered: false,
+          }),
+        onFailure: (failure) => {
+          failures.push(failure);
+          return Promise.resolve();
+        },
+        onProgress: (count) => {
+          progress.report({
+            message: `${count} of about ${documentCount} documents`,
+            increment: documentCount
+              ? ((count - reportedCount) / documentCount) * 100
+              : undefined,
+          });
+          reportedCount = count;
+        },
+        isCancelled: () => token.isCancellationRequested,
+      });
+
+      return {
+        insertedCount: result.insertedCount,
+        cancelled: token.isCancellationRequested,
+      };
+    },
+  );
+
+  // A cancelled copy leaves the target as it is, without its indexes.
+  if (target.copyIndexes && !cancelled) {
+    await createIndexes(
+      targetDataService,
+      target.namespace,
+      getIndexSpecifications(await sourceDataService.indexes(sourceNamespace)),
+    );
+  }
+
+  return { insertedCount, failures, cancelled };
+}
+
+/**
+ * Copies the documents, and optionally the indexes, of a collection of the
+ * active connection to a namespace on a saved connection the user selects.
+ */
+export async function copyCollectionToConnection({
+  connectionController,
+  dataService: sourceDataService,
+  databaseName,
+  collectionName,
+}: {
+  connectionController: ConnectionController;
+  dataService: DataService;
+  databaseName: string;
+  collectionName: string;
+}): Promise<boolean> {
+  const sourceNamespace = `${databaseName}.${collectionName}`;
+  const target = await pickCopyTarget(connectionController, sourceNamespace);
+
+  if (!target) {
+    return false;
+  }
+
+  const isSourceConnection =
+    target.connectionId ===
+    connectionController.getConnectionIdForDataService(sourceDataService);
+
+  if (isSourceConnection && target.namespace === sourceNamespace) {
+    void vscode.window.showErrorMessage(
+      'Unable to copy: the target is the collection being copied.',
+    );
+    return false;
+  }
+
+  if (
+    !(await connectionController.confirmWriteOperation({
+      connectionId: target.connectionId,
+      operation: `copy the collection to '${target.namespace}'`,
+    }))
+  ) {
+    return false;
+  }
+
+  log.info('Copy collection', {
+    sourceNamespace,
+    targetConnectionId: target.connectionId,
+    targetNamespace: target.namespace,
+  });
+
+  // A target that is already connected stays connected after the copy.
+  const connectedTargetDataService = isSourceConnection
+    ? sourceDataService
+    : connectionController.getConnectedDataService(target.connectionId);
+  let targetDataService: DataService | undefined;
+
+  try {
+    targetDataService = connectedTargetDataService
+      ? connectedTargetDataService
+      : await vscode.window.withProgress(
+          {
+            location: vscode.ProgressLocation.Notification,
+            title: `Connecting to ${target.connectionName}...`,
+          },
+          () =>
+            connectionController.connectWithoutActivating(target.connectionId),
+        );
+
+    const { insertedCount, failures, cancelled } = await copyDocuments({
+      sourceDataService,
+      sourceNamespace,
+      targetDataService,
+      target,
+    });
+    const copiedDocuments = `${insertedCount} document${
+      insertedCount === 1 ? '' : 's'
+    }`;
+    const message = cancelled
+      ? `Cancelled the copy to '${target.namespace}' on ${target.connectionName} after copying ${copiedDocuments}.`
+      : `Copied ${copiedDocuments} to '${target.namespace}' on ${target.connectionName}.`;
+
+    if (failures.length > 0) {
+      log.error('Documents were not copied', failures);
+      void vscode.window.showWarningMessage(
+        `${message} ${failures.length} could not be inserted: ${failures[0].error}`,
+      );
+    } else {
+      void vscode.window.showInformationMessage(message);
+    }
+
+    return !cancelled;
+  } catch (error) {
+    void vscode.window.showErrorMessage(
+      `Copy collection failed: ${formatError(error).message}`,
+    );
+
+    return false;
+  } finally {
+    if (targetDataService && !connectedTargetDataService) {
+      await targetDataService.disconnect();
+    }
+  }
+}
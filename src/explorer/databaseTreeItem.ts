@@ -7,6 +7,8 @@ import type { CollectionDetailsType } from './collectionTreeItem';
 import formatError from '../utils/formatError';
 import { getImagesPath } from '../extensionConstants';
 import type TreeItemParent from './treeItemParentInterface';
+import { importDocumentsFromFile } from './importDocuments';
+import { dumpToFolder, restoreFromFolder } from './dumpAndRestore';
 
 function getIconPath(): { light: string; dark: string } {
   const LIGHT = path.join(getImagesPath(), 'light');
@@ -96,6 +98,7 @@ export default class DatabaseTreeItem
           existingDocumentListChild: prevChild.getDocumentListChild(),
           existingSchemaChild: prevChild.getSchemaChild(),
           existingIndexListChild: prevChild.getIndexListChild(),
+          existingValidationChild: prevChild.getValidationChild(),
         });
       });
 
@@ -153,6 +156,8 @@ export default class DatabaseTreeItem
               pastChildrenCache[collection.name].getSchemaChild(),
             existingIndexListChild:
               pastChildrenCache[collection.name].getIndexListChild(),
+            existingValidationChild:
+              pastChildrenCache[collection.name].getValidationChild(),
           });
         } else {
           this._childrenCache[collection.name] = new CollectionTreeItem({
@@ -192,6 +197,10 @@ export default class DatabaseTreeItem
     return this._childrenCache;
   }
 
+  getDataService(): DataService {
+    return this._dataService;
+  }
+
   // Prompt the user to input the database name to confirm the drop, then drop.
   async onDropDatabaseClicked(): Promise<boolean> {
     const databaseName = this.databaseName;
@@ -237,4 +246,40 @@ export default class DatabaseTreeItem
       return false;
     }
   }
+
+  // Prompt the user for the collection to import into, which is created
+  // when it does not exist, then import the documents of a file.
+  async onImportDataClicked(): Promise<boolean> {
+    const collectionName = await vscode.window.showInputBox({
+      value: '',
+      placeHolder: 'e.g. myNewCollection',
+      prompt: `Enter the name of the collection in '${this.databaseName}' to import the documents into.`,
+      validateInput: (inputCollectionName) =>
+        inputCollectionName.trim() ? null : 'Collection name is required',
+    });
+
+    if (!collectionName) {
+      return false;
+    }
+
+    return importDocumentsFromFile({
+      dataService: this._dataService,
+      databaseName: this.databaseName,
+      collectionName: collectionName.trim(),
+    });
+  }
+
+  onDumpDatabaseClicked(): Promise<boolean> {
+    return dumpToFolder({
+      dataService: this._dataService,
+      databaseName: this.databaseName,
+    });
+  }
+
+  onRestoreDatabaseClicked(): Promise<boolean> {
+    return restoreFromFolder({
+      dataService: this._dataService,
+      databaseName: this.databaseName,
+    });
+  }
 }
@@ -1,6 +1,12 @@
 import * as vscode from 'vscode';
 import numeral from 'numeral';
 import path from 'path';
+import {
+  isFilterValid,
+  isProjectValid,
+  isSortValid,
+  toJSString,
+} from 'mongodb-query-parser';
 
 import { createLogger } from '../logging';
 import DocumentTreeItem from './documentTreeItem';
@@ -8,6 +14,8 @@ import formatError from '../utils/formatError';
 import { getImagesPath } from '../extensionConstants';
 import type TreeItemParent from './treeItemParentInterface';
 import type { DataService } from 'mongodb-data-service';
+import type { Document } from 'bson';
+import type { DocumentFilter } from '../types/documentFilterType';
 
 const log = createLogger('documents tree item');
 
@@ -17,6 +25,7 @@ const log = createLogger('documents tree item');
 export const MAX_DOCUMENTS_VISIBLE = 10;
 
 export const DOCUMENT_LIST_ITEM = 'documentListTreeItem';
+export const FILTERED_DOCUMENT_LIST_ITEM = 'filteredDocumentListTreeItem';
 export enum CollectionTypes {
   collection = 'collection',
   view = 'view',
@@ -77,14 +86,57 @@ function getIconPath(): { light: string; dark: string } {
   };
 }
 
-function getTooltip(type: string, documentCount: number | null): string {
+function getTooltip(
+  type: string,
+  documentCount: number | null,
+  documentFilter: DocumentFilter | null,
+): string {
   const typeString = type === CollectionTypes.view ? 'View' : 'Collection';
-  if (documentCount !== null) {
-    return `${typeString} Documents - ${documentCount}`;
+  const tooltip =
+    documentCount !== null
+      ? `${typeString} Documents - ${documentCount}`
+      : `${typeString} Documents`;
+
+  if (!documentFilter) {
+    return tooltip;
+  }
+
+  const filterLines = [`Filter: ${toJSString(documentFilter.filter)}`];
+  if (documentFilter.projection) {
+    filterLines.push(`Projection: ${toJSString(documentFilter.projection)}`);
+  }
+  if (documentFilter.sort) {
+    filterLines.push(`Sort: ${toJSString(documentFilter.sort)}`);
+  }
+
+  return [tooltip, ...filterLines].join('\n');
+}
+
+function getDescription(
+  documentCount: number | null,
+  documentFilter: DocumentFilter | null,
+): string | undefined {
+  // The count is the estimated count of the whole collection, so when a
+  // filter is applied we badge the list to make it clear it's narrowed.
+  if (documentFilter) {
+    return documentCount !== null
+      ? `${formatDocCount(documentCount)} (filtered)`
+      : 'filtered';
   }
-  return `${typeString} Documents`;
+
+  return documentCount !== null ? formatDocCount(documentCount) : undefined;
 }
 
+export const isEmptyDocumentFilter = (
+  documentFilter: DocumentFilter,
+): boolean => {
+  return (
+    Object.keys(documentFilter.filter).length === 0 &&
+    !documentFilter.projection &&
+    !documentFilter.sort
+  );
+};
+
 export default class DocumentListTreeItem
   extends vscode.TreeItem
   implements TreeItemParent, vscode.TreeDataProvider<DocumentListTreeItem>
@@ -93,7 +145,8 @@ export default class DocumentListTreeItem
   private _childrenCache: Array<DocumentTreeItem | ShowMoreDocumentsTreeItem> =
     [];
 
-  contextValue = DOCUMENT_LIST_ITEM;
+  contextValue: typeof DOCUMENT_LIST_ITEM | typeof FILTERED_DOCUMENT_LIST_ITEM =
+    DOCUMENT_LIST_ITEM;
 
   // We display the document count in the description of the
   // document list tree item, even when it hasn't been expanded.
@@ -103,6 +156,7 @@ export default class DocumentListTreeItem
 
   _documentCount: number | null;
   private _maxDocumentsToShow: number;
+  private _documentFilter: DocumentFilter | null;
 
   collectionName: string;
   databaseName: string;
@@ -126,6 +180,7 @@ export default class DocumentListTreeItem
     refreshDocumentCount,
     cacheIsUpToDate,
     childrenCache,
+    documentFilter,
   }: {
     collectionName: string;
     databaseName: string;
@@ -137,6 +192,7 @@ export default class DocumentListTreeItem
     refreshDocumentCount: () => Promise<number>;
     cacheIsUpToDate: boolean;
     childrenCache: Array<DocumentTreeItem | ShowMoreDocumentsTreeItem>; // Existing cache.
+    documentFilter?: DocumentFilter | null;
   }) {
     super(ITEM_LABEL, getCollapsableStateForDocumentList(isExpanded, type));
 
@@ -151,18 +207,30 @@ export default class DocumentListTreeItem
 
     this._maxDocumentsToShow = maxDocumentsToShow;
     this._documentCount = cachedDocumentCount;
+    this._documentFilter = documentFilter ?? null;
 
     this.refreshDocumentCount = refreshDocumentCount;
 
     this._childrenCache = childrenCache;
     this.cacheIsUpToDate = cacheIsUpToDate;
 
-    if (this._documentCount !== null) {
-      this.description = formatDocCount(this._documentCount);
-    }
-
     this.iconPath = getIconPath();
-    this.tooltip = getTooltip(type, cachedDocumentCount);
+    this._updateFilterDisplay();
+  }
+
+  _updateFilterDisplay(): void {
+    this.contextValue = this._documentFilter
+      ? FILTERED_DOCUMENT_LIST_ITEM
+      : DOCUMENT_LIST_ITEM;
+    this.description = getDescription(
+      this._documentCount,
+      this._documentFilter,
+    );
+    this.tooltip = getTooltip(
+      this.type,
+      this._documentCount,
+      this._documentFilter,
+    );
   }
 
   getTreeItem(element: DocumentListTreeItem): DocumentListTreeItem {
@@ -170,6 +238,12 @@ export default class DocumentListTreeItem
   }
 
   hasMoreDocumentsToShow(): boolean {
+    if (this._documentFilter) {
+      // The document count is not filtered, so like the collection documents
+      // view we assume there are more to show when a full page was returned.
+      return this._childrenCache.length >= this._maxDocumentsToShow;
+    }
+
     if (this._documentCount === null) {
       return false;
     }
@@ -221,8 +295,16 @@ export default class DocumentListTreeItem
     try {
       documents = await this._dataService.find(
         this.namespace,
-        {}, // No filter.
-        { limit: this._maxDocumentsToShow },
+        this._documentFilter?.filter ?? {},
+        {
+          limit: this._maxDocumentsToShow,
+          ...(this._documentFilter?.projection
+            ? { projection: this._documentFilter.projection }
+            : {}),
+          ...(this._documentFilter?.sort
+            ? { sort: this._documentFilter.sort }
+            : {}),
+        },
       );
     } catch (error) {
       void vscode.window.showErrorMessage(
@@ -289,7 +371,83 @@ export default class DocumentListTreeItem
 
     const docCount = await this.refreshDocumentCount();
     this._documentCount = docCount;
-    this.description = formatDocCount(docCount);
+    this._updateFilterDisplay();
+  }
+
+  async onSetDocumentFilterClicked(): Promise<boolean> {
+    const currentFilter = this._documentFilter;
+
+    const filterInput = await vscode.window.showInputBox({
+      value: currentFilter ? toJSString(currentFilter.filter) : '',
+      placeHolder: "e.g. { status: 'active' }",
+      prompt: `Enter the filter to apply to the documents of '${this.namespace}'. Leave empty to match all documents.`,
+      validateInput: (input: string) => {
+        return isFilterValid(input) === false ? 'Invalid filter.' : null;
+      },
+    });
+    if (filterInput === undefined) {
+      return false;
+    }
+
+    const projectionInput = await vscode.window.showInputBox({
+      value: currentFilter?.projection
+        ? toJSString(currentFilter.projection)
+        : '',
+      placeHolder: 'e.g. { name: 1, status: 1 }',
+      prompt: 'Enter the projection to apply. Leave empty to show all fields.',
+      validateInput: (input: string) => {
+        return isProjectValid(input) === false ? 'Invalid projection.' : null;
+      },
+    });
+    if (projectionInput === undefined) {
+      return false;
+    }
+
+    const sortInput = await vscode.window.showInputBox({
+      value: currentFilter?.sort ? toJSString(currentFilter.sort) : '',
+      placeHolder: 'e.g. { createdAt: -1 }',
+      prompt: 'Enter the sort to apply. Leave empty for the natural order.',
+      validateInput: (input: string) => {
+        return isSortValid(input) === false ? 'Invalid sort.' : null;
+      },
+    });
+    if (sortInput === undefined) {
+      return false;
+    }
+
+    const documentFilter: DocumentFilter = {
+      filter: isFilterValid(filterInput),
+      projection: (isProjectValid(projectionInput) || undefined) as
+        | Document
+        | undefined,
+      sort: (isSortValid(sortInput) || undefined) as Document | undefined,
+    };
+
+    log.info(`Document filter set for the '${this.namespace}' namespace`);
+
+    this.setDocumentFilter(
+      isEmptyDocumentFilter(documentFilter) ? null : documentFilter,
+    );
+
+    return true;
+  }
+
+  onClearDocumentFilterClicked(): void {
+    log.info(`Document filter cleared for the '${this.namespace}' namespace`);
+
+    this.setDocumentFilter(null);
+  }
+
+  setDocumentFilter(documentFilter: DocumentFilter | null): void {
+    this._documentFilter = documentFilter;
+    this._childrenCache = [];
+    this.cacheIsUpToDate = false;
+    this._maxDocumentsToShow = MAX_DOCUMENTS_VISIBLE;
+    this._updateFilterDisplay();
+  }
+
+  getDocumentFilter(): DocumentFilter | null {
+    return this._documentFilter;
   }
 
   getChildrenCache(): Array<DocumentTreeItem | ShowMoreDocumentsTreeItem> {
@@ -299,4 +457,8 @@ export default class DocumentListTreeItem
   getMaxDocumentsToShow(): number {
     return this._maxDocumentsToShow;
   }
+
+  getDataService(): DataService {
+    return this._dataService;
+  }
 }
@@ -0,0 +1,335 @@
+import * as vscode from 'vscode';
+import path from 'path';
+import type { DataService } from 'mongodb-data-service';
+
+import type { DumpDataFormat, DumpedCollection } from '../utils/databaseDump';
+import {
+  dumpCollection,
+  listDumpedCollections,
+  restoreCollection,
+} from '../utils/databaseDump';
+import { createFailuresWriter } from './importDocuments';
+import formatError from '../utils/formatError';
+import { createLogger } from '../logging';
+
+const log = createLogger('dump and restore');
+
+const DUMP_FORMAT_ITEMS: (vscode.QuickPickItem & {
+  format: DumpDataFormat;
+})[] = [
+  {
+    label: 'Extended JSON',
+    description: 'A canonical extended JSON document per line',
+    format: 'ejson',
+  },
+  {
+    label: 'BSON',
+    description: 'The same format as mongodump',
+    format: 'bson',
+  },
+];
+
+const pluralize = (count: number, noun: string): string =>
+  `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+async function pickFolder(openLabel: string): Promise<string | undefined> {
+  const [folderUri] =
+    (await vscode.window.showOpenDialog({
+      canSelectFiles: false,
+      canSelectFolders: true,
+      canSelectMany: false,
+      openLabel,
+      defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+    })) ?? [];
+
+  return folderUri?.fsPath;
+}
+
+/**
+ * Dumps the collections, or every collection of the database, to a folder
+ * named after the database in a folder the user selects.
+ */
+export async function dumpToFolder({
+  dataService,
+  databaseName,
+  collectionNames,
+}: {
+  dataService: DataService;
+  databaseName: string;
+  collectionNames?: string[];
+}): Promise<boolean> {
+  log.info('Dump to folder', { databaseName, collectionNames });
+
+  try {
+    const formatItem = await vscode.window.showQuickPick(DUMP_FORMAT_ITEMS, {
+      placeHolder: 'Select the format of the documents',
+    });
+    const parentFolderPath = formatItem && (await pickFolder('Dump Here'));
+
+    if (!formatItem || !parentFolderPath) {
+      return false;
+    }
+
+    const folderPath = path.join(parentFolderPath, databaseName);
+    const names =
+      collectionNames ??
+      (await dataService.listCollections(databaseName))
+        .map(({ name }) => name)
+        .filter((name) => !name.startsWith('system.'));
+
+    const result = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Dumping '${databaseName}'...`,
+        cancellable: true,
+      },
+      async (progress, token) => {
+        const total = { collectionCount: 0, documentCount: 0 };
+
+        for (const collectionName of names) {
+          if (token.isCancellationRequested) {
+            break;
+          }
+
+          progress.report({
+            message: collectionName,
+            increment: 100 / names.length,
+          });
+          total.documentCount += await dumpCollection({
+            dataService,
+            databaseName,
+            collectionName,
+            folderPath,
+            format: formatItem.format,
+            isCancelled: () => token.isCancellationRequested,
+          });
+
+          // The collection that is being dumped when cancelling is incomplete.
+          if (!token.isCancellationRequested) {
+            total.collectionCount++;
+          }
+        }
+
+        return { ...total, cancelled: token.isCancellationRequested };
+      },
+    );
+    const dumped = `${pluralize(result.collectionCount, 'collection')} (${pluralize(
+      result.documentCount,
+      'document',
+    )})`;
+
+    void vscode.window.showInformationMessage(
+      result.cancelled
+        ? `Cancelled the dump of '${databaseName}' after writing ${dumped} to ${folderPath}.`
+        : `Dumped ${dumped} of '${databaseName}' to ${folderPath}.`,
+    );
+
+    return !result.cancelled;
+  } catch (error) {
+    void vscode.window.showErrorMessage(
+      `Dump failed: ${formatError(error).message}`,
+    );
+
+    return false;
+  }
+}
+
+// Asks what to do with the collections of the dump that already exist.
+async function shouldDropExistingCollections(
+  databaseName: string,
+  existingCollectionNames: string[],
+): Promise<boolean | undefined> {
+  if (existingCollectionNames.length === 0) {
+    return false;
+  }
+
+  const action = await vscode.window.showWarningMessage(
+    `${pluralize(
+      existingCollectionNames.length,
+      'collection',
+    )} of the dump already exist in '${databaseName}': ${existingCollectionNames.join(
+      ', ',
+    )}. Drop them before restoring, or insert the documents into them?`,
+    { modal: true },
+    'Drop and Restore',
+    'Insert Into Existing',
+  );
+
+  return action && action === 'Drop and Restore';
+}
+
+/**
+ * Recreates the collections, views and indexes of a dump folder and inserts
+ * their documents into the database, which is asked for when not given.
+ */
+export async function restoreFromFolder({
+  dataService,
+  databaseName,
+}: {
+  dataService: DataService;
+  databaseName?: string;
+}): Promise<boolean> {
+  try {
+    const folderPath = await pickFolder('Restore');
+
+    if (!folderPath) {
+      return false;
+    }
+
+    const dumpedCollections = await listDumpedCollections(folderPath);
+
+    if (dumpedCollections.length === 0) {
+      void vscode.window.showErrorMessage(
+        'Unable to restore: the folder does not contain any .metadata.json files of a dump.',
+      );
+      return false;
+    }
+
+    const targetDatabaseName =
+      databaseName ??
+      (await vscode.window.showInputBox({
+        value: path.basename(folderPath),
+        prompt: 'Enter the name of the database to restore the dump to',
+        validateInput: (value) =>
+          value.trim() ? null : 'Database name is required',
+      }));
+
+    if (!targetDatabaseName) {
+      return false;
+    }
+
+    log.info('Restore from folder', { databaseName: targetDatabaseName });
+
+    const existingCollectionNames = (
+      await dataService.listCollections(
+        targetDatabaseName,
+        {},
+        { nameOnly: true },
+      )
+    ).map(({ name }) => name);
+    const dropExisting = await shouldDropExistingCollections(
+      targetDatabaseName,
+      dumpedCollections
+        .map(({ metadata }) => metadata.collectionName)
+        .filter((name) => existingCollectionNames.includes(name)),
+    );
+
+    if (dropExisting === undefined) {
+      return false;
+    }
+
+    return await restoreDumpedCollections({
+      dataService,
+      databaseName: targetDatabaseName,
+      folderPath,
+      dumpedCollections,
+      existingCollectionNames,
+      dropExisting,
+    });
+  } catch (error) {
+    void vscode.window.showErrorMessage(
+      `Restore failed: ${formatError(error).message}`,
+    );
+
+    return false;
+  }
+}
+
+async function restoreDumpedCollections({
+  dataService,
+  databaseName,
+  folderPath,
+  dumpedCollections,
+  existingCollectionNames,
+  dropExisting,
+}: {
+  dataService: DataService;
+  databaseName: string;
+  folderPath: string;
+  dumpedCollections: DumpedCollection[];
+  existingCollectionNames: string[];
+  dropExisting: boolean;
+}): Promise<boolean> {
+  const failures = createFailuresWriter(
+    path.join(folderPath, 'restore-errors.jsonl'),
+  );
+
+  try {
+    const result = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Restoring '${databaseName}'...`,
+        cancellable: true,
+      },
+      async (progress, token) => {
+        const total = { collectionCount: 0, insertedCount: 0, failedCount: 0 };
+
+        for (const dumpedCollection of dumpedCollections) {
+          const { collectionName } = dumpedCollection.metadata;
+          let exists = existingCollectionNames.includes(collectionName);
+
+          if (token.isCancellationRequested) {
+            break;
+          }
+
+          progress.report({
+            message: collectionName,
+            increment: 100 / dumpedCollections.length,
+          });
+
+          if (exists && dropExisting) {
+            await dataService.dropCollection(
+              `${databaseName}.${collectionName}`,
+            );
+            exists = false;
+          }
+
+          const { insertedCount, failedCount } = await restoreCollection({
+            dataService,
+            databaseName,
+            dumpedCollection,
+            exists,
+            onFailure: failures.onFailure,
+            isCancelled: () => token.isCancellationRequested,
+          });
+          total.insertedCount += insertedCount;
+          total.failedCount += failedCount;
+
+          if (!token.isCancellationRequested) {
+            total.collectionCount++;
+          }
+        }
+
+        return { ...total, cancelled: token.isCancellationRequested };
+      },
+    );
+
+    await failures.close();
+
+    const restored = `${pluralize(result.collectionCount, 'collection')} (${pluralize(
+      result.insertedCount,
+      'document',
+    )})`;
+    const message = result.cancelled
+      ? `Cancelled the restore to '${databaseName}' after restoring ${restored}.`
+      : `Restored ${restored} to '${databaseName}'.`;
+
+    if (result.failedCount === 0) {
+      void vscode.window.showInformationMessage(message);
+    } else {
+      void vscode.window.showWarningMessage(
+        `${message} ${pluralize(
+          result.failedCount,
+          'document',
+        )} could not be inserted, they are listed in ${
+          failures.failuresFilePath
+        }.`,
+      );
+    }
+
+    return !result.cancelled;
+  } catch (error) {
+    failures.destroy();
+    throw error;
+  }
+}
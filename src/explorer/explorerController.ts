@@ -32,6 +32,7 @@ export default class ExplorerController {
         'mongoDBConnectionExplorer',
         this._treeController,
         this._telemetryService,
+        this._treeController,
       );
       this._treeController.activateTreeViewEventHandlers(this._treeView);
     }
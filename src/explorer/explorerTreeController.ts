@@ -3,9 +3,14 @@ import * as vscode from 'vscode';
 import type ConnectionController from '../connectionController';
 import { DataServiceEventTypes } from '../connectionController';
 import ConnectionTreeItem from './connectionTreeItem';
+import ConnectionGroupTreeItem from './connectionGroupTreeItem';
 import { createLogger } from '../logging';
 import { DOCUMENT_ITEM } from './documentTreeItem';
-import { DOCUMENT_LIST_ITEM, CollectionTypes } from './documentListTreeItem';
+import {
+  DOCUMENT_LIST_ITEM,
+  FILTERED_DOCUMENT_LIST_ITEM,
+  CollectionTypes,
+} from './documentListTreeItem';
 import EXTENSION_COMMANDS from '../commands';
 import { sortTreeItemsByLabel } from './treeItemUtils';
 import type { LoadedConnection } from '../storage/connectionStorage';
@@ -17,10 +22,23 @@ import type TreeItemParentInterface from './treeItemParentInterface';
 
 const log = createLogger('explorer tree controller');
 
+const CONNECTION_TREE_ITEM_MIME_TYPE =
+  'application/vnd.code.tree.mongodbconnectionexplorer';
+
 export default class ExplorerTreeController
-  implements vscode.TreeDataProvider<vscode.TreeItem>
+  implements
+    vscode.TreeDataProvider<vscode.TreeItem>,
+    vscode.TreeDragAndDropController<vscode.TreeItem>
 {
   private _connectionTreeItems: { [key: string]: ConnectionTreeItem };
+  private _connectionGroupTreeItems: {
+    [groupName: string]: ConnectionGroupTreeItem;
+  } = {};
+
+  // Saved connections are dragged onto a folder to move them into it, or
+  // onto the empty space of the tree to move them out of their folder.
+  readonly dragMimeTypes = [CONNECTION_TREE_ITEM_MIME_TYPE];
+  readonly dropMimeTypes = [CONNECTION_TREE_ITEM_MIME_TYPE];
 
   constructor(
     private _connectionController: ConnectionController,
@@ -122,7 +140,8 @@ export default class ExplorerTreeController
         }
 
         if (
-          selectedItem.contextValue === DOCUMENT_LIST_ITEM &&
+          (selectedItem.contextValue === DOCUMENT_LIST_ITEM ||
+            selectedItem.contextValue === FILTERED_DOCUMENT_LIST_ITEM) &&
           selectedItem.type === CollectionTypes.view
         ) {
           await vscode.commands.executeCommand(
@@ -151,6 +170,58 @@ export default class ExplorerTreeController
     return element;
   }
 
+  handleDrag(
+    source: readonly vscode.TreeItem[],
+    dataTransfer: vscode.DataTransfer,
+  ): void {
+    const connectionIds = source
+      .filter(
+        (treeItem): treeItem is ConnectionTreeItem =>
+          treeItem instanceof ConnectionTreeItem,
+      )
+      .map(({ connectionId }) => connectionId);
+
+    if (connectionIds.length) {
+      dataTransfer.set(
+        CONNECTION_TREE_ITEM_MIME_TYPE,
+        new vscode.DataTransferItem(connectionIds),
+      );
+    }
+  }
+
+  async handleDrop(
+    target: vscode.TreeItem | undefined,
+    dataTransfer: vscode.DataTransfer,
+  ): Promise<void> {
+    const connectionIds: string[] | undefined = dataTransfer.get(
+      CONNECTION_TREE_ITEM_MIME_TYPE,
+    )?.value;
+
+    if (!connectionIds) {
+      return;
+    }
+
+    let groupName: string | undefined;
+
+    if (target instanceof ConnectionGroupTreeItem) {
+      groupName = target.groupName;
+    } else if (target instanceof ConnectionTreeItem) {
+      // Dropping onto a connection moves next to it.
+      groupName = this._connectionController.getConnectionGroupName(
+        target.connectionId,
+      );
+    } else if (target) {
+      return;
+    }
+
+    for (const connectionId of connectionIds) {
+      await this._connectionController.moveConnectionToGroup(
+        connectionId,
+        groupName,
+      );
+    }
+  }
+
   private _getConnectionExpandedState(
     connection: LoadedConnection,
     pastConnectionTreeItems: {
@@ -162,11 +233,14 @@ export default class ExplorerTreeController
   } {
     const isActiveConnection =
       connection.id === this._connectionController.getActiveConnectionId();
+    const isConnected = this._connectionController.isConnectedToConnection(
+      connection.id,
+    );
     const isBeingConnectedTo =
       this._connectionController.isConnecting() &&
       connection.id === this._connectionController.getConnectingConnectionId();
 
-    let collapsibleState = isActiveConnection
+    let collapsibleState = isConnected
       ? vscode.TreeItemCollapsibleState.Expanded
       : vscode.TreeItemCollapsibleState.Collapsed;
 
@@ -174,7 +248,7 @@ export default class ExplorerTreeController
       pastConnectionTreeItems[connection.id] &&
       !pastConnectionTreeItems[connection.id].isExpanded
     ) {
-      // Connection was manually collapsed while being active.
+      // Connection was manually collapsed while being connected.
       collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
     }
     if (isActiveConnection && this._connectionController.isDisconnecting()) {
@@ -195,6 +269,36 @@ export default class ExplorerTreeController
     };
   }
 
+  // Connections in a folder are shown in it, the folders come first.
+  private _getRootTreeItems(): vscode.TreeItem[] {
+    const pastConnectionGroupTreeItems = this._connectionGroupTreeItems;
+    this._connectionGroupTreeItems = {};
+
+    const connectionTreeItems = Object.values(this._connectionTreeItems);
+    const ungroupedConnectionTreeItems = connectionTreeItems.filter(
+      ({ connectionId }) =>
+        !this._connectionController.getConnectionGroupName(connectionId),
+    );
+
+    for (const group of this._connectionController.getConnectionGroups()) {
+      this._connectionGroupTreeItems[group.name] = new ConnectionGroupTreeItem({
+        group,
+        isExpanded:
+          pastConnectionGroupTreeItems[group.name]?.isExpanded ?? true,
+        connectionTreeItems: connectionTreeItems.filter(
+          ({ connectionId }) =>
+            this._connectionController.getConnectionGroupName(connectionId) ===
+            group.name,
+        ),
+      });
+    }
+
+    return [
+      ...sortTreeItemsByLabel(Object.values(this._connectionGroupTreeItems)),
+      ...sortTreeItemsByLabel(ungroupedConnectionTreeItems),
+    ];
+  }
+
   getChildren(element?: any): Thenable<any[]> {
     // When no element is present we are at the root.
     if (!element) {
@@ -222,9 +326,7 @@ export default class ExplorerTreeController
         });
       });
 
-      return Promise.resolve(
-        sortTreeItemsByLabel(Object.values(this._connectionTreeItems)),
-      );
+      return Promise.resolve(this._getRootTreeItems());
     }
 
     return element.getChildren();
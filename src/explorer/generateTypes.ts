@@ -0,0 +1,51 @@
+import * as vscode from 'vscode';
+
+import type SchemaTreeItem from './schemaTreeItem';
+import { generateSchemaTypes } from '../utils/schemaTypes';
+import type { SchemaTypesLanguage } from '../utils/schemaTypes';
+
+const LANGUAGE_ITEMS: (vscode.QuickPickItem & {
+  language: SchemaTypesLanguage;
+})[] = [
+  {
+    label: 'TypeScript interfaces',
+    description: 'with the BSON types of the driver',
+    language: 'typescript',
+  },
+  { label: 'Zod schemas', language: 'zod' },
+  { label: 'Mongoose schema', language: 'mongoose' },
+];
+
+// Generates types from the sampled schema of a collection into a new editor.
+export async function openGeneratedTypes(
+  schemaTreeItem: SchemaTreeItem,
+): Promise<boolean> {
+  const selected = await vscode.window.showQuickPick(LANGUAGE_ITEMS, {
+    placeHolder: 'Which types do you want to generate?',
+  });
+
+  if (!selected) {
+    return false;
+  }
+
+  const schema = await schemaTreeItem.getSchema();
+
+  if (!schema) {
+    void vscode.window.showInformationMessage(
+      'No documents were found to generate types from.',
+    );
+    return false;
+  }
+
+  const document = await vscode.workspace.openTextDocument({
+    language: 'typescript',
+    content: generateSchemaTypes(schema, {
+      language: selected.language,
+      databaseName: schemaTreeItem.databaseName,
+      collectionName: schemaTreeItem.collectionName,
+    }),
+  });
+  await vscode.window.showTextDocument(document);
+
+  return true;
+}
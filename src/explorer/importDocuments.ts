@@ -0,0 +1,298 @@
+import * as vscode from 'vscode';
+import path from 'path';
+import { EJSON } from 'bson';
+import type { DataService } from 'mongodb-data-service';
+
+import type {
+  CsvColumn,
+  CsvFieldType,
+  ImportFailure,
+  ImportFileFormat,
+} from '../utils/documentsImport';
+import {
+  CSV_FIELD_TYPES,
+  detectImportFileFormat,
+  getCsvColumns,
+  importDocuments,
+  readCsvHeaderAndSample,
+  readImportRows,
+} from '../utils/documentsImport';
+import formatError from '../utils/formatError';
+import { createFileWriter } from '../utils/fileWriter';
+import type { FileWriter } from '../utils/fileWriter';
+import { createLogger } from '../logging';
+
+const log = createLogger('import documents');
+
+const IMPORT_BATCH_SIZE = 1000;
+const CSV_SAMPLE_SIZE = 100;
+const PREVIEW_SIZE = 5;
+
+// Lets the user change the inferred type of the CSV columns until they
+// continue with the import.
+async function pickCsvColumnTypes(
+  columns: CsvColumn[],
+): Promise<CsvColumn[] | undefined> {
+  const continueItem: vscode.QuickPickItem = {
+    label: '$(check) Continue',
+    description: 'Preview the documents with these types',
+  };
+
+  for (;;) {
+    const selectedItem = await vscode.window.showQuickPick(
+      [
+        continueItem,
+        ...columns.map((column) => ({
+          label: column.name,
+          description: column.type,
+        })),
+      ],
+      { placeHolder: 'Select a column to change its type' },
+    );
+
+    if (!selectedItem || selectedItem === continueItem) {
+      return selectedItem && columns;
+    }
+
+    const type = (await vscode.window.showQuickPick(CSV_FIELD_TYPES, {
+      placeHolder: `Select the type of the values in '${selectedItem.label}'`,
+    })) as CsvFieldType | undefined;
+
+    if (type) {
+      columns = columns.map((column) =>
+        column.name === selectedItem.label ? { ...column, type } : column,
+      );
+    }
+  }
+}
+
+// Shows the first documents as they will be inserted and asks to import them.
+async function confirmImportPreview({
+  filePath,
+  format,
+  csvColumns,
+  namespace,
+}: {
+  filePath: string;
+  format: ImportFileFormat;
+  csvColumns?: CsvColumn[];
+  namespace: string;
+}): Promise<boolean> {
+  const preview: unknown[] = [];
+
+  for await (const row of readImportRows({ filePath, format, csvColumns })) {
+    preview.push(
+      'error' in row
+        ? { row: row.row, error: row.error }
+        : EJSON.serialize(row.document, { relaxed: true }),
+    );
+
+    if (preview.length >= PREVIEW_SIZE) {
+      break;
+    }
+  }
+
+  const previewDocument = await vscode.workspace.openTextDocument({
+    language: 'json',
+    content: JSON.stringify(preview, null, 2),
+  });
+  await vscode.window.showTextDocument(previewDocument, {
+    preview: true,
+    viewColumn: vscode.ViewColumn.Beside,
+  });
+
+  const confirmation = await vscode.window.showInformationMessage(
+    `Import the documents of '${path.basename(
+      filePath,
+    )}' into '${namespace}'? The first ${PREVIEW_SIZE} rows are shown in the preview.`,
+    { modal: true },
+    'Import',
+  );
+
+  return confirmation === 'Import';
+}
+
+// Failed rows are written as JSON lines, the file is only created
+// when a row fails.
+export function createFailuresWriter(failuresFilePath: string): {
+  failuresFilePath: string;
+  onFailure: (failure: ImportFailure) => Promise<void>;
+  close: () => Promise<void>;
+  destroy: () => void;
+} {
+  let writer: FileWriter | undefined;
+
+  return {
+    failuresFilePath,
+    onFailure: (failure): Promise<void> => {
+      writer ??= createFileWriter(failuresFilePath);
+
+      return writer.write(`${EJSON.stringify(failure, { relaxed: true })}\n`);
+    },
+    close: async (): Promise<void> => {
+      await writer?.close();
+    },
+    destroy: (): void => writer?.destroy(),
+  };
+}
+
+async function showImportResult({
+  insertedCount,
+  failedCount,
+  namespace,
+  failuresFilePath,
+}: {
+  insertedCount: number;
+  failedCount: number;
+  namespace: string;
+  failuresFilePath: string;
+}): Promise<void> {
+  const message = `Imported ${insertedCount} document${
+    insertedCount === 1 ? '' : 's'
+  } into '${namespace}'.`;
+
+  if (failedCount === 0) {
+    void vscode.window.showInformationMessage(message);
+    return;
+  }
+
+  const openErrors = await vscode.window.showWarningMessage(
+    `${message} ${failedCount} row${
+      failedCount === 1 ? '' : 's'
+    } failed, they are listed in ${path.basename(failuresFilePath)}.`,
+    'Open Errors',
+  );
+
+  if (openErrors) {
+    await vscode.window.showTextDocument(vscode.Uri.file(failuresFilePath));
+  }
+}
+
+async function insertImportRows({
+  dataService,
+  namespace,
+  filePath,
+  format,
+  csvColumns,
+}: {
+  dataService: DataService;
+  namespace: string;
+  filePath: string;
+  format: ImportFileFormat;
+  csvColumns?: CsvColumn[];
+}): Promise<boolean> {
+  const failures = createFailuresWriter(`${filePath}.import-errors.jsonl`);
+
+  try {
+    const result = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Importing documents into '${namespace}'...`,
+        cancellable: true,
+      },
+      (progress, token) =>
+        importDocuments({
+          rows: readImportRows({ filePath, format, csvColumns }),
+          batchSize: IMPORT_BATCH_SIZE,
+          insertMany: (documents) =>
+            dataService.insertMany(namespace, documents, { ordered: false }),
+          onFailure: failures.onFailure,
+          onProgress: (insertedCount) =>
+            progress.report({ message: `${insertedCount} inserted` }),
+          isCancelled: () => token.isCancellationRequested,
+        }),
+    );
+
+    await failures.close();
+    await showImportResult({
+      ...result,
+      namespace,
+      failuresFilePath: failures.failuresFilePath,
+    });
+
+    return result.insertedCount > 0;
+  } catch (error) {
+    failures.destroy();
+    void vscode.window.showErrorMessage(
+      `Import failed: ${formatError(error).message}`,
+    );
+
+    return false;
+  }
+}
+
+/**
+ * Reads documents from a JSON, NDJSON or CSV file the user selects,
+ * previews them and inserts them into the collection.
+ */
+export async function importDocumentsFromFile({
+  dataService,
+  databaseName,
+  collectionName,
+}: {
+  dataService: DataService;
+  databaseName: string;
+  collectionName: string;
+}): Promise<boolean> {
+  const namespace = `${databaseName}.${collectionName}`;
+
+  log.info('Import documents', namespace);
+
+  try {
+    const [fileUri] =
+      (await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        openLabel: 'Import',
+        defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+        filters: { 'Data files': ['json', 'jsonl', 'ndjson', 'csv'] },
+      })) ?? [];
+
+    if (!fileUri) {
+      return false;
+    }
+
+    const filePath = fileUri.fsPath;
+    const format = await detectImportFileFormat(filePath);
+    let csvColumns: CsvColumn[] | undefined;
+
+    if (format === 'csv') {
+      const { header, sampleRecords } = await readCsvHeaderAndSample(
+        filePath,
+        CSV_SAMPLE_SIZE,
+      );
+
+      csvColumns = await pickCsvColumnTypes(
+        getCsvColumns(header, sampleRecords),
+      );
+
+      if (!csvColumns) {
+        return false;
+      }
+    }
+
+    if (
+      !(await confirmImportPreview({
+        filePath,
+        format,
+        csvColumns,
+        namespace,
+      }))
+    ) {
+      return false;
+    }
+
+    return await insertImportRows({
+      dataService,
+      namespace,
+      filePath,
+      format,
+      csvColumns,
+    });
+  } catch (error) {
+    void vscode.window.showErrorMessage(
+      `Unable to import documents: ${formatError(error).message}`,
+    );
+
+    return false;
+  }
+}
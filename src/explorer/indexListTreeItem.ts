@@ -90,6 +90,7 @@ export default class IndexListTreeItem
           new IndexTreeItem({
             index: cachedItem.index,
             namespace: cachedItem.namespace,
+            dataService: this._dataService,
             isExpanded: cachedItem.isExpanded,
           }),
         );
@@ -121,6 +122,7 @@ export default class IndexListTreeItem
           return new IndexTreeItem({
             index,
             namespace: this._namespace,
+            dataService: this._dataService,
             isExpanded: false,
           });
         }),
@@ -144,6 +146,10 @@ export default class IndexListTreeItem
     return Promise.resolve(true);
   }
 
+  getDataService(): DataService {
+    return this._dataService;
+  }
+
   getChildrenCache(): IndexTreeItem[] {
     if (this.cacheIsUpToDate) {
       return this._childrenCache;
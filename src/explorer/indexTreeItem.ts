@@ -1,6 +1,10 @@
 import * as vscode from 'vscode';
 import path from 'path';
+import numeral from 'numeral';
+import { EJSON } from 'bson';
+import type { DataService, IndexDefinition } from 'mongodb-data-service';
 
+import formatError from '../utils/formatError';
 import { getImagesPath } from '../extensionConstants';
 import type TreeItemParent from './treeItemParentInterface';
 
@@ -21,7 +25,90 @@ export type IndexModel = {
   };
   name: string;
   ns: string;
-};
+} & Partial<
+  Pick<
+    IndexDefinition,
+    'size' | 'usageCount' | 'usageSince' | 'properties' | 'extra'
+  >
+>;
+
+// The _id index can not be dropped, hidden or renamed.
+const ID_INDEX_NAME = '_id_';
+
+const formatIndexSize = (size: number): string => numeral(size).format('0.0 b');
+
+function getIndexPropertyLabels(index: IndexModel): string[] {
+  const extra = index.extra ?? {};
+
+  return (index.properties ?? []).map((property) => {
+    if (property === 'ttl') {
+      return `TTL ${extra.expireAfterSeconds}s`;
+    }
+
+    if (property === 'collation') {
+      return `collation ${(extra.collation as { locale?: string })?.locale}`;
+    }
+
+    return property === 'shardKey' ? 'shard key' : property;
+  });
+}
+
+// Describes the size, usage and properties of an index in one line.
+export function getIndexDescription(index: IndexModel): string {
+  return [
+    ...(index.extra?.hidden ? ['hidden'] : []),
+    ...(index.size !== undefined ? [formatIndexSize(index.size)] : []),
+    ...(index.usageCount !== undefined
+      ? [`${index.usageCount} ${index.usageCount === 1 ? 'use' : 'uses'}`]
+      : []),
+    ...getIndexPropertyLabels(index),
+  ].join(', ');
+}
+
+function getIndexTooltip(index: IndexModel): vscode.MarkdownString {
+  const extra = index.extra ?? {};
+  const tooltip = new vscode.MarkdownString(`**${index.name}**\n\n`);
+
+  if (index.size !== undefined) {
+    tooltip.appendMarkdown(`- Size: ${formatIndexSize(index.size)}\n`);
+  }
+
+  if (index.usageCount !== undefined) {
+    tooltip.appendMarkdown(
+      `- Usage: ${index.usageCount}${
+        index.usageSince
+          ? ` since ${new Date(index.usageSince).toUTCString()}`
+          : ''
+      }\n`,
+    );
+  }
+
+  for (const label of getIndexPropertyLabels(index)) {
+    tooltip.appendMarkdown(`- ${label}\n`);
+  }
+
+  if (extra.partialFilterExpression) {
+    tooltip.appendMarkdown(
+      `- Partial filter: \`${EJSON.stringify(extra.partialFilterExpression)}\`\n`,
+    );
+  }
+
+  if (extra.hidden) {
+    tooltip.appendMarkdown('- Hidden from the query planner\n');
+  }
+
+  return tooltip;
+}
+
+// The options to create the same index again, without its name.
+export function getIndexCreateOptions(index: Pick<IndexModel, 'extra'>): {
+  [key: string]: unknown;
+} {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { ns, ...options } = index.extra ?? {};
+
+  return options;
+}
 
 function getIconNameForIndexKeyType(indexKeyType: IndexKeyType): string {
   if (indexKeyType === IndexKeyType.ASCENDING) {
@@ -102,7 +189,8 @@ export default class IndexTreeItem
   extends vscode.TreeItem
   implements vscode.TreeDataProvider<IndexTreeItem>, TreeItemParent
 {
-  contextValue = 'indexTreeItem' as const;
+  contextValue: 'indexTreeItem' | 'hiddenIndexTreeItem' | 'idIndexTreeItem' =
+    'indexTreeItem';
 
   index: IndexModel;
 
@@ -115,14 +203,19 @@ export default class IndexTreeItem
 
   isExpanded: boolean;
   cacheIsUpToDate = true;
+  isDropped = false;
+
+  private _dataService: DataService;
 
   constructor({
     index,
     namespace,
+    dataService,
     isExpanded,
   }: {
     index: IndexModel;
     namespace: string;
+    dataService: DataService;
     isExpanded: boolean;
   }) {
     super(
@@ -138,9 +231,19 @@ export default class IndexTreeItem
 
     this.id = `${index.name}-${namespace}`;
 
+    this._dataService = dataService;
+
     this.isExpanded = isExpanded;
 
-    this.tooltip = index.name;
+    this.description = getIndexDescription(index);
+
+    this.tooltip = getIndexTooltip(index);
+
+    if (index.name === ID_INDEX_NAME) {
+      this.contextValue = 'idIndexTreeItem';
+    } else if (index.extra?.hidden) {
+      this.contextValue = 'hiddenIndexTreeItem';
+    }
   }
 
   getTreeItem(element: IndexTreeItem): IndexTreeItem {
@@ -172,4 +275,162 @@ export default class IndexTreeItem
 
     return Promise.resolve(true);
   }
+
+  getDataService(): DataService {
+    return this._dataService;
+  }
+
+  // Prompt the user to input the index name to confirm the drop, then drop.
+  async onDropIndexClicked(): Promise<boolean> {
+    const indexName = this.index.name;
+
+    let inputtedIndexName: string | undefined;
+    try {
+      inputtedIndexName = await vscode.window.showInputBox({
+        value: '',
+        placeHolder: 'e.g. myIndex_1',
+        prompt: `Are you sure you wish to drop this index? Enter the index name '${indexName}' to confirm.`,
+        validateInput: (inputIndexName) => {
+          if (inputIndexName && !indexName.startsWith(inputIndexName)) {
+            return 'Index name does not match.';
+          }
+
+          return null;
+        },
+      });
+    } catch (error) {
+      return Promise.reject(
+        new Error(`An error occurred parsing the index name: ${error}`),
+      );
+    }
+
+    if (indexName !== inputtedIndexName) {
+      return false;
+    }
+
+    try {
+      await this._dataService.dropIndex(this.namespace, indexName);
+      this.isDropped = true;
+    } catch (error) {
+      void vscode.window.showErrorMessage(
+        `Drop index failed: ${formatError(error).message}`,
+      );
+    }
+
+    return this.isDropped;
+  }
+
+  // Hidden indexes are kept up to date but are not used by the query planner.
+  async onSetIndexHiddenClicked(hidden: boolean): Promise<boolean> {
+    const action = hidden ? 'Hide' : 'Unhide';
+    const confirmation = await vscode.window.showInformationMessage(
+      hidden
+        ? `Are you sure you wish to hide the index '${this.index.name}'? The query planner will not use it until it is unhidden.`
+        : `Are you sure you wish to unhide the index '${this.index.name}'? The query planner will be able to use it again.`,
+      { modal: true },
+      action,
+    );
+
+    if (confirmation !== action) {
+      return false;
+    }
+
+    try {
+      await this._dataService.updateCollection(this.namespace, {
+        index: { name: this.index.name, hidden },
+      });
+      this.index = {
+        ...this.index,
+        extra: { ...this.index.extra, hidden },
+      };
+
+      return true;
+    } catch (error) {
+      void vscode.window.showErrorMessage(
+        `${action} index failed: ${formatError(error).message}`,
+      );
+
+      return false;
+    }
+  }
+
+  // Indexes can not be renamed in place, and the server refuses to create
+  // an index with the same key and options under another name. The index is
+  // dropped first and then created again with the new name, and restored
+  // with its old name if that fails.
+  async onRenameIndexClicked(): Promise<boolean> {
+    const indexName = this.index.name;
+
+    const newIndexName = await vscode.window.showInputBox({
+      value: indexName,
+      placeHolder: 'e.g. myIndex_1',
+      prompt: 'Enter the new name of the index.',
+      validateInput: (inputIndexName) => {
+        if (!inputIndexName) {
+          return 'The index name must not be empty.';
+        }
+
+        return null;
+      },
+    });
+
+    if (!newIndexName || newIndexName === indexName) {
+      return false;
+    }
+
+    const confirmation = await vscode.window.showWarningMessage(
+      `Are you sure you wish to rename the index '${indexName}' to '${newIndexName}'? The index will be dropped and then built again with the new name. Queries can not use it until it is built, and a unique index does not enforce uniqueness in the meantime.`,
+      { modal: true },
+      'Rename',
+    );
+
+    if (confirmation !== 'Rename') {
+      return false;
+    }
+
+    const options = getIndexCreateOptions(this.index);
+
+    try {
+      await this._dataService.dropIndex(this.namespace, indexName);
+    } catch (error) {
+      void vscode.window.showErrorMessage(
+        `Rename index failed: ${formatError(error).message}`,
+      );
+
+      return false;
+    }
+
+    try {
+      await this._dataService.createIndex(this.namespace, this.index.key, {
+        ...options,
+        name: newIndexName,
+      });
+    } catch (error) {
+      const { message } = formatError(error);
+
+      try {
+        await this._dataService.createIndex(this.namespace, this.index.key, {
+          ...options,
+          name: indexName,
+        });
+      } catch (restoreError) {
+        this.isDropped = true;
+        void vscode.window.showErrorMessage(
+          `Rename index failed: ${message}. The index '${indexName}' was dropped and could not be created again: ${
+            formatError(restoreError).message
+          }`,
+        );
+
+        return false;
+      }
+
+      void vscode.window.showErrorMessage(
+        `Rename index failed: ${message}. The index '${indexName}' was created again.`,
+      );
+
+      return false;
+    }
+
+    return true;
+  }
 }
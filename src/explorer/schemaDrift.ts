@@ -0,0 +1,309 @@
+import * as vscode from 'vscode';
+import fs from 'fs/promises';
+import path from 'path';
+import type { DataService } from 'mongodb-data-service';
+
+import type ConnectionController from '../connectionController';
+import {
+  parseSampledDocumentsSchema,
+  sampleCollectionDocuments,
+} from './schemaTreeItem';
+import type { SchemaSnapshot } from '../utils/schemaSnapshot';
+import {
+  createSchemaSnapshot,
+  diffSchemaSnapshots,
+  getSchemaDriftSummary,
+  getSchemaSnapshotText,
+  parseSchemaSnapshot,
+  serializeSchemaSnapshot,
+} from '../utils/schemaSnapshot';
+import { DEFAULT_SCHEMA_ANALYSIS_SAMPLE_SIZE } from '../views/schemaAnalysisView';
+import formatError from '../utils/formatError';
+import { createLogger } from '../logging';
+
+const log = createLogger('schema drift');
+
+export type SnapshotCollection = {
+  dataService: DataService;
+  databaseName: string;
+  collectionName: string;
+  connectionName: string;
+};
+
+type CompareTargetItem = vscode.QuickPickItem & { connectionId?: string };
+
+// Samples documents of a live collection and snapshots their schema.
+async function snapshotCollectionSchema({
+  dataService,
+  namespace,
+  connectionName,
+}: {
+  dataService: DataService;
+  namespace: string;
+  connectionName: string;
+}): Promise<SchemaSnapshot> {
+  const sampleSize =
+    vscode.workspace
+      .getConfiguration('mdb')
+      .get<number>('schemaAnalysisSampleSize') ??
+    DEFAULT_SCHEMA_ANALYSIS_SAMPLE_SIZE;
+
+  const schema = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `Sampling the schema of '${namespace}' on ${connectionName}...`,
+    },
+    async () =>
+      parseSampledDocumentsSchema(
+        namespace,
+        await sampleCollectionDocuments(dataService, namespace, sampleSize),
+      ),
+  );
+
+  // An empty collection has no fields, all of them are removed in a diff.
+  return createSchemaSnapshot(schema ?? { count: 0, fields: [] }, {
+    namespace,
+    connectionName,
+  });
+}
+
+async function readSnapshotFile(
+  openLabel: string,
+): Promise<SchemaSnapshot | undefined> {
+  const fileUri = (
+    await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+      filters: { JSON: ['json'] },
+      openLabel,
+    })
+  )?.[0];
+
+  if (!fileUri) {
+    return;
+  }
+
+  return parseSchemaSnapshot(await fs.readFile(fileUri.fsPath, 'utf8'));
+}
+
+async function snapshotSavedConnectionSchema({
+  connectionController,
+  connectionId,
+  defaultNamespace,
+}: {
+  connectionController: ConnectionController;
+  connectionId: string;
+  defaultNamespace: string;
+}): Promise<SchemaSnapshot | undefined> {
+  const connectionName =
+    connectionController.getSavedConnectionName(connectionId);
+  const namespace = await vscode.window.showInputBox({
+    value: defaultNamespace,
+    prompt: `Enter the namespace to compare the schema with on '${connectionName}'`,
+    validateInput: (value) =>
+      /^[^.\s]+\.[^\s]+$/.test(value.trim())
+        ? null
+        : 'Namespace must be a database and collection name, e.g. test.movies',
+  });
+
+  if (!namespace) {
+    return;
+  }
+
+  // A connection that is already connected stays connected after the diff.
+  const connectedDataService =
+    connectionController.getConnectedDataService(connectionId);
+  const dataService =
+    connectedDataService ??
+    (await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Connecting to ${connectionName}...`,
+      },
+      () => connectionController.connectWithoutActivating(connectionId),
+    ));
+
+  try {
+    return await snapshotCollectionSchema({
+      dataService,
+      namespace: namespace.trim(),
+      connectionName,
+    });
+  } finally {
+    if (!connectedDataService) {
+      await dataService.disconnect();
+    }
+  }
+}
+
+async function pickCompareSnapshot(
+  connectionController: ConnectionController,
+  baseSnapshot: SchemaSnapshot,
+): Promise<SchemaSnapshot | undefined> {
+  const targetItem = await vscode.window.showQuickPick<CompareTargetItem>(
+    [
+      {
+        label: 'Schema snapshot file...',
+        description: 'compare with a later snapshot',
+      },
+      { label: 'Saved connections', kind: vscode.QuickPickItemKind.Separator },
+      ...connectionController
+        .getSavedConnections()
+        .sort((a, b) => (a.name || '').localeCompare(b.name || ''))
+        .map(({ id, name }) => ({
+          label: name,
+          description: connectionController.isConnectedToConnection(id)
+            ? 'connected'
+            : undefined,
+          connectionId: id,
+        })),
+    ],
+    { placeHolder: 'Select what to compare the schema snapshot with' },
+  );
+
+  if (!targetItem) {
+    return;
+  }
+
+  if (!targetItem.connectionId) {
+    return readSnapshotFile('Compare Snapshot');
+  }
+
+  return snapshotSavedConnectionSchema({
+    connectionController,
+    connectionId: targetItem.connectionId,
+    defaultNamespace: baseSnapshot.namespace,
+  });
+}
+
+async function showSchemaDrift(
+  baseSnapshot: SchemaSnapshot,
+  compareSnapshot: SchemaSnapshot,
+): Promise<void> {
+  const drift = diffSchemaSnapshots(baseSnapshot, compareSnapshot);
+  const title = `${baseSnapshot.namespace} (${baseSnapshot.connectionName}) ↔ ${compareSnapshot.namespace} (${compareSnapshot.connectionName})`;
+
+  log.info('Schema drift', { title, driftCount: drift.length });
+
+  if (drift.length === 0) {
+    void vscode.window.showInformationMessage(
+      `No schema drift found between ${title}.`,
+    );
+    return;
+  }
+
+  const [baseDocument, compareDocument] = await Promise.all(
+    [baseSnapshot, compareSnapshot].map((snapshot) =>
+      vscode.workspace.openTextDocument({
+        language: 'plaintext',
+        content: getSchemaSnapshotText(snapshot),
+      }),
+    ),
+  );
+
+  await vscode.commands.executeCommand(
+    'vscode.diff',
+    baseDocument.uri,
+    compareDocument.uri,
+    `Schema Drift: ${title}`,
+  );
+  void vscode.window.showInformationMessage(
+    `Schema drift: ${getSchemaDriftSummary(drift)}.`,
+  );
+}
+
+/**
+ * Samples the schema of a collection and saves it as a snapshot file,
+ * to be compared later with the collection on another connection.
+ */
+export async function saveSchemaSnapshot({
+  dataService,
+  databaseName,
+  collectionName,
+  connectionName,
+}: SnapshotCollection): Promise<boolean> {
+  const namespace = `${databaseName}.${collectionName}`;
+
+  try {
+    const snapshot = await snapshotCollectionSchema({
+      dataService,
+      namespace,
+      connectionName,
+    });
+
+    if (snapshot.documentCount === 0) {
+      void vscode.window.showInformationMessage(
+        'No documents were found to snapshot the schema from.',
+      );
+      return false;
+    }
+
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const fileName = `${namespace}.schema.json`;
+    const fileUri = await vscode.window.showSaveDialog({
+      defaultUri: workspaceFolder
+        ? vscode.Uri.joinPath(workspaceFolder, fileName)
+        : vscode.Uri.file(fileName),
+      filters: { JSON: ['json'] },
+      saveLabel: 'Save Schema Snapshot',
+    });
+
+    if (!fileUri) {
+      return false;
+    }
+
+    await fs.writeFile(fileUri.fsPath, serializeSchemaSnapshot(snapshot));
+
+    void vscode.window.showInformationMessage(
+      `Saved the schema of '${namespace}' to ${path.basename(fileUri.fsPath)}.`,
+    );
+
+    return true;
+  } catch (error) {
+    void vscode.window.showErrorMessage(
+      `Save schema snapshot failed: ${formatError(error).message}`,
+    );
+    return false;
+  }
+}
+
+/**
+ * Diffs a schema snapshot file against a live collection, either the given
+ * one or one on a saved connection the user selects, or a later snapshot.
+ */
+export async function compareSchemaSnapshot({
+  connectionController,
+  liveCollection,
+}: {
+  connectionController: ConnectionController;
+  liveCollection?: SnapshotCollection;
+}): Promise<boolean> {
+  try {
+    const baseSnapshot = await readSnapshotFile('Select Snapshot');
+
+    if (!baseSnapshot) {
+      return false;
+    }
+
+    const compareSnapshot = liveCollection
+      ? await snapshotCollectionSchema({
+          dataService: liveCollection.dataService,
+          namespace: `${liveCollection.databaseName}.${liveCollection.collectionName}`,
+          connectionName: liveCollection.connectionName,
+        })
+      : await pickCompareSnapshot(connectionController, baseSnapshot);
+
+    if (!compareSnapshot) {
+      return false;
+    }
+
+    await showSchemaDrift(baseSnapshot, compareSnapshot);
+
+    return true;
+  } catch (error) {
+    void vscode.window.showErrorMessage(
+      `Compare schema snapshot failed: ${formatError(error).message}`,
+    );
+    return false;
+  }
+}
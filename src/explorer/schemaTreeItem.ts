@@ -9,6 +9,7 @@ import { getImagesPath } from '../extensionConstants';
 import type TreeItemParent from './treeItemParentInterface';
 import { MAX_DOCUMENTS_VISIBLE } from './documentListTreeItem';
 import type { DataService } from 'mongodb-data-service';
+import type { Document } from 'bson';
 
 const log = createLogger('schema tree item');
 
@@ -30,6 +31,47 @@ class ShowAllFieldsTreeItem extends vscode.TreeItem {
   }
 }
 
+export async function parseSampledDocumentsSchema(
+  namespace: string,
+  documents: Document[],
+): Promise<ReturnType<typeof parseSchema> | undefined> {
+  log.info(`Parsing schema for the '${namespace}' namespace...`);
+  if (!documents || documents.length === 0) {
+    return;
+  }
+
+  try {
+    return await parseSchema(documents);
+  } catch (parseError) {
+    throw new Error(
+      `Unable to parse schema: ${(parseError as Error)?.message}`,
+    );
+  }
+}
+
+// Samples documents of a collection to derive its schema.
+export async function getSampledSchema(
+  dataService: DataService,
+  namespace: string,
+): Promise<ReturnType<typeof parseSchema> | undefined> {
+  const documents = await dataService.find(
+    namespace,
+    {}, // No filter.
+    { limit: MAX_DOCUMENTS_VISIBLE },
+  );
+
+  return parseSampledDocumentsSchema(namespace, documents);
+}
+
+// Samples random documents of a collection for a schema analysis.
+export function sampleCollectionDocuments(
+  dataService: DataService,
+  namespace: string,
+  sampleSize: number,
+): Promise<Document[]> {
+  return dataService.aggregate(namespace, [{ $sample: { size: sampleSize } }]);
+}
+
 function getIconPath(): { light: string; dark: string } {
   const LIGHT = path.join(getImagesPath(), 'light');
   const DARK = path.join(getImagesPath(), 'dark');
@@ -103,6 +145,10 @@ export default class SchemaTreeItem
     this.tooltip = 'Derived Document Schema';
   }
 
+  getDataService(): DataService {
+    return this._dataService;
+  }
+
   getTreeItem(element: SchemaTreeItem): SchemaTreeItem {
     return element;
   }
@@ -123,18 +169,7 @@ export default class SchemaTreeItem
       return;
     }
 
-    log.info(`Parsing schema for the '${namespace}' namespace...`);
-    if (!documents || documents.length === 0) {
-      return;
-    }
-
-    try {
-      return await parseSchema(documents);
-    } catch (parseError) {
-      throw new Error(
-        `Unable to parse schema: ${(parseError as Error)?.message}`,
-      );
-    }
+    return parseSampledDocumentsSchema(namespace, documents);
   }
 
   buildFieldTreeItemsFromSchema(schema: any): any {
@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import path from 'path';
+import type { Document } from 'bson';
 import type { DataService } from 'mongodb-data-service';
 
 import formatError from '../utils/formatError';
@@ -60,6 +61,70 @@ export default class StreamProcessorTreeItem
     return element;
   }
 
+  getDataService(): DataService {
+    return this._dataService;
+  }
+
+  // Stream processing commands run on the admin database, as `sp` does in mongosh.
+  _runStreamCommand(command: Document): Promise<Document> {
+    return this._dataService.command('admin', command);
+  }
+
+  // Returns the processor as listed by the server, with its pipeline and error.
+  async getStreamProcessor(): Promise<Document | undefined> {
+    const { streamProcessors } = await this._runStreamCommand({
+      listStreamProcessors: 1,
+      filter: { name: this.streamProcessorName },
+    });
+
+    return streamProcessors?.[0];
+  }
+
+  // Returns the state, the last error and the message counts of the processor.
+  async getStats(): Promise<Document> {
+    const [processor, { stats }] = await Promise.all([
+      this.getStreamProcessor(),
+      this._runStreamCommand({
+        getStreamProcessorStats: this.streamProcessorName,
+      }),
+    ]);
+
+    if (processor?.state) {
+      this.streamProcessorState = processor.state;
+    }
+
+    return {
+      name: this.streamProcessorName,
+      state: this.streamProcessorState,
+      ...(processor?.errorMsg ? { error: processor.errorMsg } : {}),
+      ...stats,
+    };
+  }
+
+  // Opens a cursor over the output documents of the running processor.
+  async startSample(limit: number): Promise<unknown> {
+    const { cursorId } = await this._runStreamCommand({
+      startSampleStreamProcessor: this.streamProcessorName,
+      limit,
+    });
+
+    return cursorId;
+  }
+
+  // Returns the next sampled documents, the cursor id is 0 once it is exhausted.
+  async getMoreSample(
+    cursorId: unknown,
+    batchSize: number,
+  ): Promise<{ cursorId: unknown; messages: Document[] }> {
+    const result = await this._runStreamCommand({
+      getMoreSampleStreamProcessor: this.streamProcessorName,
+      cursorId,
+      batchSize,
+    });
+
+    return { cursorId: result.cursorId, messages: result.messages ?? [] };
+  }
+
   getChildren(): Promise<any[]> {
     return Promise.resolve(
       !this.isExpanded
@@ -0,0 +1,222 @@
+import * as vscode from 'vscode';
+import { EJSON } from 'bson';
+import type { Document } from 'bson';
+import type { DataService } from 'mongodb-data-service';
+
+import formatError from '../utils/formatError';
+import type TreeItemParent from './treeItemParentInterface';
+
+const ITEM_LABEL = 'Validation';
+
+export const VALIDATION_LEVELS = ['strict', 'moderate', 'off'];
+export const VALIDATION_ACTIONS = ['error', 'warn'];
+
+export type CollectionValidation = {
+  validator: Document;
+  validationLevel: string;
+  validationAction: string;
+};
+
+function getValidationRuleTreeItem(
+  label: string,
+  description: string,
+  tooltip: string | vscode.MarkdownString,
+): vscode.TreeItem {
+  const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
+  item.description = description;
+  item.tooltip = tooltip;
+
+  return item;
+}
+
+function getValidationRuleTreeItems(
+  validation: CollectionValidation | null,
+): vscode.TreeItem[] {
+  if (!validation) {
+    return [
+      new vscode.TreeItem(
+        'No validation rules',
+        vscode.TreeItemCollapsibleState.None,
+      ),
+    ];
+  }
+
+  return [
+    getValidationRuleTreeItem(
+      'Level',
+      validation.validationLevel,
+      'Which documents the validation rules are applied to.',
+    ),
+    getValidationRuleTreeItem(
+      'Action',
+      validation.validationAction,
+      'Whether invalid documents are rejected or only logged.',
+    ),
+    getValidationRuleTreeItem(
+      'Validator',
+      Object.keys(validation.validator).join(', '),
+      new vscode.MarkdownString().appendCodeblock(
+        EJSON.stringify(validation.validator, undefined, 2),
+        'json',
+      ),
+    ),
+  ];
+}
+
+// Asks for the validation level and action, the current ones are listed first.
+export async function pickValidationOptions(
+  current?: CollectionValidation | null,
+): Promise<
+  Pick<CollectionValidation, 'validationLevel' | 'validationAction'> | undefined
+> {
+  const getItems = (
+    options: string[],
+    currentOption?: string,
+  ): vscode.QuickPickItem[] =>
+    options
+      .map((label) => ({
+        label,
+        description: label === currentOption ? 'current' : undefined,
+      }))
+      .sort((a, b) => Number(!!b.description) - Number(!!a.description));
+
+  const validationLevel = await vscode.window.showQuickPick(
+    getItems(VALIDATION_LEVELS, current?.validationLevel),
+    { placeHolder: 'Which documents should the validation rules apply to?' },
+  );
+
+  if (!validationLevel) {
+    return;
+  }
+
+  const validationAction = await vscode.window.showQuickPick(
+    getItems(VALIDATION_ACTIONS, current?.validationAction),
+    { placeHolder: 'What should happen to documents that are not valid?' },
+  );
+
+  if (!validationAction) {
+    return;
+  }
+
+  return {
+    validationLevel: validationLevel.label,
+    validationAction: validationAction.label,
+  };
+}
+
+export default class ValidationTreeItem
+  extends vscode.TreeItem
+  implements TreeItemParent, vscode.TreeDataProvider<ValidationTreeItem>
+{
+  collectionName: string;
+  databaseName: string;
+  isExpanded: boolean;
+
+  cacheIsUpToDate = false;
+  contextValue = 'validationTreeItem' as const;
+
+  private _dataService: DataService;
+  private _validation: CollectionValidation | null;
+
+  constructor({
+    collectionName,
+    databaseName,
+    dataService,
+    isExpanded,
+    cacheIsUpToDate,
+    validation,
+  }: {
+    collectionName: string;
+    databaseName: string;
+    dataService: DataService;
+    isExpanded: boolean;
+    cacheIsUpToDate: boolean;
+    validation: CollectionValidation | null; // Existing cache.
+  }) {
+    super(
+      ITEM_LABEL,
+      isExpanded
+        ? vscode.TreeItemCollapsibleState.Expanded
+        : vscode.TreeItemCollapsibleState.Collapsed,
+    );
+
+    this.collectionName = collectionName;
+    this.databaseName = databaseName;
+    this._dataService = dataService;
+    this.isExpanded = isExpanded;
+    this.cacheIsUpToDate = cacheIsUpToDate;
+    this._validation = validation;
+
+    this.iconPath = new vscode.ThemeIcon('shield');
+    this.tooltip = 'Collection Validation Rules';
+  }
+
+  getTreeItem(element: ValidationTreeItem): ValidationTreeItem {
+    return element;
+  }
+
+  // Fetches the current validation rules of the collection.
+  async getValidation(): Promise<CollectionValidation | null> {
+    const collectionInfo = await this._dataService.collectionInfo(
+      this.databaseName,
+      this.collectionName,
+    );
+    const validation = collectionInfo?.validation;
+
+    if (!validation?.validator) {
+      return null;
+    }
+
+    return {
+      validator: validation.validator,
+      validationLevel: validation.validationLevel ?? 'strict',
+      validationAction: validation.validationAction ?? 'error',
+    };
+  }
+
+  async getChildren(): Promise<vscode.TreeItem[]> {
+    if (!this.isExpanded) {
+      return [];
+    }
+
+    if (!this.cacheIsUpToDate) {
+      try {
+        this._validation = await this.getValidation();
+      } catch (error) {
+        void vscode.window.showErrorMessage(
+          `Fetch validation rules failed: ${formatError(error).message}`,
+        );
+        return [];
+      }
+
+      this.cacheIsUpToDate = true;
+    }
+
+    return getValidationRuleTreeItems(this._validation);
+  }
+
+  onDidCollapse(): void {
+    this.isExpanded = false;
+    this.cacheIsUpToDate = false;
+  }
+
+  onDidExpand(): Promise<boolean> {
+    this.cacheIsUpToDate = false;
+    this.isExpanded = true;
+
+    return Promise.resolve(true);
+  }
+
+  getDataService(): DataService {
+    return this._dataService;
+  }
+
+  getValidationCache(): CollectionValidation | null {
+    return this.cacheIsUpToDate ? this._validation : null;
+  }
+
+  resetCache(): void {
+    this.cacheIsUpToDate = false;
+    this._validation = null;
+  }
+}
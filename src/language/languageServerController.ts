@@ -201,6 +201,12 @@ export default class LanguageServerController {
     return res;
   }
 
+  async getWriteOperations(codeToEvaluate: string): Promise<string[]> {
+    return await this._client.sendRequest(ServerCommands.GET_WRITE_OPERATIONS, {
+      codeToEvaluate,
+    });
+  }
+
   async activeConnectionChanged({
     connectionId,
     connectionString,
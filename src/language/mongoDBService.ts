@@ -225,7 +225,10 @@ export default class MongoDBService {
     this.clearCachedFields();
 
     return new Promise((resolve) => {
-      if (this._currentConnectionId !== params.connectionId) {
+      if (
+        !params.connectionString &&
+        this._currentConnectionId !== params.connectionId
+      ) {
         void this._connection.sendNotification(
           ServerCommands.SHOW_ERROR_MESSAGE,
           "The playground's active connection does not match the extension's active connection. Please reconnect and try again.",
@@ -296,8 +299,10 @@ export default class MongoDBService {
           data: {
             codeToEvaluate: params.codeToEvaluate,
             filePath: params.filePath,
-            connectionString: this.connectionString,
-            connectionOptions: this.connectionOptions,
+            connectionString: params.connectionString ?? this.connectionString,
+            connectionOptions: params.connectionString
+              ? params.connectionOptions
+              : this.connectionOptions,
           },
         });
 
@@ -324,6 +329,13 @@ export default class MongoDBService {
   /**
    * Get stream processors names for the current connection.
    */
+  /**
+   * Find the methods in code from a playground that would write data.
+   */
+  getWriteOperations(codeToEvaluate: string): string[] {
+    return this._visitor.parseASTForWriteOperations(codeToEvaluate);
+  }
+
   async _getStreamProcessors(): Promise<Document[]> {
     if (this._serviceProvider) {
       try {
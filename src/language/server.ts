@@ -17,6 +17,7 @@ import { TextDocument } from 'vscode-languageserver-textdocument';
 
 import MongoDBService from './mongoDBService';
 import { ServerCommands } from './serverCommands';
+import type { PlaygroundRunParameters } from './serverCommands';
 import type { PlaygroundEvaluateParams } from '../types/playgroundType';
 import type { ClearCompletionsCache } from '../types/completionsCache';
 
@@ -164,6 +165,14 @@ connection.onRequest(
   },
 );
 
+// Find the write operations in code from a playground.
+connection.onRequest(
+  ServerCommands.GET_WRITE_OPERATIONS,
+  ({ codeToEvaluate }: PlaygroundRunParameters) => {
+    return mongoDBService.getWriteOperations(codeToEvaluate);
+  },
+);
+
 // Send default configurations to mongoDBService.
 connection.onRequest(ServerCommands.INITIALIZE_MONGODB_SERVICE, (settings) => {
   mongoDBService.initialize(settings);
@@ -2,6 +2,7 @@ export enum ServerCommands {
   ACTIVE_CONNECTION_CHANGED = 'ACTIVE_CONNECTION_CHANGED',
   EXECUTE_CODE_FROM_PLAYGROUND = 'EXECUTE_CODE_FROM_PLAYGROUND',
   EXECUTE_RANGE_FROM_PLAYGROUND = 'EXECUTE_RANGE_FROM_PLAYGROUND',
+  GET_WRITE_OPERATIONS = 'GET_WRITE_OPERATIONS',
   SHOW_ERROR_MESSAGE = 'SHOW_ERROR_MESSAGE',
   SHOW_INFO_MESSAGE = 'SHOW_INFO_MESSAGE',
   GET_EXPORT_TO_LANGUAGE_MODE = 'GET_EXPORT_TO_LANGUAGE_MODE',
@@ -5,6 +5,24 @@ import type * as t from '@babel/types';
 
 const PLACEHOLDER = 'TRIGGER_CHARACTER';
 
+// Methods of the shell API that insert, change or drop data. Commands run
+// with `runCommand` can do any of it, so they are all treated as writes.
+const WRITE_OPERATION_REGEX =
+  /^(insert|update|replace|delete|remove|drop|bulkWrite|findOneAnd|findAndModify|renameCollection|create|hideIndex|unhideIndex|runCommand|adminCommand)/;
+
+// Methods of `sp` and its stream processors that deploy or change processors.
+const STREAM_PROCESSOR_WRITE_OPERATIONS = [
+  'createStreamProcessor',
+  'process',
+  'start',
+  'stop',
+  'drop',
+  'modify',
+];
+
+// Aggregation stages that write the results to a collection.
+const WRITE_STAGES = ['$out', '$merge'];
+
 export interface VisitorSelection {
   start: { line: number; character: number };
   end: { line: number; character: number };
@@ -43,8 +61,12 @@ export interface NamespaceState {
   collectionName: string | null;
 }
 
+export interface WriteOperationsState {
+  writeOperations: string[];
+}
+
 export class Visitor {
-  _state: CompletionState | NamespaceState | {};
+  _state: CompletionState | NamespaceState | WriteOperationsState | {};
   _selection: VisitorSelection;
 
   constructor() {
@@ -64,6 +86,7 @@ export class Visitor {
     this._checkIsCollectionNameAsCallExpression(path.node);
     this._checkIsStreamProcessorNameAsCallExpression(path.node);
     this._checkHasDatabaseName(path.node);
+    this._checkIsWriteOperationCall(path.node);
   }
 
   _visitMemberExpression(path: NodePath): void {
@@ -145,6 +168,20 @@ export class Visitor {
     return this._state as CompletionState;
   }
 
+  parseASTForWriteOperations(textFromEditor = ''): string[] {
+    this._state = { writeOperations: [] };
+
+    this.parseAST({
+      textFromEditor,
+      selection: {
+        start: { line: 0, character: 0 },
+        end: { line: 0, character: 0 },
+      },
+    });
+
+    return (this._state as WriteOperationsState).writeOperations;
+  }
+
   parseAST({ textFromEditor, selection }: VisitorTextAndSelection): void {
     this._selection = selection;
 
@@ -491,6 +528,104 @@ export class Visitor {
     }
   }
 
+  _getCalleeRootName(node: t.Expression): string | undefined {
+    if (node.type === 'Identifier') {
+      return node.name;
+    }
+
+    if (node.type === 'MemberExpression') {
+      return this._getCalleeRootName(node.object as t.Expression);
+    }
+
+    if (node.type === 'CallExpression') {
+      return this._getCalleeRootName(node.callee as t.Expression);
+    }
+
+    return undefined;
+  }
+
+  _getWriteStage(node: t.Node): string | undefined {
+    if (node.type === 'ArrayExpression') {
+      for (const element of node.elements) {
+        const writeStage = element && this._getWriteStage(element);
+
+        if (writeStage) {
+          return writeStage;
+        }
+      }
+    }
+
+    if (node.type === 'ObjectExpression') {
+      for (const property of node.properties) {
+        if (property.type !== 'ObjectProperty') {
+          continue;
+        }
+
+        const key =
+          property.key.type === 'Identifier'
+            ? property.key.name
+            : property.key.type === 'StringLiteral'
+              ? property.key.value
+              : undefined;
+
+        if (key && WRITE_STAGES.includes(key)) {
+          return key;
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  _getWriteOperation(
+    node: t.CallExpression,
+    methodName: string,
+  ): string | undefined {
+    if (this._getCalleeRootName(node.callee as t.Expression) === 'sp') {
+      return STREAM_PROCESSOR_WRITE_OPERATIONS.includes(methodName)
+        ? methodName
+        : undefined;
+    }
+
+    if (methodName === 'aggregate') {
+      const writeStage = node.arguments
+        .map((argument) => this._getWriteStage(argument))
+        .find(Boolean);
+
+      return writeStage ? `aggregate with ${writeStage}` : undefined;
+    }
+
+    return WRITE_OPERATION_REGEX.test(methodName) ? methodName : undefined;
+  }
+
+  _checkIsWriteOperationCall(node: t.CallExpression): void {
+    if (
+      !('writeOperations' in this._state) ||
+      node.callee.type !== 'MemberExpression'
+    ) {
+      return;
+    }
+
+    const { property, computed } = node.callee;
+    let methodName: string | undefined;
+
+    if (!computed && property.type === 'Identifier') {
+      methodName = property.name;
+    } else if (computed && property.type === 'StringLiteral') {
+      methodName = property.value;
+    }
+
+    const writeOperation =
+      methodName && this._getWriteOperation(node, methodName);
+
+    if (
+      writeOperation &&
+      !this._state.writeOperations.includes(writeOperation)
+    ) {
+      this._state.writeOperations.push(writeOperation);
+    }
+  }
+
   _checkHasDatabaseName(node: t.CallExpression): void {
     if (
       node.callee.type === 'Identifier' &&
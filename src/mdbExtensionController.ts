@@ -4,13 +4,24 @@
  * Activated from `./src/extension.ts`
  */
 import * as vscode from 'vscode';
+import { EJSON } from 'bson';
+import type { Document } from 'bson';
+import type { DataService } from 'mongodb-data-service';
 
 import ActiveConnectionCodeLensProvider from './editors/activeConnectionCodeLensProvider';
 import PlaygroundSelectionCodeActionProvider from './editors/playgroundSelectionCodeActionProvider';
 import PlaygroundDiagnosticsCodeActionProvider from './editors/playgroundDiagnosticsCodeActionProvider';
 import ConnectionController from './connectionController';
 import type ConnectionTreeItem from './explorer/connectionTreeItem';
+import type ConnectionGroupTreeItem from './explorer/connectionGroupTreeItem';
 import type DatabaseTreeItem from './explorer/databaseTreeItem';
+import { restoreFromFolder } from './explorer/dumpAndRestore';
+import { copyCollectionToConnection } from './explorer/copyCollection';
+import {
+  compareSchemaSnapshot,
+  saveSchemaSnapshot,
+} from './explorer/schemaDrift';
+import type { SnapshotCollection } from './explorer/schemaDrift';
 import type DocumentListTreeItem from './explorer/documentListTreeItem';
 import { DocumentSource } from './documentSource';
 import type DocumentTreeItem from './explorer/documentTreeItem';
@@ -28,16 +39,23 @@ import { type ExportToLanguageResult } from './types/playgroundType';
 import type { ExtensionCommand } from './commands';
 import type FieldTreeItem from './explorer/fieldTreeItem';
 import type IndexListTreeItem from './explorer/indexListTreeItem';
+import type IndexTreeItem from './explorer/indexTreeItem';
 import { LanguageServerController } from './language';
 import launchMongoShell from './commands/launchMongoShell';
 import type SchemaTreeItem from './explorer/schemaTreeItem';
-import { StatusView } from './views';
+import type ValidationTreeItem from './explorer/validationTreeItem';
+import { pickValidationOptions } from './explorer/validationTreeItem';
+import { getJsonSchemaValidatorFromSample } from './utils/documentSchema';
+import { StatusView, WriteProtectionStatusView } from './views';
 import { StorageController, StorageVariables } from './storage';
 import { DeepLinkTelemetryEvent, TelemetryService } from './telemetry';
 import type PlaygroundsTreeItem from './explorer/playgroundsTreeItem';
 import PlaygroundResultProvider from './editors/playgroundResultProvider';
 import WebviewController from './views/webviewController';
+import SchemaAnalysisView from './views/schemaAnalysisView';
+import StreamProcessorSampleView from './views/streamProcessorSampleView';
 import { createIdFactory, generateId } from './utils/objectIdHelper';
+import formatError from './utils/formatError';
 import { ConnectionStorage } from './storage/connectionStorage';
 import type StreamProcessorTreeItem from './explorer/streamProcessorTreeItem';
 import type { RunParticipantCodeCommandArgs } from './participant/participant';
@@ -72,10 +90,13 @@ export default class MDBExtensionController implements vscode.Disposable {
   _helpExplorer: HelpExplorer;
   _playgroundsExplorer: PlaygroundsExplorer;
   _statusView: StatusView;
+  _writeProtectionStatusView: WriteProtectionStatusView;
   _storageController: StorageController;
   _telemetryService: TelemetryService;
   _languageServerController: LanguageServerController;
   _webviewController: WebviewController;
+  _schemaAnalysisView: SchemaAnalysisView;
+  _streamProcessorSampleView: StreamProcessorSampleView;
   _queryWithCopilotCodeLensProvider: QueryWithCopilotCodeLensProvider;
   _playgroundResultProvider: PlaygroundResultProvider;
   _activeConnectionCodeLensProvider: ActiveConnectionCodeLensProvider;
@@ -103,6 +124,10 @@ export default class MDBExtensionController implements vscode.Disposable {
       storageController: this._storageController,
       telemetryService: this._telemetryService,
     });
+    this._writeProtectionStatusView = new WriteProtectionStatusView({
+      context,
+      connectionController: this._connectionController,
+    });
     this._languageServerController = new LanguageServerController(context);
     this._explorerController = new ExplorerController(
       this._connectionController,
@@ -164,6 +189,10 @@ export default class MDBExtensionController implements vscode.Disposable {
       storageController: this._storageController,
       telemetryService: this._telemetryService,
     });
+    this._schemaAnalysisView = new SchemaAnalysisView({
+      playgroundController: this._playgroundController,
+    });
+    this._streamProcessorSampleView = new StreamProcessorSampleView();
     this._editorsController.registerProviders();
   }
 
@@ -186,6 +215,10 @@ export default class MDBExtensionController implements vscode.Disposable {
     await this._connectionController.loadSavedConnections();
     await this._languageServerController.startLanguageServer();
 
+    // Playgrounds restored with the window are opened before the saved
+    // connections are loaded, so their headers are applied now.
+    this._playgroundController.applyOpenPlaygroundConnectionHeaders();
+
     this.registerCommands();
     this.showOverviewPageIfRecentlyInstalled();
     this.subscribeToConfigurationChanges();
@@ -281,6 +314,11 @@ export default class MDBExtensionController implements vscode.Disposable {
     this.registerCommand(EXTENSION_COMMANDS.MDB_CHANGE_ACTIVE_CONNECTION, () =>
       this._connectionController.changeActiveConnection(),
     );
+    this.registerCommand(
+      EXTENSION_COMMANDS.MDB_CHANGE_PLAYGROUND_CONNECTION,
+      (playgroundUri?: vscode.Uri) =>
+        this._playgroundController.changePlaygroundConnection(playgroundUri),
+    );
 
     this.registerCommand(
       EXTENSION_COMMANDS.OPEN_MONGODB_ISSUE_REPORTER,
@@ -316,6 +354,14 @@ export default class MDBExtensionController implements vscode.Disposable {
       EXTENSION_COMMANDS.MDB_RUN_SELECTED_PLAYGROUND_BLOCKS,
       () => this._playgroundController.runSelectedPlaygroundBlocks(),
     );
+    this.registerCommand(
+      EXTENSION_COMMANDS.MDB_EXPLAIN_SELECTED_PLAYGROUND_QUERY,
+      () => this._playgroundController.explainSelectedPlaygroundQuery(),
+    );
+    this.registerCommand(
+      EXTENSION_COMMANDS.MDB_OPEN_PLAYGROUND_RESULTS_VIEW,
+      () => this._playgroundController.openPlaygroundResultsView(),
+    );
     this.registerCommand(EXTENSION_COMMANDS.MDB_RUN_ALL_PLAYGROUND_BLOCKS, () =>
       this._playgroundController.runAllPlaygroundBlocks(),
     );
@@ -376,6 +422,15 @@ export default class MDBExtensionController implements vscode.Disposable {
     this.registerCommand(EXTENSION_COMMANDS.MDB_SAVE_MONGODB_DOCUMENT, () =>
       this._editorsController.saveMongoDBDocument(),
     );
+    this.registerCommand(
+      EXTENSION_COMMANDS.MDB_EDIT_COLLECTION_DOCUMENTS,
+      (uri?: vscode.Uri) =>
+        this._editorsController.onEditCollectionDocuments(uri),
+    );
+    this.registerCommand(
+      EXTENSION_COMMANDS.MDB_SAVE_RESULTS_AS,
+      (uri?: vscode.Uri) => this._editorsController.onSaveResultsAs(uri),
+    );
 
     this.registerEditorCommands();
     this.registerTreeViewCommands();
@@ -493,9 +548,29 @@ export default class MDBExtensionController implements vscode.Disposable {
 
   registerEditorCommands(): void {
     this.registerCommand(
-      EXTENSION_COMMANDS.MDB_CODELENS_SHOW_MORE_DOCUMENTS,
+      EXTENSION_COMMANDS.MDB_CODELENS_SHOW_NEXT_DOCUMENTS_PAGE,
       ({ operationId, connectionId, namespace }) => {
-        return this._editorsController.onViewMoreCollectionDocuments(
+        return this._editorsController.onViewNextCollectionDocumentsPage(
+          operationId,
+          connectionId,
+          namespace,
+        );
+      },
+    );
+    this.registerCommand(
+      EXTENSION_COMMANDS.MDB_CODELENS_SHOW_PREVIOUS_DOCUMENTS_PAGE,
+      ({ operationId, connectionId, namespace }) => {
+        return this._editorsController.onViewPreviousCollectionDocumentsPage(
+          operationId,
+          connectionId,
+          namespace,
+        );
+      },
+    );
+    this.registerCommand(
+      EXTENSION_COMMANDS.MDB_CODELENS_GO_TO_DOCUMENTS_PAGE,
+      ({ operationId, connectionId, namespace }) => {
+        return this._editorsController.onGoToCollectionDocumentsPage(
           operationId,
           connectionId,
           namespace,
@@ -524,11 +599,8 @@ export default class MDBExtensionController implements vscode.Disposable {
     );
     this.registerCommand(
       EXTENSION_COMMANDS.MDB_DISCONNECT_FROM_CONNECTION_TREE_VIEW,
-      () => {
-        // In order for this command to be activated, the connection must
-        // be the active connection, so we can just generally disconnect.
-        return this._connectionController.disconnect();
-      },
+      (connectionTreeItem: ConnectionTreeItem) =>
+        this._connectionController.disconnect(connectionTreeItem.connectionId),
     );
     this.registerCommand(
       EXTENSION_COMMANDS.MDB_REFRESH_CONNECTION,
@@ -603,6 +675,49 @@ export default class MDBExtensionController implements vscode.Disposable {
       (element: ConnectionTreeItem) =>
         this._connectionController.renameConnection(element.connectionId),
     );
+    this.registerCommand(
+      EXTENSION_COMMANDS.MDB_SET_CONNECTION_WRITE_PROTECTION,
+      (element: ConnectionTreeItem) =>
+        this._connectionController.setConnectionWriteProtection(
+          element.connectionId,
+        ),
+    );
+    this.registerCommand(
+      EXTENSION_COMMANDS.MDB_CREATE_CONNECTION_GROUP,
+      async (): Promise<boolean> =>
+        !!(await this._connectionController.createConnectionGroup()),
+    );
+    this.registerCommand(
+      EXTENSION_COMMANDS.MDB_MOVE_CONNECTION_TO_GROUP,
+      (element: ConnectionTreeItem) =>
+        this._connectionController.selectConnectionGroup(element.connectionId),
+    );
+    this.registerCommand(
+      EXTENSION_COMMANDS.MDB_RENAME_CONNECTION_GROUP,
+      (element: ConnectionGroupTreeItem) =>
+        this._connectionController.renameConnectionGroup(element.groupName),
+    );
+    this.registerCommand(
+      EXTENSION_COMMANDS.MDB_SET_CONNECTION_GROUP_COLOR,
+      (element: ConnectionGroupTreeItem) =>
+        this._connectionController.setConnectionGroupColor(element.groupName),
+    );
+    this.registerCommand(
+      EXTENSION_COMMANDS.MDB_REMOVE_CONNECTION_GROUP,
+      (element: ConnectionGroupTreeItem) =>
+        this._connectionController.removeConnectionGroup(element.groupName),
+    );
+    this.registerCommand(EXTENSION_COMMANDS.MDB_EXPORT_CONNECTIONS, () =>
+      this._connectionController.exportConnections(),
+    );
+    this.registerCommand(EXTENSION_COMMANDS.MDB_IMPORT_CONNECTIONS, () =>
+      this._connectionController.importConnections(),
+    );
+    this.registerCommand(EXTENSION_COMMANDS.MDB_COMPARE_SCHEMA_SNAPSHOT, () =>
+      compareSchemaSnapshot({
+        connectionController: this._connectionController,
+      }),
+    );
     this.registerCommand(
       EXTENSION_COMMANDS.MDB_ADD_DATABASE,
       async (element: ConnectionTreeItem): Promise<boolean> => {
@@ -615,8 +730,9 @@ export default class MDBExtensionController implements vscode.Disposable {
         }
 
         if (
-          element.connectionId !==
-          this._connectionController.getActiveConnectionId()
+          !this._connectionController.isConnectedToConnection(
+            element.connectionId,
+          )
         ) {
           void vscode.window.showErrorMessage(
             'Please connect to this connection before adding a database.',
@@ -658,6 +774,15 @@ export default class MDBExtensionController implements vscode.Disposable {
     this.registerCommand(
       EXTENSION_COMMANDS.MDB_DROP_DATABASE,
       async (element: DatabaseTreeItem): Promise<boolean> => {
+        if (
+          !(await this._confirmWriteOperation(
+            element.getDataService(),
+            'drop the database',
+          ))
+        ) {
+          return false;
+        }
+
         const successfullyDroppedDatabase =
           await element.onDropDatabaseClicked();
 
@@ -715,6 +840,15 @@ export default class MDBExtensionController implements vscode.Disposable {
     this.registerCommand(
       EXTENSION_COMMANDS.MDB_DROP_COLLECTION,
       async (element: CollectionTreeItem): Promise<boolean> => {
+        if (
+          !(await this._confirmWriteOperation(
+            element.getDataService(),
+            'drop the collection',
+          ))
+        ) {
+          return false;
+        }
+
         const successfullyDroppedCollection =
           await element.onDropCollectionClicked();
 
@@ -737,8 +871,18 @@ export default class MDBExtensionController implements vscode.Disposable {
         element: CollectionTreeItem | DocumentListTreeItem,
       ): Promise<boolean> => {
         const namespace = `${element.databaseName}.${element.collectionName}`;
+        const documentFilter =
+          'getDocumentListChild' in element
+            ? element.getDocumentListChild().getDocumentFilter()
+            : element.getDocumentFilter();
 
-        return this._editorsController.onViewCollectionDocuments(namespace);
+        return this._editorsController.onViewCollectionDocuments(
+          namespace,
+          documentFilter,
+          this._connectionController.getConnectionIdForDataService(
+            element.getDataService(),
+          ),
+        );
       },
     );
     this.registerCommand(
@@ -751,6 +895,133 @@ export default class MDBExtensionController implements vscode.Disposable {
         return true;
       },
     );
+    this.registerCommand(
+      EXTENSION_COMMANDS.MDB_IMPORT_DOCUMENTS,
+      async (
+        element: DatabaseTreeItem | CollectionTreeItem,
+      ): Promise<boolean> => {
+        if (
+          !(await this._confirmWriteOperation(
+            element.getDataService(),
+            'import documents',
+          ))
+        ) {
+          return false;
+        }
+
+        const successfullyImported = await element.onImportDataClicked();
+
+        if (successfullyImported) {
+          element.resetCache();
+          this._explorerController.refresh();
+          await this._languageServerController.resetCache({
+            collections: true,
+            fields: true,
+          });
+        }
+
+        return successfullyImported;
+      },
+    );
+    this.registerCommand(
+      EXTENSION_COMMANDS.MDB_DUMP_DATABASE,
+      (element: DatabaseTreeItem): Promise<boolean> =>
+        element.onDumpDatabaseClicked(),
+    );
+    this.registerCommand(
+      EXTENSION_COMMANDS.MDB_DUMP_COLLECTION,
+      (element: CollectionTreeItem): Promise<boolean> =>
+        element.onDumpCollectionClicked(),
+    );
+    this.registerCommand(
+      EXTENSION_COMMANDS.MDB_RESTORE_DATABASE,
+      async (
+        element: DatabaseTreeItem | ConnectionTreeItem,
+      ): Promise<boolean> => {
+        let successfullyRestored = false;
+        const connectionId =
+          element.contextValue === 'databaseTreeItem'
+            ? this._connectionController.getConnectionIdForDataService(
+                element.getDataService(),
+              )
+            : element.connectionId;
+
+        if (
+          !(await this._connectionController.confirmWriteOperation({
+            connectionId,
+            operation: 'restore',
+          }))
+        ) {
+          return false;
+        }
+
+        if (element.contextValue === 'databaseTreeItem') {
+          successfullyRestored = await element.onRestoreDatabaseClicked();
+        } else {
+          const dataService =
+            this._connectionController.getConnectedDataService(
+              element.connectionId,
+            );
+
+          if (dataService) {
+            successfullyRestored = await restoreFromFolder({ dataService });
+          } else {
+            void vscode.window.showErrorMessage(
+              'Unable to restore: not connected.',
+            );
+          }
+        }
+
+        if (successfullyRestored) {
+          this._explorerController.refresh();
+          await this._languageServerController.resetCache({
+            collections: true,
+            fields: true,
+          });
+        }
+
+        return successfullyRestored;
+      },
+    );
+    this.registerCommand(
+      EXTENSION_COMMANDS.MDB_COPY_COLLECTION_TO_CONNECTION,
+      async (element: CollectionTreeItem): Promise<boolean> => {
+        const successfullyCopied = await copyCollectionToConnection({
+          connectionController: this._connectionController,
+          dataService: element.getDataService(),
+          databaseName: element.databaseName,
+          collectionName: element.collectionName,
+        });
+
+        if (successfullyCopied) {
+          // The copy can create a collection on a connected connection.
+          this._explorerController.refresh();
+          await this._languageServerController.resetCache({
+            collections: true,
+          });
+        }
+
+        return successfullyCopied;
+      },
+    );
+    this.registerCommand(
+      EXTENSION_COMMANDS.MDB_GENERATE_TYPES_FROM_COLLECTION,
+      (element: CollectionTreeItem): Promise<boolean> =>
+        element.onGenerateTypesClicked(),
+    );
+    this.registerCommand(
+      EXTENSION_COMMANDS.MDB_SAVE_SCHEMA_SNAPSHOT,
+      (element: CollectionTreeItem): Promise<boolean> =>
+        saveSchemaSnapshot(this._getSchemaSnapshotCollection(element)),
+    );
+    this.registerCommand(
+      EXTENSION_COMMANDS.MDB_COMPARE_COLLECTION_SCHEMA_WITH_SNAPSHOT,
+      (element: CollectionTreeItem): Promise<boolean> =>
+        compareSchemaSnapshot({
+          connectionController: this._connectionController,
+          liveCollection: this._getSchemaSnapshotCollection(element),
+        }),
+    );
     this.registerCommand(
       EXTENSION_COMMANDS.MDB_SEARCH_FOR_DOCUMENTS,
       (element: DocumentListTreeItem): Promise<boolean> =>
@@ -766,7 +1037,10 @@ export default class MDBExtensionController implements vscode.Disposable {
           source: DocumentSource.DOCUMENT_SOURCE_TREEVIEW,
           documentId: element.documentId,
           namespace: element.namespace,
-          connectionId: this._connectionController.getActiveConnectionId(),
+          connectionId:
+            this._connectionController.getConnectionIdForDataService(
+              element.dataService,
+            ),
           line: 1,
         });
       },
@@ -781,6 +1055,28 @@ export default class MDBExtensionController implements vscode.Disposable {
         return true;
       },
     );
+    this.registerCommand(
+      EXTENSION_COMMANDS.MDB_SET_DOCUMENT_LIST_FILTER,
+      async (documentsListTreeItem: DocumentListTreeItem): Promise<boolean> => {
+        const filterWasSet =
+          await documentsListTreeItem.onSetDocumentFilterClicked();
+
+        if (filterWasSet) {
+          this._explorerController.refresh();
+        }
+
+        return filterWasSet;
+      },
+    );
+    this.registerCommand(
+      EXTENSION_COMMANDS.MDB_CLEAR_DOCUMENT_LIST_FILTER,
+      (documentsListTreeItem: DocumentListTreeItem): Promise<boolean> => {
+        documentsListTreeItem.onClearDocumentFilterClicked();
+        this._explorerController.refresh();
+
+        return Promise.resolve(true);
+      },
+    );
     this.registerCommand(
       EXTENSION_COMMANDS.MDB_INSERT_DOCUMENT_FROM_TREE_VIEW,
       async (
@@ -802,6 +1098,49 @@ export default class MDBExtensionController implements vscode.Disposable {
         return true;
       },
     );
+    this.registerCommand(
+      EXTENSION_COMMANDS.MDB_ANALYZE_SCHEMA,
+      (element: CollectionTreeItem | SchemaTreeItem): Promise<boolean> =>
+        this._schemaAnalysisView.analyzeCollection({
+          dataService: element.getDataService(),
+          databaseName: element.databaseName,
+          collectionName: element.collectionName,
+          connectionId:
+            this._connectionController.getConnectionIdForDataService(
+              element.getDataService(),
+            ),
+        }),
+    );
+    this.registerCommand(
+      EXTENSION_COMMANDS.MDB_GENERATE_VALIDATION_RULES,
+      async (schemaTreeItem: SchemaTreeItem): Promise<boolean> => {
+        const schema = await schemaTreeItem.getSchema();
+
+        if (!schema) {
+          void vscode.window.showInformationMessage(
+            'No documents were found to generate validation rules from.',
+          );
+          return false;
+        }
+
+        const validationOptions = await pickValidationOptions();
+
+        if (!validationOptions) {
+          return false;
+        }
+
+        return this._playgroundController.createPlaygroundForValidationRules({
+          databaseName: schemaTreeItem.databaseName,
+          collectionName: schemaTreeItem.collectionName,
+          validator: getJsonSchemaValidatorFromSample(schema),
+          ...validationOptions,
+          connectionId:
+            this._connectionController.getConnectionIdForDataService(
+              schemaTreeItem.getDataService(),
+            ),
+        });
+      },
+    );
     this.registerCommand(
       EXTENSION_COMMANDS.MDB_COPY_SCHEMA_FIELD_NAME,
       async (fieldTreeItem: FieldTreeItem): Promise<boolean> => {
@@ -820,6 +1159,47 @@ export default class MDBExtensionController implements vscode.Disposable {
         return Promise.resolve(true);
       },
     );
+    this.registerCommand(
+      EXTENSION_COMMANDS.MDB_REFRESH_VALIDATION,
+      (validationTreeItem: ValidationTreeItem): Promise<boolean> => {
+        validationTreeItem.resetCache();
+        this._explorerController.refresh();
+
+        return Promise.resolve(true);
+      },
+    );
+    this.registerCommand(
+      EXTENSION_COMMANDS.MDB_EDIT_VALIDATION_RULES,
+      async (validationTreeItem: ValidationTreeItem): Promise<boolean> => {
+        let validation;
+
+        try {
+          validation = await validationTreeItem.getValidation();
+        } catch (error) {
+          void vscode.window.showErrorMessage(
+            `Fetch validation rules failed: ${formatError(error).message}`,
+          );
+          return false;
+        }
+
+        const validationOptions = await pickValidationOptions(validation);
+
+        if (!validationOptions) {
+          return false;
+        }
+
+        return this._playgroundController.createPlaygroundForValidationRules({
+          databaseName: validationTreeItem.databaseName,
+          collectionName: validationTreeItem.collectionName,
+          validator: validation?.validator ?? {},
+          ...validationOptions,
+          connectionId:
+            this._connectionController.getConnectionIdForDataService(
+              validationTreeItem.getDataService(),
+            ),
+        });
+      },
+    );
     this.registerCommand(
       EXTENSION_COMMANDS.MDB_CREATE_INDEX_TREE_VIEW,
       (indexListTreeItem: IndexListTreeItem): Promise<boolean> => {
@@ -829,6 +1209,101 @@ export default class MDBExtensionController implements vscode.Disposable {
         );
       },
     );
+    this.registerCommand(
+      EXTENSION_COMMANDS.MDB_DROP_INDEX,
+      async (element: IndexTreeItem): Promise<boolean> => {
+        if (
+          !(await this._confirmWriteOperation(
+            element.getDataService(),
+            'drop the index',
+          ))
+        ) {
+          return false;
+        }
+
+        const dropped = await element.onDropIndexClicked();
+        if (dropped) {
+          void vscode.window.showInformationMessage(
+            'Index successfully dropped.',
+          );
+          // Refresh explorer view after an index is dropped.
+          this._explorerController.refresh();
+        }
+        return dropped;
+      },
+    );
+    this.registerCommand(
+      EXTENSION_COMMANDS.MDB_HIDE_INDEX,
+      async (element: IndexTreeItem): Promise<boolean> => {
+        if (
+          !(await this._confirmWriteOperation(
+            element.getDataService(),
+            'hide the index',
+          ))
+        ) {
+          return false;
+        }
+
+        const hidden = await element.onSetIndexHiddenClicked(true);
+        if (hidden) {
+          void vscode.window.showInformationMessage(
+            'Index successfully hidden.',
+          );
+          // Refresh explorer view after an index is hidden.
+          this._explorerController.refresh();
+        }
+        return hidden;
+      },
+    );
+    this.registerCommand(
+      EXTENSION_COMMANDS.MDB_UNHIDE_INDEX,
+      async (element: IndexTreeItem): Promise<boolean> => {
+        if (
+          !(await this._confirmWriteOperation(
+            element.getDataService(),
+            'unhide the index',
+          ))
+        ) {
+          return false;
+        }
+
+        const unhidden = await element.onSetIndexHiddenClicked(false);
+        if (unhidden) {
+          void vscode.window.showInformationMessage(
+            'Index successfully unhidden.',
+          );
+          // Refresh explorer view after an index is unhidden.
+          this._explorerController.refresh();
+        }
+        return unhidden;
+      },
+    );
+    this.registerCommand(
+      EXTENSION_COMMANDS.MDB_RENAME_INDEX,
+      async (element: IndexTreeItem): Promise<boolean> => {
+        if (
+          !(await this._confirmWriteOperation(
+            element.getDataService(),
+            'rename the index',
+          ))
+        ) {
+          return false;
+        }
+
+        const renamed = await element.onRenameIndexClicked();
+        if (renamed) {
+          void vscode.window.showInformationMessage(
+            'Index successfully renamed.',
+          );
+        }
+        // Refresh explorer view after an index is renamed, or was dropped
+        // and could not be created again.
+        if (renamed || element.isDropped) {
+          this._explorerController.refresh();
+        }
+        return renamed;
+      },
+    );
     this.registerCommand(
       EXTENSION_COMMANDS.MDB_CREATE_PLAYGROUND_FROM_TREE_VIEW,
       () => this._playgroundController.createPlayground(),
@@ -877,6 +1352,15 @@ export default class MDBExtensionController implements vscode.Disposable {
     this.registerCommand(
       EXTENSION_COMMANDS.MDB_DELETE_DOCUMENT_FROM_TREE_VIEW,
       async (documentTreeItem: DocumentTreeItem): Promise<boolean> => {
+        if (
+          !(await this._confirmWriteOperation(
+            documentTreeItem.dataService,
+            'delete the document',
+          ))
+        ) {
+          return false;
+        }
+
         const successfullyDropped =
           await documentTreeItem.onDeleteDocumentClicked();
 
@@ -942,8 +1426,9 @@ export default class MDBExtensionController implements vscode.Disposable {
         }
 
         if (
-          element.connectionId !==
-          this._connectionController.getActiveConnectionId()
+          !this._connectionController.isConnectedToConnection(
+            element.connectionId,
+          )
         ) {
           void vscode.window.showErrorMessage(
             'Please connect to this connection before adding a stream processor.',
@@ -976,6 +1461,15 @@ export default class MDBExtensionController implements vscode.Disposable {
     this.registerCommand(
       EXTENSION_COMMANDS.MDB_START_STREAM_PROCESSOR,
       async (element: StreamProcessorTreeItem): Promise<boolean> => {
+        if (
+          !(await this._confirmWriteOperation(
+            element.getDataService(),
+            'start the stream processor',
+          ))
+        ) {
+          return false;
+        }
+
         const started = await element.onStartClicked();
         if (started) {
           void vscode.window.showInformationMessage(
@@ -990,6 +1484,15 @@ export default class MDBExtensionController implements vscode.Disposable {
     this.registerCommand(
       EXTENSION_COMMANDS.MDB_STOP_STREAM_PROCESSOR,
       async (element: StreamProcessorTreeItem): Promise<boolean> => {
+        if (
+          !(await this._confirmWriteOperation(
+            element.getDataService(),
+            'stop the stream processor',
+          ))
+        ) {
+          return false;
+        }
+
         const stopped = await element.onStopClicked();
         if (stopped) {
           void vscode.window.showInformationMessage(
@@ -1004,6 +1507,15 @@ export default class MDBExtensionController implements vscode.Disposable {
     this.registerCommand(
       EXTENSION_COMMANDS.MDB_DROP_STREAM_PROCESSOR,
       async (element: StreamProcessorTreeItem): Promise<boolean> => {
+        if (
+          !(await this._confirmWriteOperation(
+            element.getDataService(),
+            'drop the stream processor',
+          ))
+        ) {
+          return false;
+        }
+
         const dropped = await element.onDropClicked();
         if (dropped) {
           void vscode.window.showInformationMessage(
@@ -1015,6 +1527,105 @@ export default class MDBExtensionController implements vscode.Disposable {
         return dropped;
       },
     );
+    this.registerCommand(
+      EXTENSION_COMMANDS.MDB_SHOW_STREAM_PROCESSOR_STATS,
+      async (element: StreamProcessorTreeItem): Promise<boolean> => {
+        let stats: Document;
+
+        try {
+          stats = await element.getStats();
+        } catch (error) {
+          void vscode.window.showErrorMessage(
+            `Get stream processor stats failed: ${formatError(error).message}`,
+          );
+          return false;
+        }
+
+        const document = await vscode.workspace.openTextDocument({
+          language: 'json',
+          content: EJSON.stringify(stats, undefined, 2, { relaxed: true }),
+        });
+        await vscode.window.showTextDocument(document);
+        // The stats have the current state of the processor.
+        this._explorerController.refresh();
+
+        return true;
+      },
+    );
+    this.registerCommand(
+      EXTENSION_COMMANDS.MDB_SAMPLE_STREAM_PROCESSOR,
+      (element: StreamProcessorTreeItem): Promise<boolean> =>
+        this._streamProcessorSampleView.sample({
+          streamProcessor: element,
+          connectionId:
+            this._connectionController.getConnectionIdForDataService(
+              element.getDataService(),
+            ),
+        }),
+    );
+    this.registerCommand(
+      EXTENSION_COMMANDS.MDB_EDIT_STREAM_PROCESSOR_PIPELINE,
+      async (element: StreamProcessorTreeItem): Promise<boolean> => {
+        let streamProcessor: Document | undefined;
+
+        try {
+          streamProcessor = await element.getStreamProcessor();
+        } catch (error) {
+          void vscode.window.showErrorMessage(
+            `Fetch stream processor failed: ${formatError(error).message}`,
+          );
+          return false;
+        }
+
+        if (!streamProcessor) {
+          void vscode.window.showErrorMessage(
+            `Stream processor '${element.streamProcessorName}' was not found.`,
+          );
+          return false;
+        }
+
+        return this._playgroundController.createPlaygroundForModifyStreamProcessor(
+          {
+            streamProcessorName: element.streamProcessorName,
+            pipeline: streamProcessor.pipeline ?? [],
+            isStarted: streamProcessor.state === 'STARTED',
+            connectionId:
+              this._connectionController.getConnectionIdForDataService(
+                element.getDataService(),
+              ),
+          },
+        );
+      },
+    );
+  }
+
+  _confirmWriteOperation(
+    dataService: DataService,
+    operation: string,
+  ): Promise<boolean> {
+    return this._connectionController.confirmWriteOperation({
+      connectionId:
+        this._connectionController.getConnectionIdForDataService(dataService),
+      operation,
+    });
+  }
+
+  _getSchemaSnapshotCollection(
+    element: CollectionTreeItem,
+  ): SnapshotCollection {
+    const connectionId =
+      this._connectionController.getConnectionIdForDataService(
+        element.getDataService(),
+      );
+
+    return {
+      dataService: element.getDataService(),
+      databaseName: element.databaseName,
+      collectionName: element.collectionName,
+      connectionName: connectionId
+        ? this._connectionController.getSavedConnectionName(connectionId)
+        : '',
+    };
   }
 
   showOverviewPageIfRecentlyInstalled(): void {
@@ -1043,7 +1654,7 @@ export default class MDBExtensionController implements vscode.Disposable {
   }
 
   async deactivate(): Promise<void> {
-    await this._connectionController.disconnect();
+    await this._connectionController.disconnectAll();
     await this._languageServerController.deactivate();
 
     this._explorerController.deactivate();
@@ -1054,6 +1665,7 @@ export default class MDBExtensionController implements vscode.Disposable {
     this._editorsController.deactivate();
     this._webviewController.deactivate();
     this._activeConnectionCodeLensProvider.deactivate();
+    this._writeProtectionStatusView.deactivate();
     this._connectionController.deactivate();
   }
 }
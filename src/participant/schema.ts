@@ -7,6 +7,19 @@ import type {
 
 const PROPERTY_REGEX = '^[a-zA-Z_$][0-9a-zA-Z_$]*$';
 
+// Quotes field names that are not valid JavaScript identifiers.
+export function formatPropertyName(pProp: string): string {
+  if (pProp.match(PROPERTY_REGEX)) {
+    return pProp;
+  }
+
+  try {
+    return JSON.stringify(pProp);
+  } catch (e) {
+    return pProp;
+  }
+}
+
 export class SchemaFormatter {
   static getSchemaFromTypes(pInput: SimplifiedSchema): string {
     return new SchemaFormatter().format(pInput);
@@ -82,15 +95,7 @@ export class SchemaFormatter {
   }
 
   getPropAsString(pProp: string): string {
-    if (pProp.match(PROPERTY_REGEX)) {
-      return pProp;
-    }
-
-    try {
-      return JSON.stringify(pProp);
-    } catch (e) {
-      return pProp;
-    }
+    return formatPropertyName(pProp);
   }
 
   addToFormattedSchemaString(fieldAndType: string): void {
@@ -0,0 +1,215 @@
+import crypto from 'crypto';
+import { extractSecrets, mergeSecrets } from '@mongodb-js/connection-info';
+import type { ConnectionOptions } from 'mongodb-data-service';
+
+import type {
+  ConnectionWriteProtection,
+  LoadedConnection,
+} from './connectionStorage';
+
+// Exported connections use the connection export format of MongoDB Compass,
+// so that connections can be moved between Compass and VS Code.
+const CONNECTIONS_EXPORT_TYPE = 'Compass Connections';
+const CONNECTIONS_EXPORT_VERSION = 1;
+
+const ENCRYPTION_ALGORITHM = 'aes-256-gcm';
+const ENCRYPTION_SALT_LENGTH = 64;
+const ENCRYPTION_IV_LENGTH = 16;
+const ENCRYPTION_TAG_LENGTH = 16;
+const ENCRYPTION_KEY_LENGTH = 32;
+const ENCRYPTION_KEY_ITERATIONS = 100000;
+
+type ConnectionSecrets = Parameters<typeof mergeSecrets>[1];
+
+export interface ExportedConnection {
+  id?: string;
+  favorite?: {
+    name?: string;
+  };
+  connectionOptions: ConnectionOptions;
+  // The secrets of the connection, encrypted with the passphrase of the export.
+  connectionSecrets?: string;
+  writeProtection?: ConnectionWriteProtection;
+  group?: string;
+}
+
+export interface ImportedConnection {
+  id?: string;
+  name?: string;
+  connectionOptions: ConnectionOptions;
+  writeProtection?: ConnectionWriteProtection;
+  group?: string;
+}
+
+export interface ConnectionsExport {
+  type: typeof CONNECTIONS_EXPORT_TYPE;
+  version: number | { $numberInt: string };
+  connections: ExportedConnection[];
+}
+
+function getEncryptionKey(passphrase: string, salt: Buffer): Buffer {
+  return crypto.pbkdf2Sync(
+    passphrase,
+    salt,
+    ENCRYPTION_KEY_ITERATIONS,
+    ENCRYPTION_KEY_LENGTH,
+    'sha512',
+  );
+}
+
+function encryptSecrets(
+  secrets: ConnectionSecrets,
+  passphrase: string,
+): string {
+  const salt = crypto.randomBytes(ENCRYPTION_SALT_LENGTH);
+  const iv = crypto.randomBytes(ENCRYPTION_IV_LENGTH);
+  const cipher = crypto.createCipheriv(
+    ENCRYPTION_ALGORITHM,
+    getEncryptionKey(passphrase, salt),
+    iv,
+  );
+  const encrypted = Buffer.concat([
+    cipher.update(JSON.stringify(secrets), 'utf8'),
+    cipher.final(),
+  ]);
+
+  return Buffer.concat([salt, iv, cipher.getAuthTag(), encrypted]).toString(
+    'base64',
+  );
+}
+
+function decryptSecrets(
+  encryptedSecrets: string,
+  passphrase: string,
+): ConnectionSecrets {
+  const data = Buffer.from(encryptedSecrets, 'base64');
+  const ivStart = ENCRYPTION_SALT_LENGTH;
+  const tagStart = ivStart + ENCRYPTION_IV_LENGTH;
+  const encryptedStart = tagStart + ENCRYPTION_TAG_LENGTH;
+
+  try {
+    const decipher = crypto.createDecipheriv(
+      ENCRYPTION_ALGORITHM,
+      getEncryptionKey(passphrase, data.subarray(0, ivStart)),
+      data.subarray(ivStart, tagStart),
+    );
+    decipher.setAuthTag(data.subarray(tagStart, encryptedStart));
+
+    return JSON.parse(
+      Buffer.concat([
+        decipher.update(data.subarray(encryptedStart)),
+        decipher.final(),
+      ]).toString('utf8'),
+    );
+  } catch (error) {
+    throw new Error(
+      'Unable to decrypt the connection secrets: wrong passphrase.',
+    );
+  }
+}
+
+// Without a passphrase the secrets of the connections are not exported.
+export function serializeConnections(
+  connections: LoadedConnection[],
+  { passphrase }: { passphrase?: string } = {},
+): string {
+  const connectionsExport: ConnectionsExport = {
+    type: CONNECTIONS_EXPORT_TYPE,
+    version: CONNECTIONS_EXPORT_VERSION,
+    connections: connections.map((connection) => {
+      const { connectionInfo, secrets } = extractSecrets({
+        id: connection.id,
+        connectionOptions: connection.connectionOptions,
+      });
+
+      return {
+        id: connection.id,
+        favorite: { name: connection.name },
+        connectionOptions: connectionInfo.connectionOptions,
+        connectionSecrets: passphrase
+          ? encryptSecrets(secrets, passphrase)
+          : undefined,
+        writeProtection: connection.writeProtection,
+        group: connection.group,
+      };
+    }),
+  };
+
+  return JSON.stringify(connectionsExport, null, 2);
+}
+
+export function parseConnectionsExport(text: string): ConnectionsExport {
+  let connectionsExport: ConnectionsExport;
+
+  try {
+    connectionsExport = JSON.parse(text);
+  } catch (error) {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const version =
+    typeof connectionsExport?.version === 'object'
+      ? Number(connectionsExport.version.$numberInt)
+      : connectionsExport?.version;
+
+  if (
+    connectionsExport?.type !== CONNECTIONS_EXPORT_TYPE ||
+    !Array.isArray(connectionsExport.connections)
+  ) {
+    throw new Error('The file is not a connections export.');
+  }
+
+  if (version !== CONNECTIONS_EXPORT_VERSION) {
+    throw new Error(`Unsupported connections export version: ${version}.`);
+  }
+
+  return connectionsExport;
+}
+
+export function hasEncryptedSecrets(
+  connectionsExport: ConnectionsExport,
+): boolean {
+  return connectionsExport.connections.some(
+    ({ connectionSecrets }) => !!connectionSecrets,
+  );
+}
+
+// Returns the exported connections with their secrets decrypted.
+export function deserializeConnections(
+  connectionsExport: ConnectionsExport,
+  { passphrase }: { passphrase?: string } = {},
+): ImportedConnection[] {
+  if (hasEncryptedSecrets(connectionsExport) && !passphrase) {
+    throw new Error(
+      'The file contains encrypted secrets but no passphrase was provided.',
+    );
+  }
+
+  return connectionsExport.connections.map((exportedConnection) => {
+    const { id, favorite, connectionSecrets, writeProtection, group } =
+      exportedConnection;
+
+    if (!exportedConnection.connectionOptions?.connectionString) {
+      throw new Error('A connection in the file has no connection string.');
+    }
+
+    const connectionOptions =
+      connectionSecrets && passphrase
+        ? mergeSecrets(
+            {
+              id: id ?? '',
+              connectionOptions: exportedConnection.connectionOptions,
+            },
+            decryptSecrets(connectionSecrets, passphrase),
+          ).connectionOptions
+        : exportedConnection.connectionOptions;
+
+    return {
+      id,
+      name: favorite?.name,
+      connectionOptions,
+      writeProtection,
+      group,
+    };
+  });
+}
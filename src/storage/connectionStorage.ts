@@ -20,6 +20,30 @@ import { v4 as uuidv4 } from 'uuid';
 const log = createLogger('connection storage');
 
 export type ConnectionSource = 'globalSettings' | 'workspaceSettings' | 'user';
+
+// Read-only connections block writes, production connections ask to type
+// the connection name before a write.
+export type ConnectionWriteProtection = 'readOnly' | 'production';
+
+// The colors map to the chart colors of the VS Code theme.
+export const CONNECTION_GROUP_COLORS = [
+  'red',
+  'orange',
+  'yellow',
+  'green',
+  'blue',
+  'purple',
+] as const;
+
+export type ConnectionGroupColor = (typeof CONNECTION_GROUP_COLORS)[number];
+
+// A folder of the connections tree. Connections refer to it by name.
+export interface StoreConnectionGroupInfo {
+  name: string;
+  color?: ConnectionGroupColor;
+  storageLocation: StorageLocation;
+}
+
 export interface StoreConnectionInfo {
   id: string; // Connection model id or a new uuid.
   name: string; // Possibly user given name, not unique.
@@ -28,11 +52,15 @@ export interface StoreConnectionInfo {
   connectionOptions?: ConnectionOptions;
   source?: ConnectionSource;
   lastUsed?: Date; // Date and time when the connection was last used, i.e. connected with.
+  writeProtection?: ConnectionWriteProtection;
+  group?: string; // The name of the folder the connection is shown in.
 }
 
 export type PresetSavedConnection = {
   name: string;
   connectionString: string;
+  writeProtection?: ConnectionWriteProtection;
+  group?: string;
 };
 
 export type PresetSavedConnectionWithSource = PresetSavedConnection & {
@@ -211,6 +239,8 @@ export class ConnectionStorage {
             connectionString: presetConnection.connectionString,
           },
           source: presetConnection.source,
+          writeProtection: presetConnection.writeProtection,
+          group: presetConnection.group,
           storageLocation: StorageLocation.NONE,
           secretStorageLocation: SecretStorageLocation.SecretStorage,
         }) satisfies LoadedConnection,
@@ -294,6 +324,66 @@ export class ConnectionStorage {
     }
   }
 
+  loadConnectionGroups(): StoreConnectionGroupInfo[] {
+    // Workspace groups take precedence over global groups of the same name.
+    return Object.values({
+      ...this._storageController.get(
+        StorageVariables.GLOBAL_CONNECTION_GROUPS,
+        StorageLocation.GLOBAL,
+      ),
+      ...this._storageController.get(
+        StorageVariables.WORKSPACE_CONNECTION_GROUPS,
+        StorageLocation.WORKSPACE,
+      ),
+    });
+  }
+
+  async saveConnectionGroup(group: StoreConnectionGroupInfo): Promise<void> {
+    if (
+      ![StorageLocation.GLOBAL, StorageLocation.WORKSPACE].includes(
+        group.storageLocation,
+      )
+    ) {
+      return;
+    }
+
+    const variableName =
+      group.storageLocation === StorageLocation.GLOBAL
+        ? StorageVariables.GLOBAL_CONNECTION_GROUPS
+        : StorageVariables.WORKSPACE_CONNECTION_GROUPS;
+    const savedGroups =
+      this._storageController.get(variableName, group.storageLocation) ?? {};
+
+    savedGroups[group.name] = group;
+
+    await this._storageController.update(
+      variableName,
+      savedGroups,
+      group.storageLocation,
+    );
+  }
+
+  async removeConnectionGroup(groupName: string): Promise<void> {
+    for (const [variableName, storageLocation] of [
+      [StorageVariables.GLOBAL_CONNECTION_GROUPS, StorageLocation.GLOBAL],
+      [StorageVariables.WORKSPACE_CONNECTION_GROUPS, StorageLocation.WORKSPACE],
+    ] as const) {
+      const savedGroups = this._storageController.get(
+        variableName,
+        storageLocation,
+      );
+
+      if (savedGroups && savedGroups[groupName]) {
+        delete savedGroups[groupName];
+        await this._storageController.update(
+          variableName,
+          savedGroups,
+          storageLocation,
+        );
+      }
+    }
+  }
+
   hasSavedConnections(): boolean {
     const savedWorkspaceConnections = this._storageController.get(
       StorageVariables.WORKSPACE_SAVED_CONNECTIONS,
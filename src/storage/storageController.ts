@@ -1,17 +1,22 @@
 import type * as vscode from 'vscode';
 import { v4 as uuidv4 } from 'uuid';
 
-import type { StoreConnectionInfo } from './connectionStorage';
+import type {
+  StoreConnectionGroupInfo,
+  StoreConnectionInfo,
+} from './connectionStorage';
 
 export enum StorageVariables {
   // Only exists on globalState.
   GLOBAL_HAS_BEEN_SHOWN_INITIAL_VIEW = 'GLOBAL_HAS_BEEN_SHOWN_INITIAL_VIEW',
   GLOBAL_SAVED_CONNECTIONS = 'GLOBAL_SAVED_CONNECTIONS',
+  GLOBAL_CONNECTION_GROUPS = 'GLOBAL_CONNECTION_GROUPS',
   // Analytics user identify.
   GLOBAL_USER_ID = 'GLOBAL_USER_ID',
   GLOBAL_ANONYMOUS_ID = 'GLOBAL_ANONYMOUS_ID',
   // Only exists on workspaceState.
   WORKSPACE_SAVED_CONNECTIONS = 'WORKSPACE_SAVED_CONNECTIONS',
+  WORKSPACE_CONNECTION_GROUPS = 'WORKSPACE_CONNECTION_GROUPS',
   COPILOT_HAS_BEEN_SHOWN_WELCOME_MESSAGE = 'COPILOT_HAS_BEEN_SHOWN_WELCOME_MESSAGE',
 
   // Atlas-specific variables on workspaceState
@@ -36,6 +41,10 @@ export type ConnectionsFromStorage = {
   [connectionId: string]: StoreConnectionInfo;
 };
 
+export type ConnectionGroupsFromStorage = {
+  [groupName: string]: StoreConnectionGroupInfo;
+};
+
 // Keytar is deprecated and no longer used. All new
 // connections use 'SecretStorage'.
 export const SecretStorageLocation = {
@@ -56,6 +65,8 @@ interface StorageVariableContents {
   [StorageVariables.GLOBAL_HAS_BEEN_SHOWN_INITIAL_VIEW]: boolean;
   [StorageVariables.GLOBAL_SAVED_CONNECTIONS]: ConnectionsFromStorage;
   [StorageVariables.WORKSPACE_SAVED_CONNECTIONS]: ConnectionsFromStorage;
+  [StorageVariables.GLOBAL_CONNECTION_GROUPS]: ConnectionGroupsFromStorage;
+  [StorageVariables.WORKSPACE_CONNECTION_GROUPS]: ConnectionGroupsFromStorage;
   [StorageVariables.COPILOT_HAS_BEEN_SHOWN_WELCOME_MESSAGE]: boolean;
   [StorageVariables.ATLAS_CLIENT_ID]: string | undefined;
 }
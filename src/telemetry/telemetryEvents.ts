@@ -63,9 +63,12 @@ type PlaygroundType =
   | 'cloneDocument'
   | 'insertDocument'
   | 'createStreamProcessor'
+  | 'modifyStreamProcessor'
   | 'fromDatabaseTreeItem'
   | 'fromCollectionTreeItem'
-  | 'crud';
+  | 'crud'
+  | 'schemaAnalysis'
+  | 'validationRules';
 
 abstract class TelemetryEventBase {
   abstract type: string;
@@ -0,0 +1,34 @@
+// The pipeline is mongosh syntax, so it is inserted as it is. Processors
+// whose name is not an identifier are looked up with `getProcessor`.
+export const playgroundModifyStreamProcessorTemplate = ({
+  streamProcessorName,
+  pipeline,
+  isStarted,
+}: {
+  streamProcessorName: string;
+  pipeline: string;
+  isStarted: boolean;
+}): string => {
+  const processor = /^[A-Za-z_$][\w$]*$/.test(streamProcessorName)
+    ? `sp.${streamProcessorName}`
+    : `sp.getProcessor(${JSON.stringify(streamProcessorName)})`;
+  const modify = `${processor}.modify(${pipeline});`;
+
+  return `/* global sp */
+// MongoDB Playground
+// Use Ctrl+Space inside a snippet or a string literal to trigger completions.
+
+// Edit the pipeline of the stream processor, then run the playground to redeploy it.
+${
+  isStarted
+    ? `// The stream processor is stopped to be modified and started again after.
+${processor}.stop();
+${modify}
+${processor}.start();`
+    : modify
+}
+
+// More information on the \`modify\` command can be found at:
+// https://www.mongodb.com/docs/atlas/atlas-sp/manage-stream-processor/#modify-a-stream-processor
+`;
+};
@@ -0,0 +1,23 @@
+// The value is mongosh syntax, for example ObjectId('...'), so it is
+// inserted as it is while the names are escaped.
+export const playgroundSchemaValueQueryTemplate = ({
+  databaseName,
+  collectionName,
+  fieldPath,
+  shellValue,
+}: {
+  databaseName: string;
+  collectionName: string;
+  fieldPath: string;
+  shellValue: string;
+}): string => `// MongoDB Playground
+// Use Ctrl+Space inside a snippet or a string literal to trigger completions.
+
+// The current database to use.
+use(${JSON.stringify(databaseName)});
+
+// Find the documents that have the value in the analyzed field.
+db.getCollection(${JSON.stringify(collectionName)}).find({
+  ${JSON.stringify(fieldPath)}: ${shellValue}
+});
+`;
@@ -0,0 +1,29 @@
+// The validator is mongosh syntax, so it is inserted as it is
+// while the names and options are escaped.
+export const playgroundValidationRulesTemplate = ({
+  databaseName,
+  collectionName,
+  validator,
+  validationLevel,
+  validationAction,
+}: {
+  databaseName: string;
+  collectionName: string;
+  validator: string;
+  validationLevel: string;
+  validationAction: string;
+}): string => `// MongoDB Playground
+// Use Ctrl+Space inside a snippet or a string literal to trigger completions.
+
+// The current database to use.
+use(${JSON.stringify(databaseName)});
+
+// Review the validation rules of the collection, then run the playground to apply them.
+// The validation level is 'strict', 'moderate' or 'off' and the action 'error' or 'warn'.
+db.runCommand({
+  collMod: ${JSON.stringify(collectionName)},
+  validator: ${validator.split('\n').join('\n  ')},
+  validationLevel: ${JSON.stringify(validationLevel)},
+  validationAction: ${JSON.stringify(validationAction)},
+});
+`;
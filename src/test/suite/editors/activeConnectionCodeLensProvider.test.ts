@@ -94,7 +94,12 @@ suite('Active Connection CodeLens Provider Test Suite', () => {
         testConnectionController.setActiveDataService(activeDataServiceStub);
         sandbox.replace(
           testConnectionController,
-          'getActiveConnectionName',
+          'getActiveConnectionId',
+          sandbox.fake.returns('fakeId'),
+        );
+        sandbox.replace(
+          testConnectionController,
+          'getSavedConnectionName',
           sandbox.fake.returns('fakeName'),
         );
       });
@@ -117,8 +122,9 @@ suite('Active Connection CodeLens Provider Test Suite', () => {
         expect(codeLens[0].range.start.line).to.be.equal(0);
         expect(codeLens[0].range.end.line).to.be.equal(0);
         expect(codeLens[0].command?.command).to.be.equal(
-          'mdb.changeActiveConnection',
+          'mdb.changePlaygroundConnection',
         );
+        expect(codeLens[0].command?.arguments).to.deep.equal([mockDocumentUri]);
       });
 
       test('show active connection and default database in code lenses, when connected to a default database', () => {
@@ -138,7 +144,20 @@ suite('Active Connection CodeLens Provider Test Suite', () => {
         expect(codeLens[0].range.start.line).to.be.equal(0);
         expect(codeLens[0].range.end.line).to.be.equal(0);
         expect(codeLens[0].command?.command).to.be.equal(
-          'mdb.changeActiveConnection',
+          'mdb.changePlaygroundConnection',
+        );
+        expect(codeLens[0].command?.arguments).to.deep.equal([mockDocumentUri]);
+      });
+
+      test('show the connection the playground is bound to in code lenses', () => {
+        testConnectionController.setPlaygroundConnectionId(
+          mockDocumentUri,
+          'stagingId',
+        );
+        const codeLens = testCodeLensProvider.provideCodeLenses(mockTextDoc);
+
+        expect(codeLens[0].command?.title).to.be.equal(
+          '$(mdb-connection-inactive)Connect to fakeName',
         );
       });
     });
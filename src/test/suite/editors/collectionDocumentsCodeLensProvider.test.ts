@@ -6,7 +6,7 @@ import CollectionDocumentsOperationsStore from '../../../editors/collectionDocum
 import { mockVSCodeTextDocument } from '../stubs';
 
 suite('Collection CodeLens Provider Test Suite', () => {
-  test('expected provideCodeLenses to return a code lens with positions at the end of the document', () => {
+  test('expected provideCodeLenses to return code lenses with positions at the end of the document', () => {
     const testQueryStore = new CollectionDocumentsOperationsStore();
     const testCodeLensProvider = new CollectionDocumentsCodeLensProvider(
       testQueryStore,
@@ -23,7 +23,7 @@ suite('Collection CodeLens Provider Test Suite', () => {
 
     const codeLens = testCodeLensProvider.provideCodeLenses(mockDocument);
     assert(!!codeLens);
-    assert(codeLens.length === 1);
+    assert(codeLens.length === 3);
     const range = codeLens[0].range;
     const expectedStartLine = 49;
     assert(
@@ -35,6 +35,52 @@ suite('Collection CodeLens Provider Test Suite', () => {
       range.end.line === expectedEnd,
       `Expected a codeLens position to be at line ${expectedEnd}, found ${range.end.line}`,
     );
+    assert.strictEqual(
+      codeLens[1].command?.command,
+      'mdb.codeLens.showNextDocumentsPageClicked',
+    );
+    assert.strictEqual(
+      codeLens[2].command?.command,
+      'mdb.codeLens.goToDocumentsPageClicked',
+    );
+  });
+
+  test('expected provideCodeLenses to show the page position and a previous page code lens', () => {
+    const testQueryStore = new CollectionDocumentsOperationsStore();
+    const testCodeLensProvider = new CollectionDocumentsCodeLensProvider(
+      testQueryStore,
+    );
+    const operationId = testQueryStore.createNewOperation();
+    const operation = testQueryStore.operations[operationId];
+    operation.pageSize = 10;
+    operation.currentPage = 2;
+    operation.documents = [{ _id: 21 }, { _id: 22 }, { _id: 23 }, { _id: 24 }];
+    operation.hasMoreDocumentsToShow = false;
+    const uri = vscode.Uri.parse(
+      `scheme:Results: filename.json?namespace=a.b&connectionId=c&operationId=${operationId}`,
+    );
+    const mockDocument = {
+      ...mockVSCodeTextDocument,
+      uri,
+    };
+
+    const codeLens = testCodeLensProvider.provideCodeLenses(mockDocument);
+    assert.strictEqual(codeLens.length, 3);
+    assert.strictEqual(
+      codeLens[0].command?.title,
+      '... Page 3, showing documents 21-24.',
+    );
+    assert.strictEqual(
+      codeLens[1].command?.command,
+      'mdb.codeLens.showPreviousDocumentsPageClicked',
+    );
+    assert.deepStrictEqual(codeLens[1].command?.arguments, [
+      { operationId, connectionId: 'c', namespace: 'a.b' },
+    ]);
+    assert.strictEqual(
+      codeLens[2].command?.command,
+      'mdb.codeLens.goToDocumentsPageClicked',
+    );
   });
 
   test('expected provideCodeLenses to not return a code lens when there are no more documents to show', () => {
@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import assert from 'assert';
 
 import CollectionDocumentsOperationsStore from '../../../editors/collectionDocumentsOperationsStore';
+import type { DocumentFilter } from '../../../types/documentFilterType';
 
 suite('Collection Documents Operations Store Test Suite', () => {
   test('expected CollectionDocumentsOperationsStore createNewOperation to add an operation with a document limit and return an id', () => {
@@ -21,27 +22,58 @@ suite('Collection Documents Operations Store Test Suite', () => {
       .getConfiguration('mdb')
       .get('defaultLimit');
     assert(
-      operation.currentLimit === expectedLimit,
-      `Expected limit to be ${expectedLimit} found ${operation.currentLimit}`,
+      operation.pageSize === expectedLimit,
+      `Expected page size to be ${expectedLimit} found ${operation.pageSize}`,
     );
   });
 
-  test('expected increaseOperationDocumentLimit createNewOperation to increase limit by config setting', () => {
+  test('expected setOperationPage to change the current page and mark the operation as fetching', () => {
     const testOpsStore = new CollectionDocumentsOperationsStore();
     const opId = testOpsStore.createNewOperation();
     const operation = testOpsStore.operations[opId];
-    const expectedLimit = Number(
-      vscode.workspace.getConfiguration('mdb').get('defaultLimit'),
-    );
-    assert(
-      operation.currentLimit === expectedLimit,
-      `Expected limit to be ${expectedLimit} found ${operation.currentLimit}`,
+    assert.strictEqual(operation.currentPage, 0);
+    assert.strictEqual(operation.isCurrentlyFetchingMoreDocuments, false);
+
+    testOpsStore.setOperationPage(opId, 3);
+    assert.strictEqual(operation.currentPage, 3);
+    assert.strictEqual(operation.isCurrentlyFetchingMoreDocuments, true);
+
+    testOpsStore.setOperationPage(opId, -2);
+    assert.strictEqual(operation.currentPage, 0);
+  });
+
+  test('expected canPageByIdRange to be false with a sort or a projection without _id', () => {
+    const testOpsStore = new CollectionDocumentsOperationsStore();
+    const canPage = (documentFilter: DocumentFilter | null): boolean =>
+      testOpsStore.operations[
+        testOpsStore.createNewOperation(documentFilter)
+      ].canPageByIdRange();
+
+    assert.strictEqual(canPage(null), true);
+    assert.strictEqual(
+      canPage({ filter: { a: 1 }, projection: { a: 1 } }),
+      true,
     );
+    assert.strictEqual(canPage({ filter: {}, sort: {} }), true);
+    assert.strictEqual(canPage({ filter: {}, sort: { a: -1 } }), false);
+    assert.strictEqual(canPage({ filter: {}, projection: { _id: 0 } }), false);
+  });
 
-    testOpsStore.increaseOperationDocumentLimit(opId);
-    assert(
-      operation.currentLimit === expectedLimit * 2,
-      `Expected limit to be ${expectedLimit} found ${operation.currentLimit}`,
+  test('expected createNewOperation to store the document filter', () => {
+    const testOpsStore = new CollectionDocumentsOperationsStore();
+    const documentFilter = {
+      filter: { status: 'active' },
+      sort: { createdAt: -1 },
+    };
+    const opId = testOpsStore.createNewOperation(documentFilter);
+
+    assert.deepStrictEqual(
+      testOpsStore.operations[opId].documentFilter,
+      documentFilter,
+    );
+    assert.strictEqual(
+      testOpsStore.operations[testOpsStore.createNewOperation()].documentFilter,
+      null,
     );
   });
 });
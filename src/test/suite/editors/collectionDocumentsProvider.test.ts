@@ -110,6 +110,37 @@ suite('Collection Documents Provider Test Suite', () => {
     );
   });
 
+  test('provideTextDocumentContent applies the document filter of the operation', async () => {
+    const findStub = sandbox.stub();
+    findStub.resolves([]);
+    const testDataService = {
+      find: findStub,
+      once: sandbox.stub(),
+    } as unknown as DataService;
+
+    testConnectionController.setActiveDataService(testDataService);
+
+    const operationId = testQueryStore.createNewOperation({
+      filter: { planet: 'mars' },
+      projection: { name: 1 },
+      sort: { launchDate: -1 },
+    });
+    const uri = vscode.Uri.parse(
+      `scheme:Results: filename.json?namespace=nasa.missions&operationId=${operationId}`,
+    );
+
+    sandbox.stub(testCollectionViewProvider._statusView, 'showMessage');
+    sandbox.stub(testCollectionViewProvider._statusView, 'hideMessage');
+
+    await testCollectionViewProvider.provideTextDocumentContent(uri);
+    assert.deepStrictEqual(findStub.firstCall.args[1], { planet: 'mars' });
+    assert.deepStrictEqual(findStub.firstCall.args[2], {
+      limit: 10,
+      projection: { name: 1 },
+      sort: { launchDate: -1 },
+    });
+  });
+
   test('provideTextDocumentContent returns a ejson.stringify string', async () => {
     const mockDocuments = [
       {
@@ -160,7 +191,7 @@ suite('Collection Documents Provider Test Suite', () => {
     testConnectionController.setActiveDataService(testDataService);
 
     const operationId = testQueryStore.createNewOperation();
-    testQueryStore.operations[operationId].currentLimit = 5;
+    testQueryStore.operations[operationId].pageSize = 5;
 
     assert(testQueryStore.operations[operationId].hasMoreDocumentsToShow);
 
@@ -179,13 +210,149 @@ suite('Collection Documents Provider Test Suite', () => {
     );
 
     // Reset and test inverse.
-    testQueryStore.operations[operationId].currentLimit = 2;
-    testQueryStore.operations[operationId].hasMoreDocumentsToShow = true;
+    testQueryStore.operations[operationId].pageSize = 2;
 
     await testCollectionViewProvider.provideTextDocumentContent(uri);
     assert(testQueryStore.operations[operationId].hasMoreDocumentsToShow);
   });
 
+  test('provideTextDocumentContent resumes the next page from the last _id of the previous page', async () => {
+    const findStub = sandbox.stub();
+    findStub.onFirstCall().resolves([{ _id: 1 }, { _id: 2 }]);
+    findStub.onSecondCall().resolves([{ _id: 3 }, { _id: 4 }]);
+    findStub.onThirdCall().resolves([{ _id: 7 }]);
+    findStub.onCall(3).resolves([{ _id: 7 }]);
+    const testDataService = {
+      find: findStub,
+      once: sandbox.stub(),
+    } as unknown as DataService;
+    testConnectionController.setActiveDataService(testDataService);
+
+    const operationId = testQueryStore.createNewOperation({
+      filter: { crew: 3 },
+    });
+    const operation = testQueryStore.operations[operationId];
+    operation.pageSize = 2;
+    const uri = vscode.Uri.parse(
+      `scheme:Results: filename.json?namespace=vostok.mercury&operationId=${operationId}`,
+    );
+
+    sandbox.stub(testCollectionViewProvider._statusView, 'showMessage');
+    sandbox.stub(testCollectionViewProvider._statusView, 'hideMessage');
+
+    await testCollectionViewProvider.provideTextDocumentContent(uri);
+    assert.deepStrictEqual(findStub.firstCall.args[1], { crew: 3 });
+    assert.deepStrictEqual(findStub.firstCall.args[2], {
+      limit: 2,
+      sort: { _id: 1 },
+    });
+
+    testQueryStore.setOperationPage(operationId, 1);
+    await testCollectionViewProvider.provideTextDocumentContent(uri);
+    assert.deepStrictEqual(findStub.secondCall.args[1], {
+      $and: [{ crew: 3 }, { _id: { $gt: 2 } }],
+    });
+    assert.deepStrictEqual(findStub.secondCall.args[2], {
+      limit: 2,
+      sort: { _id: 1 },
+    });
+    assert.strictEqual(operation.isCurrentlyFetchingMoreDocuments, false);
+
+    // Jumping ahead skips the pages after the last known one.
+    testQueryStore.setOperationPage(operationId, 3);
+    await testCollectionViewProvider.provideTextDocumentContent(uri);
+    assert.deepStrictEqual(findStub.thirdCall.args[1], {
+      $and: [{ crew: 3 }, { _id: { $gt: 4 } }],
+    });
+    assert.deepStrictEqual(findStub.thirdCall.args[2], {
+      limit: 2,
+      skip: 2,
+      sort: { _id: 1 },
+    });
+    // The last page ends early, so it is read again with skip in case
+    // there are `_id`s of another type after it.
+    assert.deepStrictEqual(findStub.getCall(3).args[1], { crew: 3 });
+    assert.deepStrictEqual(findStub.getCall(3).args[2], {
+      limit: 2,
+      skip: 6,
+      sort: { _id: 1 },
+    });
+    assert.deepStrictEqual(operation.documents, [{ _id: 7 }]);
+    assert.strictEqual(operation.hasMoreDocumentsToShow, false);
+  });
+
+  test('provideTextDocumentContent does not lose the documents with an _id of another type', async () => {
+    const findStub = sandbox.stub();
+    findStub.onFirstCall().resolves([{ _id: 1 }, { _id: 2 }]);
+    // The range query only matches the numbers after the last `_id`.
+    findStub.onSecondCall().resolves([{ _id: 3 }]);
+    findStub.onThirdCall().resolves([{ _id: 3 }, { _id: 'apollo' }]);
+    const testDataService = {
+      find: findStub,
+      once: sandbox.stub(),
+    } as unknown as DataService;
+    testConnectionController.setActiveDataService(testDataService);
+
+    const operationId = testQueryStore.createNewOperation();
+    const operation = testQueryStore.operations[operationId];
+    operation.pageSize = 2;
+    const uri = vscode.Uri.parse(
+      `scheme:Results: filename.json?namespace=vostok.mercury&operationId=${operationId}`,
+    );
+
+    sandbox.stub(testCollectionViewProvider._statusView, 'showMessage');
+    sandbox.stub(testCollectionViewProvider._statusView, 'hideMessage');
+
+    await testCollectionViewProvider.provideTextDocumentContent(uri);
+    testQueryStore.setOperationPage(operationId, 1);
+    await testCollectionViewProvider.provideTextDocumentContent(uri);
+
+    assert.deepStrictEqual(findStub.secondCall.args[1], { _id: { $gt: 2 } });
+    assert.deepStrictEqual(findStub.thirdCall.args[1], {});
+    assert.deepStrictEqual(findStub.thirdCall.args[2], {
+      limit: 2,
+      skip: 2,
+      sort: { _id: 1 },
+    });
+    assert.deepStrictEqual(operation.documents, [
+      { _id: 3 },
+      { _id: 'apollo' },
+    ]);
+    assert.strictEqual(operation.hasMoreDocumentsToShow, true);
+    assert.strictEqual(operation.lastIdOfPage[1], 'apollo');
+  });
+
+  test('provideTextDocumentContent pages with skip when the document filter has a sort', async () => {
+    const findStub = sandbox.stub();
+    findStub.resolves([{ _id: 1 }]);
+    const testDataService = {
+      find: findStub,
+      once: sandbox.stub(),
+    } as unknown as DataService;
+    testConnectionController.setActiveDataService(testDataService);
+
+    const operationId = testQueryStore.createNewOperation({
+      filter: {},
+      sort: { launchDate: -1 },
+    });
+    testQueryStore.operations[operationId].pageSize = 5;
+    const uri = vscode.Uri.parse(
+      `scheme:Results: filename.json?namespace=vostok.mercury&operationId=${operationId}`,
+    );
+
+    sandbox.stub(testCollectionViewProvider._statusView, 'showMessage');
+    sandbox.stub(testCollectionViewProvider._statusView, 'hideMessage');
+
+    testQueryStore.setOperationPage(operationId, 2);
+    await testCollectionViewProvider.provideTextDocumentContent(uri);
+    assert.deepStrictEqual(findStub.firstCall.args[1], {});
+    assert.deepStrictEqual(findStub.firstCall.args[2], {
+      limit: 5,
+      skip: 10,
+      sort: { launchDate: -1 },
+    });
+  });
+
   test('provideTextDocumentContent shows a status bar item while it is running then hide it', async () => {
     const mockActiveDataService = {
       find: () => Promise.resolve([]),
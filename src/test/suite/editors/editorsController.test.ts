@@ -236,4 +236,45 @@ suite('Editors Controller Test Suite', () => {
 
     expect(result).to.be.equal(false);
   });
+
+  test('saveMongoDBDocument returns false if the bulk edit of a collection is unknown', async () => {
+    const activeTextEditor = mockTextEditor;
+    activeTextEditor.document.uri = vscode.Uri.parse(
+      [
+        'VIEW_DOCUMENT_SCHEME:/',
+        'waffle.house (page 1).json?',
+        'namespace=waffle.house&',
+        'connectionId=tasty_sandwhich&',
+        'bulkEdit=93333a0d-83f6-4e6f-a575-af7ea6187a4a&',
+        'source=collectionview',
+      ].join(''),
+    );
+    activeTextEditor.document.getText = (): string => '[]';
+    sandbox.replaceGetter(
+      vscode.window,
+      'activeTextEditor',
+      () => activeTextEditor,
+    );
+
+    const result = await vscode.commands.executeCommand(
+      'mdb.saveMongoDBDocument',
+    );
+
+    expect(result).to.be.equal(false);
+    expect(showErrorMessageStub.firstCall.args[0]).to.include(
+      'can not be saved as MongoDB documents',
+    );
+  });
+
+  test('editCollectionDocuments returns false if the active editor is not a collection view', async () => {
+    const result = await vscode.commands.executeCommand(
+      'mdb.editCollectionDocuments',
+      vscode.Uri.parse('file:/waffle.house.json'),
+    );
+
+    expect(result).to.be.equal(false);
+    expect(showErrorMessageStub.firstCall.args[0]).to.equal(
+      'Please open the documents of a collection to edit them.',
+    );
+  });
 });
@@ -1,13 +1,15 @@
 import * as vscode from 'vscode';
 import { beforeEach, afterEach } from 'mocha';
 import chai from 'chai';
-import { EJSON } from 'bson';
+import { Double, EJSON, Int32, Long } from 'bson';
 import sinon from 'sinon';
 
 import ConnectionController from '../../../connectionController';
 import { DocumentSource } from '../../../documentSource';
 import formatError from '../../../utils/formatError';
-import MongoDBDocumentService from '../../../editors/mongoDBDocumentService';
+import MongoDBDocumentService, {
+  getDocumentFingerprint,
+} from '../../../editors/mongoDBDocumentService';
 
 import { StorageController } from '../../../storage';
 import { StatusView } from '../../../views';
@@ -268,7 +270,7 @@ suite('MongoDB Document Service Test Suite', () => {
     }
   });
 
-  test("if a user switched the active connection, document opened from the previous connection can't be saved", async () => {
+  test("if a user disconnected from the document's connection, the document can't be saved", async () => {
     const namespace = 'waffle.house';
     const connectionId = 'tasty_sandwhich';
     const documentId = '93333a0d-83f6-4e6f-a575-af7ea6187a4a';
@@ -305,7 +307,7 @@ suite('MongoDB Document Service Test Suite', () => {
     }
   });
 
-  test("if a user switched the active connection, document can't be opened from the old playground results", async () => {
+  test("if a user disconnected from the playground's connection, document can't be opened from the old playground results", async () => {
     const namespace = 'waffle.house';
     const connectionId = '123';
     const documentId = '93333a0d-83f6-4e6f-a575-af7ea6187a4a';
@@ -344,4 +346,331 @@ suite('MongoDB Document Service Test Suite', () => {
       expect(formatError(error).message).to.be.equal(expectedMessage);
     }
   });
+
+  test('bulkWriteDocuments applies the inserts, updates and deletes as one bulkWrite', async () => {
+    const fakeActiveConnectionId = sandbox.fake.returns('tasty_sandwhich');
+    sandbox.replace(
+      testConnectionController,
+      'getActiveConnectionId',
+      fakeActiveConnectionId,
+    );
+
+    const bulkWriteStub = sandbox.stub().resolves({});
+    const fakeGetActiveDataService = sandbox.fake.returns({
+      bulkWrite: bulkWriteStub,
+    });
+    sandbox.replace(
+      testConnectionController,
+      'getActiveDataService',
+      fakeGetActiveDataService,
+    );
+    sandbox.stub(testStatusView, 'showMessage');
+    sandbox.stub(testStatusView, 'hideMessage');
+
+    await testMongoDBDocumentService.bulkWriteDocuments({
+      namespace: 'waffle.house',
+      connectionId: 'tasty_sandwhich',
+      changes: {
+        inserts: [{ _id: 1, name: 'waffle' }],
+        updates: [{ _id: 2, name: 'pancake' }],
+        deletes: [3],
+      },
+      source: DocumentSource.DOCUMENT_SOURCE_COLLECTIONVIEW,
+    });
+
+    expect(bulkWriteStub.firstCall.args[0]).to.be.equal('waffle.house');
+    expect(bulkWriteStub.firstCall.args[1]).to.be.deep.equal([
+      { insertOne: { document: { _id: 1, name: 'waffle' } } },
+      {
+        replaceOne: {
+          filter: { _id: 2 },
+          replacement: { _id: 2, name: 'pancake' },
+        },
+      },
+      { deleteOne: { filter: { _id: 3 } } },
+    ]);
+  });
+
+  test("if a user switched the active connection, documents edited in bulk can't be saved", async () => {
+    const fakeGetActiveConnectionId = sandbox.fake.returns('345');
+    sandbox.replace(
+      testConnectionController,
+      'getActiveConnectionId',
+      fakeGetActiveConnectionId,
+    );
+
+    const fakeGetSavedConnectionName = sandbox.fake.returns('tasty_sandwhich');
+    sandbox.replace(
+      testConnectionController,
+      'getSavedConnectionName',
+      fakeGetSavedConnectionName,
+    );
+
+    try {
+      await testMongoDBDocumentService.bulkWriteDocuments({
+        namespace: 'waffle.house',
+        connectionId: '123',
+        changes: { inserts: [], updates: [], deletes: [1] },
+        source: DocumentSource.DOCUMENT_SOURCE_COLLECTIONVIEW,
+      });
+      expect.fail('Expected bulkWriteDocuments to throw');
+    } catch (error) {
+      expect(formatError(error).message).to.be.equal(
+        "Unable to save documents: no longer connected to 'tasty_sandwhich'",
+      );
+    }
+  });
+
+  test('getDocumentConflict returns the server document when it no longer matches the original document', async () => {
+    const fakeActiveConnectionId = sandbox.fake.returns('tasty_sandwhich');
+    sandbox.replace(
+      testConnectionController,
+      'getActiveConnectionId',
+      fakeActiveConnectionId,
+    );
+
+    const findStub = sandbox.stub();
+    findStub
+      .onFirstCall()
+      .resolves([
+        { _id: '123', price: new Double(5), stock: Long.fromNumber(2) },
+      ]);
+    findStub
+      .onSecondCall()
+      .resolves([
+        { _id: '123', price: new Double(5000), stock: Long.fromNumber(2) },
+      ]);
+    findStub.onThirdCall().resolves([]);
+    const fakeGetActiveDataService = sandbox.fake.returns({ find: findStub });
+    sandbox.replace(
+      testConnectionController,
+      'getActiveDataService',
+      fakeGetActiveDataService,
+    );
+    sandbox.stub(testStatusView, 'showMessage');
+    sandbox.stub(testStatusView, 'hideMessage');
+
+    const documentInfo = {
+      namespace: 'waffle.house',
+      connectionId: 'tasty_sandwhich',
+      documentId: '123',
+      originalDocument: {
+        _id: '123',
+        price: { $numberDouble: '5.0' },
+        stock: { $numberLong: '2' },
+      },
+    };
+
+    // The numeric types are kept, an unchanged document is not a conflict.
+    expect(await testMongoDBDocumentService.getDocumentConflict(documentInfo))
+      .to.be.undefined;
+    expect(findStub.firstCall.args[2]).to.be.deep.equal({
+      limit: 1,
+      promoteValues: false,
+    });
+    expect(
+      await testMongoDBDocumentService.getDocumentConflict(documentInfo),
+    ).to.be.deep.equal({
+      serverDocument: {
+        _id: '123',
+        price: { $numberDouble: '5000.0' },
+        stock: { $numberLong: '2' },
+      },
+    });
+    expect(
+      await testMongoDBDocumentService.getDocumentConflict(documentInfo),
+    ).to.be.deep.equal({ serverDocument: null });
+  });
+
+  test('getDocumentConflict only compares the given paths', async () => {
+    sandbox.replace(
+      testConnectionController,
+      'getActiveConnectionId',
+      sandbox.fake.returns('tasty_sandwhich'),
+    );
+    const findStub = sandbox
+      .stub()
+      .resolves([{ _id: '123', price: new Int32(5), name: 'pancake' }]);
+    sandbox.replace(
+      testConnectionController,
+      'getActiveDataService',
+      sandbox.fake.returns({ find: findStub }),
+    );
+    sandbox.stub(testStatusView, 'showMessage');
+    sandbox.stub(testStatusView, 'hideMessage');
+
+    const documentInfo = {
+      namespace: 'waffle.house',
+      connectionId: 'tasty_sandwhich',
+      documentId: '123',
+      originalDocument: {
+        _id: '123',
+        price: { $numberInt: '5' },
+        name: 'waffle',
+      },
+    };
+
+    expect(
+      await testMongoDBDocumentService.getDocumentConflict({
+        ...documentInfo,
+        paths: ['price', 'discount'],
+      }),
+    ).to.be.undefined;
+    expect(
+      await testMongoDBDocumentService.getDocumentConflict({
+        ...documentInfo,
+        paths: ['name'],
+      }),
+    ).to.be.deep.equal({
+      serverDocument: {
+        _id: '123',
+        price: { $numberInt: '5' },
+        name: 'pancake',
+      },
+    });
+  });
+
+  test('replaceDocument only replaces the document while it matches the original document', async () => {
+    sandbox.replace(
+      testConnectionController,
+      'getActiveConnectionId',
+      sandbox.fake.returns('tasty_sandwhich'),
+    );
+    const findOneAndReplaceStub = sandbox.stub().resolves(null);
+    sandbox.replace(
+      testConnectionController,
+      'getActiveDataService',
+      sandbox.fake.returns({ findOneAndReplace: findOneAndReplaceStub }),
+    );
+    sandbox.stub(testStatusView, 'showMessage');
+    sandbox.stub(testStatusView, 'hideMessage');
+
+    try {
+      await testMongoDBDocumentService.replaceDocument({
+        namespace: 'waffle.house',
+        connectionId: 'tasty_sandwhich',
+        documentId: '123',
+        newDocument: { _id: '123', price: 5000 },
+        source: DocumentSource.DOCUMENT_SOURCE_TREEVIEW,
+        originalDocument: { _id: '123', price: '$5' },
+      });
+      expect.fail('Expected the save to fail');
+    } catch (error) {
+      expect(formatError(error).message).to.be.equal(
+        "Unable to save document: it was changed or deleted in 'waffle.house' after it was opened",
+      );
+    }
+
+    expect(findOneAndReplaceStub.firstCall.args[1]).to.be.deep.equal({
+      _id: '123',
+      $expr: { $eq: ['$$ROOT', { $literal: { _id: '123', price: '$5' } }] },
+    });
+  });
+
+  test('getDocumentFingerprint is the same for equal documents and differs for changed values', () => {
+    expect(getDocumentFingerprint({ _id: 1, name: 'waffle' })).to.be.equal(
+      getDocumentFingerprint({ _id: 1, name: 'waffle' }),
+    );
+    expect(getDocumentFingerprint({ _id: 1, name: 'waffle' })).to.not.equal(
+      getDocumentFingerprint({ _id: 1, name: 'pancake' }),
+    );
+  });
+
+  test('updateDocument calls updateOne with the changed fields only', async () => {
+    const fakeActiveConnectionId = sandbox.fake.returns('tasty_sandwhich');
+    sandbox.replace(
+      testConnectionController,
+      'getActiveConnectionId',
+      fakeActiveConnectionId,
+    );
+
+    const updateOneStub = sandbox.stub().resolves({});
+    const fakeGetActiveDataService = sandbox.fake.returns({
+      updateOne: updateOneStub,
+    });
+    sandbox.replace(
+      testConnectionController,
+      'getActiveDataService',
+      fakeGetActiveDataService,
+    );
+    sandbox.stub(testStatusView, 'showMessage');
+    sandbox.stub(testStatusView, 'hideMessage');
+
+    await testMongoDBDocumentService.updateDocument({
+      namespace: 'waffle.house',
+      connectionId: 'tasty_sandwhich',
+      documentId: '123',
+      update: { $set: { price: 5000 }, $unset: { discount: '' } },
+      source: DocumentSource.DOCUMENT_SOURCE_TREEVIEW,
+    });
+
+    expect(updateOneStub.firstCall.args.slice(0, 3)).to.be.deep.equal([
+      'waffle.house',
+      { _id: '123' },
+      { $set: { price: 5000 }, $unset: { discount: '' } },
+    ]);
+
+    await testMongoDBDocumentService.updateDocument({
+      namespace: 'waffle.house',
+      connectionId: 'tasty_sandwhich',
+      documentId: '123',
+      update: {},
+      source: DocumentSource.DOCUMENT_SOURCE_TREEVIEW,
+    });
+
+    expect(updateOneStub.calledOnce).to.be.equal(true);
+  });
+
+  test('updateDocument fails when the document no longer matches the original document', async () => {
+    sandbox.replace(
+      testConnectionController,
+      'getActiveConnectionId',
+      sandbox.fake.returns('tasty_sandwhich'),
+    );
+    const updateOneStub = sandbox.stub().resolves({ matchedCount: 0 });
+    sandbox.replace(
+      testConnectionController,
+      'getActiveDataService',
+      sandbox.fake.returns({ updateOne: updateOneStub }),
+    );
+    sandbox.stub(testStatusView, 'showMessage');
+    sandbox.stub(testStatusView, 'hideMessage');
+
+    try {
+      await testMongoDBDocumentService.updateDocument({
+        namespace: 'waffle.house',
+        connectionId: 'tasty_sandwhich',
+        documentId: '123',
+        update: {
+          $set: { price: 5000, 'toppings.syrup': '$maple' },
+          $unset: { discount: '' },
+        },
+        source: DocumentSource.DOCUMENT_SOURCE_TREEVIEW,
+        originalDocument: {
+          _id: '123',
+          price: { $numberLong: '5' },
+          discount: { $numberDouble: '1.0' },
+          toppings: { butter: true },
+          name: 'waffle',
+        },
+      });
+      expect.fail('Expected the save to fail');
+    } catch (error) {
+      expect(formatError(error).message).to.be.equal(
+        "Unable to save document: it was changed or deleted in 'waffle.house' after it was opened",
+      );
+    }
+
+    // Only the fields of the update are compared, `name` can change.
+    expect(updateOneStub.firstCall.args[1]).to.be.deep.equal({
+      _id: '123',
+      $expr: {
+        $and: [
+          { $eq: ['$price', { $literal: Long.fromNumber(5) }] },
+          { $eq: [{ $type: '$toppings.syrup' }, 'missing'] },
+          { $eq: ['$discount', { $literal: new Double(1) }] },
+        ],
+      },
+    });
+  });
 });
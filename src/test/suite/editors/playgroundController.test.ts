@@ -14,6 +14,10 @@ import { PlaygroundController } from '../../../editors';
 import PlaygroundResultProvider from '../../../editors/playgroundResultProvider';
 import { StatusView } from '../../../views';
 import { StorageController } from '../../../storage';
+import {
+  StorageLocation,
+  SecretStorageLocation,
+} from '../../../storage/storageController';
 import { TelemetryService } from '../../../telemetry';
 import { TEST_DATABASE_URI } from '../dbTestHelper';
 import { ExtensionContextStub, LanguageServerControllerStub } from '../stubs';
@@ -217,6 +221,11 @@ suite('Playground Controller Test Suite', function () {
           'isCurrentlyConnected',
           () => false,
         );
+        sandbox.replace(
+          testPlaygroundController._connectionController,
+          'isConnectedToConnection',
+          () => false,
+        );
       });
 
       test('run all playground blocks shows please connect to a database error', async () => {
@@ -315,6 +324,11 @@ suite('Playground Controller Test Suite', function () {
           'isCurrentlyConnected',
           () => true,
         );
+        sandbox.replace(
+          testPlaygroundController._connectionController,
+          'isConnectedToConnection',
+          () => true,
+        );
         sandbox.replace(
           testPlaygroundController._connectionController,
           'getActiveDataService',
@@ -432,4 +446,211 @@ suite('Playground Controller Test Suite', function () {
       });
     });
   });
+
+  suite('playground connection header', () => {
+    const playgroundUri = vscode.Uri.parse('untitled:/staging.mongodb.js');
+    const getPlaygroundDocument = (text: string): vscode.TextDocument =>
+      ({
+        uri: playgroundUri,
+        getText: () => text,
+      }) as unknown as vscode.TextDocument;
+    let showInformationMessageStub: SinonStub;
+    let connectWithConnectionIdStub: SinonStub;
+
+    beforeEach(() => {
+      testConnectionController._connections.stagingId = {
+        id: 'stagingId',
+        name: 'staging',
+        connectionOptions: { connectionString: TEST_DATABASE_URI },
+        storageLocation: StorageLocation.NONE,
+        secretStorageLocation: SecretStorageLocation.SecretStorage,
+      };
+      showInformationMessageStub = sandbox.stub(
+        vscode.window,
+        'showInformationMessage',
+      );
+      connectWithConnectionIdStub = sandbox
+        .stub(testConnectionController, 'connectWithConnectionId')
+        .resolves({ successfullyConnected: true, connectionErrorMessage: '' });
+    });
+
+    test('binds the playground to the connection named in the header', async () => {
+      sandbox.replace(
+        testConnectionController,
+        'isConnectedToConnection',
+        () => true,
+      );
+
+      const result =
+        await testPlaygroundController.applyPlaygroundConnectionHeader(
+          getPlaygroundDocument("// @connection: staging\nuse('test');"),
+        );
+
+      expect(result).to.be.true;
+      expect(
+        testConnectionController.getPlaygroundConnectionId(playgroundUri),
+      ).to.equal('stagingId');
+      expect(showInformationMessageStub).to.not.have.been.called;
+      expect(connectWithConnectionIdStub).to.not.have.been.called;
+    });
+
+    test('prompts to connect when the connection is not connected', async () => {
+      showInformationMessageStub.resolves('Connect');
+      await vscode.workspace
+        .getConfiguration('mdb')
+        .update('confirmPlaygroundConnection', true);
+
+      const result =
+        await testPlaygroundController.applyPlaygroundConnectionHeader(
+          getPlaygroundDocument('// @connection: staging'),
+        );
+
+      expect(result).to.be.true;
+      expect(showInformationMessageStub).to.have.been.calledOnce;
+      expect(connectWithConnectionIdStub).to.have.been.calledWith('stagingId');
+    });
+
+    test('keeps the playground bound when the user does not connect', async () => {
+      showInformationMessageStub.resolves(undefined);
+      await vscode.workspace
+        .getConfiguration('mdb')
+        .update('confirmPlaygroundConnection', true);
+
+      const result =
+        await testPlaygroundController.applyPlaygroundConnectionHeader(
+          getPlaygroundDocument('// @connection: staging'),
+        );
+
+      expect(result).to.be.false;
+      expect(connectWithConnectionIdStub).to.not.have.been.called;
+      expect(
+        testConnectionController.getPlaygroundConnectionId(playgroundUri),
+      ).to.equal('stagingId');
+    });
+
+    test('asks which connection to use when more than one connection has the name in the header', async () => {
+      testConnectionController._connections.workspaceStagingId = {
+        id: 'workspaceStagingId',
+        name: 'staging',
+        connectionOptions: { connectionString: TEST_DATABASE_URI },
+        storageLocation: StorageLocation.NONE,
+        secretStorageLocation: SecretStorageLocation.SecretStorage,
+        source: 'workspaceSettings',
+      };
+      const showQuickPickStub = sandbox
+        .stub(vscode.window, 'showQuickPick')
+        .callsFake((items: any) => Promise.resolve(items[1]));
+      sandbox.replace(
+        testConnectionController,
+        'isConnectedToConnection',
+        () => true,
+      );
+
+      const result =
+        await testPlaygroundController.applyPlaygroundConnectionHeader(
+          getPlaygroundDocument('// @connection: staging'),
+        );
+
+      expect(result).to.be.true;
+      expect(showQuickPickStub).to.have.been.calledOnce;
+      expect(
+        testConnectionController.getPlaygroundConnectionId(playgroundUri),
+      ).to.equal('workspaceStagingId');
+    });
+
+    test('does not bind the playground when the user does not select one of the connections with the name', async () => {
+      testConnectionController._connections.workspaceStagingId = {
+        id: 'workspaceStagingId',
+        name: 'staging',
+        connectionOptions: { connectionString: TEST_DATABASE_URI },
+        storageLocation: StorageLocation.NONE,
+        secretStorageLocation: SecretStorageLocation.SecretStorage,
+        source: 'workspaceSettings',
+      };
+      sandbox.stub(vscode.window, 'showQuickPick').resolves(undefined);
+
+      const result =
+        await testPlaygroundController.applyPlaygroundConnectionHeader(
+          getPlaygroundDocument('// @connection: staging'),
+        );
+
+      expect(result).to.be.false;
+      expect(connectWithConnectionIdStub).to.not.have.been.called;
+      expect(
+        testConnectionController.getPlaygroundBoundConnectionId(playgroundUri),
+      ).to.be.undefined;
+    });
+
+    test('binds the playground to the connection with the id in the header', async () => {
+      testConnectionController._connections.workspaceStagingId = {
+        id: 'workspaceStagingId',
+        name: 'staging',
+        connectionOptions: { connectionString: TEST_DATABASE_URI },
+        storageLocation: StorageLocation.NONE,
+        secretStorageLocation: SecretStorageLocation.SecretStorage,
+        source: 'workspaceSettings',
+      };
+      const showQuickPickStub = sandbox.stub(vscode.window, 'showQuickPick');
+      sandbox.replace(
+        testConnectionController,
+        'isConnectedToConnection',
+        () => true,
+      );
+
+      const result =
+        await testPlaygroundController.applyPlaygroundConnectionHeader(
+          getPlaygroundDocument('// @connection: workspaceStagingId'),
+        );
+
+      expect(result).to.be.true;
+      expect(showQuickPickStub).to.not.have.been.called;
+      expect(
+        testConnectionController.getPlaygroundConnectionId(playgroundUri),
+      ).to.equal('workspaceStagingId');
+    });
+
+    test('warns when the header names a connection that is not saved', async () => {
+      const showWarningMessageStub = sandbox.stub(
+        vscode.window,
+        'showWarningMessage',
+      );
+
+      const result =
+        await testPlaygroundController.applyPlaygroundConnectionHeader(
+          getPlaygroundDocument('// @connection: production'),
+        );
+
+      expect(result).to.be.false;
+      expect(showWarningMessageStub.firstCall.args[0]).to.equal(
+        "The playground runs against 'production', which is not a saved connection. Change the connection in its header to run it.",
+      );
+    });
+
+    test('does not run the playground when the header does not resolve', async () => {
+      const showWarningMessageStub = sandbox.stub(
+        vscode.window,
+        'showWarningMessage',
+      );
+      const evaluateStub = sandbox.stub(
+        testPlaygroundController,
+        '_evaluateWithCancelModal',
+      );
+      sandbox.replace(
+        testConnectionController,
+        'isConnectedToConnection',
+        () => true,
+      );
+      sandbox.stub(vscode.window, 'activeTextEditor').get(() => ({
+        document: getPlaygroundDocument(
+          "// @connection: production\nuse('test');",
+        ),
+      }));
+
+      const result = await testPlaygroundController.runAllPlaygroundBlocks();
+
+      expect(result).to.be.false;
+      expect(showWarningMessageStub).to.have.been.calledOnce;
+      expect(evaluateStub).to.not.have.been.called;
+    });
+  });
 });
@@ -21,7 +21,7 @@ suite('Playground Selection Code Action Provider Test Suite', function () {
   const extensionContextStub = new ExtensionContextStub();
 
   const EXPORT_LANGUAGES_CODEACTIONS_COUNT = 8;
-  const TOTAL_CODEACTIONS_COUNT = EXPORT_LANGUAGES_CODEACTIONS_COUNT + 1;
+  const TOTAL_CODEACTIONS_COUNT = EXPORT_LANGUAGES_CODEACTIONS_COUNT + 2;
 
   // The test extension runner.
   extensionContextStub.extensionPath = '../../';
@@ -106,7 +106,7 @@ suite('Playground Selection Code Action Provider Test Suite', function () {
         );
       });
 
-      test('renders only the run selected playground blocks code action', () => {
+      test('renders only the run selected playground blocks and explain code actions', () => {
         const activeTextEditor = mockTextEditor;
         activeTextEditor.document.uri = vscode.Uri.parse('test.mongodb.js');
         activeTextEditor.document.getText = (): string => '123';
@@ -124,7 +124,7 @@ suite('Playground Selection Code Action Provider Test Suite', function () {
         expect(codeActions).to.exist;
 
         if (codeActions) {
-          expect(codeActions.length).to.be.equal(1);
+          expect(codeActions.length).to.be.equal(2);
           const actionCommand = codeActions[0].command;
 
           if (actionCommand) {
@@ -135,6 +135,15 @@ suite('Playground Selection Code Action Provider Test Suite', function () {
               'Run selected playground blocks',
             );
           }
+
+          const explainCommand = codeActions[1].command;
+
+          if (explainCommand) {
+            expect(explainCommand.command).to.be.equal(
+              'mdb.explainSelectedPlaygroundQuery',
+            );
+            expect(explainCommand.title).to.be.equal('Explain selected query');
+          }
         }
       });
     });
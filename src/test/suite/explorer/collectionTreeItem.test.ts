@@ -1,4 +1,5 @@
 import assert from 'assert';
+import sinon from 'sinon';
 import type { DataService } from 'mongodb-data-service';
 
 import CollectionTreeItem from '../../../explorer/collectionTreeItem';
@@ -52,10 +53,30 @@ suite('CollectionTreeItem Test Suite', () => {
 
     const collectionChildren = await testCollectionTreeItem.getChildren();
 
-    assert.strictEqual(collectionChildren.length, 3);
+    assert.strictEqual(collectionChildren.length, 4);
     assert.strictEqual(collectionChildren[0].label, 'Documents');
     assert.strictEqual(collectionChildren[1].label, 'Schema');
     assert.strictEqual(collectionChildren[2].label, 'Indexes');
+    assert.strictEqual(collectionChildren[3].label, 'Validation');
+  });
+
+  test('a view does not show a validation folder', async () => {
+    const testCollectionViewTreeItem = getTestCollectionTreeItem({
+      collection: {
+        name: 'mock_collection_name_1',
+        type: CollectionTypes.view,
+      } as unknown as CollectionDetailsType,
+      dataService: new DataServiceStub() as unknown as DataService,
+    });
+
+    await testCollectionViewTreeItem.onDidExpand();
+
+    const collectionChildren = await testCollectionViewTreeItem.getChildren();
+
+    assert.deepStrictEqual(
+      collectionChildren.map(({ label }) => label),
+      ['Documents', 'Schema', 'Indexes'],
+    );
   });
 
   test('when expanded it shows the document count in the description of the document list', async () => {
@@ -77,6 +98,67 @@ suite('CollectionTreeItem Test Suite', () => {
     );
   });
 
+  test('after a reconnect the expanded children list with the new data service', async () => {
+    const indexes = [{ v: 1, key: { _id: 1 }, name: '_id_' }];
+    const lostDataService = {
+      estimatedCount: sinon.fake.resolves(1),
+      find: sinon.fake.resolves([{ _id: 1 }]),
+      indexes: sinon.fake.resolves(indexes),
+    };
+    const restoredDataService = {
+      estimatedCount: sinon.fake.resolves(1),
+      find: sinon.fake.resolves([{ _id: 1 }]),
+      indexes: sinon.fake.resolves(indexes),
+    };
+    const testCollectionTreeItem = getTestCollectionTreeItem({
+      dataService: lostDataService as unknown as DataService,
+    });
+
+    await testCollectionTreeItem.onDidExpand();
+    await testCollectionTreeItem.getChildren();
+    await testCollectionTreeItem.getDocumentListChild().onDidExpand();
+    await testCollectionTreeItem.getDocumentListChild().getChildren();
+    await testCollectionTreeItem.getIndexListChild().onDidExpand();
+    await testCollectionTreeItem.getIndexListChild().getChildren();
+
+    // The database item recreates its collections with the children
+    // of the previous items when the connection is restored.
+    const restoredCollectionTreeItem = getTestCollectionTreeItem({
+      dataService: restoredDataService as unknown as DataService,
+      isExpanded: true,
+      cacheIsUpToDate: true,
+      existingDocumentListChild: testCollectionTreeItem.getDocumentListChild(),
+      existingSchemaChild: testCollectionTreeItem.getSchemaChild(),
+      existingIndexListChild: testCollectionTreeItem.getIndexListChild(),
+      existingValidationChild: testCollectionTreeItem.getValidationChild(),
+    });
+    const documentListChild = restoredCollectionTreeItem.getDocumentListChild();
+    const indexListChild = restoredCollectionTreeItem.getIndexListChild();
+
+    assert.strictEqual(documentListChild.isExpanded, true);
+    assert.strictEqual(indexListChild.isExpanded, true);
+
+    await documentListChild.resetCache();
+    const documents = await documentListChild.getChildren();
+    indexListChild.resetCache();
+    const indexItems = await indexListChild.getChildren();
+
+    assert.strictEqual(documents.length, 1);
+    assert.strictEqual(indexItems.length, 1);
+    assert.strictEqual(lostDataService.find.callCount, 1);
+    assert.strictEqual(lostDataService.indexes.callCount, 1);
+    assert.strictEqual(restoredDataService.find.callCount, 1);
+    assert.strictEqual(restoredDataService.indexes.callCount, 1);
+    assert.strictEqual(
+      restoredCollectionTreeItem.getSchemaChild().getDataService(),
+      restoredDataService,
+    );
+    assert.strictEqual(
+      restoredCollectionTreeItem.getValidationChild().getDataService(),
+      restoredDataService,
+    );
+  });
+
   test('a view should show a different icon from a collection', () => {
     const testCollectionViewTreeItem = getTestCollectionTreeItem({
       collection: {
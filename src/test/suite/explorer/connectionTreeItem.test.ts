@@ -64,7 +64,7 @@ suite('ConnectionTreeItem Test Suite', () => {
     test('returns database tree items with the databases', async () => {
       sandbox.replace(
         mdbTestExtension.testExtensionController._connectionController,
-        'getActiveDataService',
+        'getConnectedDataService',
         () => new DataServiceStub() as unknown as DataService,
       );
 
@@ -78,7 +78,7 @@ suite('ConnectionTreeItem Test Suite', () => {
     test('when listDatabases errors it wraps it in a nice message', async () => {
       sandbox.replace(
         mdbTestExtension.testExtensionController._connectionController,
-        'getActiveDataService',
+        'getConnectedDataService',
         () =>
           ({
             listDatabases: () =>
@@ -111,7 +111,7 @@ suite('ConnectionTreeItem Test Suite', () => {
       test('returns stream processor tree items', async () => {
         sandbox.replace(
           mdbTestExtension.testExtensionController._connectionController,
-          'getActiveDataService',
+          'getConnectedDataService',
           () => new DataServiceStub() as unknown as DataService,
         );
 
@@ -125,7 +125,7 @@ suite('ConnectionTreeItem Test Suite', () => {
       test('when listStreamProcessors errors it wraps it in a nice message', async () => {
         sandbox.replace(
           mdbTestExtension.testExtensionController._connectionController,
-          'getActiveDataService',
+          'getConnectedDataService',
           () =>
             ({
               listStreamProcessors: () =>
@@ -163,7 +163,7 @@ suite('ConnectionTreeItem Test Suite', () => {
     test('returns a list of database names', async () => {
       sandbox.replace(
         mdbTestExtension.testExtensionController._connectionController,
-        'getActiveDataService',
+        'getConnectedDataService',
         () => new DataServiceStub() as unknown as DataService,
       );
 
@@ -1,5 +1,7 @@
 import * as vscode from 'vscode';
 import assert from 'assert';
+import { afterEach } from 'mocha';
+import sinon from 'sinon';
 import type { DataService } from 'mongodb-data-service';
 
 // eslint-disable-next-line @typescript-eslint/no-var-requires
@@ -7,6 +9,8 @@ const { contributes } = require('../../../../package.json');
 
 import DocumentListTreeItem, {
   CollectionTypes,
+  DOCUMENT_LIST_ITEM,
+  FILTERED_DOCUMENT_LIST_ITEM,
   formatDocCount,
   MAX_DOCUMENTS_VISIBLE,
 } from '../../../explorer/documentListTreeItem';
@@ -223,6 +227,128 @@ suite('DocumentListTreeItem Test Suite', () => {
     );
   });
 
+  suite('with a document filter', () => {
+    const sandbox = sinon.createSandbox();
+
+    afterEach(() => {
+      sandbox.restore();
+    });
+
+    test('it passes the filter, projection and sort to find', async () => {
+      const findStub = sandbox.stub().resolves(mockDocuments.slice(0, 3));
+      const testDocumentListTreeItem = getTestDocumentListTreeItem({
+        dataService: { find: findStub } as unknown as DataService,
+        documentFilter: {
+          filter: { status: 'active' },
+          projection: { name: 1 },
+          sort: { createdAt: -1 },
+        },
+      });
+
+      await testDocumentListTreeItem.onDidExpand();
+      const documents = await testDocumentListTreeItem.getChildren();
+
+      assert.strictEqual(documents.length, 3);
+      assert.deepStrictEqual(findStub.firstCall.args[1], { status: 'active' });
+      assert.deepStrictEqual(findStub.firstCall.args[2], {
+        limit: MAX_DOCUMENTS_VISIBLE,
+        projection: { name: 1 },
+        sort: { createdAt: -1 },
+      });
+    });
+
+    test('it shows a show more item when a full page of filtered documents is returned', async () => {
+      const testDocumentListTreeItem = getTestDocumentListTreeItem({
+        documentFilter: { filter: { status: 'active' } },
+      });
+
+      await testDocumentListTreeItem.onDidExpand();
+      const documents = await testDocumentListTreeItem.getChildren();
+
+      assert.strictEqual(documents.length, 11);
+      assert.strictEqual(documents[10].label, 'Show more...');
+    });
+
+    test('it badges the description and switches the context value', () => {
+      const testDocumentListTreeItem = getTestDocumentListTreeItem({
+        cachedDocumentCount: 25,
+        documentFilter: { filter: { status: 'active' } },
+      });
+
+      assert.strictEqual(
+        testDocumentListTreeItem.contextValue,
+        FILTERED_DOCUMENT_LIST_ITEM,
+      );
+      assert.strictEqual(testDocumentListTreeItem.description, '25 (filtered)');
+      assert(
+        `${testDocumentListTreeItem.tooltip}`.includes("status: 'active'"),
+        'Expected the tooltip to show the filter',
+      );
+    });
+
+    test('clearing the filter resets the context value and description', () => {
+      const testDocumentListTreeItem = getTestDocumentListTreeItem({
+        cachedDocumentCount: 25,
+        documentFilter: { filter: { status: 'active' } },
+      });
+
+      testDocumentListTreeItem.onClearDocumentFilterClicked();
+
+      assert.strictEqual(testDocumentListTreeItem.getDocumentFilter(), null);
+      assert.strictEqual(
+        testDocumentListTreeItem.contextValue,
+        DOCUMENT_LIST_ITEM,
+      );
+      assert.strictEqual(testDocumentListTreeItem.description, '25');
+    });
+
+    test('onSetDocumentFilterClicked parses the filter, projection and sort inputs', async () => {
+      const showInputBoxStub = sandbox.stub(vscode.window, 'showInputBox');
+      showInputBoxStub.onFirstCall().resolves("{ status: 'active' }");
+      showInputBoxStub.onSecondCall().resolves('');
+      showInputBoxStub.onThirdCall().resolves('{ createdAt: -1 }');
+      const testDocumentListTreeItem = getTestDocumentListTreeItem();
+
+      const result =
+        await testDocumentListTreeItem.onSetDocumentFilterClicked();
+
+      assert.strictEqual(result, true);
+      assert.deepStrictEqual(testDocumentListTreeItem.getDocumentFilter(), {
+        filter: { status: 'active' },
+        projection: undefined,
+        sort: { createdAt: -1 },
+      });
+    });
+
+    test('onSetDocumentFilterClicked clears the filter when all inputs are empty', async () => {
+      sandbox.stub(vscode.window, 'showInputBox').resolves('');
+      const testDocumentListTreeItem = getTestDocumentListTreeItem({
+        documentFilter: { filter: { status: 'active' } },
+      });
+
+      const result =
+        await testDocumentListTreeItem.onSetDocumentFilterClicked();
+
+      assert.strictEqual(result, true);
+      assert.strictEqual(testDocumentListTreeItem.getDocumentFilter(), null);
+    });
+
+    test('onSetDocumentFilterClicked keeps the filter when cancelled', async () => {
+      sandbox.stub(vscode.window, 'showInputBox').resolves(undefined);
+      const testDocumentListTreeItem = getTestDocumentListTreeItem({
+        documentFilter: { filter: { status: 'active' } },
+      });
+
+      const result =
+        await testDocumentListTreeItem.onSetDocumentFilterClicked();
+
+      assert.strictEqual(result, false);
+      assert.deepStrictEqual(testDocumentListTreeItem.getDocumentFilter(), {
+        filter: { status: 'active' },
+      });
+    });
+  });
+
   suite('formatDocCount', () => {
     test('It formats the document count when the count is 0', () => {
       const num = 0;
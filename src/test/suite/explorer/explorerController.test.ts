@@ -251,6 +251,45 @@ suite('Explorer Controller Test Suite', function () {
     );
   });
 
+  test('shows connections in a folder inside of the folder in the tree', async () => {
+    const testConnectionController =
+      mdbTestExtension.testExtensionController._connectionController;
+    const treeController =
+      mdbTestExtension.testExtensionController._explorerController.getTreeController();
+    const connectionOptions = { connectionString: TEST_DATABASE_URI };
+
+    testConnectionController._connections.aaa = {
+      connectionOptions,
+      name: 'aaa',
+      id: 'aaa',
+      storageLocation: StorageLocation.NONE,
+      secretStorageLocation: SecretStorageLocation.SecretStorage,
+    };
+    testConnectionController._connections.bbb = {
+      connectionOptions,
+      name: 'bbb',
+      id: 'bbb',
+      group: 'Production',
+      storageLocation: StorageLocation.NONE,
+      secretStorageLocation: SecretStorageLocation.SecretStorage,
+    };
+
+    const treeItems = await treeController.getChildren();
+
+    assert.deepStrictEqual(
+      treeItems.map(({ label }) => label),
+      ['Production', 'aaa'],
+    );
+    assert.strictEqual(treeItems[0].contextValue, 'connectionGroupTreeItem');
+
+    const groupChildren = await treeItems[0].getChildren();
+
+    assert.deepStrictEqual(
+      groupChildren.map(({ label }) => label),
+      ['bbb'],
+    );
+  });
+
   test('shows the databases of connected connection in tree', async () => {
     const testConnectionController =
       mdbTestExtension.testExtensionController._connectionController;
@@ -1,11 +1,52 @@
+import * as vscode from 'vscode';
+import { after, afterEach, before } from 'mocha';
 import assert from 'assert';
+import sinon from 'sinon';
+import type { DataService } from 'mongodb-data-service';
 
 import IndexTreeItem, {
   IndexFieldTreeItem,
   IndexKeyType,
+  getIndexDescription,
 } from '../../../explorer/indexTreeItem';
+import type { IndexModel } from '../../../explorer/indexTreeItem';
+import {
+  createTestDataService,
+  seedTestDB,
+  cleanupTestDB,
+  disconnectFromTestDB,
+  TEST_DATABASE_URI,
+  TEST_DB_NAME,
+} from '../dbTestHelper';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const { contributes } = require('../../../../package.json');
+
+function getTestIndexTreeItem(
+  index: Partial<IndexModel>,
+  dataService: Partial<DataService> = {},
+): IndexTreeItem {
+  return new IndexTreeItem({
+    index: {
+      v: 2,
+      key: { launched: IndexKeyType.DESCENDING },
+      name: 'launched_-1',
+      ns: 'space.missions',
+      ...index,
+    },
+    namespace: 'space.missions',
+    dataService: dataService as DataService,
+    isExpanded: false,
+  });
+}
 
 suite('IndexTreeItem Test Suite', () => {
+  const sandbox = sinon.createSandbox();
+
+  afterEach(() => {
+    sandbox.restore();
+  });
+
   test('it has tree items for each key in the index', async () => {
     const testIndexTreeItem = new IndexTreeItem({
       index: {
@@ -18,6 +59,7 @@ suite('IndexTreeItem Test Suite', () => {
         ns: 'tasty_fruits.pineapple',
       },
       namespace: 'tasty_fruits.pineapple',
+      dataService: {} as DataService,
       isExpanded: false,
     });
 
@@ -28,6 +70,199 @@ suite('IndexTreeItem Test Suite', () => {
     assert.strictEqual(indexKeyTreeItems[1].label, 'gnocchi');
   });
 
+  test('its context values should be in the package json', () => {
+    const contextValues = [
+      getTestIndexTreeItem({}).contextValue,
+      getTestIndexTreeItem({ extra: { hidden: true } }).contextValue,
+    ];
+
+    assert.deepStrictEqual(contextValues, [
+      'indexTreeItem',
+      'hiddenIndexTreeItem',
+    ]);
+    for (const contextValue of contextValues) {
+      assert(
+        contributes.menus['view/item/context'].some((contextItem) =>
+          contextItem.when.includes(`viewItem == ${contextValue}`),
+        ),
+        `Expected ${contextValue} to be registered with a command in package json`,
+      );
+    }
+    assert.strictEqual(
+      getTestIndexTreeItem({ name: '_id_' }).contextValue,
+      'idIndexTreeItem',
+    );
+  });
+
+  test('it describes the size, usage and properties of the index', () => {
+    assert.strictEqual(
+      getIndexDescription({
+        v: 2,
+        key: { launched: IndexKeyType.DESCENDING },
+        name: 'launched_-1',
+        ns: 'space.missions',
+        size: 20000,
+        usageCount: 7,
+        properties: ['unique', 'ttl', 'partial'],
+        extra: {
+          hidden: true,
+          expireAfterSeconds: 3600,
+          partialFilterExpression: { crewed: true },
+        },
+      }),
+      'hidden, 20.0 KB, 7 uses, unique, TTL 3600s, partial',
+    );
+  });
+
+  test('drops the index when the name is confirmed', async () => {
+    sandbox.stub(vscode.window, 'showInputBox').resolves('launched_-1');
+    const dropIndexStub = sandbox.stub().resolves({ ok: 1 });
+    const testIndexTreeItem = getTestIndexTreeItem(
+      {},
+      { dropIndex: dropIndexStub },
+    );
+
+    const dropped = await testIndexTreeItem.onDropIndexClicked();
+
+    assert(dropped);
+    assert(dropIndexStub.calledOnceWith('space.missions', 'launched_-1'));
+  });
+
+  test('does not drop the index when the name does not match', async () => {
+    sandbox.stub(vscode.window, 'showInputBox').resolves('launched');
+    const dropIndexStub = sandbox.stub().resolves({ ok: 1 });
+    const testIndexTreeItem = getTestIndexTreeItem(
+      {},
+      { dropIndex: dropIndexStub },
+    );
+
+    const dropped = await testIndexTreeItem.onDropIndexClicked();
+
+    assert(!dropped);
+    assert(dropIndexStub.notCalled);
+  });
+
+  test('hides the index after confirmation', async () => {
+    sandbox
+      .stub(vscode.window, 'showInformationMessage')
+      .resolves('Hide' as any);
+    const updateCollectionStub = sandbox.stub().resolves({ ok: 1 });
+    const testIndexTreeItem = getTestIndexTreeItem(
+      {},
+      { updateCollection: updateCollectionStub },
+    );
+
+    const hidden = await testIndexTreeItem.onSetIndexHiddenClicked(true);
+
+    assert(hidden);
+    assert.deepStrictEqual(updateCollectionStub.firstCall.args, [
+      'space.missions',
+      { index: { name: 'launched_-1', hidden: true } },
+    ]);
+    assert.strictEqual(testIndexTreeItem.index.extra?.hidden, true);
+  });
+
+  test('renames the index by dropping it and creating it again', async () => {
+    sandbox.stub(vscode.window, 'showInputBox').resolves('launch_date');
+    sandbox.stub(vscode.window, 'showWarningMessage').resolves('Rename' as any);
+    const createIndexStub = sandbox.stub().resolves('launch_date');
+    const dropIndexStub = sandbox.stub().resolves({ ok: 1 });
+    const testIndexTreeItem = getTestIndexTreeItem(
+      { extra: { unique: true, expireAfterSeconds: 60 } },
+      { createIndex: createIndexStub, dropIndex: dropIndexStub },
+    );
+
+    const renamed = await testIndexTreeItem.onRenameIndexClicked();
+
+    assert(renamed);
+    assert(dropIndexStub.calledOnceWith('space.missions', 'launched_-1'));
+    assert.deepStrictEqual(createIndexStub.firstCall.args, [
+      'space.missions',
+      { launched: -1 },
+      { unique: true, expireAfterSeconds: 60, name: 'launch_date' },
+    ]);
+    assert(dropIndexStub.calledBefore(createIndexStub));
+  });
+
+  test('restores the index when it can not be created with the new name', async () => {
+    sandbox.stub(vscode.window, 'showInputBox').resolves('launch_date');
+    sandbox.stub(vscode.window, 'showWarningMessage').resolves('Rename' as any);
+    const showErrorMessageStub = sandbox.stub(
+      vscode.window,
+      'showErrorMessage',
+    );
+    const createIndexStub = sandbox.stub();
+    createIndexStub.onFirstCall().rejects(new Error('Invalid index name'));
+    createIndexStub.onSecondCall().resolves('launched_-1');
+    const testIndexTreeItem = getTestIndexTreeItem(
+      {},
+      { createIndex: createIndexStub, dropIndex: sandbox.stub().resolves() },
+    );
+
+    const renamed = await testIndexTreeItem.onRenameIndexClicked();
+
+    assert(!renamed);
+    assert.strictEqual(testIndexTreeItem.isDropped, false);
+    assert.deepStrictEqual(createIndexStub.secondCall.args, [
+      'space.missions',
+      { launched: -1 },
+      { name: 'launched_-1' },
+    ]);
+    assert.strictEqual(
+      showErrorMessageStub.firstCall.args[0],
+      "Rename index failed: Invalid index name. The index 'launched_-1' was created again.",
+    );
+  });
+
+  suite('Live Database Tests', function () {
+    this.timeout(5000);
+    let dataService: DataService;
+
+    before(async () => {
+      dataService = await createTestDataService(TEST_DATABASE_URI);
+    });
+
+    after(async () => {
+      await cleanupTestDB();
+      await disconnectFromTestDB();
+    });
+
+    test('renames an index with its options on the server', async () => {
+      const namespace = `${TEST_DB_NAME}.missions`;
+      await seedTestDB('missions', [{ launched: new Date() }]);
+      await dataService.createIndex(
+        namespace,
+        { launched: -1 },
+        { name: 'launched_-1', unique: true },
+      );
+      const index = (await dataService.indexes(namespace, {})).find(
+        ({ name }) => name === 'launched_-1',
+      );
+      sandbox.stub(vscode.window, 'showInputBox').resolves('launch_date');
+      sandbox
+        .stub(vscode.window, 'showWarningMessage')
+        .resolves('Rename' as any);
+      const testIndexTreeItem = new IndexTreeItem({
+        index: index as IndexModel,
+        namespace,
+        dataService,
+        isExpanded: false,
+      });
+
+      const renamed = await testIndexTreeItem.onRenameIndexClicked();
+
+      assert(renamed);
+      const indexes = await dataService.indexes(namespace, {});
+      const renamedIndex = indexes.find(({ name }) => name === 'launch_date');
+      assert.deepStrictEqual(
+        indexes.map(({ name }) => name),
+        ['_id_', 'launch_date'],
+      );
+      assert.deepStrictEqual(renamedIndex?.key, { launched: -1 });
+      assert.strictEqual(renamedIndex?.extra.unique, true);
+    });
+  });
+
   suite('IndexFieldTreeItem', () => {
     test('it has an icon for the index type', () => {
       const testIndexFieldTreeItem = new IndexFieldTreeItem({
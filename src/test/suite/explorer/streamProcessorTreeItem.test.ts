@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import assert from 'assert';
+import sinon from 'sinon';
 import type { DataService } from 'mongodb-data-service';
 
 import StreamProcessorTreeItem from '../../../explorer/streamProcessorTreeItem';
@@ -69,4 +70,82 @@ suite('StreamProcessorTreeItem Test Suite', () => {
       vscode.TreeItemCollapsibleState.None,
     );
   });
+
+  test('getStats returns the state, error and message counts', async () => {
+    const commandStub = sinon.stub();
+    commandStub
+      .withArgs('admin', sinon.match.has('listStreamProcessors'))
+      .resolves({
+        streamProcessors: [
+          {
+            name: mockStreamProcessors[1].name,
+            state: 'FAILED',
+            errorMsg: 'Kafka connection lost',
+            pipeline: [],
+          },
+        ],
+      });
+    commandStub
+      .withArgs('admin', sinon.match.has('getStreamProcessorStats'))
+      .resolves({
+        stats: { inputMessageCount: 10, outputMessageCount: 4 },
+      });
+    const testStreamProcessorTreeItem = getTestTreeItem({
+      dataService: { command: commandStub } as unknown as DataService,
+    });
+
+    const stats = await testStreamProcessorTreeItem.getStats();
+
+    assert.deepStrictEqual(stats, {
+      name: mockStreamProcessors[1].name,
+      state: 'FAILED',
+      error: 'Kafka connection lost',
+      inputMessageCount: 10,
+      outputMessageCount: 4,
+    });
+    assert.deepStrictEqual(
+      commandStub.getCalls().map((call) => call.args[1]),
+      [
+        {
+          listStreamProcessors: 1,
+          filter: { name: mockStreamProcessors[1].name },
+        },
+        { getStreamProcessorStats: mockStreamProcessors[1].name },
+      ],
+    );
+    assert.strictEqual(
+      testStreamProcessorTreeItem.streamProcessorState,
+      'FAILED',
+    );
+  });
+
+  test('samples output documents with a cursor', async () => {
+    const commandStub = sinon.stub();
+    commandStub
+      .withArgs('admin', sinon.match.has('startSampleStreamProcessor'))
+      .resolves({ cursorId: 42 });
+    commandStub
+      .withArgs('admin', sinon.match.has('getMoreSampleStreamProcessor'))
+      .resolves({ cursorId: 0, messages: [{ temperature: 46 }] });
+    const testStreamProcessorTreeItem = getTestTreeItem({
+      dataService: { command: commandStub } as unknown as DataService,
+    });
+
+    const cursorId = await testStreamProcessorTreeItem.startSample(500);
+    const batch = await testStreamProcessorTreeItem.getMoreSample(cursorId, 20);
+
+    assert.deepStrictEqual(commandStub.firstCall.args[1], {
+      startSampleStreamProcessor: mockStreamProcessors[1].name,
+      limit: 500,
+    });
+    assert.deepStrictEqual(commandStub.secondCall.args[1], {
+      getMoreSampleStreamProcessor: mockStreamProcessors[1].name,
+      cursorId: 42,
+      batchSize: 20,
+    });
+    assert.deepStrictEqual(batch, {
+      cursorId: 0,
+      messages: [{ temperature: 46 }],
+    });
+  });
 });
@@ -0,0 +1,111 @@
+import * as vscode from 'vscode';
+import { beforeEach, afterEach } from 'mocha';
+import assert from 'assert';
+import sinon from 'sinon';
+import type { SinonStub } from 'sinon';
+import type { DataService } from 'mongodb-data-service';
+
+import ValidationTreeItem from '../../../explorer/validationTreeItem';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const { contributes } = require('../../../../package.json');
+
+function getTestValidationTreeItem(
+  options?: Partial<ConstructorParameters<typeof ValidationTreeItem>[0]>,
+): ValidationTreeItem {
+  return new ValidationTreeItem({
+    collectionName: 'zebraWearwolf',
+    databaseName: 'giraffeVampire',
+    dataService: {} as DataService,
+    isExpanded: false,
+    cacheIsUpToDate: false,
+    validation: null,
+    ...options,
+  });
+}
+
+suite('ValidationTreeItem Test Suite', () => {
+  let showErrorMessageStub: SinonStub;
+  const sandbox = sinon.createSandbox();
+
+  beforeEach(() => {
+    showErrorMessageStub = sandbox.stub(vscode.window, 'showErrorMessage');
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+  });
+
+  test('its context value should be in the package json', () => {
+    const testValidationTreeItem = getTestValidationTreeItem();
+
+    assert(
+      contributes.menus['view/item/context'].some((contextItem) =>
+        contextItem.when.includes(testValidationTreeItem.contextValue),
+      ),
+      'Expected validation tree item to be registered with a command in package json',
+    );
+  });
+
+  test('when expanded it fetches and shows the validation rules', async () => {
+    const collectionInfoStub = sandbox.stub().resolves({
+      validation: {
+        validator: { $jsonSchema: { required: ['name'] } },
+        validationLevel: 'moderate',
+        validationAction: 'warn',
+      },
+    });
+    const testValidationTreeItem = getTestValidationTreeItem({
+      dataService: {
+        collectionInfo: collectionInfoStub,
+      } as unknown as DataService,
+    });
+
+    await testValidationTreeItem.onDidExpand();
+    const children = await testValidationTreeItem.getChildren();
+
+    assert.deepStrictEqual(collectionInfoStub.firstCall.args, [
+      'giraffeVampire',
+      'zebraWearwolf',
+    ]);
+    assert.deepStrictEqual(
+      children.map(({ label, description }) => [label, description]),
+      [
+        ['Level', 'moderate'],
+        ['Action', 'warn'],
+        ['Validator', '$jsonSchema'],
+      ],
+    );
+  });
+
+  test('shows when a collection has no validation rules', async () => {
+    const testValidationTreeItem = getTestValidationTreeItem({
+      dataService: {
+        collectionInfo: () => Promise.resolve({ validation: null }),
+      } as unknown as DataService,
+    });
+
+    await testValidationTreeItem.onDidExpand();
+    const children = await testValidationTreeItem.getChildren();
+
+    assert.strictEqual(children.length, 1);
+    assert.strictEqual(children[0].label, 'No validation rules');
+  });
+
+  test('shows an error when the validation rules can not be fetched', async () => {
+    const testValidationTreeItem = getTestValidationTreeItem({
+      dataService: {
+        collectionInfo: () => Promise.reject(new Error('not authorized')),
+      } as unknown as DataService,
+    });
+
+    await testValidationTreeItem.onDidExpand();
+    const children = await testValidationTreeItem.getChildren();
+
+    assert.strictEqual(children.length, 0);
+    assert.strictEqual(
+      showErrorMessageStub.firstCall.args[0],
+      'Fetch validation rules failed: not authorized',
+    );
+  });
+});
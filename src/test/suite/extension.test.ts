@@ -27,12 +27,21 @@ suite('Extension Test Suite', () => {
       'mdb.createPlayground',
       'mdb.createNewPlaygroundFromOverviewPage',
       'mdb.createNewPlaygroundFromTreeView',
+      'mdb.changePlaygroundConnection',
 
       // Tree view commands.
       'mdb.addConnection',
       'mdb.addConnectionWithURI',
       'mdb.copyConnectionString',
       'mdb.treeItemRemoveConnection',
+      'mdb.setConnectionWriteProtection',
+      'mdb.createConnectionGroup',
+      'mdb.moveConnectionToGroup',
+      'mdb.renameConnectionGroup',
+      'mdb.setConnectionGroupColor',
+      'mdb.removeConnectionGroup',
+      'mdb.exportConnections',
+      'mdb.importConnections',
       'mdb.treeViewOpenMongoDBShell',
       'mdb.addDatabase',
       'mdb.refreshConnection',
@@ -44,10 +53,27 @@ suite('Extension Test Suite', () => {
       'mdb.searchForDocuments',
       'mdb.copyCollectionName',
       'mdb.refreshCollection',
+      'mdb.importDocuments',
+      'mdb.dumpDatabase',
+      'mdb.dumpCollection',
+      'mdb.restoreDatabase',
+      'mdb.copyCollectionToConnection',
+      'mdb.generateTypesFromCollection',
+      'mdb.saveSchemaSnapshot',
+      'mdb.compareCollectionSchemaWithSnapshot',
+      'mdb.compareSchemaSnapshot',
       'mdb.refreshSchema',
+      'mdb.analyzeSchema',
+      'mdb.generateValidationRules',
       'mdb.copySchemaFieldName',
       'mdb.refreshIndexes',
+      'mdb.refreshValidation',
+      'mdb.editValidationRules',
       'mdb.createIndexFromTreeView',
+      'mdb.dropIndex',
+      'mdb.hideIndex',
+      'mdb.unhideIndex',
+      'mdb.renameIndex',
       'mdb.insertObjectIdToEditor',
       'mdb.generateObjectIdToClipboard',
       'mdb.openMongoDBDocumentFromTree',
@@ -59,9 +85,14 @@ suite('Extension Test Suite', () => {
       'mdb.startStreamProcessor',
       'mdb.stopStreamProcessor',
       'mdb.dropStreamProcessor',
+      'mdb.showStreamProcessorStats',
+      'mdb.sampleStreamProcessor',
+      'mdb.editStreamProcessorPipeline',
 
       // Editor commands.
-      'mdb.codeLens.showMoreDocumentsClicked',
+      'mdb.codeLens.showNextDocumentsPageClicked',
+      'mdb.codeLens.showPreviousDocumentsPageClicked',
+      'mdb.codeLens.goToDocumentsPageClicked',
 
       ...Object.values(EXTENSION_COMMANDS),
     ];
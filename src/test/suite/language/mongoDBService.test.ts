@@ -24,6 +24,8 @@ import { StreamStub } from '../stubs';
 import DIAGNOSTIC_CODES from '../../../language/diagnosticCodes';
 import { ServerCommands } from '../../../language/serverCommands';
 import LINKS from '../../../utils/links';
+import { playgroundModifyStreamProcessorTemplate } from '../../../templates/playgroundModifyStreamProcessorTemplate';
+import { playgroundValidationRulesTemplate } from '../../../templates/playgroundValidationRulesTemplate';
 import Sinon from 'sinon';
 
 const expect = chai.expect;
@@ -3048,6 +3050,141 @@ suite('MongoDBService Test Suite', () => {
     });
   });
 
+  suite('Write operations', function () {
+    const up = new StreamStub();
+    const down = new StreamStub();
+    const connection = createConnection(up, down);
+
+    connection.listen();
+
+    const testMongoDBService = new MongoDBService(connection);
+
+    test('finds the write operations in a playground', () => {
+      const writeOperations = testMongoDBService.getWriteOperations(
+        [
+          "use('test');",
+          'db.sales.insertMany([{ item: 1 }]);',
+          "db.getCollection('sales').updateOne({}, { $set: { item: 2 } });",
+          "db['sales']['deleteMany']({});",
+          'db.sales.insertMany([{ item: 3 }]);',
+          'db.sales.drop();',
+        ].join('\n'),
+      );
+
+      expect(writeOperations).to.deep.equal([
+        'insertMany',
+        'updateOne',
+        'deleteMany',
+        'drop',
+      ]);
+    });
+
+    test('finds no write operations in read only code', () => {
+      const writeOperations = testMongoDBService.getWriteOperations(
+        "use('test');\ndb.sales.find({ item: 1 }).toArray();",
+      );
+
+      expect(writeOperations).to.deep.equal([]);
+    });
+
+    test('finds index and collection creation', () => {
+      const writeOperations = testMongoDBService.getWriteOperations(
+        [
+          "use('test');",
+          "db.createCollection('sales');",
+          "db.createView('totals', 'sales', []);",
+          'db.sales.createIndex({ item: 1 });',
+          'db.sales.createIndexes([{ date: 1 }]);',
+          "db.sales.hideIndex('item_1');",
+        ].join('\n'),
+      );
+
+      expect(writeOperations).to.deep.equal([
+        'createCollection',
+        'createView',
+        'createIndex',
+        'createIndexes',
+        'hideIndex',
+      ]);
+    });
+
+    test('treats commands as write operations', () => {
+      const writeOperations = testMongoDBService.getWriteOperations(
+        [
+          "use('test');",
+          "db.runCommand({ collMod: 'sales', validator: {} });",
+          'db.adminCommand({ fsync: 1 });',
+        ].join('\n'),
+      );
+
+      expect(writeOperations).to.deep.equal(['runCommand', 'adminCommand']);
+    });
+
+    test('treats applying validation rules as a write operation', () => {
+      const writeOperations = testMongoDBService.getWriteOperations(
+        playgroundValidationRulesTemplate({
+          databaseName: 'test',
+          collectionName: 'sales',
+          validator: "{ $jsonSchema: { required: ['item'] } }",
+          validationLevel: 'strict',
+          validationAction: 'error',
+        }),
+      );
+
+      expect(writeOperations).to.deep.equal(['runCommand']);
+    });
+
+    test('finds aggregations that write with $out or $merge', () => {
+      const writeOperations = testMongoDBService.getWriteOperations(
+        [
+          "use('test');",
+          'db.sales.aggregate([{ $match: {} }]);',
+          "db.sales.aggregate([{ $match: {} }, { $out: 'totals' }]);",
+          "db.sales.aggregate([{ '$merge': { into: 'totals' } }]);",
+        ].join('\n'),
+      );
+
+      expect(writeOperations).to.deep.equal([
+        'aggregate with $out',
+        'aggregate with $merge',
+      ]);
+    });
+
+    test('finds stream processor lifecycle calls', () => {
+      const writeOperations = testMongoDBService.getWriteOperations(
+        [
+          'sp.listStreamProcessors();',
+          "sp.createStreamProcessor('sales', []);",
+          'sp.sales.stop();',
+          "sp.getProcessor('sales-2').modify([]);",
+          'sp.sales.start();',
+          'sp.sales.stats();',
+          'sp.sales.drop();',
+        ].join('\n'),
+      );
+
+      expect(writeOperations).to.deep.equal([
+        'createStreamProcessor',
+        'stop',
+        'modify',
+        'start',
+        'drop',
+      ]);
+    });
+
+    test('treats modifying a stream processor as write operations', () => {
+      const writeOperations = testMongoDBService.getWriteOperations(
+        playgroundModifyStreamProcessorTemplate({
+          streamProcessorName: 'sales',
+          pipeline: "[{ $source: { connectionName: 'kafka' } }]",
+          isStarted: true,
+        }),
+      );
+
+      expect(writeOperations).to.deep.equal(['stop', 'modify', 'start']);
+    });
+  });
+
   suite('Diagnostic', function () {
     const up = new StreamStub();
     const down = new StreamStub();
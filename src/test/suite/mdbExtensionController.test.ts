@@ -191,6 +191,11 @@ suite('MDBExtensionController Test Suite', function () {
         'getActiveConnectionId',
         fakeActiveConnectionId,
       );
+      sandbox.replace(
+        mdbTestExtension.testExtensionController._connectionController,
+        'isConnectedToConnection',
+        sandbox.fake.returns(true),
+      );
       fakeCreatePlaygroundFileWithContent = sandbox.fake();
       sandbox.replace(
         mdbTestExtension.testExtensionController._playgroundController,
@@ -853,6 +858,80 @@ suite('MDBExtensionController Test Suite', function () {
       assert.strictEqual(successfullyDropped, false);
     });
 
+    test('mdb.dropDatabase is blocked on a read-only connection', async () => {
+      const testConnectionController =
+        mdbTestExtension.testExtensionController._connectionController;
+      const dropDatabaseStub = sandbox.stub().resolves(true);
+      const testDatabaseTreeItem = getTestDatabaseTreeItem({
+        dataService: {
+          dropDatabase: dropDatabaseStub,
+        } as unknown as DataService,
+      });
+      sandbox.replace(
+        testConnectionController,
+        'getConnectionIdForDataService',
+        () => 'prodId',
+      );
+      sandbox.replace(
+        testConnectionController,
+        'getConnectionWriteProtection',
+        () => 'readOnly',
+      );
+      sandbox.replace(
+        testConnectionController,
+        'getSavedConnectionName',
+        () => 'prod',
+      );
+
+      const successfullyDropped = await vscode.commands.executeCommand(
+        'mdb.dropDatabase',
+        testDatabaseTreeItem,
+      );
+      assert.strictEqual(successfullyDropped, false);
+      assert.strictEqual(dropDatabaseStub.called, false);
+      assert.strictEqual(
+        showErrorMessageStub.firstCall.args[0],
+        'Unable to drop the database: prod is a read-only connection.',
+      );
+    });
+
+    test('mdb.stopStreamProcessor is blocked on a read-only connection', async () => {
+      const testConnectionController =
+        mdbTestExtension.testExtensionController._connectionController;
+      const stopStreamProcessorStub = sandbox.stub().resolves();
+      const testProcessorTreeItem = getTestStreamProcessorTreeItem({
+        dataService: {
+          stopStreamProcessor: stopStreamProcessorStub,
+        } as unknown as DataService,
+      });
+      sandbox.replace(
+        testConnectionController,
+        'getConnectionIdForDataService',
+        () => 'prodId',
+      );
+      sandbox.replace(
+        testConnectionController,
+        'getConnectionWriteProtection',
+        () => 'readOnly',
+      );
+      sandbox.replace(
+        testConnectionController,
+        'getSavedConnectionName',
+        () => 'prod',
+      );
+
+      const stopped = await vscode.commands.executeCommand(
+        'mdb.stopStreamProcessor',
+        testProcessorTreeItem,
+      );
+      assert.strictEqual(stopped, false);
+      assert.strictEqual(stopStreamProcessorStub.called, false);
+      assert.strictEqual(
+        showErrorMessageStub.firstCall.args[0],
+        'Unable to stop the stream processor: prod is a read-only connection.',
+      );
+    });
+
     test('mdb.renameConnection fails when the name input is empty', async () => {
       mdbTestExtension.testExtensionController._connectionController._connections.blueBerryPancakesAndTheSmellOfBacon =
         {
@@ -964,6 +1043,11 @@ suite('MDBExtensionController Test Suite', function () {
         'getActiveDataService',
         fakeGetActiveDataService,
       );
+      sandbox.replace(
+        mdbTestExtension.testExtensionController._connectionController,
+        'getConnectionIdForDataService',
+        sandbox.fake.returns('tasty_sandwich'),
+      );
 
       const documentItem = getTestDocumentTreeItem({
         document: mockDocument,
@@ -1159,6 +1243,318 @@ suite('MDBExtensionController Test Suite', function () {
       );
     });
 
+    test('mdb.saveMongoDBDocument does not replace a document that was changed on the server since it was opened', async () => {
+      const mockDocument = {
+        _id: 'pancakes',
+        name: 'blueberry',
+      };
+      const fakeGet = sandbox.fake.returns('pancakes');
+      sandbox.replace(
+        mdbTestExtension.testExtensionController._editorsController
+          ._documentIdStore,
+        'get',
+        fakeGet,
+      );
+      const fakeGetOriginalDocument = sandbox.fake.returns({
+        _id: 'pancakes',
+        name: '',
+      });
+      sandbox.replace(
+        mdbTestExtension.testExtensionController._editorsController
+          ._documentIdStore,
+        'getOriginalDocument',
+        fakeGetOriginalDocument,
+      );
+      sandbox.replaceGetter(
+        vscode.window,
+        'activeTextEditor',
+        () =>
+          ({
+            document: {
+              uri: {
+                scheme: 'VIEW_DOCUMENT_SCHEME',
+                query: [
+                  'namespace=waffle.house',
+                  'connectionId=tasty_sandwich',
+                  'documentId=93333a0d-83f6-4e6f-a575-af7ea6187a4a',
+                  'source=treeview',
+                ].join('&'),
+              },
+              getText: () => JSON.stringify(mockDocument),
+              save: () => {},
+            },
+          }) as unknown as typeof vscode.window.activeTextEditor,
+      );
+
+      const fakeGetDocumentConflict = sandbox.fake.resolves({
+        serverDocument: { _id: 'pancakes', name: 'chocolate' },
+      });
+      sandbox.replace(
+        mdbTestExtension.testExtensionController._editorsController
+          ._mongoDBDocumentService,
+        'getDocumentConflict',
+        fakeGetDocumentConflict,
+      );
+      const showWarningMessageStub = sandbox
+        .stub(vscode.window, 'showWarningMessage')
+        .resolves(undefined);
+      const fakeReplaceDocument = sandbox.fake.resolves(null);
+      sandbox.replace(
+        mdbTestExtension.testExtensionController._editorsController
+          ._mongoDBDocumentService,
+        'replaceDocument',
+        fakeReplaceDocument,
+      );
+
+      const result = await vscode.commands.executeCommand(
+        'mdb.saveMongoDBDocument',
+      );
+      assert.strictEqual(result, false);
+      assert(
+        showWarningMessageStub.firstCall.args[0].includes(
+          "was changed in 'waffle.house' after it was opened",
+        ),
+      );
+      assert.deepStrictEqual(
+        fakeGetDocumentConflict.firstCall.args[0].originalDocument,
+        { _id: 'pancakes', name: '' },
+      );
+      assert(fakeReplaceDocument.notCalled);
+    });
+
+    test('mdb.saveMongoDBDocument keeps the opened version after comparing the changes of the server', async () => {
+      const mockDocument = {
+        _id: 'pancakes',
+        name: 'blueberry',
+      };
+      const fakeGet = sandbox.fake.returns('pancakes');
+      sandbox.replace(
+        mdbTestExtension.testExtensionController._editorsController
+          ._documentIdStore,
+        'get',
+        fakeGet,
+      );
+      const fakeGetOriginalDocument = sandbox.fake.returns({
+        _id: 'pancakes',
+        name: '',
+      });
+      sandbox.replace(
+        mdbTestExtension.testExtensionController._editorsController
+          ._documentIdStore,
+        'getOriginalDocument',
+        fakeGetOriginalDocument,
+      );
+      sandbox.replaceGetter(
+        vscode.window,
+        'activeTextEditor',
+        () =>
+          ({
+            document: {
+              uri: {
+                scheme: 'VIEW_DOCUMENT_SCHEME',
+                query: [
+                  'namespace=waffle.house',
+                  'connectionId=tasty_sandwich',
+                  'documentId=93333a0d-83f6-4e6f-a575-af7ea6187a4a',
+                  'source=treeview',
+                ].join('&'),
+              },
+              getText: () => JSON.stringify(mockDocument),
+              save: () => {},
+            },
+          }) as unknown as typeof vscode.window.activeTextEditor,
+      );
+
+      const fakeGetDocumentConflict = sandbox.fake.resolves({
+        serverDocument: { _id: 'pancakes', name: 'chocolate' },
+      });
+      sandbox.replace(
+        mdbTestExtension.testExtensionController._editorsController
+          ._mongoDBDocumentService,
+        'getDocumentConflict',
+        fakeGetDocumentConflict,
+      );
+      const showWarningMessageStub = sandbox
+        .stub(vscode.window, 'showWarningMessage')
+        .resolves('Compare Changes' as any);
+      const fakeOpenDocumentConflict = sandbox.fake.resolves(undefined);
+      sandbox.replace(
+        mdbTestExtension.testExtensionController._editorsController,
+        '_openDocumentConflict',
+        fakeOpenDocumentConflict,
+      );
+      const setOriginalDocumentSpy = sandbox.spy(
+        mdbTestExtension.testExtensionController._editorsController
+          ._documentIdStore,
+        'setOriginalDocument',
+      );
+      const fakeReplaceDocument = sandbox.fake.resolves(null);
+      sandbox.replace(
+        mdbTestExtension.testExtensionController._editorsController
+          ._mongoDBDocumentService,
+        'replaceDocument',
+        fakeReplaceDocument,
+      );
+
+      const result = await vscode.commands.executeCommand(
+        'mdb.saveMongoDBDocument',
+      );
+      assert.strictEqual(result, false);
+      assert(showWarningMessageStub.calledOnce);
+      assert.deepStrictEqual(
+        fakeOpenDocumentConflict.firstCall.args[0].serverDocument,
+        { _id: 'pancakes', name: 'chocolate' },
+      );
+      // Saving again without merging has to ask again.
+      assert(setOriginalDocumentSpy.notCalled);
+      assert(fakeReplaceDocument.notCalled);
+    });
+
+    test('mdb.saveMongoDBDocument reports when nothing changed in update mode', async () => {
+      const mockDocument = { _id: 'pancakes', name: 'blueberry' };
+      sandbox.replace(
+        mdbTestExtension.testExtensionController._editorsController
+          ._documentIdStore,
+        'get',
+        sandbox.fake.returns('pancakes'),
+      );
+      sandbox.replace(
+        mdbTestExtension.testExtensionController._editorsController
+          ._documentIdStore,
+        'getOriginalDocument',
+        sandbox.fake.returns(mockDocument),
+      );
+      sandbox.replaceGetter(
+        vscode.window,
+        'activeTextEditor',
+        () =>
+          ({
+            document: {
+              uri: {
+                scheme: 'VIEW_DOCUMENT_SCHEME',
+                query: [
+                  'namespace=waffle.house',
+                  'connectionId=tasty_sandwich',
+                  'documentId=93333a0d-83f6-4e6f-a575-af7ea6187a4a',
+                  'source=treeview',
+                ].join('&'),
+              },
+              getText: () => JSON.stringify(mockDocument),
+              save: () => {},
+            },
+          }) as unknown as typeof vscode.window.activeTextEditor,
+      );
+      const fakeGetDocumentConflict = sandbox.fake.resolves(undefined);
+      sandbox.replace(
+        mdbTestExtension.testExtensionController._editorsController
+          ._mongoDBDocumentService,
+        'getDocumentConflict',
+        fakeGetDocumentConflict,
+      );
+      const fakeUpdateDocument = sandbox.fake.resolves(undefined);
+      sandbox.replace(
+        mdbTestExtension.testExtensionController._editorsController
+          ._mongoDBDocumentService,
+        'updateDocument',
+        fakeUpdateDocument,
+      );
+      await vscode.workspace
+        .getConfiguration('mdb')
+        .update('documentSaveMode', 'update');
+
+      try {
+        const result = await vscode.commands.executeCommand(
+          'mdb.saveMongoDBDocument',
+        );
+
+        assert.strictEqual(result, false);
+        assert(fakeGetDocumentConflict.notCalled);
+        assert(fakeUpdateDocument.notCalled);
+        assert.strictEqual(
+          showInformationMessageStub.firstCall.args[0],
+          "The document has no changes to save to 'waffle.house'.",
+        );
+      } finally {
+        await vscode.workspace
+          .getConfiguration('mdb')
+          .update('documentSaveMode', undefined);
+      }
+    });
+
+    test('mdb.saveMongoDBDocument only checks the changed fields for conflicts in update mode', async () => {
+      const mockDocument = { _id: 'pancakes', name: 'blueberry' };
+      const originalDocument = { _id: 'pancakes', name: '', syrup: true };
+      sandbox.replace(
+        mdbTestExtension.testExtensionController._editorsController
+          ._documentIdStore,
+        'get',
+        sandbox.fake.returns('pancakes'),
+      );
+      sandbox.replace(
+        mdbTestExtension.testExtensionController._editorsController
+          ._documentIdStore,
+        'getOriginalDocument',
+        sandbox.fake.returns(originalDocument),
+      );
+      sandbox.replaceGetter(
+        vscode.window,
+        'activeTextEditor',
+        () =>
+          ({
+            document: {
+              uri: {
+                scheme: 'VIEW_DOCUMENT_SCHEME',
+                query: [
+                  'namespace=waffle.house',
+                  'connectionId=tasty_sandwich',
+                  'documentId=93333a0d-83f6-4e6f-a575-af7ea6187a4a',
+                  'source=treeview',
+                ].join('&'),
+              },
+              getText: () => JSON.stringify(mockDocument),
+              save: () => {},
+            },
+          }) as unknown as typeof vscode.window.activeTextEditor,
+      );
+      const fakeGetDocumentConflict = sandbox.fake.resolves(undefined);
+      sandbox.replace(
+        mdbTestExtension.testExtensionController._editorsController
+          ._mongoDBDocumentService,
+        'getDocumentConflict',
+        fakeGetDocumentConflict,
+      );
+      const fakeUpdateDocument = sandbox.fake.resolves(undefined);
+      sandbox.replace(
+        mdbTestExtension.testExtensionController._editorsController
+          ._mongoDBDocumentService,
+        'updateDocument',
+        fakeUpdateDocument,
+      );
+      await vscode.workspace
+        .getConfiguration('mdb')
+        .update('documentSaveMode', 'update');
+
+      try {
+        const result = await vscode.commands.executeCommand(
+          'mdb.saveMongoDBDocument',
+        );
+
+        assert.strictEqual(result, true);
+        assert.deepStrictEqual(
+          fakeGetDocumentConflict.firstCall.args[0].paths,
+          ['name', 'syrup'],
+        );
+        assert.deepStrictEqual(fakeUpdateDocument.firstCall.args[0].update, {
+          $set: { name: 'blueberry' },
+          $unset: { syrup: '' },
+        });
+      } finally {
+        await vscode.workspace
+          .getConfiguration('mdb')
+          .update('documentSaveMode', undefined);
+      }
+    });
+
     test('mdb.runSelectedPlaygroundBlocks runs selected playgroundB blocks once', async () => {
       const fakeRunSelectedPlaygroundBlocks = sandbox.fake();
       sandbox.replace(
@@ -0,0 +1,110 @@
+import { expect } from 'chai';
+
+import {
+  deserializeConnections,
+  parseConnectionsExport,
+  serializeConnections,
+} from '../../../storage/connectionExport';
+import type { LoadedConnection } from '../../../storage/connectionStorage';
+import {
+  SecretStorageLocation,
+  StorageLocation,
+} from '../../../storage/storageController';
+import { TEST_DATABASE_URI_USER, TEST_USER_PASSWORD } from '../dbTestHelper';
+
+const testConnection: LoadedConnection = {
+  id: 'prodId',
+  name: 'prod',
+  connectionOptions: { connectionString: TEST_DATABASE_URI_USER },
+  storageLocation: StorageLocation.GLOBAL,
+  secretStorageLocation: SecretStorageLocation.SecretStorage,
+  writeProtection: 'production',
+  group: 'Production',
+};
+
+suite('Connection Export Test Suite', () => {
+  test('exports connections without their secrets', () => {
+    const exportText = serializeConnections([testConnection]);
+
+    expect(exportText).to.not.include(TEST_USER_PASSWORD);
+
+    const [importedConnection] = deserializeConnections(
+      parseConnectionsExport(exportText),
+    );
+
+    expect(importedConnection).to.deep.include({
+      id: 'prodId',
+      name: 'prod',
+      writeProtection: 'production',
+      group: 'Production',
+    });
+    expect(
+      importedConnection.connectionOptions.connectionString,
+    ).to.not.include(TEST_USER_PASSWORD);
+  });
+
+  test('exports connections with their secrets encrypted', () => {
+    const exportText = serializeConnections([testConnection], {
+      passphrase: 'correct horse',
+    });
+
+    expect(exportText).to.not.include(TEST_USER_PASSWORD);
+
+    const [importedConnection] = deserializeConnections(
+      parseConnectionsExport(exportText),
+      { passphrase: 'correct horse' },
+    );
+
+    expect(importedConnection.connectionOptions.connectionString).to.equal(
+      TEST_DATABASE_URI_USER,
+    );
+  });
+
+  test('does not import encrypted secrets with a wrong passphrase', () => {
+    const connectionsExport = parseConnectionsExport(
+      serializeConnections([testConnection], { passphrase: 'correct horse' }),
+    );
+
+    expect(() => deserializeConnections(connectionsExport)).to.throw(
+      'The file contains encrypted secrets but no passphrase was provided.',
+    );
+    expect(() =>
+      deserializeConnections(connectionsExport, { passphrase: 'battery' }),
+    ).to.throw('Unable to decrypt the connection secrets: wrong passphrase.');
+  });
+
+  test('imports connections exported by MongoDB Compass', () => {
+    const [importedConnection] = deserializeConnections(
+      parseConnectionsExport(
+        JSON.stringify({
+          type: 'Compass Connections',
+          version: { $numberInt: '1' },
+          connections: [
+            {
+              id: 'compassId',
+              connectionOptions: { connectionString: TEST_DATABASE_URI_USER },
+              favorite: { name: 'compass prod', color: 'color1' },
+            },
+          ],
+        }),
+      ),
+    );
+
+    expect(importedConnection).to.deep.equal({
+      id: 'compassId',
+      name: 'compass prod',
+      connectionOptions: { connectionString: TEST_DATABASE_URI_USER },
+      writeProtection: undefined,
+      group: undefined,
+    });
+  });
+
+  test('does not parse a file that is not a connections export', () => {
+    expect(() => parseConnectionsExport('{"connections": []}')).to.throw(
+      'The file is not a connections export.',
+    );
+    expect(() => parseConnectionsExport('connections')).to.throw(
+      'The file is not valid JSON.',
+    );
+  });
+});
@@ -573,4 +573,48 @@ suite('Connection Storage Test Suite', function () {
   test('when there are no saved connections, hasSavedConnections returns false', () => {
     expect(testConnectionStorage.hasSavedConnections()).to.equal(false);
   });
+
+  suite('connection groups', () => {
+    test('it loads both global and workspace stored groups', async () => {
+      await testConnectionStorage.saveConnectionGroup({
+        name: 'Production',
+        color: 'red',
+        storageLocation: StorageLocation.GLOBAL,
+      });
+      await testConnectionStorage.saveConnectionGroup({
+        name: 'Staging',
+        storageLocation: StorageLocation.WORKSPACE,
+      });
+      await testConnectionStorage.saveConnectionGroup({
+        name: 'Session',
+        storageLocation: StorageLocation.NONE,
+      });
+
+      expect(testConnectionStorage.loadConnectionGroups()).to.deep.equal([
+        {
+          name: 'Production',
+          color: 'red',
+          storageLocation: StorageLocation.GLOBAL,
+        },
+        { name: 'Staging', storageLocation: StorageLocation.WORKSPACE },
+      ]);
+    });
+
+    test('when a group is removed it is removed from the storage', async () => {
+      await testConnectionStorage.saveConnectionGroup({
+        name: 'Production',
+        storageLocation: StorageLocation.GLOBAL,
+      });
+
+      await testConnectionStorage.removeConnectionGroup('Production');
+
+      expect(testConnectionStorage.loadConnectionGroups()).to.deep.equal([]);
+      expect(
+        testStorageController.get(
+          StorageVariables.GLOBAL_CONNECTION_GROUPS,
+          StorageLocation.GLOBAL,
+        ),
+      ).to.deep.equal({});
+    });
+  });
 });
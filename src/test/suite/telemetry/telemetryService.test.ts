@@ -255,6 +255,7 @@ suite('Telemetry Controller Test Suite', () => {
       await testPlaygroundController._evaluate(
         {
           codeToEvaluate: 'show dbs',
+          connectionId: 'testconnectionId',
         },
         source.token,
       );
@@ -0,0 +1,60 @@
+import { expect } from 'chai';
+import { ObjectId } from 'bson';
+
+import {
+  getBulkEditChanges,
+  getBulkEditSummary,
+  hasBulkEditChanges,
+} from '../../../utils/bulkEditChanges';
+
+suite('Bulk Edit Changes Test Suite', () => {
+  const firstId = new ObjectId('5d973ae744376d2aae72a160');
+  const secondId = new ObjectId('5d973ae744376d2aae72a161');
+
+  test('finds the inserted, updated and deleted documents', () => {
+    const changes = getBulkEditChanges(
+      [
+        { _id: firstId, name: 'Sputnik' },
+        { _id: secondId, name: 'Vostok' },
+        { _id: 3, name: 'Mir' },
+      ],
+      [
+        { _id: new ObjectId(firstId.toHexString()), name: 'Sputnik' },
+        { _id: 3, name: 'Mir 2' },
+        { name: 'Soyuz' },
+        { _id: 4, name: 'Salyut' },
+      ],
+    );
+
+    expect(changes.inserts).to.deep.equal([
+      { name: 'Soyuz' },
+      { _id: 4, name: 'Salyut' },
+    ]);
+    expect(changes.updates).to.deep.equal([{ _id: 3, name: 'Mir 2' }]);
+    expect(changes.deletes).to.deep.equal([secondId]);
+    expect(getBulkEditSummary(changes)).to.equal(
+      '2 inserts, 1 update, 1 delete',
+    );
+  });
+
+  test('has no changes when the documents are the same', () => {
+    const changes = getBulkEditChanges(
+      [{ _id: firstId, crew: [1, 2] }],
+      [{ _id: firstId, crew: [1, 2] }],
+    );
+
+    expect(hasBulkEditChanges(changes)).to.equal(false);
+  });
+
+  test('throws when an _id is used twice', () => {
+    expect(() =>
+      getBulkEditChanges([], [{ _id: 1 }, { _id: 1, name: 'copy' }]),
+    ).to.throw('duplicate _id 1');
+  });
+
+  test('throws when an item is not a document', () => {
+    expect(() => getBulkEditChanges([], [{ _id: 1 }, 5 as any])).to.throw(
+      'every item of the array must be a document',
+    );
+  });
+});
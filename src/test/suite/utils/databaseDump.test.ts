@@ -0,0 +1,223 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { Double, Int32 } from 'bson';
+import type { Document } from 'bson';
+import type { DataService } from 'mongodb-data-service';
+
+import type { DumpDataFormat } from '../../../utils/databaseDump';
+import {
+  dumpCollection,
+  getCollectionDumpMetadata,
+  listDumpedCollections,
+  restoreCollection,
+} from '../../../utils/databaseDump';
+
+suite('Database Dump Test Suite', () => {
+  const documents = [
+    { _id: new Int32(1), name: 'Vostok 1', crewSize: new Double(1) },
+    { _id: new Int32(2), name: 'Voskhod 1', crewSize: new Double(3) },
+  ];
+  let folderPath: string;
+  let calls: { method: string; args: unknown[] }[];
+
+  const getFakeDataService = (collectionInfo: Document | null): DataService => {
+    const record =
+      (method: string, result?: unknown) =>
+      (...args: unknown[]): Promise<unknown> => {
+        calls.push({ method, args });
+        return Promise.resolve(result);
+      };
+
+    return {
+      collectionInfo: () => Promise.resolve(collectionInfo),
+      indexes: () =>
+        Promise.resolve([
+          { key: { _id: 1 }, name: '_id_', extra: { v: 2 } },
+          {
+            key: { name: 1 },
+            name: 'name_1',
+            extra: { v: 2, unique: true, ns: 'space.missions' },
+          },
+        ]),
+      findCursor: () =>
+        Object.assign(Readable.from(documents), {
+          close: () => Promise.resolve(),
+        }),
+      createCollection: record('createCollection'),
+      createView: record('createView'),
+      createIndex: record('createIndex'),
+      insertMany: record('insertMany'),
+    } as unknown as DataService;
+  };
+
+  setup(async () => {
+    calls = [];
+    folderPath = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'dump-'));
+  });
+
+  teardown(async () => {
+    await fs.promises.rm(folderPath, { recursive: true, force: true });
+  });
+
+  test('keeps the validator, collation and indexes in the metadata', () => {
+    const metadata = getCollectionDumpMetadata(
+      'missions',
+      {
+        type: 'collection',
+        collation: { locale: 'fr' },
+        validation: {
+          validator: { $jsonSchema: { required: ['name'] } },
+          validationAction: 'error',
+          validationLevel: 'strict',
+        },
+        view_on: null,
+        pipeline: null,
+      },
+      [
+        {
+          key: { name: 1 },
+          name: 'name_1',
+          extra: { unique: true, ns: 'space.missions' },
+        },
+      ],
+    );
+
+    expect(metadata).to.deep.equal({
+      collectionName: 'missions',
+      type: 'collection',
+      options: {
+        collation: { locale: 'fr' },
+        validator: { $jsonSchema: { required: ['name'] } },
+        validationAction: 'error',
+        validationLevel: 'strict',
+      },
+      indexes: [{ unique: true, key: { name: 1 }, name: 'name_1' }],
+    });
+  });
+
+  (['bson', 'ejson'] as DumpDataFormat[]).forEach((format) => {
+    test(`restores a ${format} dump with its indexes and value types`, async () => {
+      const count = await dumpCollection({
+        dataService: getFakeDataService({ type: 'collection' }),
+        databaseName: 'space',
+        collectionName: 'missions',
+        folderPath,
+        format,
+      });
+      const [dumpedCollection] = await listDumpedCollections(folderPath);
+
+      const result = await restoreCollection({
+        dataService: getFakeDataService(null),
+        databaseName: 'restored',
+        dumpedCollection,
+        exists: false,
+        onFailure: () => Promise.resolve(),
+      });
+
+      expect(count).to.equal(2);
+      expect(result).to.deep.equal({ insertedCount: 2, failedCount: 0 });
+      expect(calls.map(({ method }) => method)).to.deep.equal([
+        'createCollection',
+        'createIndex',
+        'insertMany',
+      ]);
+      expect(calls[1].args).to.deep.equal([
+        'restored.missions',
+        { name: 1 },
+        { v: 2, unique: true, name: 'name_1' },
+      ]);
+      expect(calls[2].args[1]).to.deep.equal(documents);
+    });
+  });
+
+  test('encodes the collection names in the file names', async () => {
+    await dumpCollection({
+      dataService: getFakeDataService({ type: 'collection' }),
+      databaseName: 'space',
+      collectionName: 'logs/2024*',
+      folderPath,
+      format: 'bson',
+    });
+
+    const [dumpedCollection] = await listDumpedCollections(folderPath);
+
+    expect((await fs.promises.readdir(folderPath)).sort()).to.deep.equal([
+      'logs%2F2024%2A.bson',
+      'logs%2F2024%2A.metadata.json',
+    ]);
+    expect(dumpedCollection.metadata.collectionName).to.equal('logs/2024*');
+    expect(dumpedCollection.dataFilePath).to.equal(
+      path.join(folderPath, 'logs%2F2024%2A.bson'),
+    );
+  });
+
+  test('fails the dump when the data file can not be written', async () => {
+    await fs.promises.mkdir(path.join(folderPath, 'missions.bson'));
+
+    let error: Error | undefined;
+    try {
+      await dumpCollection({
+        dataService: getFakeDataService({ type: 'collection' }),
+        databaseName: 'space',
+        collectionName: 'missions',
+        folderPath,
+        format: 'bson',
+      });
+    } catch (dumpError) {
+      error = dumpError as Error;
+    }
+
+    expect(error).to.have.property('code', 'EISDIR');
+  });
+
+  test('creates the views of a dump after its collections', async () => {
+    await dumpCollection({
+      dataService: getFakeDataService({
+        type: 'view',
+        view_on: 'missions',
+        pipeline: [{ $match: { crewSize: { $gt: 1 } } }],
+      }),
+      databaseName: 'space',
+      collectionName: 'crewedMissions',
+      folderPath,
+      format: 'bson',
+    });
+    await dumpCollection({
+      dataService: getFakeDataService({ type: 'collection' }),
+      databaseName: 'space',
+      collectionName: 'missions',
+      folderPath,
+      format: 'bson',
+    });
+
+    const dumpedCollections = await listDumpedCollections(folderPath);
+
+    expect(
+      dumpedCollections.map(({ metadata }) => metadata.collectionName),
+    ).to.deep.equal(['missions', 'crewedMissions']);
+    expect(dumpedCollections[1].dataFilePath).to.equal(undefined);
+
+    await restoreCollection({
+      dataService: getFakeDataService(null),
+      databaseName: 'restored',
+      dumpedCollection: dumpedCollections[1],
+      exists: false,
+      onFailure: () => Promise.resolve(),
+    });
+
+    expect(calls).to.deep.equal([
+      {
+        method: 'createView',
+        args: [
+          'crewedMissions',
+          'restored.missions',
+          [{ $match: { crewSize: { $gt: 1 } } }],
+          {},
+        ],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,172 @@
+import { expect } from 'chai';
+
+import type { DocumentJSONSchema } from '../../../utils/documentSchema';
+import {
+  getDocumentSchemaFromSample,
+  getDocumentSchemaProblems,
+  getJsonSchemaValidatorFromSample,
+  getSchemaAtPath,
+} from '../../../utils/documentSchema';
+import { parseSampledDocumentsSchema } from '../../../explorer/schemaTreeItem';
+import { getJSONLocation, parseJSONTree } from '../../../utils/jsonTree';
+
+suite('Document Schema Test Suite', () => {
+  const validatorSchema: DocumentJSONSchema = {
+    bsonType: 'object',
+    required: ['name'],
+    additionalProperties: false,
+    properties: {
+      _id: { bsonType: 'objectId' },
+      name: { bsonType: 'string', description: 'The name of the mission.' },
+      crew: {
+        bsonType: 'object',
+        properties: { commander: { bsonType: 'string' } },
+      },
+      launched: { bsonType: 'date' },
+      stages: { bsonType: 'array', items: { bsonType: 'int' } },
+    },
+  };
+
+  const getProblems = (
+    text: string,
+    schema: DocumentJSONSchema,
+    source: 'validator' | 'sample' = 'validator',
+  ): string[] => {
+    const tree = parseJSONTree(text);
+
+    if (!tree) {
+      throw new Error('invalid JSON');
+    }
+
+    return getDocumentSchemaProblems(tree, schema, source).map(
+      ({ message }) => message,
+    );
+  };
+
+  test('finds no problems in a document matching the validator', () => {
+    expect(
+      getProblems(
+        JSON.stringify({
+          _id: { $oid: '5d973ae744376d2aae72a160' },
+          name: 'Vostok 1',
+          crew: { commander: 'Gagarin' },
+          launched: { $date: '1961-04-12T06:07:00Z' },
+          stages: [1, 2],
+        }),
+        validatorSchema,
+      ),
+    ).to.deep.equal([]);
+  });
+
+  test('reports wrong types, missing required and unknown fields', () => {
+    expect(
+      getProblems(
+        JSON.stringify({
+          crew: { commander: 1 },
+          launched: '1961-04-12',
+          stages: [1, 'two'],
+          rocket: 'R-7',
+        }),
+        validatorSchema,
+      ),
+    ).to.deep.equal([
+      "Missing required field 'name'.",
+      'Expected type string but found int.',
+      'Expected type date but found string.',
+      'Expected type int but found string.',
+      "Field 'rocket' is not allowed by the collection's $jsonSchema validator.",
+    ]);
+  });
+
+  test('reports the offset of the problem in the text', () => {
+    const text = '{"name": 1}';
+    const tree = parseJSONTree(text);
+
+    expect(
+      tree && getDocumentSchemaProblems(tree, validatorSchema, 'validator'),
+    ).to.deep.equal([
+      {
+        offset: 9,
+        length: 1,
+        message: 'Expected type string but found int.',
+      },
+    ]);
+  });
+
+  test('converts the schema of sampled documents', async () => {
+    const sampledSchema = await parseSampledDocumentsSchema('test.missions', [
+      { name: 'Vostok 1', crew: { commander: 'Gagarin' } },
+      { name: 'Vostok 2', stages: [1, 2] },
+    ]);
+    expect(sampledSchema).to.not.equal(undefined);
+
+    const schema = getDocumentSchemaFromSample(
+      sampledSchema as NonNullable<typeof sampledSchema>,
+    );
+
+    expect(getSchemaAtPath(schema, ['name'])).to.deep.equal({
+      bsonType: 'string',
+      description: 'Found in 100% of the sampled documents.',
+    });
+    expect(getSchemaAtPath(schema, ['crew', 'commander'])).to.deep.include({
+      bsonType: 'string',
+    });
+    expect(getSchemaAtPath(schema, ['stages', 0])).to.deep.include({
+      bsonType: 'double',
+    });
+    expect(
+      getProblems('{"name": "Voskhod 1", "rocket": "R-7"}', schema, 'sample'),
+    ).to.deep.equal([
+      "Field 'rocket' was not found in the sampled documents of the collection.",
+    ]);
+  });
+
+  test('drafts a validator from the schema of sampled documents', async () => {
+    const sampledSchema = await parseSampledDocumentsSchema('test.missions', [
+      { name: 'Vostok 1', crew: { commander: 'Gagarin' }, stages: [1, 2] },
+      { name: 'Vostok 2', crew: 'Titov', stages: [] },
+    ]);
+    expect(sampledSchema).to.not.equal(undefined);
+
+    const validator = getJsonSchemaValidatorFromSample(
+      sampledSchema as NonNullable<typeof sampledSchema>,
+    );
+
+    expect(validator.$jsonSchema).to.deep.include({
+      bsonType: 'object',
+      required: ['crew', 'name', 'stages'],
+    });
+    expect(getSchemaAtPath(validator.$jsonSchema, ['name'])).to.deep.equal({
+      bsonType: 'string',
+    });
+
+    const crewSchema = getSchemaAtPath(validator.$jsonSchema, ['crew']);
+    expect(crewSchema?.bsonType).to.have.members(['object', 'string']);
+    expect(crewSchema).to.deep.include({
+      required: ['commander'],
+      properties: { commander: { bsonType: 'string' } },
+    });
+    expect(getSchemaAtPath(validator.$jsonSchema, ['stages'])).to.deep.equal({
+      bsonType: 'array',
+      items: { bsonType: 'number' },
+    });
+  });
+
+  test('finds the path of the property name being typed', () => {
+    const text = '{\n  "crew": {\n    "comm';
+
+    expect(getJSONLocation(text, text.length)).to.deep.equal({
+      path: ['crew'],
+      isAtPropertyKey: true,
+      keyStringOffset: text.lastIndexOf('"'),
+    });
+    expect(getJSONLocation('{"name": "Vos', 12)).to.deep.equal({
+      path: [],
+      isAtPropertyKey: false,
+    });
+    expect(getJSONLocation('[{"name": "Vostok"}, {', 22)).to.deep.equal({
+      path: [1],
+      isAtPropertyKey: true,
+    });
+  });
+});
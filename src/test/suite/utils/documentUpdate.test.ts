@@ -0,0 +1,86 @@
+import { expect } from 'chai';
+import { ObjectId } from 'bson';
+
+import {
+  getDocumentUpdate,
+  getDocumentUpdatePaths,
+  getValueAtPath,
+} from '../../../utils/documentUpdate';
+
+suite('Document Update Test Suite', () => {
+  const _id = new ObjectId('5d973ae744376d2aae72a160');
+
+  test('sets the changed and added paths and unsets the removed ones', () => {
+    const update = getDocumentUpdate(
+      {
+        _id,
+        name: 'Vostok',
+        crew: { commander: 'Gagarin', pilot: 'Titov' },
+        stages: [1, 2],
+        retired: false,
+      },
+      {
+        _id,
+        name: 'Vostok 1',
+        crew: { commander: 'Gagarin' },
+        stages: [1, 2, 3],
+        launched: new Date('1961-04-12T06:07:00Z'),
+      },
+    );
+
+    expect(update).to.deep.equal({
+      $set: {
+        name: 'Vostok 1',
+        stages: [1, 2, 3],
+        launched: new Date('1961-04-12T06:07:00Z'),
+      },
+      $unset: { 'crew.pilot': '', retired: '' },
+    });
+  });
+
+  test('returns an empty update when nothing changed', () => {
+    expect(
+      getDocumentUpdate(
+        { _id, launch: { site: 'Baikonur' } },
+        { _id, launch: { site: 'Baikonur' } },
+      ),
+    ).to.deep.equal({});
+  });
+
+  test('sets a sub-document as a whole when its fields can not be used in a path', () => {
+    expect(
+      getDocumentUpdate(
+        { _id, prices: { 'a.b': 1 } },
+        { _id, prices: { 'a.b': 2 } },
+      ),
+    ).to.deep.equal({ $set: { prices: { 'a.b': 2 } } });
+  });
+
+  test('throws when the _id was changed', () => {
+    expect(() => getDocumentUpdate({ _id }, { _id: new ObjectId() })).to.throw(
+      'the _id of a document can not be changed',
+    );
+  });
+
+  test('throws when a top level field can not be used in a path', () => {
+    expect(() =>
+      getDocumentUpdate({ _id, 'a.b': 1 }, { _id, 'a.b': 2 }),
+    ).to.throw("the field 'a.b' can not be updated by path");
+  });
+
+  test('gets the paths of an update and their values in a document', () => {
+    const document = { _id, crew: { commander: 'Gagarin' }, stages: [1, 2] };
+
+    expect(
+      getDocumentUpdatePaths({
+        $set: { 'crew.pilot': 'Titov' },
+        $unset: { stages: '' },
+      }),
+    ).to.deep.equal(['crew.pilot', 'stages']);
+    expect(getValueAtPath(document, 'crew.commander')).to.equal('Gagarin');
+    expect(getValueAtPath(document, 'stages')).to.deep.equal([1, 2]);
+    expect(getValueAtPath(document, 'crew.pilot')).to.equal(undefined);
+    expect(getValueAtPath(document, 'stages.0')).to.equal(undefined);
+    expect(getValueAtPath(document, 'crew.constructor')).to.equal(undefined);
+  });
+});
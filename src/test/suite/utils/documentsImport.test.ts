@@ -0,0 +1,239 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ObjectId } from 'bson';
+import type { Document } from 'bson';
+
+import type { ImportFailure, ImportRow } from '../../../utils/documentsImport';
+import {
+  getCsvColumns,
+  getCsvDocument,
+  importDocuments,
+  readCsvRecords,
+  readImportRows,
+} from '../../../utils/documentsImport';
+
+suite('Documents Import Test Suite', () => {
+  const collect = async <T>(items: AsyncIterable<T>): Promise<T[]> => {
+    const result: T[] = [];
+    for await (const item of items) {
+      result.push(item);
+    }
+    return result;
+  };
+
+  test('reads quoted csv fields with commas, quotes and line breaks', async () => {
+    const records = await collect(
+      readCsvRecords([
+        'name,notes',
+        '"Vostok 1, ""Swallow""","first',
+        'crewed flight"',
+        '',
+        'Voskhod 1,',
+      ]),
+    );
+
+    expect(records).to.deep.equal([
+      ['name', 'notes'],
+      ['Vostok 1, "Swallow"', 'first\ncrewed flight'],
+      ['Voskhod 1', ''],
+    ]);
+  });
+
+  test('infers the type of csv columns from a sample of values', () => {
+    const columns = getCsvColumns(
+      ['_id', 'crewSize', 'crewed', 'launched', 'name', 'stages'],
+      [
+        [
+          '5d973ae744376d2aae72a160',
+          '1',
+          'true',
+          '1961-04-12',
+          'Vostok',
+          '[1]',
+        ],
+        ['5d973ae744376d2aae72a161', '', 'false', '1961-08-06', '3', '[]'],
+      ],
+    );
+
+    expect(columns.map(({ type }) => type)).to.deep.equal([
+      'objectId',
+      'number',
+      'boolean',
+      'date',
+      'string',
+      'json',
+    ]);
+  });
+
+  test('converts csv records to nested documents with the column types', () => {
+    const document = getCsvDocument(
+      [
+        { name: '_id', type: 'objectId' },
+        { name: 'crew.size', type: 'number' },
+        { name: 'crew.commander', type: 'string' },
+        { name: 'launched', type: 'date' },
+        { name: 'notes', type: 'skip' },
+      ],
+      ['5d973ae744376d2aae72a160', '1', 'Gagarin', '', 'skipped'],
+    );
+
+    expect(document).to.deep.equal({
+      _id: new ObjectId('5d973ae744376d2aae72a160'),
+      crew: { size: 1, commander: 'Gagarin' },
+    });
+    expect(() =>
+      getCsvDocument([{ name: 'crewSize', type: 'number' }], ['one']),
+    ).to.throw("crewSize: 'one' is not a valid number");
+    expect(() =>
+      getCsvDocument(
+        [{ name: 'constructor.prototype.polluted', type: 'string' }],
+        ['yes'],
+      ),
+    ).to.throw("'constructor' is not allowed in field names");
+  });
+
+  test('reports the csv rows of fields that would change the prototype', async () => {
+    const filePath = path.join(os.tmpdir(), `import-${Date.now()}.csv`);
+    await fs.promises.writeFile(
+      filePath,
+      'name,__proto__.polluted,constructor.prototype.polluted\nVostok,yes,yes\n',
+    );
+
+    try {
+      const rows = await collect(
+        readImportRows({
+          filePath,
+          format: 'csv',
+          csvColumns: getCsvColumns(
+            ['name', '__proto__.polluted', 'constructor.prototype.polluted'],
+            [['Vostok', 'yes', 'yes']],
+          ),
+        }),
+      );
+
+      expect(rows).to.deep.equal([
+        {
+          row: 1,
+          error:
+            "__proto__.polluted: '__proto__' is not allowed in field names",
+          text: 'Vostok,yes,yes',
+        },
+      ]);
+      expect(({} as Document).polluted).to.equal(undefined);
+    } finally {
+      await fs.promises.rm(filePath);
+    }
+  });
+
+  test('reports the ndjson lines that are not documents', async () => {
+    const filePath = path.join(os.tmpdir(), `import-${Date.now()}.jsonl`);
+    await fs.promises.writeFile(
+      filePath,
+      '{"_id":{"$oid":"5d973ae744376d2aae72a160"}}\n\n[1]\n{"name":\n',
+    );
+
+    try {
+      const rows = await collect(
+        readImportRows({ filePath, format: 'ndjson' }),
+      );
+
+      expect(rows.map(({ row }) => row)).to.deep.equal([1, 3, 4]);
+      expect(rows[0]).to.deep.equal({
+        row: 1,
+        document: { _id: new ObjectId('5d973ae744376d2aae72a160') },
+      });
+      expect(rows[1]).to.include({ error: 'the value is not a document' });
+      expect(rows[2]).to.have.property('error');
+    } finally {
+      await fs.promises.rm(filePath);
+    }
+  });
+
+  test('reads the elements of a json array and reports the invalid ones', async () => {
+    const filePath = path.join(os.tmpdir(), `import-${Date.now()}.json`);
+    await fs.promises.writeFile(
+      filePath,
+      '\uFEFF[\n  {"name": "Vostok [1], \\"Swallow\\""},\n  {"crew": [{"name": "Gagarin"}]},\n  1,\n  {"name":}\n]\n',
+    );
+
+    try {
+      const rows = await collect(readImportRows({ filePath, format: 'json' }));
+
+      expect(rows.map(({ row }) => row)).to.deep.equal([1, 2, 3, 4]);
+      expect(rows[0]).to.deep.equal({
+        row: 1,
+        document: { name: 'Vostok [1], "Swallow"' },
+      });
+      expect(rows[1]).to.deep.equal({
+        row: 2,
+        document: { crew: [{ name: 'Gagarin' }] },
+      });
+      expect(rows[2]).to.include({ error: 'the value is not a document' });
+      expect(rows[3]).to.include({ text: '{"name":}' });
+      expect(rows[3]).to.have.property('error');
+    } finally {
+      await fs.promises.rm(filePath);
+    }
+  });
+
+  test('rejects json files that are not an array', async () => {
+    const filePath = path.join(os.tmpdir(), `import-${Date.now()}.json`);
+    await fs.promises.writeFile(filePath, '[{"name": "Vostok 1"}');
+
+    try {
+      let error: Error | undefined;
+      try {
+        await collect(readImportRows({ filePath, format: 'json' }));
+      } catch (readError) {
+        error = readError as Error;
+      }
+
+      expect(error?.message).to.equal(
+        'the file does not contain an array of documents',
+      );
+    } finally {
+      await fs.promises.rm(filePath);
+    }
+  });
+
+  test('inserts in batches and reports the rows that failed', async () => {
+    const rows: ImportRow[] = [
+      { row: 1, document: { _id: 1 } },
+      { row: 2, error: 'invalid', text: '{' },
+      { row: 3, document: { _id: 1 } },
+      { row: 4, document: { _id: 2 } },
+    ];
+    const batches: Document[][] = [];
+    const failures: ImportFailure[] = [];
+
+    const result = await importDocuments({
+      rows,
+      batchSize: 2,
+      insertMany: (documents) => {
+        batches.push(documents);
+        if (batches.length === 1) {
+          return Promise.reject(
+            Object.assign(new Error('duplicate key'), {
+              insertedCount: 1,
+              writeErrors: [{ index: 1, errmsg: 'E11000 duplicate key' }],
+            }),
+          );
+        }
+        return Promise.resolve();
+      },
+      onFailure: (failure) => {
+        failures.push(failure);
+        return Promise.resolve();
+      },
+    });
+
+    expect(batches).to.deep.equal([[{ _id: 1 }, { _id: 1 }], [{ _id: 2 }]]);
+    expect(result).to.deep.equal({ insertedCount: 2, failedCount: 2 });
+    expect(failures.map(({ row, error }) => ({ row, error }))).to.deep.equal([
+      { row: 2, error: 'invalid' },
+      { row: 3, error: 'E11000 duplicate key' },
+    ]);
+  });
+});
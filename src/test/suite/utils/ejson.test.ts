@@ -1,5 +1,10 @@
 import { expect } from 'chai';
-import { getEJSON } from '../../../utils/ejson';
+import { Double, Int32, Long } from 'bson';
+import {
+  getCanonicalEJSON,
+  getEJSON,
+  getEJSONFromCanonical,
+} from '../../../utils/ejson';
 
 suite('getEJSON', function () {
   suite('Valid uuid', function () {
@@ -96,3 +101,24 @@ suite('getEJSON', function () {
     });
   });
 });
+
+suite('getCanonicalEJSON', function () {
+  test('keeps the numeric types that the editor format does not', function () {
+    const canonical = getCanonicalEJSON({
+      price: new Double(5),
+      stock: Long.fromNumber(2),
+      count: new Int32(3),
+    });
+
+    expect(canonical).to.deep.equal({
+      price: { $numberDouble: '5.0' },
+      stock: { $numberLong: '2' },
+      count: { $numberInt: '3' },
+    });
+    expect(getEJSONFromCanonical(canonical)).to.deep.equal({
+      price: 5,
+      stock: 2,
+      count: 3,
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { expect } from 'chai';
+
+import {
+  getExplainCode,
+  getExplainPlanSummary,
+} from '../../../utils/explainPlan';
+import { getExplainPlanWebviewContent } from '../../../views/explainPlanView';
+
+suite('Explain Plan Test Suite', () => {
+  const findExplain = {
+    queryPlanner: {
+      namespace: 'space.missions',
+      winningPlan: { stage: 'SORT', inputStage: { stage: 'COLLSCAN' } },
+    },
+    executionStats: {
+      nReturned: 2,
+      executionTimeMillis: 4,
+      totalKeysExamined: 0,
+      totalDocsExamined: 10,
+      executionStages: {
+        stage: 'SORT',
+        nReturned: 2,
+        executionTimeMillisEstimate: 3,
+        inputStage: {
+          stage: 'COLLSCAN',
+          nReturned: 2,
+          docsExamined: 10,
+          executionTimeMillisEstimate: 1,
+        },
+      },
+    },
+  };
+
+  test('reads the stages and stats of a find', () => {
+    const summary = getExplainPlanSummary(findExplain);
+
+    expect(summary).to.deep.include({
+      namespace: 'space.missions',
+      nReturned: 2,
+      totalDocsExamined: 10,
+      totalKeysExamined: 0,
+      executionTimeMillis: 4,
+      indexesUsed: [],
+      hasCollectionScan: true,
+      hasInMemorySort: true,
+    });
+    expect(summary.winningPlan.stage).to.equal('SORT');
+    expect(summary.winningPlan.isInMemorySort).to.equal(true);
+    expect(summary.winningPlan.children[0]).to.deep.include({
+      stage: 'COLLSCAN',
+      docsExamined: 10,
+      executionTimeMillis: 1,
+      isCollectionScan: true,
+    });
+  });
+
+  test('reads the query of an aggregation from its $cursor stage', () => {
+    const summary = getExplainPlanSummary({
+      stages: [
+        {
+          $cursor: {
+            queryPlanner: {
+              namespace: 'space.missions',
+              winningPlan: {
+                stage: 'FETCH',
+                inputStage: { stage: 'IXSCAN', indexName: 'launched_-1' },
+              },
+            },
+          },
+        },
+        { $group: { _id: '$rocket' } },
+      ],
+    });
+
+    expect(summary.indexesUsed).to.deep.equal(['launched_-1']);
+    expect(summary.hasCollectionScan).to.equal(false);
+    expect(summary.nReturned).to.equal(undefined);
+  });
+
+  test('throws when the result is not an explain plan', () => {
+    expect(() => getExplainPlanSummary({ ok: 1 })).to.throw(
+      'the result does not contain a query plan',
+    );
+  });
+
+  test('wraps the selected query and keeps the last use() before it', () => {
+    expect(
+      getExplainCode(
+        "use('test');\nuse('space');\n",
+        '  db.missions.find({ crewed: true });\n',
+      ),
+    ).to.equal(
+      "use('space');\n(db.missions.find({ crewed: true })).explain('executionStats');",
+    );
+    expect(getExplainCode('', 'db.missions.aggregate([])')).to.equal(
+      "(db.missions.aggregate([])).explain('executionStats');",
+    );
+  });
+
+  test('renders the plan tree with warnings and escaped values', () => {
+    const html = getExplainPlanWebviewContent({
+      ...getExplainPlanSummary(findExplain),
+      namespace: 'space.<missions>',
+    });
+
+    expect(html).to.include('space.&lt;missions&gt;');
+    expect(html).to.include('COLLSCAN');
+    expect(html).to.include('Collection scan');
+    expect(html).to.include('In-memory sort');
+  });
+});
@@ -0,0 +1,51 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { createFileWriter } from '../../../utils/fileWriter';
+
+suite('File Writer Test Suite', () => {
+  let folderPath: string;
+
+  setup(async () => {
+    folderPath = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'writer-'));
+  });
+
+  teardown(async () => {
+    await fs.promises.rm(folderPath, { recursive: true, force: true });
+  });
+
+  test('writes the chunks to the file', async () => {
+    const filePath = path.join(folderPath, 'missions.json');
+    const writer = createFileWriter(filePath);
+
+    await writer.write('Vostok 1\n');
+    await writer.write(Buffer.from('Voskhod 1\n'));
+    await writer.close();
+
+    expect(await fs.promises.readFile(filePath, 'utf8')).to.equal(
+      'Vostok 1\nVoskhod 1\n',
+    );
+  });
+
+  test('fails the writes when the file can not be opened', async () => {
+    const writer = createFileWriter(
+      path.join(folderPath, 'missing', 'missions.json'),
+    );
+
+    try {
+      await writer.write('Vostok 1\n');
+      expect.fail('Expected the write to fail');
+    } catch (error) {
+      expect((error as NodeJS.ErrnoException).code).to.equal('ENOENT');
+    }
+
+    try {
+      await writer.write('Voskhod 1\n');
+      expect.fail('Expected the later write to fail');
+    } catch (error) {
+      expect((error as NodeJS.ErrnoException).code).to.equal('ENOENT');
+    }
+  });
+});
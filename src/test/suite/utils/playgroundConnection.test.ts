@@ -0,0 +1,45 @@
+import { expect } from 'chai';
+
+import {
+  findPlaygroundConnectionHeader,
+  getPlaygroundConnectionHeaderText,
+} from '../../../utils/playgroundConnection';
+
+suite('Playground Connection Test Suite', () => {
+  test('finds the connection header in the leading comments', () => {
+    const text = [
+      '/* global use, db */',
+      '// MongoDB Playground',
+      '// @connection:  staging replica  ',
+      '',
+      "use('mongodbVSCodePlaygroundDB');",
+    ].join('\n');
+
+    expect(findPlaygroundConnectionHeader(text)).to.deep.equal({
+      line: 2,
+      connectionName: 'staging replica',
+    });
+  });
+
+  test('ignores a connection header after the first line of code', () => {
+    const text = [
+      "use('mongodbVSCodePlaygroundDB');",
+      '// @connection: staging',
+    ].join('\n');
+
+    expect(findPlaygroundConnectionHeader(text)).to.be.undefined;
+  });
+
+  test('ignores a connection header without a connection name', () => {
+    expect(findPlaygroundConnectionHeader('// @connection:\ndb.find()')).to.be
+      .undefined;
+  });
+
+  test('the header text can be found again', () => {
+    expect(
+      findPlaygroundConnectionHeader(
+        getPlaygroundConnectionHeaderText('prod-replica'),
+      ),
+    ).to.deep.equal({ line: 0, connectionName: 'prod-replica' });
+  });
+});
@@ -0,0 +1,86 @@
+import { expect } from 'chai';
+import { Int32, ObjectId } from 'bson';
+import type { Document } from 'bson';
+
+import type {
+  CsvNestedFieldsMode,
+  ResultsExportFormat,
+} from '../../../utils/resultsExport';
+import { exportResults, getCsvCellText } from '../../../utils/resultsExport';
+
+suite('Results Export Test Suite', () => {
+  const documents: Document[] = [
+    {
+      _id: new ObjectId('5d973ae744376d2aae72a160'),
+      name: 'Vostok 1, "Swallow"',
+      crew: { commander: 'Gagarin' },
+    },
+    { _id: 2, launched: new Date('2020-05-30T19:22:45Z'), stages: [1, 2] },
+  ];
+
+  const exportToString = async (
+    format: ResultsExportFormat,
+    csvNestedFields?: CsvNestedFieldsMode,
+  ): Promise<{ text: string; count: number }> => {
+    let text = '';
+    const count = await exportResults({
+      format,
+      csvNestedFields,
+      getDocuments: () => documents,
+      write: (chunk) => {
+        text += chunk;
+        return Promise.resolve();
+      },
+    });
+
+    return { text, count };
+  };
+
+  test('writes a csv column for every nested field path', async () => {
+    const { text, count } = await exportToString('csv', 'flatten');
+
+    expect(count).to.equal(2);
+    expect(text).to.equal(
+      [
+        '_id,name,crew.commander,launched,stages',
+        '5d973ae744376d2aae72a160,"Vostok 1, ""Swallow""",Gagarin,,',
+        '2,,,2020-05-30T19:22:45.000Z,"[1,2]"',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  test('writes nested csv fields as extended json when not flattened', async () => {
+    const { text } = await exportToString('csv', 'json');
+
+    expect(text.split('\n')[0]).to.equal('_id,name,crew,launched,stages');
+    expect(text.split('\n')[1]).to.include('"{""commander"":""Gagarin""}"');
+  });
+
+  test('writes a relaxed extended json document per line', async () => {
+    const { text } = await exportToString('ndjson');
+
+    expect(text.split('\n')).to.deep.equal([
+      '{"_id":{"$oid":"5d973ae744376d2aae72a160"},"name":"Vostok 1, \\"Swallow\\"","crew":{"commander":"Gagarin"}}',
+      '{"_id":2,"launched":{"$date":"2020-05-30T19:22:45Z"},"stages":[1,2]}',
+      '',
+    ]);
+  });
+
+  test('writes canonical extended json as an array', async () => {
+    const { text } = await exportToString('ejson-canonical');
+    const parsed = JSON.parse(text);
+
+    expect(parsed).to.have.length(2);
+    expect(parsed[1]._id).to.deep.equal({ $numberInt: '2' });
+    expect(parsed[1].launched).to.deep.equal({
+      $date: { $numberLong: '1590866565000' },
+    });
+  });
+
+  test('shows bson values by their value in csv cells', () => {
+    expect(getCsvCellText(new Int32(7))).to.equal('7');
+    expect(getCsvCellText(null)).to.equal('');
+    expect(getCsvCellText(true)).to.equal('true');
+  });
+});
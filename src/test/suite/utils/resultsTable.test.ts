@@ -0,0 +1,62 @@
+import { expect } from 'chai';
+
+import { getCellText, getResultsTable } from '../../../utils/resultsTable';
+import { getPlaygroundResultsWebviewContent } from '../../../views/playgroundResultsView';
+
+suite('Results Table Test Suite', () => {
+  test('has a column for every top-level field of the documents', () => {
+    const table = getResultsTable([
+      { _id: { $oid: '5d973ae744376d2aae72a160' }, name: 'Vostok 1' },
+      { _id: 2, crew: { commander: 'Gagarin' }, stages: [1, 2] },
+    ]);
+
+    expect(table.columns).to.deep.equal(['_id', 'name', 'crew', 'stages']);
+    expect(table.rows[0].map(({ text }) => text)).to.deep.equal([
+      '5d973ae744376d2aae72a160',
+      'Vostok 1',
+      '',
+      '',
+    ]);
+    expect(table.rows[1].map(({ text }) => text)).to.deep.equal([
+      '2',
+      '',
+      '{"commander":"Gagarin"}',
+      '[1,2]',
+    ]);
+  });
+
+  test('sorts numbers wrapped in extended JSON as numbers', () => {
+    const table = getResultsTable([
+      { count: { $numberLong: '12' } },
+      { count: 3 },
+      { launched: { $date: '1961-04-12T06:07:00Z' } },
+    ]);
+
+    expect(table.rows.map((row) => row[0].sortValue)).to.deep.equal([
+      12,
+      3,
+      null,
+    ]);
+    expect(table.rows[2][1].sortValue).to.equal('1961-04-12T06:07:00Z');
+  });
+
+  test('shows the value of extended JSON wrappers in cells', () => {
+    expect(getCellText({ $date: { $numberLong: '-1' } })).to.equal('-1');
+    expect(getCellText({ $oid: '5d973ae744376d2aae72a160' })).to.equal(
+      '5d973ae744376d2aae72a160',
+    );
+    expect(getCellText(null)).to.equal('null');
+    expect(getCellText(undefined)).to.equal('');
+  });
+
+  test('escapes the results embedded in the webview', () => {
+    const html = getPlaygroundResultsWebviewContent({
+      documents: [{ _id: 1, name: '</script><script>alert(1)</script>' }],
+      namespace: 'space.missions',
+      connectionId: 'tester',
+    });
+
+    expect(html).to.not.include('</script><script>alert(1)');
+    expect(html).to.include('1 document');
+  });
+});
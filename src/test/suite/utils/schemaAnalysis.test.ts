@@ -0,0 +1,114 @@
+import { expect } from 'chai';
+import { Decimal128, Long, ObjectId } from 'bson';
+
+import { analyzeSchema, getShellValue } from '../../../utils/schemaAnalysis';
+import { getSchemaAnalysisWebviewContent } from '../../../views/schemaAnalysisView';
+
+suite('Schema Analysis Test Suite', () => {
+  const documents = [
+    {
+      name: 'Apollo 11',
+      crew: 3,
+      launchedAt: new Date('1969-07-16T13:32:00.000Z'),
+      tags: ['moon', 'landing'],
+      rocket: { name: 'Saturn V' },
+    },
+    {
+      name: 'Apollo 13',
+      crew: '3',
+      launchedAt: new Date('1970-04-11T19:13:00.000Z'),
+      tags: ['moon'],
+      rocket: { name: 'Saturn V' },
+    },
+    {
+      name: 'Vostok 1',
+      crew: 1,
+      tags: [],
+    },
+    {
+      name: 'Sputnik 1',
+      crew: null,
+      stages: [{ engines: 4 }, { engines: 1 }],
+    },
+  ];
+
+  const getField = (path: string) =>
+    analyzeSchema(documents).fields.find((field) => field.path === path);
+
+  test('computes the presence and the types of fields', () => {
+    const analysis = analyzeSchema(documents);
+
+    expect(analysis.documentCount).to.equal(4);
+    expect(analysis.fields.map(({ path }) => path)).to.deep.equal([
+      'crew',
+      'launchedAt',
+      'name',
+      'rocket',
+      'rocket.name',
+      'stages',
+      'stages.engines',
+      'tags',
+    ]);
+    expect(getField('launchedAt')?.presence).to.equal(0.5);
+    expect(getField('crew')?.types).to.deep.equal([
+      { name: 'Number', count: 2, probability: 0.5 },
+      { name: 'String', count: 1, probability: 0.25 },
+      { name: 'Null', count: 1, probability: 0.25 },
+    ]);
+  });
+
+  test('counts the values of fields and their ranges', () => {
+    expect(getField('rocket.name')).to.deep.include({
+      distinctValuesInSample: 1,
+      topValues: [{ value: 'Saturn V', count: 2 }],
+    });
+    expect(getField('name')?.distinctValuesInSample).to.equal(4);
+    expect(getField('crew')?.numberRange).to.deep.equal({ min: 1, max: 3 });
+    expect(getField('launchedAt')?.dateRange).to.deep.equal({
+      min: new Date('1969-07-16T13:32:00.000Z'),
+      max: new Date('1970-04-11T19:13:00.000Z'),
+    });
+  });
+
+  test('analyzes the elements of arrays', () => {
+    expect(getField('tags')?.topValues).to.deep.equal([
+      { value: 'moon', count: 2 },
+      { value: 'landing', count: 1 },
+    ]);
+    expect(getField('stages.engines')).to.deep.include({
+      presence: 0.25,
+      count: 2,
+      numberRange: { min: 1, max: 4 },
+    });
+  });
+
+  test('returns values as shell syntax', () => {
+    expect(getShellValue('moon')).to.equal('"moon"');
+    expect(getShellValue(3)).to.equal('3');
+    expect(getShellValue(null)).to.equal('null');
+    expect(getShellValue(new ObjectId('5f2b4c1e8e3b2a1d4c5b6a7f'))).to.equal(
+      "ObjectId('5f2b4c1e8e3b2a1d4c5b6a7f')",
+    );
+    expect(getShellValue(new Date('1969-07-16T13:32:00.000Z'))).to.equal(
+      "ISODate('1969-07-16T13:32:00.000Z')",
+    );
+    expect(getShellValue(Long.fromString('9007199254740993'))).to.equal(
+      "NumberLong('9007199254740993')",
+    );
+    expect(getShellValue(Decimal128.fromString('1.5'))).to.equal(
+      "NumberDecimal('1.5')",
+    );
+  });
+
+  test('escapes the values shown in the webview', () => {
+    const html = getSchemaAnalysisWebviewContent({
+      analysis: analyzeSchema([{ name: '<img src=x>' }]),
+      databaseName: 'space',
+      collectionName: 'missions',
+      connectionId: null,
+    });
+
+    expect(html).to.include('&lt;img src=x&gt;');
+    expect(html).to.not.include('<img src=x>');
+  });
+});
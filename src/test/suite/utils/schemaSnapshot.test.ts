@@ -0,0 +1,121 @@
+import { expect } from 'chai';
+import { ObjectId } from 'bson';
+import type { Document } from 'bson';
+
+import {
+  createSchemaSnapshot,
+  diffSchemaSnapshots,
+  getSchemaDriftSummary,
+  getSchemaSnapshotText,
+  parseSchemaSnapshot,
+  serializeSchemaSnapshot,
+} from '../../../utils/schemaSnapshot';
+import type { SchemaSnapshot } from '../../../utils/schemaSnapshot';
+import { parseSampledDocumentsSchema } from '../../../explorer/schemaTreeItem';
+
+const createdAt = new Date('2026-10-19T09:00:00.000Z');
+
+async function getSnapshot(
+  connectionName: string,
+  documents: Document[],
+): Promise<SchemaSnapshot> {
+  const schema = await parseSampledDocumentsSchema('space.missions', documents);
+
+  return createSchemaSnapshot(schema ?? { count: 0, fields: [] }, {
+    namespace: 'space.missions',
+    connectionName,
+    createdAt,
+  });
+}
+
+suite('Schema Snapshot Test Suite', () => {
+  test('flattens nested fields and array elements to paths', async () => {
+    const snapshot = await getSnapshot('Staging', [
+      {
+        _id: new ObjectId(),
+        crew: [{ name: 'Armstrong' }],
+        launched: new Date(),
+      },
+      { _id: new ObjectId(), crew: [] },
+    ]);
+
+    expect(snapshot.documentCount).to.equal(2);
+    expect(snapshot.fields).to.deep.equal([
+      { path: '_id', types: ['ObjectId'], probability: 1 },
+      { path: 'crew', types: ['Array'], probability: 1 },
+      { path: 'crew[]', types: ['Document'], probability: 1 },
+      { path: 'crew[].name', types: ['String'], probability: 1 },
+      { path: 'launched', types: ['Date'], probability: 0.5 },
+    ]);
+    expect(getSchemaSnapshotText(snapshot)).to.equal(
+      [
+        '// space.missions on Staging, 2 documents sampled at 2026-10-19T09:00:00.000Z',
+        '_id: ObjectId',
+        'crew: Array',
+        'crew[]: Document',
+        'crew[].name: String',
+        'launched: Date (optional)',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  test('finds added, removed and retyped fields', async () => {
+    const staging = await getSnapshot('Staging', [
+      { name: 'Apollo 11', budget: 25, crew: ['Armstrong'] },
+    ]);
+    const production = await getSnapshot('Production', [
+      { name: 'Apollo 11', budget: '25', launched: new Date() },
+    ]);
+
+    const drift = diffSchemaSnapshots(staging, production);
+
+    expect(drift).to.deep.equal([
+      {
+        path: 'budget',
+        change: 'typesChanged',
+        baseTypes: ['Number'],
+        compareTypes: ['String'],
+      },
+      {
+        path: 'crew',
+        change: 'removed',
+        baseTypes: ['Array'],
+        compareTypes: [],
+      },
+      {
+        path: 'crew[]',
+        change: 'removed',
+        baseTypes: ['String'],
+        compareTypes: [],
+      },
+      {
+        path: 'launched',
+        change: 'added',
+        baseTypes: [],
+        compareTypes: ['Date'],
+      },
+    ]);
+    expect(getSchemaDriftSummary(drift)).to.equal(
+      '1 field added, 2 removed, 1 with changed types',
+    );
+    expect(diffSchemaSnapshots(staging, staging)).to.deep.equal([]);
+  });
+
+  test('parses serialized snapshots and rejects other files', async () => {
+    const snapshot = await getSnapshot('Staging', [{ name: 'Apollo 11' }]);
+
+    expect(
+      parseSchemaSnapshot(serializeSchemaSnapshot(snapshot)),
+    ).to.deep.equal(snapshot);
+    expect(() => parseSchemaSnapshot('{')).to.throw(
+      'The file is not valid JSON.',
+    );
+    expect(() => parseSchemaSnapshot('{"fields":[]}')).to.throw(
+      'The file is not a schema snapshot.',
+    );
+    expect(() =>
+      parseSchemaSnapshot(JSON.stringify({ ...snapshot, version: 2 })),
+    ).to.throw('Unsupported schema snapshot version: 2.');
+  });
+});
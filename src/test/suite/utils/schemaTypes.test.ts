@@ -0,0 +1,97 @@
+import { expect } from 'chai';
+import { Decimal128, ObjectId } from 'bson';
+import type { Schema } from 'mongodb-schema';
+
+import {
+  generateSchemaTypes,
+  getSchemaTypeName,
+} from '../../../utils/schemaTypes';
+import { parseSampledDocumentsSchema } from '../../../explorer/schemaTreeItem';
+
+suite('Schema Types Test Suite', () => {
+  let schema: Schema;
+
+  suiteSetup(async () => {
+    schema = (await parseSampledDocumentsSchema('space.missions', [
+      {
+        _id: new ObjectId(),
+        name: 'Apollo 11',
+        budget: Decimal128.fromString('25.4'),
+        crew: [{ name: 'Armstrong' }],
+        tags: ['moon', 'moon', 1],
+        launched: new Date('1969-07-16T13:32:00.000Z'),
+      },
+      {
+        _id: new ObjectId(),
+        name: 'Apollo 13',
+        budget: Decimal128.fromString('25.4'),
+        crew: [],
+        tags: ['moon'],
+      },
+    ])) as Schema;
+  });
+
+  const generate = (language: 'typescript' | 'zod' | 'mongoose'): string =>
+    generateSchemaTypes(schema, {
+      language,
+      databaseName: 'space',
+      collectionName: 'missions',
+    });
+
+  test('generates TypeScript interfaces', () => {
+    const code = generate('typescript');
+
+    expect(code).to.match(
+      /^import type \{ Decimal128, ObjectId \} from 'mongodb';\n/,
+    );
+    expect(code).to.include(
+      '// Generated from 2 sampled documents of space.missions.\nexport interface Missions {\n',
+    );
+    expect(code).to.include('  _id: ObjectId;\n');
+    expect(code).to.include('  budget: Decimal128;\n');
+    expect(code).to.include('  crew: {\n    name: string;\n  }[];\n');
+    expect(code).to.include('  launched?: Date;\n');
+    expect(code).to.include('  tags: (string | number)[];\n');
+  });
+
+  test('generates Zod schemas', () => {
+    const code = generate('zod');
+
+    expect(code).to.match(
+      /^import \{ z \} from 'zod';\nimport \{ Decimal128, ObjectId \} from 'mongodb';\n/,
+    );
+    expect(code).to.include('export const MissionsSchema = z.object({\n');
+    expect(code).to.include('  _id: z.instanceof(ObjectId),\n');
+    expect(code).to.include('  launched: z.date().optional(),\n');
+    expect(code).to.include(
+      '  tags: z.array(z.union([z.string(), z.number()])),\n',
+    );
+    expect(code).to.include(
+      'export type Missions = z.infer<typeof MissionsSchema>;\n',
+    );
+  });
+
+  test('generates a Mongoose schema', () => {
+    const code = generate('mongoose');
+
+    expect(code).to.not.include('_id');
+    expect(code).to.include('const missionsSchema = new Schema({\n');
+    expect(code).to.include('  name: { type: String, required: true },\n');
+    expect(code).to.include(
+      '  budget: { type: Schema.Types.Decimal128, required: true },\n',
+    );
+    expect(code).to.include(
+      '  crew: [{\n    name: { type: String, required: true },\n  }],\n',
+    );
+    expect(code).to.include('  launched: Date,\n');
+    expect(code).to.include('  tags: [Schema.Types.Mixed],\n');
+    expect(code).to.include(
+      "export const Missions = model('Missions', missionsSchema, 'missions');\n",
+    );
+  });
+
+  test('derives type names from collection names', () => {
+    expect(getSchemaTypeName('user_events')).to.equal('UserEvents');
+    expect(getSchemaTypeName('2024.orders')).to.equal('_2024Orders');
+  });
+});
@@ -0,0 +1,42 @@
+import { expect } from 'chai';
+
+import { escapeHtml, getWebviewPageHtml } from '../../../views/webviewHtml';
+
+suite('Webview HTML Test Suite', () => {
+  test('escapeHtml escapes the characters of markup and attributes', () => {
+    expect(escapeHtml(`<img src="x" onerror='alert(1)'>&`)).to.equal(
+      '&lt;img src=&quot;x&quot; onerror=&#39;alert(1)&#39;&gt;&amp;',
+    );
+  });
+
+  test('only allows scripts when the page has scripts', () => {
+    const page = getWebviewPageHtml({
+      title: 'Explain Plan',
+      style: '',
+      body: '<p>Explained</p>',
+    });
+
+    expect(page).to.include("default-src 'none'; style-src 'nonce-");
+    expect(page).to.not.include('script-src');
+    expect(page).to.not.include('<script');
+  });
+
+  test('marks the scripts of the page with the nonce of its policy', () => {
+    const page = getWebviewPageHtml({
+      title: 'Playground Results',
+      style: '',
+      body: '',
+      scripts: [
+        { id: 'results-data', type: 'application/json', content: '[]' },
+        { content: 'render();' },
+      ],
+    });
+    const nonce = /script-src 'nonce-([^']+)'/.exec(page)?.[1];
+
+    expect(nonce).to.be.a('string');
+    expect(page).to.include(
+      `<script nonce="${nonce}" id="results-data" type="application/json">[]</script>`,
+    );
+    expect(page).to.include(`<script nonce="${nonce}">render();</script>`);
+  });
+});
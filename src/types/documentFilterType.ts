@@ -0,0 +1,9 @@
+import type { Document } from 'bson';
+
+// The query options a user can save on a collection's document list. They are
+// applied both in the tree view and when viewing the collection's documents.
+export type DocumentFilter = {
+  filter: Document;
+  projection?: Document;
+  sort?: Document;
+};
@@ -28,6 +28,10 @@ export type ShellEvaluateResult = {
 export type PlaygroundEvaluateParams = {
   codeToEvaluate: string;
   connectionId: string;
+  // When provided, the playground runs against this connection
+  // instead of the language server's current connection.
+  connectionString?: string;
+  connectionOptions?: MongoClientOptions;
   filePath?: string;
 };
 
@@ -1,3 +1,6 @@
 declare module 'mongodb-query-parser' {
   const toJSString: (object: any, indentation?: number) => string;
+  const isFilterValid: (input: string) => any;
+  const isProjectValid: (input: string) => false | object | null;
+  const isSortValid: (input: string) => false | object | null;
 }
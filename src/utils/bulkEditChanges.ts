@@ -0,0 +1,90 @@
+import { EJSON } from 'bson';
+import type { Document } from 'bson';
+
+export type BulkEditChanges = {
+  inserts: Document[];
+  updates: Document[];
+  deletes: any[];
+};
+
+const getComparableValue = (value: unknown): string =>
+  EJSON.stringify(value, { relaxed: false });
+
+const isDocument = (value: unknown): boolean =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// Compares the documents of a bulk edit with the documents that were
+// originally fetched. Documents are matched by `_id`, edited documents
+// without a matching original `_id` are inserted.
+export function getBulkEditChanges(
+  originalDocuments: Document[],
+  editedDocuments: Document[],
+): BulkEditChanges {
+  const originalsById = new Map<string, Document>();
+
+  for (const document of originalDocuments) {
+    originalsById.set(getComparableValue(document._id), document);
+  }
+
+  const changes: BulkEditChanges = { inserts: [], updates: [], deletes: [] };
+  const editedIds = new Set<string>();
+
+  for (const document of editedDocuments) {
+    if (!isDocument(document)) {
+      throw new Error('every item of the array must be a document');
+    }
+
+    if (document._id === undefined) {
+      changes.inserts.push(document);
+      continue;
+    }
+
+    const id = getComparableValue(document._id);
+
+    if (editedIds.has(id)) {
+      throw new Error(`duplicate _id ${EJSON.stringify(document._id)}`);
+    }
+    editedIds.add(id);
+
+    const originalDocument = originalsById.get(id);
+
+    if (!originalDocument) {
+      changes.inserts.push(document);
+    } else if (
+      getComparableValue(originalDocument) !== getComparableValue(document)
+    ) {
+      changes.updates.push(document);
+    }
+  }
+
+  for (const [id, document] of originalsById) {
+    if (!editedIds.has(id)) {
+      changes.deletes.push(document._id);
+    }
+  }
+
+  return changes;
+}
+
+export function getBulkEditSummary({
+  inserts,
+  updates,
+  deletes,
+}: BulkEditChanges): string {
+  const plural = (count: number, word: string): string =>
+    `${count} ${word}${count === 1 ? '' : 's'}`;
+
+  return [
+    plural(inserts.length, 'insert'),
+    plural(updates.length, 'update'),
+    plural(deletes.length, 'delete'),
+  ].join(', ');
+}
+
+export function hasBulkEditChanges({
+  inserts,
+  updates,
+  deletes,
+}: BulkEditChanges): boolean {
+  return inserts.length + updates.length + deletes.length > 0;
+}
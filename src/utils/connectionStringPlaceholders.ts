@@ -0,0 +1,157 @@
+import { exec } from 'child_process';
+import fs from 'fs/promises';
+import path from 'path';
+import { promisify } from 'util';
+import { parse as parseDotenv } from 'dotenv';
+
+import formatError from './formatError';
+
+const execAsync = promisify(exec);
+
+// Preset connection strings can contain placeholders, for example
+// mongodb://admin:${env:MONGO_PASSWORD}@localhost:27017, that are resolved
+// when connecting so that no secret needs to be stored in the settings:
+// - ${env:NAME} is the environment variable NAME.
+// - ${dotenv:NAME} is the variable NAME of the .env file of the workspace.
+// - ${command:NAME} is the output of the command configured as NAME in the
+//   mdb.connectionStringCommands user setting.
+const PLACEHOLDER_REGEX = /\$\{(env|dotenv|command):([^}]+)\}/g;
+
+const COMMAND_TIMEOUT_MS = 30000;
+
+export type ConnectionStringPlaceholderOptions = {
+  env: NodeJS.ProcessEnv;
+  workspaceFolder?: string;
+  commands: { [commandName: string]: string };
+};
+
+// Values in the hosts of the connection string are inserted as they are, so
+// that a placeholder can hold a host name or the whole connection string.
+// Everywhere else they are URL encoded, as passwords often contain
+// characters like @ or / that would otherwise change the connection string.
+function getHostsRange(connectionString: string): [number, number] {
+  const schemeEnd = connectionString.indexOf('://');
+
+  if (schemeEnd === -1) {
+    return [0, connectionString.length];
+  }
+
+  const credentialsEnd = connectionString.indexOf('@', schemeEnd + 3);
+  const hostsStart = credentialsEnd === -1 ? schemeEnd + 3 : credentialsEnd + 1;
+  const hostsEnd = connectionString.slice(hostsStart).search(/[/?]/);
+
+  return [
+    hostsStart,
+    hostsEnd === -1 ? connectionString.length : hostsStart + hostsEnd,
+  ];
+}
+
+async function loadDotenv(
+  workspaceFolder: string | undefined,
+): Promise<{ [name: string]: string }> {
+  if (!workspaceFolder) {
+    throw new Error('no workspace folder is open to read the .env file from');
+  }
+
+  try {
+    return parseDotenv(
+      await fs.readFile(path.join(workspaceFolder, '.env'), 'utf8'),
+    );
+  } catch (error) {
+    throw new Error(`the .env file of ${workspaceFolder} could not be read`);
+  }
+}
+
+async function resolvePlaceholder(
+  provider: string,
+  name: string,
+  {
+    env,
+    workspaceFolder,
+    commands,
+    getDotenv,
+  }: ConnectionStringPlaceholderOptions & {
+    getDotenv: () => Promise<{ [name: string]: string }>;
+  },
+): Promise<string> {
+  let value: string | undefined;
+
+  if (provider === 'env') {
+    value = env[name];
+
+    if (value === undefined) {
+      throw new Error(`the environment variable ${name} is not set`);
+    }
+  } else if (provider === 'dotenv') {
+    value = (await getDotenv())[name];
+
+    if (value === undefined) {
+      throw new Error(`${name} is not set in the .env file`);
+    }
+  } else {
+    const command = commands[name];
+
+    if (!command) {
+      throw new Error(
+        `no command named ${name} is configured in mdb.connectionStringCommands`,
+      );
+    }
+
+    try {
+      const { stdout } = await execAsync(command, {
+        cwd: workspaceFolder,
+        timeout: COMMAND_TIMEOUT_MS,
+      });
+      value = stdout.trim();
+    } catch (error) {
+      throw new Error(`the command ${name} failed`);
+    }
+  }
+
+  return value;
+}
+
+export function hasConnectionStringPlaceholders(
+  connectionString: string,
+): boolean {
+  return connectionString.search(PLACEHOLDER_REGEX) !== -1;
+}
+
+export async function resolveConnectionStringPlaceholders(
+  connectionString: string,
+  options: ConnectionStringPlaceholderOptions,
+): Promise<string> {
+  const [hostsStart, hostsEnd] = getHostsRange(connectionString);
+  let dotenv: Promise<{ [name: string]: string }> | undefined;
+  const getDotenv = (): Promise<{ [name: string]: string }> =>
+    (dotenv ??= loadDotenv(options.workspaceFolder));
+
+  let resolvedConnectionString = '';
+  let lastIndex = 0;
+
+  for (const match of connectionString.matchAll(PLACEHOLDER_REGEX)) {
+    const [placeholder, provider, name] = match;
+    const index = match.index ?? 0;
+    let value: string;
+
+    try {
+      value = await resolvePlaceholder(provider, name, {
+        ...options,
+        getDotenv,
+      });
+    } catch (error) {
+      throw new Error(
+        `Unable to resolve ${placeholder}: ${formatError(error).message}.`,
+      );
+    }
+
+    resolvedConnectionString += `${connectionString.slice(lastIndex, index)}${
+      index >= hostsStart && index < hostsEnd
+        ? value
+        : encodeURIComponent(value)
+    }`;
+    lastIndex = index + placeholder.length;
+  }
+
+  return `${resolvedConnectionString}${connectionString.slice(lastIndex)}`;
+}
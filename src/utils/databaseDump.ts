@@ -0,0 +1,311 @@
+import fs from 'fs';
+import path from 'path';
+import { BSON, EJSON } from 'bson';
+import type { Document } from 'bson';
+import type { DataService } from 'mongodb-data-service';
+
+import { getIndexCreateOptions } from '../explorer/indexTreeItem';
+import type { ImportFailure, ImportRow } from './documentsImport';
+import { importDocuments, readImportRows } from './documentsImport';
+import { createFileWriter } from './fileWriter';
+
+export type DumpDataFormat = 'bson' | 'ejson';
+
+// The metadata file of a collection, named like the ones `mongodump`
+// writes so the dumps are easy to inspect.
+export type CollectionDumpMetadata = {
+  collectionName: string;
+  type: string;
+  options: Document;
+  indexes: Document[];
+};
+
+export type DumpedCollection = {
+  metadata: CollectionDumpMetadata;
+  dataFilePath?: string;
+};
+
+const METADATA_FILE_SUFFIX = '.metadata.json';
+const DATA_FILE_EXTENSIONS: { [format in DumpDataFormat]: string } = {
+  bson: '.bson',
+  ejson: '.json',
+};
+const RESTORE_BATCH_SIZE = 1000;
+
+type CollectionDetails = NonNullable<
+  Awaited<ReturnType<DataService['collectionInfo']>>
+>;
+
+// The key, name and options of indexes as `createIndexes` takes them.
+export function getIndexSpecifications(
+  indexes: { key: Document; name: string; extra?: Document }[],
+): Document[] {
+  return indexes.map((index) => ({
+    ...getIndexCreateOptions(index),
+    key: index.key,
+    name: index.name,
+  }));
+}
+
+// Creates the indexes on the collection, except the `_id` index
+// every collection has.
+export async function createIndexes(
+  dataService: DataService,
+  namespace: string,
+  indexSpecifications: Document[],
+): Promise<void> {
+  for (const { key, name, ...options } of indexSpecifications) {
+    if (name !== '_id_') {
+      await dataService.createIndex(namespace, key, { ...options, name });
+    }
+  }
+}
+
+// Only the options the data service reports are kept, time series and
+// capped options are not, those collections are restored as regular ones.
+export function getCollectionDumpMetadata(
+  collectionName: string,
+  collectionInfo: Pick<
+    CollectionDetails,
+    'type' | 'collation' | 'validation' | 'view_on' | 'pipeline'
+  > | null,
+  indexes: { key: Document; name: string; extra?: Document }[],
+): CollectionDumpMetadata {
+  const {
+    collation,
+    validation,
+    view_on: viewOn,
+    pipeline,
+  } = collectionInfo ?? {};
+
+  return {
+    collectionName,
+    type: collectionInfo?.type ?? 'collection',
+    options: {
+      ...(collation ? { collation } : {}),
+      ...(validation ? validation : {}),
+      ...(viewOn ? { viewOn, pipeline: pipeline ?? [] } : {}),
+    },
+    indexes: getIndexSpecifications(indexes),
+  };
+}
+
+// Collection names can contain characters, like `/`, that are not allowed
+// in file names, so those are percent encoded.
+export function getDumpFileName(collectionName: string): string {
+  return encodeURIComponent(collectionName).replace(
+    /[!'()*~]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+}
+
+/**
+ * Writes the documents of a collection to `<collection>.bson` or
+ * `<collection>.json` and its options and indexes to a metadata file.
+ * Views only have a metadata file.
+ */
+export async function dumpCollection({
+  dataService,
+  databaseName,
+  collectionName,
+  folderPath,
+  format,
+  isCancelled = (): boolean => false,
+}: {
+  dataService: DataService;
+  databaseName: string;
+  collectionName: string;
+  folderPath: string;
+  format: DumpDataFormat;
+  isCancelled?: () => boolean;
+}): Promise<number> {
+  const namespace = `${databaseName}.${collectionName}`;
+  const collectionInfo = await dataService.collectionInfo(
+    databaseName,
+    collectionName,
+  );
+  const isView = collectionInfo?.type === 'view';
+  const metadata = getCollectionDumpMetadata(
+    collectionName,
+    collectionInfo,
+    isView ? [] : await dataService.indexes(namespace),
+  );
+
+  await fs.promises.mkdir(folderPath, { recursive: true });
+  await fs.promises.writeFile(
+    path.join(
+      folderPath,
+      `${getDumpFileName(collectionName)}${METADATA_FILE_SUFFIX}`,
+    ),
+    EJSON.stringify(metadata, undefined, 2, { relaxed: false }),
+  );
+
+  if (isView) {
+    return 0;
+  }
+
+  const writer = createFileWriter(
+    path.join(
+      folderPath,
+      `${getDumpFileName(collectionName)}${DATA_FILE_EXTENSIONS[format]}`,
+    ),
+  );
+  const cursor = dataService.findCursor(
+    namespace,
+    {},
+    { promoteValues: false },
+  );
+  let count = 0;
+
+  try {
+    for await (const document of cursor) {
+      if (isCancelled()) {
+        break;
+      }
+
+      await writer.write(
+        format === 'bson'
+          ? BSON.serialize(document)
+          : `${EJSON.stringify(document, { relaxed: false })}\n`,
+      );
+      count++;
+    }
+  } finally {
+    await cursor.close();
+    await writer.close();
+  }
+
+  return count;
+}
+
+// Reads the documents of a `.bson` file, which are stored one after
+// the other, each starting with its size.
+export async function* readBSONFileRows(
+  filePath: string,
+): AsyncGenerator<ImportRow> {
+  const stream = fs.createReadStream(filePath);
+  let buffer = Buffer.alloc(0);
+  let row = 0;
+
+  try {
+    for await (const chunk of stream) {
+      buffer = Buffer.concat([buffer, chunk as Buffer]);
+
+      while (buffer.length >= 4 && buffer.length >= buffer.readInt32LE(0)) {
+        const size = buffer.readInt32LE(0);
+
+        row++;
+        yield {
+          row,
+          document: BSON.deserialize(buffer.subarray(0, size), {
+            promoteValues: false,
+          }),
+        };
+        buffer = buffer.subarray(size);
+      }
+    }
+  } finally {
+    stream.destroy();
+  }
+
+  if (buffer.length > 0) {
+    throw new Error(
+      `${path.basename(filePath)} ends with an incomplete document`,
+    );
+  }
+}
+
+export async function listDumpedCollections(
+  folderPath: string,
+): Promise<DumpedCollection[]> {
+  const fileNames = await fs.promises.readdir(folderPath);
+  const dumpedCollections: DumpedCollection[] = [];
+
+  for (const fileName of fileNames) {
+    if (!fileName.endsWith(METADATA_FILE_SUFFIX)) {
+      continue;
+    }
+
+    // Relaxed, so index keys and options are plain numbers again.
+    const metadata = EJSON.parse(
+      await fs.promises.readFile(path.join(folderPath, fileName), 'utf8'),
+    ) as CollectionDumpMetadata;
+    const dataFileName = Object.values(DATA_FILE_EXTENSIONS)
+      .map(
+        (extension) =>
+          `${getDumpFileName(metadata.collectionName)}${extension}`,
+      )
+      .find((name) => fileNames.includes(name));
+
+    dumpedCollections.push({
+      metadata,
+      dataFilePath: dataFileName && path.join(folderPath, dataFileName),
+    });
+  }
+
+  // Views are created last, the collections they are defined on
+  // might be in the same dump.
+  return dumpedCollections.sort(
+    (a, b) =>
+      Number(a.metadata.type === 'view') - Number(b.metadata.type === 'view'),
+  );
+}
+
+/**
+ * Creates the collection or view of a dump with its options and indexes,
+ * then inserts its documents. Documents that can not be inserted, like
+ * duplicates of existing ones, are passed to `onFailure`.
+ */
+export async function restoreCollection({
+  dataService,
+  databaseName,
+  dumpedCollection,
+  exists,
+  onFailure,
+  isCancelled,
+}: {
+  dataService: DataService;
+  databaseName: string;
+  dumpedCollection: DumpedCollection;
+  exists: boolean;
+  onFailure: (failure: ImportFailure) => Promise<void>;
+  isCancelled?: () => boolean;
+}): Promise<{ insertedCount: number; failedCount: number }> {
+  const { metadata, dataFilePath } = dumpedCollection;
+  const namespace = `${databaseName}.${metadata.collectionName}`;
+  const { viewOn, pipeline, ...options } = metadata.options;
+
+  if (metadata.type === 'view') {
+    if (!exists) {
+      await dataService.createView(
+        metadata.collectionName,
+        `${databaseName}.${viewOn}`,
+        pipeline,
+        options,
+      );
+    }
+
+    return { insertedCount: 0, failedCount: 0 };
+  }
+
+  if (!exists) {
+    await dataService.createCollection(namespace, options);
+  }
+
+  await createIndexes(dataService, namespace, metadata.indexes);
+
+  if (!dataFilePath) {
+    return { insertedCount: 0, failedCount: 0 };
+  }
+
+  return importDocuments({
+    rows: dataFilePath.endsWith(DATA_FILE_EXTENSIONS.bson)
+      ? readBSONFileRows(dataFilePath)
+      : readImportRows({ filePath: dataFilePath, format: 'ndjson' }),
+    batchSize: RESTORE_BATCH_SIZE,
+    insertMany: (documents) =>
+      dataService.insertMany(namespace, documents, { ordered: false }),
+    onFailure,
+    isCancelled,
+  });
+}
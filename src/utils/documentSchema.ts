@@ -0,0 +1,343 @@
+import type { Schema, SchemaField, SchemaType } from 'mongodb-schema';
+
+import type { JSONNode, JSONPath } from './jsonTree';
+import { getJSONProperties } from './jsonTree';
+
+// The subset of a MongoDB `$jsonSchema` we use to describe documents,
+// both when it comes from a collection validator and from sampled documents.
+export type DocumentJSONSchema = {
+  bsonType?: string | string[];
+  type?: string | string[];
+  properties?: { [fieldName: string]: DocumentJSONSchema };
+  required?: string[];
+  additionalProperties?: boolean | DocumentJSONSchema;
+  items?: DocumentJSONSchema | DocumentJSONSchema[];
+  description?: string;
+};
+
+export type DocumentSchemaSource = 'validator' | 'sample';
+
+export type DocumentSchemaProblem = {
+  offset: number;
+  length: number;
+  message: string;
+};
+
+const SAMPLED_TYPE_TO_BSON_TYPE: { [typeName: string]: string } = {
+  Array: 'array',
+  Binary: 'binData',
+  Boolean: 'bool',
+  Code: 'javascript',
+  Date: 'date',
+  DBRef: 'object',
+  Decimal128: 'decimal',
+  Document: 'object',
+  Double: 'double',
+  Int32: 'int',
+  Long: 'long',
+  MaxKey: 'maxKey',
+  MinKey: 'minKey',
+  Null: 'null',
+  Number: 'double',
+  ObjectId: 'objectId',
+  RegExp: 'regex',
+  String: 'string',
+  Symbol: 'symbol',
+  Timestamp: 'timestamp',
+  Undefined: 'undefined',
+};
+
+// JSON Schema `type` names and the `number` alias map to BSON types.
+const TYPE_ALIASES: { [typeName: string]: string[] } = {
+  number: ['double', 'int', 'long', 'decimal'],
+  integer: ['int', 'long'],
+  boolean: ['bool'],
+};
+
+const NUMERIC_BSON_TYPES = ['double', 'int', 'long', 'decimal'];
+
+// The BSON type of a value in relaxed extended JSON, keyed by its wrapper.
+const EJSON_WRAPPER_TO_BSON_TYPE: { [wrapperKey: string]: string } = {
+  $binary: 'binData',
+  $code: 'javascript',
+  $date: 'date',
+  $maxKey: 'maxKey',
+  $minKey: 'minKey',
+  $numberDecimal: 'decimal',
+  $numberDouble: 'double',
+  $numberInt: 'int',
+  $numberLong: 'long',
+  $oid: 'objectId',
+  $regularExpression: 'regex',
+  $symbol: 'symbol',
+  $timestamp: 'timestamp',
+  $undefined: 'undefined',
+  $uuid: 'binData',
+};
+
+function getSchemaFromSampledTypes(types: SchemaType[]): DocumentJSONSchema {
+  const bsonTypes = [
+    ...new Set(types.map((type) => SAMPLED_TYPE_TO_BSON_TYPE[type.name])),
+  ].filter(Boolean);
+  const schema: DocumentJSONSchema = {
+    bsonType: bsonTypes.length === 1 ? bsonTypes[0] : bsonTypes,
+  };
+
+  for (const type of types) {
+    if ('fields' in type) {
+      schema.properties = getPropertiesFromSampledFields(type.fields);
+    }
+
+    if ('types' in type) {
+      schema.items = getSchemaFromSampledTypes(type.types);
+    }
+  }
+
+  return schema;
+}
+
+function getPropertiesFromSampledFields(fields: SchemaField[]): {
+  [fieldName: string]: DocumentJSONSchema;
+} {
+  return Object.fromEntries(
+    fields.map((field) => [
+      field.name,
+      {
+        ...getSchemaFromSampledTypes(field.types),
+        description: `Found in ${Math.round(
+          field.probability * 100,
+        )}% of the sampled documents.`,
+      },
+    ]),
+  );
+}
+
+// Converts the schema `parseSchema` derives from sampled documents.
+export function getDocumentSchemaFromSample(
+  schema: Schema,
+): DocumentJSONSchema {
+  return {
+    bsonType: 'object',
+    properties: getPropertiesFromSampledFields(schema.fields),
+  };
+}
+
+function getValidatorSchemaFromSampledTypes(
+  types: SchemaType[],
+): DocumentJSONSchema {
+  // A missing field is sampled as `Undefined`, the validator marks
+  // the fields that are never missing as required instead.
+  const definedTypes = types.filter(({ name }) => name !== 'Undefined');
+  const bsonTypes = [
+    ...new Set(
+      definedTypes.map(({ name }) =>
+        // Sampled numbers lose their BSON type, so all numbers are allowed.
+        name === 'Number' ? 'number' : SAMPLED_TYPE_TO_BSON_TYPE[name],
+      ),
+    ),
+  ].filter(Boolean);
+  const schema: DocumentJSONSchema =
+    bsonTypes.length > 0
+      ? { bsonType: bsonTypes.length === 1 ? bsonTypes[0] : bsonTypes }
+      : {};
+
+  for (const type of definedTypes) {
+    if ('fields' in type) {
+      Object.assign(schema, getValidatorSchemaFromSampledFields(type.fields));
+    }
+
+    if ('types' in type && type.types.length > 0) {
+      schema.items = getValidatorSchemaFromSampledTypes(type.types);
+    }
+  }
+
+  return schema;
+}
+
+function getValidatorSchemaFromSampledFields(
+  fields: SchemaField[],
+): Pick<DocumentJSONSchema, 'required' | 'properties'> {
+  const required = fields
+    .filter(({ probability }) => probability === 1)
+    .map(({ name }) => name);
+
+  return {
+    ...(required.length > 0 ? { required } : {}),
+    properties: Object.fromEntries(
+      fields.map((field) => [
+        field.name,
+        getValidatorSchemaFromSampledTypes(field.types),
+      ]),
+    ),
+  };
+}
+
+/**
+ * Drafts a `$jsonSchema` validator from the schema `parseSchema` derives
+ * from sampled documents. Fields present in every sampled document are
+ * required and fields with several types allow all of them.
+ */
+export function getJsonSchemaValidatorFromSample(schema: Schema): {
+  $jsonSchema: DocumentJSONSchema;
+} {
+  return {
+    $jsonSchema: {
+      bsonType: 'object',
+      ...getValidatorSchemaFromSampledFields(schema.fields),
+    },
+  };
+}
+
+export function getSchemaBsonTypes(schema: DocumentJSONSchema): string[] {
+  const types = [schema.bsonType ?? [], schema.type ?? []].flat();
+
+  return [...new Set(types.flatMap((type) => TYPE_ALIASES[type] ?? type))];
+}
+
+export function getSchemaAtPath(
+  schema: DocumentJSONSchema,
+  path: JSONPath,
+): DocumentJSONSchema | undefined {
+  let current: DocumentJSONSchema | undefined = schema;
+
+  for (const segment of path) {
+    if (!current) {
+      return undefined;
+    }
+
+    if (typeof segment === 'number') {
+      current = Array.isArray(current.items)
+        ? current.items[segment]
+        : current.items;
+    } else {
+      current = current.properties?.[segment];
+    }
+  }
+
+  return current;
+}
+
+function getEJSONWrapperKey(node: JSONNode): string | undefined {
+  const [firstProperty] = node.type === 'object' ? getJSONProperties(node) : [];
+
+  return firstProperty && firstProperty.key in EJSON_WRAPPER_TO_BSON_TYPE
+    ? firstProperty.key
+    : undefined;
+}
+
+export function getBsonTypeOfJSONNode(node: JSONNode): string {
+  const ejsonWrapperKey = getEJSONWrapperKey(node);
+
+  switch (node.type) {
+    case 'object':
+      return ejsonWrapperKey
+        ? EJSON_WRAPPER_TO_BSON_TYPE[ejsonWrapperKey]
+        : 'object';
+    case 'array':
+      return 'array';
+    case 'boolean':
+      return 'bool';
+    case 'number':
+      return Number.isInteger(node.value) ? 'int' : 'double';
+    default:
+      return node.type;
+  }
+}
+
+function isTypeAllowed(actualType: string, allowedTypes: string[]): boolean {
+  // Relaxed extended JSON does not tell the numeric types apart.
+  if (NUMERIC_BSON_TYPES.includes(actualType)) {
+    return allowedTypes.some((type) => NUMERIC_BSON_TYPES.includes(type));
+  }
+
+  return allowedTypes.includes(actualType);
+}
+
+function getObjectProblems(
+  node: JSONNode,
+  schema: DocumentJSONSchema,
+  source: DocumentSchemaSource,
+): DocumentSchemaProblem[] {
+  const problems: DocumentSchemaProblem[] = [];
+  const properties = getJSONProperties(node);
+  const fieldNames = properties.map(({ key }) => key);
+
+  for (const requiredField of schema.required ?? []) {
+    if (!fieldNames.includes(requiredField)) {
+      problems.push({
+        offset: node.offset,
+        length: 1,
+        message: `Missing required field '${requiredField}'.`,
+      });
+    }
+  }
+
+  for (const property of properties) {
+    const propertySchema = schema.properties?.[property.key];
+
+    if (propertySchema) {
+      problems.push(
+        ...getDocumentSchemaProblems(property.value, propertySchema, source),
+      );
+      continue;
+    }
+
+    const isUnknownField =
+      source === 'validator'
+        ? schema.additionalProperties === false
+        : schema.properties !== undefined;
+
+    if (isUnknownField) {
+      problems.push({
+        offset: property.keyOffset,
+        length: property.keyLength,
+        message:
+          source === 'validator'
+            ? `Field '${property.key}' is not allowed by the collection's $jsonSchema validator.`
+            : `Field '${property.key}' was not found in the sampled documents of the collection.`,
+      });
+    }
+  }
+
+  return problems;
+}
+
+// Checks a parsed document against the schema and returns the problems found.
+export function getDocumentSchemaProblems(
+  node: JSONNode,
+  schema: DocumentJSONSchema,
+  source: DocumentSchemaSource,
+): DocumentSchemaProblem[] {
+  const allowedTypes = getSchemaBsonTypes(schema);
+  const actualType = getBsonTypeOfJSONNode(node);
+
+  if (allowedTypes.length > 0 && !isTypeAllowed(actualType, allowedTypes)) {
+    return [
+      {
+        offset: node.offset,
+        length: node.length,
+        message: `Expected type ${allowedTypes.join(
+          ' or ',
+        )} but found ${actualType}.`,
+      },
+    ];
+  }
+
+  if (node.type === 'object' && !getEJSONWrapperKey(node)) {
+    return getObjectProblems(node, schema, source);
+  }
+
+  if (node.type === 'array' && schema.items) {
+    return (node.children ?? []).flatMap((item, index) => {
+      const itemSchema = Array.isArray(schema.items)
+        ? schema.items[index]
+        : schema.items;
+
+      return itemSchema
+        ? getDocumentSchemaProblems(item, itemSchema, source)
+        : [];
+    });
+  }
+
+  return [];
+}
@@ -0,0 +1,106 @@
+import { EJSON } from 'bson';
+import type { Document } from 'bson';
+
+export type DocumentUpdate = {
+  $set?: Document;
+  $unset?: Document;
+};
+
+const isPlainObject = (value: unknown): value is Document =>
+  value !== null &&
+  typeof value === 'object' &&
+  Object.getPrototypeOf(value) === Object.prototype;
+
+const isEqualValue = (a: unknown, b: unknown): boolean =>
+  EJSON.stringify(a, { relaxed: false }) ===
+  EJSON.stringify(b, { relaxed: false });
+
+// Field names with a dot or a leading dollar sign can not be used in a path.
+const isPathSafeKey = (key: string): boolean =>
+  !key.includes('.') && !key.startsWith('$');
+
+function collectChangedPaths(
+  original: Document,
+  edited: Document,
+  prefix: string,
+  update: Required<DocumentUpdate>,
+): void {
+  for (const [key, value] of Object.entries(edited)) {
+    const path = `${prefix}${key}`;
+
+    if (!Object.prototype.hasOwnProperty.call(original, key)) {
+      update.$set[path] = value;
+    } else if (isPlainObject(original[key]) && isPlainObject(value)) {
+      // Sub-documents we can not address field by field are set as a whole.
+      if (
+        [...Object.keys(original[key]), ...Object.keys(value)].every(
+          isPathSafeKey,
+        )
+      ) {
+        collectChangedPaths(original[key], value, `${path}.`, update);
+      } else if (!isEqualValue(original[key], value)) {
+        update.$set[path] = value;
+      }
+    } else if (!isEqualValue(original[key], value)) {
+      update.$set[path] = value;
+    }
+  }
+
+  for (const key of Object.keys(original)) {
+    if (!Object.prototype.hasOwnProperty.call(edited, key)) {
+      update.$unset[`${prefix}${key}`] = '';
+    }
+  }
+}
+
+// The value of a field by its path in the update, undefined when the field
+// or one of its parents is missing.
+export function getValueAtPath(document: Document, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>(
+      (value, key) =>
+        isPlainObject(value) && Object.prototype.hasOwnProperty.call(value, key)
+          ? value[key]
+          : undefined,
+      document,
+    );
+}
+
+export function getDocumentUpdatePaths(update: DocumentUpdate): string[] {
+  return [
+    ...Object.keys(update.$set ?? {}),
+    ...Object.keys(update.$unset ?? {}),
+  ];
+}
+
+// Diffs the edited document against the original one and returns an update
+// with only the changed paths. Arrays and values are replaced as a whole.
+export function getDocumentUpdate(
+  originalDocument: Document,
+  editedDocument: Document,
+): DocumentUpdate {
+  if (!isEqualValue(originalDocument._id, editedDocument._id)) {
+    throw new Error('the _id of a document can not be changed');
+  }
+
+  const unsafeKey = [
+    ...Object.keys(originalDocument),
+    ...Object.keys(editedDocument),
+  ].find((key) => !isPathSafeKey(key));
+
+  if (unsafeKey) {
+    throw new Error(
+      `the field '${unsafeKey}' can not be updated by path, save the document by replacing it instead`,
+    );
+  }
+
+  const update = { $set: {}, $unset: {} };
+
+  collectChangedPaths(originalDocument, editedDocument, '', update);
+
+  return {
+    ...(Object.keys(update.$set).length > 0 ? { $set: update.$set } : {}),
+    ...(Object.keys(update.$unset).length > 0 ? { $unset: update.$unset } : {}),
+  };
+}
@@ -0,0 +1,545 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { EJSON, ObjectId } from 'bson';
+import type { Document } from 'bson';
+
+export type ImportFileFormat = 'json' | 'ndjson' | 'csv';
+
+export type CsvFieldType =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'date'
+  | 'objectId'
+  | 'json'
+  | 'skip';
+
+export const CSV_FIELD_TYPES: CsvFieldType[] = [
+  'string',
+  'number',
+  'boolean',
+  'date',
+  'objectId',
+  'json',
+  'skip',
+];
+
+export type CsvColumn = {
+  name: string;
+  type: CsvFieldType;
+};
+
+// A row is the line of an NDJSON file, the record after the header of a CSV
+// file or the element of a JSON array, counting from 1.
+export type ImportRow =
+  | { row: number; document: Document }
+  | { row: number; error: string; text: string };
+
+export type ImportFailure = {
+  row: number;
+  error: string;
+  text?: string;
+  document?: Document;
+};
+
+const NUMBER_REGEX = /^-?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+const OBJECT_ID_REGEX = /^[0-9a-fA-F]{24}$/;
+const DATE_REGEX =
+  /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+export async function* readFileLines(filePath: string): AsyncGenerator<string> {
+  const stream = fs.createReadStream(filePath, { encoding: 'utf8' });
+  const lines = readline.createInterface({
+    input: stream,
+    crlfDelay: Infinity,
+  });
+  let isFirstLine = true;
+
+  try {
+    for await (const line of lines) {
+      // Skip the byte order mark spreadsheet applications write.
+      yield isFirstLine ? line.replace(/^\uFEFF/, '') : line;
+      isFirstLine = false;
+    }
+  } finally {
+    lines.close();
+    stream.destroy();
+  }
+}
+
+// Uses the extension of the file, JSON files that are not an array are
+// read as one document per line, as `mongoexport` writes them.
+export async function detectImportFileFormat(
+  filePath: string,
+): Promise<ImportFileFormat> {
+  const extension = path.extname(filePath).toLowerCase();
+
+  if (extension === '.csv') {
+    return 'csv';
+  }
+
+  if (extension !== '.json') {
+    return 'ndjson';
+  }
+
+  for await (const line of readFileLines(filePath)) {
+    if (line.trim() !== '') {
+      return line.trim().startsWith('[') ? 'json' : 'ndjson';
+    }
+  }
+
+  return 'json';
+}
+
+type CsvRecordState = {
+  fields: string[];
+  field: string;
+  isQuoted: boolean;
+};
+
+function readCsvLine(state: CsvRecordState, line: string): void {
+  for (let i = 0; i < line.length; i++) {
+    const character = line[i];
+
+    if (state.isQuoted && character === '"' && line[i + 1] === '"') {
+      state.field += '"';
+      i++;
+    } else if (character === '"') {
+      state.isQuoted = !state.isQuoted;
+    } else if (character === ',' && !state.isQuoted) {
+      state.fields.push(state.field);
+      state.field = '';
+    } else {
+      state.field += character;
+    }
+  }
+}
+
+// Splits lines into CSV records, quoted fields can hold commas,
+// escaped quotes and line breaks.
+export async function* readCsvRecords(
+  lines: Iterable<string> | AsyncIterable<string>,
+): AsyncGenerator<string[]> {
+  const state: CsvRecordState = { fields: [], field: '', isQuoted: false };
+
+  for await (const line of lines) {
+    readCsvLine(state, line);
+
+    if (state.isQuoted) {
+      state.field += '\n';
+      continue;
+    }
+
+    const fields = [...state.fields, state.field];
+    state.fields = [];
+    state.field = '';
+
+    // Blank lines are not records.
+    if (fields.length > 1 || fields[0] !== '') {
+      yield fields;
+    }
+  }
+
+  if (state.isQuoted) {
+    yield [...state.fields, state.field.replace(/\n$/, '')];
+  }
+}
+
+const isCsvValueOfType = (value: string, type: CsvFieldType): boolean => {
+  switch (type) {
+    case 'number':
+      return NUMBER_REGEX.test(value);
+    case 'boolean':
+      return value === 'true' || value === 'false';
+    case 'objectId':
+      return OBJECT_ID_REGEX.test(value);
+    case 'date':
+      return DATE_REGEX.test(value) && !isNaN(Date.parse(value));
+    case 'json':
+      return /^[[{]/.test(value);
+    default:
+      return true;
+  }
+};
+
+// The first type all non-empty sampled values of a column are valid for.
+export function inferCsvFieldType(values: string[]): CsvFieldType {
+  const sample = values.filter((value) => value !== '');
+
+  if (sample.length === 0) {
+    return 'string';
+  }
+
+  return (
+    (['number', 'boolean', 'objectId', 'date', 'json'] as const).find((type) =>
+      sample.every((value) => isCsvValueOfType(value, type)),
+    ) ?? 'string'
+  );
+}
+
+export function getCsvColumns(
+  header: string[],
+  sampleRecords: string[][],
+): CsvColumn[] {
+  return header.map((name, index) => ({
+    name,
+    type: inferCsvFieldType(sampleRecords.map((record) => record[index] ?? '')),
+  }));
+}
+
+// Empty values are left out of the document, except for string columns.
+export function convertCsvValue(value: string, type: CsvFieldType): unknown {
+  if (type === 'string') {
+    return value;
+  }
+
+  if (value === '' || type === 'skip') {
+    return undefined;
+  }
+
+  if (!isCsvValueOfType(value, type)) {
+    throw new Error(`'${value}' is not a valid ${type}`);
+  }
+
+  switch (type) {
+    case 'number':
+      return Number(value);
+    case 'boolean':
+      return value === 'true';
+    case 'objectId':
+      return new ObjectId(value);
+    case 'date':
+      return new Date(value);
+    default:
+      return EJSON.parse(value, { relaxed: false });
+  }
+}
+
+// Field names that would change the prototype of the nested documents
+// instead of adding a field to them.
+const UNSAFE_FIELD_NAMES = ['__proto__', 'constructor', 'prototype'];
+
+// Columns with dotted names, e.g. `crew.commander`, are nested documents.
+export function getCsvDocument(
+  columns: CsvColumn[],
+  record: string[],
+): Document {
+  if (record.length > columns.length) {
+    throw new Error(
+      `expected ${columns.length} fields, found ${record.length}`,
+    );
+  }
+
+  const document: Document = {};
+
+  columns.forEach(({ name, type }, index) => {
+    let value: unknown;
+
+    try {
+      value = convertCsvValue(record[index] ?? '', type);
+    } catch (error) {
+      throw new Error(`${name}: ${(error as Error).message}`);
+    }
+
+    if (value === undefined) {
+      return;
+    }
+
+    const keys = name.split('.');
+    const unsafeKey = keys.find((key) => UNSAFE_FIELD_NAMES.includes(key));
+
+    if (unsafeKey) {
+      throw new Error(`${name}: '${unsafeKey}' is not allowed in field names`);
+    }
+
+    let parent = document;
+
+    for (const key of keys.slice(0, -1)) {
+      parent[key] = parent[key] ?? {};
+      parent = parent[key];
+    }
+    parent[keys[keys.length - 1]] = value;
+  });
+
+  return document;
+}
+
+// Canonical EJSON values like `1` or `{"$oid": ...}` are parsed to BSON
+// classes, only plain objects are documents.
+const toImportRow = (row: number, text: string, value: unknown): ImportRow =>
+  value !== null &&
+  typeof value === 'object' &&
+  Object.getPrototypeOf(value) === Object.prototype
+    ? { row, document: value as Document }
+    : { row, error: 'the value is not a document', text };
+
+async function* readNDJSONRows(filePath: string): AsyncGenerator<ImportRow> {
+  let row = 0;
+
+  for await (const line of readFileLines(filePath)) {
+    row++;
+
+    if (line.trim() === '') {
+      continue;
+    }
+
+    try {
+      yield toImportRow(row, line, EJSON.parse(line, { relaxed: false }));
+    } catch (error) {
+      yield { row, error: (error as Error).message, text: line };
+    }
+  }
+}
+
+const NOT_AN_ARRAY_ERROR = 'the file does not contain an array of documents';
+
+// Splits a JSON array into the text of its elements while the file is read,
+// so that files of any size are not held in memory at once.
+async function* readJSONArrayElements(
+  filePath: string,
+): AsyncGenerator<string> {
+  const stream = fs.createReadStream(filePath, { encoding: 'utf8' });
+  // The byte order mark is whitespace too.
+  const isWhitespace = (char: string): boolean => /\s/.test(char);
+  let isArrayStarted = false;
+  let isArrayEnded = false;
+  let isInElement = false;
+  let isInString = false;
+  let isEscaped = false;
+  let depth = 0;
+  let element = '';
+
+  try {
+    for await (const chunk of stream) {
+      const text = chunk as string;
+      let elementStart = 0;
+
+      for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (isInString) {
+          if (isEscaped) {
+            isEscaped = false;
+          } else if (char === '\\') {
+            isEscaped = true;
+          } else if (char === '"') {
+            isInString = false;
+          }
+        } else if (!isArrayStarted || isArrayEnded) {
+          if (char === '[' && !isArrayStarted) {
+            isArrayStarted = true;
+          } else if (!isWhitespace(char)) {
+            throw new Error(NOT_AN_ARRAY_ERROR);
+          }
+        } else if (depth === 0 && (char === ',' || char === ']')) {
+          if (isInElement) {
+            yield (element + text.slice(elementStart, i)).trim();
+            element = '';
+            isInElement = false;
+          } else if (char === ',') {
+            throw new Error('the array has an empty element');
+          }
+
+          isArrayEnded = char === ']';
+        } else {
+          if (!isInElement && !isWhitespace(char)) {
+            isInElement = true;
+            elementStart = i;
+          }
+
+          if (char === '"') {
+            isInString = true;
+          } else if (char === '{' || char === '[') {
+            depth++;
+          } else if (char === '}' || char === ']') {
+            depth--;
+          }
+        }
+      }
+
+      if (isInElement) {
+        element += text.slice(elementStart);
+      }
+    }
+  } finally {
+    stream.destroy();
+  }
+
+  if (!isArrayEnded) {
+    throw new Error(NOT_AN_ARRAY_ERROR);
+  }
+}
+
+async function* readJSONArrayRows(filePath: string): AsyncGenerator<ImportRow> {
+  let row = 0;
+
+  for await (const text of readJSONArrayElements(filePath)) {
+    row++;
+
+    try {
+      yield toImportRow(row, text, EJSON.parse(text, { relaxed: false }));
+    } catch (error) {
+      yield { row, error: (error as Error).message, text };
+    }
+  }
+}
+
+async function* readCsvRows(
+  filePath: string,
+  columns: CsvColumn[],
+): AsyncGenerator<ImportRow> {
+  let row = 0;
+
+  for await (const record of readCsvRecords(readFileLines(filePath))) {
+    // The first record is the header.
+    if (row++ === 0) {
+      continue;
+    }
+
+    try {
+      yield { row: row - 1, document: getCsvDocument(columns, record) };
+    } catch (error) {
+      yield {
+        row: row - 1,
+        error: (error as Error).message,
+        text: record.join(','),
+      };
+    }
+  }
+}
+
+export async function readCsvHeaderAndSample(
+  filePath: string,
+  sampleSize: number,
+): Promise<{ header: string[]; sampleRecords: string[][] }> {
+  const records: string[][] = [];
+
+  for await (const record of readCsvRecords(readFileLines(filePath))) {
+    records.push(record);
+
+    if (records.length > sampleSize) {
+      break;
+    }
+  }
+
+  if (records.length === 0) {
+    throw new Error('the file is empty');
+  }
+
+  return { header: records[0], sampleRecords: records.slice(1) };
+}
+
+export function readImportRows({
+  filePath,
+  format,
+  csvColumns = [],
+}: {
+  filePath: string;
+  format: ImportFileFormat;
+  csvColumns?: CsvColumn[];
+}): AsyncGenerator<ImportRow> {
+  if (format === 'csv') {
+    return readCsvRows(filePath, csvColumns);
+  }
+
+  return format === 'json'
+    ? readJSONArrayRows(filePath)
+    : readNDJSONRows(filePath);
+}
+
+type BulkWriteError = Error & {
+  insertedCount?: number;
+  writeErrors?:
+    | { index: number; errmsg?: string }
+    | { index: number; errmsg?: string }[];
+};
+
+async function insertBatch({
+  batch,
+  insertMany,
+  onFailure,
+}: {
+  batch: { row: number; document: Document }[];
+  insertMany: (documents: Document[]) => Promise<unknown>;
+  onFailure: (failure: ImportFailure) => Promise<void>;
+}): Promise<number> {
+  try {
+    await insertMany(batch.map(({ document }) => document));
+    return batch.length;
+  } catch (error) {
+    const { writeErrors, insertedCount } = error as BulkWriteError;
+
+    // Only documents rejected by the server are failures of their row,
+    // other errors stop the import.
+    if (!writeErrors) {
+      throw error;
+    }
+
+    for (const writeError of [writeErrors].flat()) {
+      await onFailure({
+        ...batch[writeError.index],
+        error: writeError.errmsg ?? 'the document was not inserted',
+      });
+    }
+
+    return insertedCount ?? batch.length - [writeErrors].flat().length;
+  }
+}
+
+// Inserts the documents of the rows in unordered batches. Rows that can not
+// be parsed or inserted are passed to `onFailure` and do not stop the import.
+export async function importDocuments({
+  rows,
+  batchSize,
+  insertMany,
+  onFailure,
+  onProgress,
+  isCancelled = (): boolean => false,
+}: {
+  rows: Iterable<ImportRow> | AsyncIterable<ImportRow>;
+  batchSize: number;
+  insertMany: (documents: Document[]) => Promise<unknown>;
+  onFailure: (failure: ImportFailure) => Promise<void>;
+  onProgress?: (insertedCount: number) => void;
+  isCancelled?: () => boolean;
+}): Promise<{ insertedCount: number; failedCount: number }> {
+  let batch: { row: number; document: Document }[] = [];
+  let insertedCount = 0;
+  let failedCount = 0;
+  const onRowFailure = async (failure: ImportFailure): Promise<void> => {
+    failedCount++;
+    await onFailure(failure);
+  };
+  const flush = async (): Promise<void> => {
+    insertedCount += await insertBatch({
+      batch,
+      insertMany,
+      onFailure: onRowFailure,
+    });
+    batch = [];
+    onProgress?.(insertedCount);
+  };
+
+  for await (const row of rows) {
+    if (isCancelled()) {
+      break;
+    }
+
+    if ('error' in row) {
+      await onRowFailure(row);
+    } else {
+      batch.push(row);
+    }
+
+    if (batch.length >= batchSize) {
+      await flush();
+    }
+  }
+
+  if (batch.length > 0 && !isCancelled()) {
+    await flush();
+  }
+
+  return { insertedCount, failedCount };
+}
@@ -43,3 +43,13 @@ export function getEJSON(item: Document[] | Document): Document {
   const ejson = EJSON.serialize(item);
   return simplifyEJSON(ejson);
 }
+
+// The canonical format keeps the types of numbers, like Int32, Long and
+// Double, which the relaxed format shown in the editor does not.
+export function getCanonicalEJSON(item: Document): Document {
+  return EJSON.serialize(item, { relaxed: false });
+}
+
+export function getEJSONFromCanonical(item: Document): Document {
+  return getEJSON(EJSON.deserialize(item, { relaxed: false }));
+}
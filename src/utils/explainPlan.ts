@@ -0,0 +1,129 @@
+import type { Document } from 'bson';
+
+export type ExplainPlanStage = {
+  stage: string;
+  indexName?: string;
+  nReturned?: number;
+  docsExamined?: number;
+  keysExamined?: number;
+  executionTimeMillis?: number;
+  isCollectionScan: boolean;
+  isInMemorySort: boolean;
+  children: ExplainPlanStage[];
+};
+
+export type ExplainPlanSummary = {
+  namespace?: string;
+  nReturned?: number;
+  totalDocsExamined?: number;
+  totalKeysExamined?: number;
+  executionTimeMillis?: number;
+  indexesUsed: string[];
+  hasCollectionScan: boolean;
+  hasInMemorySort: boolean;
+  winningPlan: ExplainPlanStage;
+};
+
+const COLLECTION_SCAN_STAGES = ['COLLSCAN', 'collscan'];
+const IN_MEMORY_SORT_STAGES = ['SORT', 'sort'];
+
+// Pipelines that are not fully pushed down to the query layer
+// have the explain of their query in the `$cursor` stage.
+function getQueryExplain(explain: Document): Document | undefined {
+  if (explain.queryPlanner) {
+    return explain;
+  }
+
+  const cursorStage = (explain.stages ?? []).find(
+    (stage: Document) => stage.$cursor,
+  );
+
+  return cursorStage?.$cursor;
+}
+
+function getStageChildren(stage: Document): Document[] {
+  return [
+    ...(stage.inputStage ? [stage.inputStage] : []),
+    ...(stage.inputStages ?? []),
+    ...(stage.shards ?? []).map(
+      (shard: Document) =>
+        shard.executionStages ??
+        shard.winningPlan?.queryPlan ??
+        shard.winningPlan,
+    ),
+    ...(stage.thenStage ? [stage.thenStage] : []),
+    ...(stage.elseStage ? [stage.elseStage] : []),
+  ].filter(Boolean);
+}
+
+function getExplainPlanStage(stage: Document): ExplainPlanStage {
+  return {
+    stage: stage.stage ?? stage.shardName ?? 'UNKNOWN',
+    indexName: stage.indexName,
+    nReturned: stage.nReturned,
+    docsExamined: stage.docsExamined,
+    keysExamined: stage.keysExamined,
+    executionTimeMillis:
+      stage.executionTimeMillisEstimate ?? stage.executionTimeMillis,
+    isCollectionScan: COLLECTION_SCAN_STAGES.includes(stage.stage),
+    isInMemorySort: IN_MEMORY_SORT_STAGES.includes(stage.stage),
+    children: getStageChildren(stage).map(getExplainPlanStage),
+  };
+}
+
+function flattenStages(stage: ExplainPlanStage): ExplainPlanStage[] {
+  return [stage, ...stage.children.flatMap(flattenStages)];
+}
+
+// Reads the winning plan and its execution stats from the output of
+// `explain('executionStats')` for a find or an aggregation.
+export function getExplainPlanSummary(explain: Document): ExplainPlanSummary {
+  const queryExplain = getQueryExplain(explain);
+  const winningPlan = queryExplain?.queryPlanner?.winningPlan;
+
+  if (!winningPlan) {
+    throw new Error('the result does not contain a query plan');
+  }
+
+  const executionStats = queryExplain.executionStats ?? {};
+  // Plans executed by the slot based engine keep the query plan apart.
+  const rootStage = getExplainPlanStage(
+    executionStats.executionStages ?? winningPlan.queryPlan ?? winningPlan,
+  );
+  const stages = flattenStages(rootStage);
+
+  return {
+    namespace: queryExplain.queryPlanner.namespace,
+    nReturned: executionStats.nReturned,
+    totalDocsExamined: executionStats.totalDocsExamined,
+    totalKeysExamined: executionStats.totalKeysExamined,
+    executionTimeMillis: executionStats.executionTimeMillis,
+    indexesUsed: [
+      ...new Set(
+        stages
+          .map(({ indexName }) => indexName)
+          .filter((indexName): indexName is string => !!indexName),
+      ),
+    ],
+    hasCollectionScan: stages.some(({ isCollectionScan }) => isCollectionScan),
+    hasInMemorySort: stages.some(({ isInMemorySort }) => isInMemorySort),
+    winningPlan: rootStage,
+  };
+}
+
+// Builds the code that explains the selected query of a playground. The last
+// `use()` before the selection is kept so the query runs on the same database.
+export function getExplainCode(
+  textBeforeSelection: string,
+  selectedText: string,
+): string {
+  const useDatabaseCalls =
+    textBeforeSelection.match(/^\s*use\s*\(\s*(['"`]).*?\1\s*\)/gm) ?? [];
+  const query = selectedText.trim().replace(/;+$/, '');
+  const lastUseDatabaseCall = useDatabaseCalls[useDatabaseCalls.length - 1];
+
+  return [
+    ...(lastUseDatabaseCall ? [`${lastUseDatabaseCall.trim()};`] : []),
+    `(${query}).explain('executionStats');`,
+  ].join('\n');
+}
@@ -0,0 +1,42 @@
+import fs from 'fs';
+
+export type FileWriter = {
+  write: (chunk: string | Uint8Array) => Promise<void>;
+  // Resolves once the written chunks are flushed to the file.
+  close: () => Promise<void>;
+  // Closes the file without waiting for the pending writes.
+  destroy: () => void;
+};
+
+// Errors like a missing permission to open the file are emitted on the
+// stream instead of being passed to the callbacks, so they are kept to
+// fail the pending and any later writes.
+export function createFileWriter(filePath: string): FileWriter {
+  const stream = fs.createWriteStream(filePath);
+  let streamError: Error | undefined;
+  let rejectPending: ((error: Error) => void) | undefined;
+
+  stream.on('error', (error) => {
+    streamError = error;
+    rejectPending?.(error);
+  });
+
+  const whenDone = (
+    action: (done: (error?: Error | null) => void) => void,
+  ): Promise<void> =>
+    new Promise((resolve, reject) => {
+      if (streamError) {
+        reject(streamError);
+        return;
+      }
+
+      rejectPending = reject;
+      action((error) => (error ? reject(error) : resolve()));
+    });
+
+  return {
+    write: (chunk) => whenDone((done) => stream.write(chunk, done)),
+    close: () => whenDone((done) => stream.end(done)),
+    destroy: () => stream.destroy(),
+  };
+}
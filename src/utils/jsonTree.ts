@@ -0,0 +1,82 @@
+import {
+  findNodeAtOffset,
+  getLocation,
+  getNodePath,
+  parseTree,
+} from 'jsonc-parser';
+import type { JSONPath, Node as JSONNode, ParseError } from 'jsonc-parser';
+
+export type { JSONNode, JSONPath };
+
+export type JSONProperty = {
+  key: string;
+  keyOffset: number;
+  keyLength: number;
+  value: JSONNode;
+};
+
+// Parses JSON text into a tree that keeps the offsets of the keys and values.
+// Returns undefined when the text is not valid JSON.
+export function parseJSONTree(text: string): JSONNode | undefined {
+  const errors: ParseError[] = [];
+  const tree = parseTree(text, errors, {
+    disallowComments: true,
+    allowTrailingComma: false,
+  });
+
+  return errors.length === 0 ? tree : undefined;
+}
+
+// The properties of an object node with their key and value.
+export function getJSONProperties(node: JSONNode): JSONProperty[] {
+  return (node.children ?? []).flatMap(({ children: [key, value] = [] }) =>
+    key && value
+      ? [
+          {
+            key: key.value,
+            keyOffset: key.offset,
+            keyLength: key.length,
+            value,
+          },
+        ]
+      : [],
+  );
+}
+
+// Finds the property whose key is at the offset, with the path to it.
+export function getJSONPropertyAtOffset(
+  tree: JSONNode,
+  offset: number,
+): { path: JSONPath; key: string } | undefined {
+  const node = findNodeAtOffset(tree, offset, true);
+  const property = node?.parent;
+
+  if (
+    !node ||
+    property?.type !== 'property' ||
+    property.children?.[0] !== node
+  ) {
+    return undefined;
+  }
+
+  return { path: getNodePath(node), key: node.value };
+}
+
+// Describes where the offset is in a possibly incomplete JSON text: the path
+// of the object or array it is in, and whether a property name is expected.
+// `keyStringOffset` is set when the offset is inside of a property name string.
+export function getJSONLocation(
+  text: string,
+  offset: number,
+): { path: JSONPath; isAtPropertyKey: boolean; keyStringOffset?: number } {
+  const { path, isAtPropertyKey, previousNode } = getLocation(text, offset);
+
+  return {
+    // The last segment is the property or the index at the offset.
+    path: path.slice(0, -1),
+    isAtPropertyKey,
+    ...(isAtPropertyKey && previousNode?.type === 'property'
+      ? { keyStringOffset: previousNode.offset }
+      : {}),
+  };
+}
@@ -0,0 +1,47 @@
+// A playground declares the saved connection it runs against, by its name or
+// its id, with a comment in its leading comments, for example:
+// // @connection: staging
+const CONNECTION_HEADER_REGEX = /^\s*\/\/\s*@connection:\s*(.*?)\s*$/;
+
+export type PlaygroundConnectionHeader = {
+  line: number;
+  connectionName: string;
+};
+
+export const getPlaygroundConnectionHeaderText = (
+  connectionName: string,
+): string => `// @connection: ${connectionName}`;
+
+// Only the comments and blank lines before the first line of code are
+// searched, so that the header can't be mistaken for a comment in the code.
+export const findPlaygroundConnectionHeader = (
+  text: string,
+): PlaygroundConnectionHeader | undefined => {
+  const lines = text.split(/\r?\n/);
+  let isInBlockComment = false;
+
+  for (let line = 0; line < lines.length; line++) {
+    const lineText = lines[line].trim();
+
+    if (isInBlockComment || lineText.startsWith('/*')) {
+      isInBlockComment = !lineText.endsWith('*/');
+      continue;
+    }
+
+    if (lineText === '') {
+      continue;
+    }
+
+    if (!lineText.startsWith('//')) {
+      return undefined;
+    }
+
+    const match = CONNECTION_HEADER_REGEX.exec(lineText);
+
+    if (match) {
+      return match[1] ? { line, connectionName: match[1] } : undefined;
+    }
+  }
+
+  return undefined;
+};
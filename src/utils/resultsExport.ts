@@ -0,0 +1,156 @@
+import { EJSON } from 'bson';
+import type { Document } from 'bson';
+
+export type ResultsExportFormat =
+  | 'csv'
+  | 'ndjson'
+  | 'ejson-relaxed'
+  | 'ejson-canonical';
+
+// How nested documents are written in a CSV file: flattened into a column
+// per field path, or as extended JSON in the column of the top-level field.
+export type CsvNestedFieldsMode = 'flatten' | 'json';
+
+export const RESULTS_EXPORT_FILE_EXTENSIONS: {
+  [format in ResultsExportFormat]: string;
+} = {
+  csv: 'csv',
+  ndjson: 'jsonl',
+  'ejson-relaxed': 'json',
+  'ejson-canonical': 'json',
+};
+
+const isPlainDocument = (value: unknown): value is Document =>
+  value !== null &&
+  typeof value === 'object' &&
+  !Array.isArray(value) &&
+  !('_bsontype' in value) &&
+  !(value instanceof Date) &&
+  !(value instanceof RegExp);
+
+function getCsvFields(
+  document: Document,
+  nestedFields: CsvNestedFieldsMode,
+  prefix = '',
+): [string, unknown][] {
+  return Object.entries(document).flatMap(([key, value]) =>
+    nestedFields === 'flatten' &&
+    isPlainDocument(value) &&
+    Object.keys(value).length > 0
+      ? getCsvFields(value, nestedFields, `${prefix}${key}.`)
+      : [[`${prefix}${key}`, value] as [string, unknown]],
+  );
+}
+
+export function getCsvCellText(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  const bsonType = (value as { _bsontype?: string })._bsontype;
+
+  if (bsonType === 'ObjectId') {
+    return (value as { toHexString(): string }).toHexString();
+  }
+
+  if (['Long', 'Decimal128', 'Double', 'Int32'].includes(bsonType ?? '')) {
+    return String(value);
+  }
+
+  return EJSON.stringify(value, { relaxed: true });
+}
+
+const escapeCsvValue = (text: string): string =>
+  /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+
+async function exportCsv({
+  getDocuments,
+  nestedFields,
+  write,
+}: {
+  getDocuments: () => Iterable<Document> | AsyncIterable<Document>;
+  nestedFields: CsvNestedFieldsMode;
+  write: (chunk: string) => Promise<void>;
+}): Promise<number> {
+  // The header needs every column, so the documents are read twice
+  // instead of being kept in memory.
+  const columns = new Set<string>();
+
+  for await (const document of getDocuments()) {
+    for (const [column] of getCsvFields(document, nestedFields)) {
+      columns.add(column);
+    }
+  }
+
+  await write(`${[...columns].map(escapeCsvValue).join(',')}\n`);
+
+  let count = 0;
+
+  for await (const document of getDocuments()) {
+    const fields = new Map(getCsvFields(document, nestedFields));
+
+    await write(
+      `${[...columns]
+        .map((column) => escapeCsvValue(getCsvCellText(fields.get(column))))
+        .join(',')}\n`,
+    );
+    count++;
+  }
+
+  return count;
+}
+
+// Writes documents one by one in the export format and returns how many
+// were written. EJSON files hold an array with a document per line.
+export async function exportResults({
+  getDocuments,
+  format,
+  csvNestedFields = 'flatten',
+  write,
+}: {
+  getDocuments: () => Iterable<Document> | AsyncIterable<Document>;
+  format: ResultsExportFormat;
+  csvNestedFields?: CsvNestedFieldsMode;
+  write: (chunk: string) => Promise<void>;
+}): Promise<number> {
+  if (format === 'csv') {
+    return exportCsv({ getDocuments, nestedFields: csvNestedFields, write });
+  }
+
+  const isArrayFormat = format !== 'ndjson';
+  const relaxed = format !== 'ejson-canonical';
+  let count = 0;
+
+  if (isArrayFormat) {
+    await write('[');
+  }
+
+  for await (const document of getDocuments()) {
+    const text = EJSON.stringify(document, { relaxed });
+
+    if (isArrayFormat) {
+      await write(`${count === 0 ? '\n' : ',\n'}${text}`);
+    } else {
+      await write(`${text}\n`);
+    }
+    count++;
+  }
+
+  if (isArrayFormat) {
+    await write(count === 0 ? ']\n' : '\n]\n');
+  }
+
+  return count;
+}
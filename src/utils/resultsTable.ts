@@ -0,0 +1,104 @@
+import type { Document } from 'bson';
+
+export type ResultsTableCell = {
+  text: string;
+  sortValue: string | number | null;
+};
+
+export type ResultsTable = {
+  columns: string[];
+  rows: ResultsTableCell[][];
+};
+
+// Relaxed extended JSON wrappers shown by their value in a cell.
+const EJSON_VALUE_WRAPPERS = [
+  '$oid',
+  '$date',
+  '$numberDecimal',
+  '$numberLong',
+  '$numberInt',
+  '$numberDouble',
+  '$symbol',
+];
+
+const NUMBER_WRAPPERS = [
+  '$numberDecimal',
+  '$numberLong',
+  '$numberInt',
+  '$numberDouble',
+];
+
+function getWrappedValue(value: unknown): unknown {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return value;
+  }
+
+  const keys = Object.keys(value);
+
+  if (keys.length === 1 && EJSON_VALUE_WRAPPERS.includes(keys[0])) {
+    const wrappedValue = value[keys[0]];
+
+    // Dates outside of the relaxed range are wrapped twice.
+    return typeof wrappedValue === 'object'
+      ? getWrappedValue(wrappedValue)
+      : wrappedValue;
+  }
+
+  return value;
+}
+
+export function getCellText(value: unknown): string {
+  const wrappedValue = getWrappedValue(value);
+
+  if (wrappedValue === undefined) {
+    return '';
+  }
+
+  return typeof wrappedValue === 'string'
+    ? wrappedValue
+    : JSON.stringify(wrappedValue);
+}
+
+function getCellSortValue(value: unknown): string | number | null {
+  const wrappedValue = getWrappedValue(value);
+
+  if (wrappedValue === undefined || wrappedValue === null) {
+    return null;
+  }
+
+  // Longs and decimals are wrapped as strings but sort as numbers.
+  if (
+    typeof wrappedValue === 'number' ||
+    NUMBER_WRAPPERS.some(
+      (wrapper) => (value as Document)[wrapper] !== undefined,
+    )
+  ) {
+    return Number(wrappedValue);
+  }
+
+  return getCellText(value);
+}
+
+// Flattens cursor results into a table with a column per top-level field.
+// Nested documents and arrays are shown as JSON in their cell.
+export function getResultsTable(documents: Document[]): ResultsTable {
+  const columns: string[] = [];
+
+  for (const document of documents) {
+    for (const key of Object.keys(document ?? {})) {
+      if (!columns.includes(key)) {
+        columns.push(key);
+      }
+    }
+  }
+
+  return {
+    columns,
+    rows: documents.map((document) =>
+      columns.map((column) => ({
+        text: getCellText(document?.[column]),
+        sortValue: getCellSortValue(document?.[column]),
+      })),
+    ),
+  };
+}
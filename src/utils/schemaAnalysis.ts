@@ -0,0 +1,290 @@
+import { EJSON } from 'bson';
+import type { Document } from 'bson';
+
+// The number of most frequent values shown in the histogram of a field.
+export const SCHEMA_ANALYSIS_TOP_VALUES = 10;
+
+export type SchemaFieldType = {
+  name: string;
+  count: number;
+  // The share of the values of the field that have this type, from 0 to 1.
+  probability: number;
+};
+
+export type SchemaFieldValue = {
+  value: unknown;
+  count: number;
+};
+
+export type SchemaFieldAnalysis = {
+  path: string;
+  // The share of the sampled documents that have the field, from 0 to 1.
+  presence: number;
+  count: number;
+  types: SchemaFieldType[];
+  topValues: SchemaFieldValue[];
+  // The number of distinct values in the sample, a lower bound of the
+  // number of distinct values in the collection.
+  distinctValuesInSample: number;
+  numberRange?: { min: number; max: number };
+  dateRange?: { min: Date; max: Date };
+};
+
+export type SchemaAnalysis = {
+  documentCount: number;
+  fields: SchemaFieldAnalysis[];
+};
+
+type FieldStats = {
+  documentCount: number;
+  lastDocumentIndex: number;
+  count: number;
+  types: Map<string, number>;
+  values: Map<string, SchemaFieldValue>;
+  numberRange?: { min: number; max: number };
+  dateRange?: { min: Date; max: Date };
+};
+
+const BSON_TYPE_NAMES: { [bsonType: string]: string } = {
+  ObjectID: 'ObjectId',
+  BSONRegExp: 'RegExp',
+  BSONSymbol: 'Symbol',
+};
+
+const NUMBER_BSON_TYPES = ['Double', 'Int32', 'Long', 'Decimal128'];
+
+export function getSchemaValueType(value: unknown): string {
+  if (value === null) {
+    return 'Null';
+  }
+
+  if (value === undefined) {
+    return 'Undefined';
+  }
+
+  if (Array.isArray(value)) {
+    return 'Array';
+  }
+
+  if (value instanceof Date) {
+    return 'Date';
+  }
+
+  if (value instanceof RegExp) {
+    return 'RegExp';
+  }
+
+  if (typeof value === 'object') {
+    const bsonType = (value as { _bsontype?: string })._bsontype;
+
+    return bsonType ? (BSON_TYPE_NAMES[bsonType] ?? bsonType) : 'Document';
+  }
+
+  const type = typeof value;
+
+  return `${type.charAt(0).toUpperCase()}${type.slice(1)}`;
+}
+
+function isDocument(value: unknown): value is Document {
+  return getSchemaValueType(value) === 'Document';
+}
+
+function getNumberValue(value: unknown, type: string): number | undefined {
+  if (type === 'Number') {
+    return value as number;
+  }
+
+  if (NUMBER_BSON_TYPES.includes(type)) {
+    return Number(String(value));
+  }
+}
+
+function getFieldStats(
+  fields: Map<string, FieldStats>,
+  path: string,
+): FieldStats {
+  let stats = fields.get(path);
+
+  if (!stats) {
+    stats = {
+      documentCount: 0,
+      lastDocumentIndex: -1,
+      count: 0,
+      types: new Map(),
+      values: new Map(),
+    };
+    fields.set(path, stats);
+  }
+
+  return stats;
+}
+
+function addValueStats(stats: FieldStats, value: unknown, type: string): void {
+  const numberValue = getNumberValue(value, type);
+
+  if (numberValue !== undefined && !Number.isNaN(numberValue)) {
+    stats.numberRange = {
+      min: Math.min(stats.numberRange?.min ?? numberValue, numberValue),
+      max: Math.max(stats.numberRange?.max ?? numberValue, numberValue),
+    };
+  }
+
+  if (value instanceof Date && !Number.isNaN(value.getTime())) {
+    stats.dateRange = {
+      min:
+        stats.dateRange && stats.dateRange.min < value
+          ? stats.dateRange.min
+          : value,
+      max:
+        stats.dateRange && stats.dateRange.max > value
+          ? stats.dateRange.max
+          : value,
+    };
+  }
+
+  const key = `${type}:${EJSON.stringify(value, { relaxed: false })}`;
+  const fieldValue = stats.values.get(key);
+
+  if (fieldValue) {
+    fieldValue.count++;
+  } else {
+    stats.values.set(key, { value, count: 1 });
+  }
+}
+
+function analyzeValue(
+  fields: Map<string, FieldStats>,
+  path: string,
+  value: unknown,
+  documentIndex: number,
+): void {
+  const stats = getFieldStats(fields, path);
+  const type = getSchemaValueType(value);
+
+  if (stats.lastDocumentIndex !== documentIndex) {
+    stats.lastDocumentIndex = documentIndex;
+    stats.documentCount++;
+  }
+
+  stats.count++;
+  stats.types.set(type, (stats.types.get(type) ?? 0) + 1);
+
+  if (isDocument(value)) {
+    analyzeDocument(fields, value, documentIndex, `${path}.`);
+    return;
+  }
+
+  if (!Array.isArray(value)) {
+    addValueStats(stats, value, type);
+    return;
+  }
+
+  // A query on an array field matches the elements of the array, so their
+  // values are part of the histogram of the field itself.
+  for (const element of value) {
+    if (isDocument(element)) {
+      analyzeDocument(fields, element, documentIndex, `${path}.`);
+    } else if (!Array.isArray(element)) {
+      addValueStats(stats, element, getSchemaValueType(element));
+    }
+  }
+}
+
+function analyzeDocument(
+  fields: Map<string, FieldStats>,
+  document: Document,
+  documentIndex: number,
+  pathPrefix = '',
+): void {
+  for (const [key, value] of Object.entries(document)) {
+    analyzeValue(fields, `${pathPrefix}${key}`, value, documentIndex);
+  }
+}
+
+/**
+ * Analyzes the fields of sampled documents: the types of their values,
+ * how often they are present and the distribution of their values.
+ * Nested fields, also in arrays of documents, are analyzed by their dot path.
+ */
+export function analyzeSchema(documents: Document[]): SchemaAnalysis {
+  const fields = new Map<string, FieldStats>();
+
+  documents.forEach((document, documentIndex) =>
+    analyzeDocument(fields, document, documentIndex),
+  );
+
+  return {
+    documentCount: documents.length,
+    fields: [...fields.entries()]
+      .sort(([pathA], [pathB]) => pathA.localeCompare(pathB))
+      .map(([path, stats]) => ({
+        path,
+        presence:
+          documents.length > 0 ? stats.documentCount / documents.length : 0,
+        count: stats.count,
+        types: [...stats.types.entries()]
+          .map(([name, count]) => ({
+            name,
+            count,
+            probability: count / stats.count,
+          }))
+          .sort((a, b) => b.count - a.count),
+        topValues: [...stats.values.values()]
+          .sort((a, b) => b.count - a.count)
+          .slice(0, SCHEMA_ANALYSIS_TOP_VALUES),
+        distinctValuesInSample: stats.values.size,
+        numberRange: stats.numberRange,
+        dateRange: stats.dateRange,
+      })),
+  };
+}
+
+// Returns the label of a value in the histogram of a field.
+export function formatSchemaValue(value: unknown): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString();
+  }
+
+  return EJSON.stringify(value, { relaxed: true });
+}
+
+/**
+ * Returns a value as mongosh syntax, for example ObjectId('...') or
+ * ISODate('...'), to use it in the filter of a playground query.
+ */
+export function getShellValue(value: unknown): string {
+  const type = getSchemaValueType(value);
+
+  switch (type) {
+    case 'Null':
+    case 'Boolean':
+    case 'String':
+      return JSON.stringify(value);
+    case 'Number':
+      if (Number.isFinite(value)) {
+        return String(value);
+      }
+      break;
+    case 'Date':
+      if (!Number.isNaN((value as Date).getTime())) {
+        return `ISODate('${(value as Date).toISOString()}')`;
+      }
+      break;
+    case 'ObjectId':
+      return `ObjectId('${String(value)}')`;
+    case 'Long':
+      return `NumberLong('${String(value)}')`;
+    case 'Decimal128':
+      return `NumberDecimal('${String(value)}')`;
+    default:
+      break;
+  }
+
+  return `EJSON.parse(${JSON.stringify(
+    EJSON.stringify(value, { relaxed: false }),
+  )})`;
+}
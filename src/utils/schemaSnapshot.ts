@@ -0,0 +1,197 @@
+import type { Schema, SchemaField, SchemaType } from 'mongodb-schema';
+
+const SCHEMA_SNAPSHOT_TYPE = 'MongoDB Schema Snapshot';
+const SCHEMA_SNAPSHOT_VERSION = 1;
+
+export type SchemaSnapshotField = {
+  // Dot path of the field, `[]` stands for the elements of an array.
+  path: string;
+  types: string[];
+  probability: number;
+};
+
+export type SchemaSnapshot = {
+  type: typeof SCHEMA_SNAPSHOT_TYPE;
+  version: typeof SCHEMA_SNAPSHOT_VERSION;
+  namespace: string;
+  connectionName: string;
+  createdAt: string;
+  documentCount: number;
+  fields: SchemaSnapshotField[];
+};
+
+export type SchemaDrift = {
+  path: string;
+  change: 'added' | 'removed' | 'typesChanged';
+  baseTypes: string[];
+  compareTypes: string[];
+};
+
+// A missing field is sampled as `Undefined`, its probability tells that already.
+const getTypeNames = (types: SchemaType[]): string[] =>
+  [
+    ...new Set(
+      types.map(({ name }) => name).filter((name) => name !== 'Undefined'),
+    ),
+  ].sort();
+
+function getSnapshotFieldsOfTypes(
+  path: string,
+  types: SchemaType[],
+): SchemaSnapshotField[] {
+  return types.flatMap((type) => {
+    if ('fields' in type) {
+      return getSnapshotFields(type.fields, path);
+    }
+
+    if ('types' in type && type.types.length > 0) {
+      const elementsPath = `${path}[]`;
+
+      return [
+        {
+          path: elementsPath,
+          types: getTypeNames(type.types),
+          probability: 1,
+        },
+        ...getSnapshotFieldsOfTypes(elementsPath, type.types),
+      ];
+    }
+
+    return [];
+  });
+}
+
+function getSnapshotFields(
+  fields: SchemaField[],
+  parentPath?: string,
+): SchemaSnapshotField[] {
+  return fields.flatMap((field) => {
+    const path = parentPath ? `${parentPath}.${field.name}` : field.name;
+
+    return [
+      {
+        path,
+        types: getTypeNames(field.types),
+        probability: field.probability,
+      },
+      ...getSnapshotFieldsOfTypes(path, field.types),
+    ];
+  });
+}
+
+/**
+ * Creates a snapshot of the schema `parseSchema` derives from sampled
+ * documents. Nested fields are flattened to their paths so snapshots
+ * can be diffed field by field.
+ */
+export function createSchemaSnapshot(
+  schema: Pick<Schema, 'count' | 'fields'>,
+  {
+    namespace,
+    connectionName,
+    createdAt = new Date(),
+  }: {
+    namespace: string;
+    connectionName: string;
+    createdAt?: Date;
+  },
+): SchemaSnapshot {
+  return {
+    type: SCHEMA_SNAPSHOT_TYPE,
+    version: SCHEMA_SNAPSHOT_VERSION,
+    namespace,
+    connectionName,
+    createdAt: createdAt.toISOString(),
+    documentCount: schema.count,
+    fields: getSnapshotFields(schema.fields).sort((a, b) =>
+      a.path.localeCompare(b.path),
+    ),
+  };
+}
+
+export function serializeSchemaSnapshot(snapshot: SchemaSnapshot): string {
+  return `${JSON.stringify(snapshot, null, 2)}\n`;
+}
+
+export function parseSchemaSnapshot(text: string): SchemaSnapshot {
+  let snapshot: SchemaSnapshot;
+
+  try {
+    snapshot = JSON.parse(text);
+  } catch (error) {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  if (
+    snapshot?.type !== SCHEMA_SNAPSHOT_TYPE ||
+    !Array.isArray(snapshot.fields)
+  ) {
+    throw new Error('The file is not a schema snapshot.');
+  }
+
+  if (snapshot.version !== SCHEMA_SNAPSHOT_VERSION) {
+    throw new Error(
+      `Unsupported schema snapshot version: ${snapshot.version}.`,
+    );
+  }
+
+  return snapshot;
+}
+
+// Returns the fields added, removed or with other types in the compared snapshot.
+export function diffSchemaSnapshots(
+  base: SchemaSnapshot,
+  compare: SchemaSnapshot,
+): SchemaDrift[] {
+  const baseFields = new Map(base.fields.map((field) => [field.path, field]));
+  const compareFields = new Map(
+    compare.fields.map((field) => [field.path, field]),
+  );
+  const paths = [
+    ...new Set([...baseFields.keys(), ...compareFields.keys()]),
+  ].sort((a, b) => a.localeCompare(b));
+
+  return paths.flatMap((path): SchemaDrift[] => {
+    const baseTypes = baseFields.get(path)?.types ?? [];
+    const compareTypes = compareFields.get(path)?.types ?? [];
+
+    if (!baseFields.has(path)) {
+      return [{ path, change: 'added', baseTypes, compareTypes }];
+    }
+
+    if (!compareFields.has(path)) {
+      return [{ path, change: 'removed', baseTypes, compareTypes }];
+    }
+
+    return baseTypes.join() === compareTypes.join()
+      ? []
+      : [{ path, change: 'typesChanged', baseTypes, compareTypes }];
+  });
+}
+
+// The text of a snapshot shown in the diff view, one field per line.
+export function getSchemaSnapshotText(snapshot: SchemaSnapshot): string {
+  const lines = snapshot.fields.map(
+    ({ path, types, probability }) =>
+      `${path}: ${types.join(' | ')}${probability < 1 ? ' (optional)' : ''}`,
+  );
+
+  return `// ${snapshot.namespace} on ${snapshot.connectionName}, ${
+    snapshot.documentCount
+  } document${snapshot.documentCount === 1 ? '' : 's'} sampled at ${
+    snapshot.createdAt
+  }\n${lines.join('\n')}\n`;
+}
+
+export function getSchemaDriftSummary(drift: SchemaDrift[]): string {
+  const count = (change: SchemaDrift['change']): number =>
+    drift.filter((fieldDrift) => fieldDrift.change === change).length;
+  const pluralize = (value: number, noun: string): string =>
+    `${value} ${noun}${value === 1 ? '' : 's'}`;
+
+  return [
+    `${pluralize(count('added'), 'field')} added`,
+    `${count('removed')} removed`,
+    `${count('typesChanged')} with changed types`,
+  ].join(', ');
+}
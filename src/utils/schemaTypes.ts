@@ -0,0 +1,343 @@
+import type { Schema, SchemaField, SchemaType } from 'mongodb-schema';
+
+import { formatPropertyName } from '../participant/schema';
+
+export type SchemaTypesLanguage = 'typescript' | 'zod' | 'mongoose';
+
+const INDENT = '  ';
+
+// BSON types that are classes of the driver, imported by the generated code.
+const DRIVER_TYPES = [
+  'Binary',
+  'BSONRegExp',
+  'Code',
+  'DBRef',
+  'Decimal128',
+  'Long',
+  'MaxKey',
+  'MinKey',
+  'ObjectId',
+  'Timestamp',
+];
+
+const JS_TYPES: { [typeName: string]: string } = {
+  Boolean: 'boolean',
+  Date: 'Date',
+  Double: 'number',
+  Int32: 'number',
+  Number: 'number',
+  RegExp: 'RegExp',
+  String: 'string',
+  Symbol: 'string',
+};
+
+const MONGOOSE_TYPES: { [typeName: string]: string } = {
+  Binary: 'Buffer',
+  Boolean: 'Boolean',
+  Date: 'Date',
+  Decimal128: 'Schema.Types.Decimal128',
+  Double: 'Number',
+  Int32: 'Number',
+  Long: 'Number',
+  Number: 'Number',
+  ObjectId: 'Schema.Types.ObjectId',
+  String: 'String',
+  Symbol: 'String',
+};
+
+type GeneratorContext = {
+  driverTypes: Set<string>;
+};
+
+// A missing field is sampled as `Undefined`, it makes the field optional.
+const getDefinedTypes = (types: SchemaType[]): SchemaType[] =>
+  types.filter(({ name }) => name !== 'Undefined');
+
+const isOptionalField = (field: SchemaField): boolean => field.probability < 1;
+
+const unique = (values: string[]): string[] => [...new Set(values)];
+
+const toStringLiteral = (value: string): string =>
+  `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+function getObjectBody(
+  fields: SchemaField[],
+  depth: number,
+  getFieldLine: (field: SchemaField) => string | undefined,
+): string {
+  const indent = INDENT.repeat(depth + 1);
+  const lines = fields
+    .map(getFieldLine)
+    .filter((line): line is string => line !== undefined);
+
+  return `{\n${lines.map((line) => `${indent}${line}`).join('\n')}\n${INDENT.repeat(
+    depth,
+  )}}`;
+}
+
+function getTypeScriptType(
+  types: SchemaType[],
+  context: GeneratorContext,
+  depth: number,
+): string {
+  const typeNames = unique(
+    getDefinedTypes(types).map((type) =>
+      getTypeScriptTypeOf(type, context, depth),
+    ),
+  );
+
+  return typeNames.length > 0 ? typeNames.join(' | ') : 'unknown';
+}
+
+function getTypeScriptTypeOf(
+  type: SchemaType,
+  context: GeneratorContext,
+  depth: number,
+): string {
+  if ('fields' in type) {
+    return type.fields.length > 0
+      ? getTypeScriptObject(type.fields, context, depth)
+      : 'Record<string, unknown>';
+  }
+
+  if ('types' in type) {
+    const itemType = getTypeScriptType(type.types, context, depth);
+
+    return itemType.includes(' | ') ? `(${itemType})[]` : `${itemType}[]`;
+  }
+
+  if (type.name === 'Null') {
+    return 'null';
+  }
+
+  if (DRIVER_TYPES.includes(type.name)) {
+    context.driverTypes.add(type.name);
+    return type.name;
+  }
+
+  return JS_TYPES[type.name] ?? 'unknown';
+}
+
+function getTypeScriptObject(
+  fields: SchemaField[],
+  context: GeneratorContext,
+  depth: number,
+): string {
+  return getObjectBody(
+    fields,
+    depth,
+    (field) =>
+      `${formatPropertyName(field.name)}${
+        isOptionalField(field) ? '?' : ''
+      }: ${getTypeScriptType(field.types, context, depth + 1)};`,
+  );
+}
+
+function getZodType(
+  types: SchemaType[],
+  context: GeneratorContext,
+  depth: number,
+): string {
+  const definedTypes = getDefinedTypes(types);
+  const zodTypes = unique(
+    definedTypes
+      .filter(({ name }) => name !== 'Null')
+      .map((type) => getZodTypeOf(type, context, depth)),
+  );
+  const isNullable = definedTypes.some(({ name }) => name === 'Null');
+
+  if (zodTypes.length === 0) {
+    return isNullable ? 'z.null()' : 'z.unknown()';
+  }
+
+  const zodType =
+    zodTypes.length === 1 ? zodTypes[0] : `z.union([${zodTypes.join(', ')}])`;
+
+  return isNullable ? `${zodType}.nullable()` : zodType;
+}
+
+function getZodTypeOf(
+  type: SchemaType,
+  context: GeneratorContext,
+  depth: number,
+): string {
+  if ('fields' in type) {
+    return type.fields.length > 0
+      ? `z.object(${getZodObject(type.fields, context, depth)})`
+      : 'z.record(z.string(), z.unknown())';
+  }
+
+  if ('types' in type) {
+    return `z.array(${getZodType(type.types, context, depth)})`;
+  }
+
+  if (DRIVER_TYPES.includes(type.name)) {
+    context.driverTypes.add(type.name);
+    return `z.instanceof(${type.name})`;
+  }
+
+  switch (JS_TYPES[type.name]) {
+    case 'boolean':
+      return 'z.boolean()';
+    case 'Date':
+      return 'z.date()';
+    case 'number':
+      return 'z.number()';
+    case 'RegExp':
+      return 'z.instanceof(RegExp)';
+    case 'string':
+      return 'z.string()';
+    default:
+      return 'z.unknown()';
+  }
+}
+
+function getZodObject(
+  fields: SchemaField[],
+  context: GeneratorContext,
+  depth: number,
+): string {
+  return getObjectBody(
+    fields,
+    depth,
+    (field) =>
+      `${formatPropertyName(field.name)}: ${getZodType(
+        field.types,
+        context,
+        depth + 1,
+      )}${isOptionalField(field) ? '.optional()' : ''},`,
+  );
+}
+
+function getMongooseType(types: SchemaType[], depth: number): string {
+  const mongooseTypes = unique(
+    getDefinedTypes(types)
+      .filter(({ name }) => name !== 'Null')
+      .map((type) => getMongooseTypeOf(type, depth)),
+  );
+
+  // Mongoose has no unions, fields with several types accept any value.
+  return mongooseTypes.length === 1 ? mongooseTypes[0] : 'Schema.Types.Mixed';
+}
+
+function getMongooseTypeOf(type: SchemaType, depth: number): string {
+  if ('fields' in type) {
+    return type.fields.length > 0
+      ? getMongooseObject(type.fields, depth)
+      : 'Schema.Types.Mixed';
+  }
+
+  if ('types' in type) {
+    return type.types.length > 0
+      ? `[${getMongooseType(type.types, depth)}]`
+      : '[]';
+  }
+
+  return MONGOOSE_TYPES[type.name] ?? 'Schema.Types.Mixed';
+}
+
+function getMongooseObject(fields: SchemaField[], depth: number): string {
+  return getObjectBody(fields, depth, (field) => {
+    const definedTypes = getDefinedTypes(field.types);
+
+    // Mongoose adds the ObjectId `_id` by itself.
+    if (
+      depth === 0 &&
+      field.name === '_id' &&
+      definedTypes.every(({ name }) => name === 'ObjectId')
+    ) {
+      return;
+    }
+
+    const mongooseType = getMongooseType(field.types, depth + 1);
+    const isRequired =
+      !isOptionalField(field) &&
+      definedTypes.every(({ name }) => name !== 'Null') &&
+      !mongooseType.startsWith('{') &&
+      !mongooseType.startsWith('[');
+
+    return `${formatPropertyName(field.name)}: ${
+      isRequired ? `{ type: ${mongooseType}, required: true }` : mongooseType
+    },`;
+  });
+}
+
+// Returns a type name for a collection, for example `UserEvents` for `user_events`.
+export function getSchemaTypeName(collectionName: string): string {
+  const typeName = collectionName
+    .split(/[^a-zA-Z0-9]+/)
+    .map((word) => `${word.charAt(0).toUpperCase()}${word.slice(1)}`)
+    .join('');
+
+  if (!typeName) {
+    return 'Document';
+  }
+
+  return /^[0-9]/.test(typeName) ? `_${typeName}` : typeName;
+}
+
+function getDriverImport(context: GeneratorContext, typeOnly: boolean): string {
+  return context.driverTypes.size > 0
+    ? `import ${typeOnly ? 'type ' : ''}{ ${[...context.driverTypes]
+        .sort()
+        .join(', ')} } from 'mongodb';\n`
+    : '';
+}
+
+/**
+ * Generates the code of TypeScript interfaces, Zod schemas or a Mongoose
+ * model from the schema `parseSchema` derives from sampled documents.
+ * Fields missing in some of the sampled documents are optional and fields
+ * with several types are unions.
+ */
+export function generateSchemaTypes(
+  schema: Schema,
+  {
+    language,
+    databaseName,
+    collectionName,
+  }: {
+    language: SchemaTypesLanguage;
+    databaseName: string;
+    collectionName: string;
+  },
+): string {
+  const typeName = getSchemaTypeName(collectionName);
+  const context: GeneratorContext = { driverTypes: new Set() };
+  const comment = `// Generated from ${schema.count} sampled document${
+    schema.count === 1 ? '' : 's'
+  } of ${databaseName}.${collectionName}.\n`;
+
+  if (language === 'zod') {
+    const zodObject = getZodObject(schema.fields, context, 0);
+
+    return `import { z } from 'zod';
+${getDriverImport(context, false)}
+${comment}export const ${typeName}Schema = z.object(${zodObject});
+
+export type ${typeName} = z.infer<typeof ${typeName}Schema>;
+`;
+  }
+
+  if (language === 'mongoose') {
+    const schemaName = `${typeName.charAt(0).toLowerCase()}${typeName.slice(
+      1,
+    )}Schema`;
+
+    return `import { Schema, model } from 'mongoose';
+
+${comment}const ${schemaName} = new Schema(${getMongooseObject(schema.fields, 0)});
+
+export const ${typeName} = model('${typeName}', ${schemaName}, ${toStringLiteral(
+      collectionName,
+    )});
+`;
+  }
+
+  const interfaceBody = getTypeScriptObject(schema.fields, context, 0);
+
+  return `${getDriverImport(context, true)}${
+    context.driverTypes.size > 0 ? '\n' : ''
+  }${comment}export interface ${typeName} ${interfaceBody}
+`;
+}
@@ -5,9 +5,11 @@ export function createTrackedTreeView(
   viewId: string,
   provider: vscode.TreeDataProvider<vscode.TreeItem>,
   telemetryService: TelemetryService,
+  dragAndDropController?: vscode.TreeDragAndDropController<vscode.TreeItem>,
 ): vscode.TreeView<vscode.TreeItem> {
   const result = vscode.window.createTreeView(viewId, {
     treeDataProvider: provider,
+    dragAndDropController,
   });
 
   result.onDidChangeVisibility((event) => {
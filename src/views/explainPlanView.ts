@@ -0,0 +1,118 @@
+import * as vscode from 'vscode';
+
+import type {
+  ExplainPlanStage,
+  ExplainPlanSummary,
+} from '../utils/explainPlan';
+import { escapeHtml, getWebviewPageHtml } from './webviewHtml';
+
+const formatStat = (value?: number, unit = ''): string =>
+  value === undefined ? '-' : `${escapeHtml(value)}${unit}`;
+
+function getStageWarning(stage: ExplainPlanStage): string | undefined {
+  if (stage.isCollectionScan) {
+    return 'Collection scan: every document of the collection is read.';
+  }
+
+  if (stage.isInMemorySort) {
+    return 'In-memory sort: the sort does not use an index.';
+  }
+}
+
+function getStageHtml(stage: ExplainPlanStage): string {
+  const warning = getStageWarning(stage);
+
+  return `<li>
+    <div class="stage${warning ? ' warning' : ''}">
+      <div class="stage-name">${escapeHtml(stage.stage)}</div>
+      ${
+        stage.indexName
+          ? `<div>Index: <code>${escapeHtml(stage.indexName)}</code></div>`
+          : ''
+      }
+      <div class="stage-stats">
+        <span>Returned: ${formatStat(stage.nReturned)}</span>
+        <span>Docs examined: ${formatStat(stage.docsExamined)}</span>
+        <span>Keys examined: ${formatStat(stage.keysExamined)}</span>
+        <span>Time: ${formatStat(stage.executionTimeMillis, ' ms')}</span>
+      </div>
+      ${warning ? `<div class="stage-warning">${escapeHtml(warning)}</div>` : ''}
+    </div>
+    ${
+      stage.children.length > 0
+        ? `<ul>${stage.children.map(getStageHtml).join('')}</ul>`
+        : ''
+    }
+  </li>`;
+}
+
+export function getExplainPlanWebviewContent(
+  summary: ExplainPlanSummary,
+): string {
+  return getWebviewPageHtml({
+    title: 'Explain Plan',
+    style: `
+      .summary span, .stage-stats span { margin-right: 16px; }
+      ul { list-style: none; padding-left: 24px; border-left: 1px solid var(--vscode-panel-border); }
+      .stage { margin: 8px 0; padding: 8px; border: 1px solid var(--vscode-panel-border); border-radius: 4px; }
+      .stage-name { font-weight: bold; }
+      .warning { border-color: var(--vscode-editorWarning-foreground); }
+      .stage-warning, .summary-warning { color: var(--vscode-editorWarning-foreground); }
+    `,
+    body: `
+      <h2>${escapeHtml(summary.namespace ?? 'Explain Plan')}</h2>
+      <div class="summary">
+        <span>Returned: ${formatStat(summary.nReturned)}</span>
+        <span>Docs examined: ${formatStat(summary.totalDocsExamined)}</span>
+        <span>Keys examined: ${formatStat(summary.totalKeysExamined)}</span>
+        <span>Time: ${formatStat(summary.executionTimeMillis, ' ms')}</span>
+      </div>
+      <p>Indexes used: ${
+        summary.indexesUsed.length > 0
+          ? summary.indexesUsed
+              .map((indexName) => `<code>${escapeHtml(indexName)}</code>`)
+              .join(', ')
+          : 'none'
+      }</p>
+      ${
+        summary.hasCollectionScan
+          ? '<p class="summary-warning">The query scans the whole collection, consider adding an index.</p>'
+          : ''
+      }
+      ${
+        summary.hasInMemorySort
+          ? '<p class="summary-warning">The query sorts in memory, consider an index that supports the sort.</p>'
+          : ''
+      }
+      <ul>${getStageHtml(summary.winningPlan)}</ul>
+    `,
+  });
+}
+
+/**
+ * Shows the winning plan of an explained query. The panel is reused
+ * while it is open so explaining again updates it in place.
+ */
+export default class ExplainPlanView {
+  _panel?: vscode.WebviewPanel;
+
+  show(summary: ExplainPlanSummary): void {
+    if (!this._panel) {
+      this._panel = vscode.window.createWebviewPanel(
+        'mongodbExplainPlan',
+        'Explain Plan',
+        { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+        { enableScripts: false },
+      );
+      this._panel.onDidDispose(() => {
+        this._panel = undefined;
+      });
+    }
+
+    this._panel.title = summary.namespace
+      ? `Explain Plan: ${summary.namespace}`
+      : 'Explain Plan';
+    this._panel.webview.html = getExplainPlanWebviewContent(summary);
+    this._panel.reveal(undefined, true);
+  }
+}
@@ -1,4 +1,5 @@
 import WebviewController from './webviewController';
 import StatusView from './statusView';
+import WriteProtectionStatusView from './writeProtectionStatusView';
 
-export { WebviewController, StatusView };
+export { WebviewController, StatusView, WriteProtectionStatusView };
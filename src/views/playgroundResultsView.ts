@@ -0,0 +1,281 @@
+import * as vscode from 'vscode';
+import { EJSON } from 'bson';
+import type { Document } from 'bson';
+
+import EXTENSION_COMMANDS from '../commands';
+import { DocumentSource } from '../documentSource';
+import type { EditDocumentInfo } from '../types/editDocumentInfoType';
+import { getResultsTable } from '../utils/resultsTable';
+import { getWebviewPageHtml } from './webviewHtml';
+
+export type PlaygroundResultsViewData = {
+  documents: Document[];
+  namespace?: string;
+  connectionId: string | null;
+};
+
+type MessageFromResultsView =
+  | { command: 'copy'; text: string }
+  | { command: 'openDocument'; index: number };
+
+// Serializes data for a script tag, `<` is escaped so the data can not close it.
+const toScriptData = (data: unknown): string =>
+  JSON.stringify(data).replace(/</g, '\\u003c');
+
+// Renders the results on the client with DOM APIs only, so values are never
+// interpreted as HTML. Copy and open actions are posted to the extension.
+const RESULTS_VIEW_SCRIPT = `
+const vscode = acquireVsCodeApi();
+const data = JSON.parse(document.getElementById('results-data').textContent);
+const content = document.getElementById('content');
+const state = { mode: 'table', sortColumn: -1, sortDirection: 1 };
+
+function element(tag, text, className) {
+  const node = document.createElement(tag);
+  if (text !== undefined) node.textContent = text;
+  if (className) node.className = className;
+  return node;
+}
+
+function actionButton(label, onClick) {
+  const button = element('button', label, 'action');
+  button.addEventListener('click', (event) => {
+    event.stopPropagation();
+    onClick();
+  });
+  return button;
+}
+
+function copyButton(text) {
+  return actionButton('Copy', () => vscode.postMessage({ command: 'copy', text }));
+}
+
+function openButton(index) {
+  return actionButton('Open', () =>
+    vscode.postMessage({ command: 'openDocument', index }),
+  );
+}
+
+function compareCells(a, b) {
+  if (a.sortValue === b.sortValue) return 0;
+  if (a.sortValue === null) return 1;
+  if (b.sortValue === null) return -1;
+  if (typeof a.sortValue === typeof b.sortValue) {
+    return a.sortValue < b.sortValue ? -1 : 1;
+  }
+  return typeof a.sortValue === 'number' ? -1 : 1;
+}
+
+function renderTable() {
+  const table = element('table');
+  const header = element('tr');
+  header.appendChild(element('th'));
+  data.table.columns.forEach((column, columnIndex) => {
+    const arrow =
+      state.sortColumn === columnIndex
+        ? state.sortDirection === 1 ? ' \\u25B2' : ' \\u25BC'
+        : '';
+    const th = element('th', column + arrow, 'sortable');
+    th.addEventListener('click', () => {
+      state.sortDirection =
+        state.sortColumn === columnIndex ? -state.sortDirection : 1;
+      state.sortColumn = columnIndex;
+      render();
+    });
+    header.appendChild(th);
+  });
+  table.appendChild(header);
+
+  const rowIndexes = data.table.rows.map((row, index) => index);
+  if (state.sortColumn >= 0) {
+    rowIndexes.sort(
+      (a, b) =>
+        state.sortDirection *
+        compareCells(
+          data.table.rows[a][state.sortColumn],
+          data.table.rows[b][state.sortColumn],
+        ),
+    );
+  }
+
+  for (const rowIndex of rowIndexes) {
+    const tr = element('tr');
+    const actions = element('td', undefined, 'row-actions');
+    if (data.editable[rowIndex]) actions.appendChild(openButton(rowIndex));
+    tr.appendChild(actions);
+    for (const cell of data.table.rows[rowIndex]) {
+      const td = element('td');
+      td.appendChild(element('span', cell.text, 'cell-text'));
+      if (cell.text !== '') td.appendChild(copyButton(cell.text));
+      tr.appendChild(td);
+    }
+    table.appendChild(tr);
+  }
+  return table;
+}
+
+function renderTreeNode(key, value) {
+  if (value !== null && typeof value === 'object') {
+    const details = element('details');
+    const summary = element(
+      'summary',
+      key + (Array.isArray(value) ? ' [' + value.length + ']' : ' {}'),
+    );
+    summary.appendChild(copyButton(JSON.stringify(value, null, 2)));
+    details.appendChild(summary);
+    for (const [childKey, childValue] of Object.entries(value)) {
+      details.appendChild(renderTreeNode(childKey, childValue));
+    }
+    return details;
+  }
+  const leaf = element('div', key + ': ' + JSON.stringify(value), 'leaf');
+  leaf.appendChild(copyButton(typeof value === 'string' ? value : JSON.stringify(value)));
+  return leaf;
+}
+
+function renderTree() {
+  const tree = element('div', undefined, 'tree');
+  data.documents.forEach((resultDocument, index) => {
+    const node = renderTreeNode(String(index), resultDocument);
+    if (data.editable[index]) node.firstChild.appendChild(openButton(index));
+    tree.appendChild(node);
+  });
+  return tree;
+}
+
+function renderRaw() {
+  const raw = element('div');
+  const text = JSON.stringify(data.documents, null, 2);
+  const copy = copyButton(text);
+  copy.classList.add('always');
+  raw.appendChild(copy);
+  raw.appendChild(element('pre', text));
+  return raw;
+}
+
+function render() {
+  for (const button of document.querySelectorAll('[data-mode]')) {
+    button.classList.toggle('selected', button.dataset.mode === state.mode);
+  }
+  content.replaceChildren(
+    state.mode === 'table' ? renderTable()
+      : state.mode === 'tree' ? renderTree()
+      : renderRaw(),
+  );
+}
+
+for (const button of document.querySelectorAll('[data-mode]')) {
+  button.addEventListener('click', () => {
+    state.mode = button.dataset.mode;
+    render();
+  });
+}
+render();
+`;
+
+export function getPlaygroundResultsWebviewContent(
+  data: PlaygroundResultsViewData,
+): string {
+  const viewData = {
+    documents: data.documents,
+    table: getResultsTable(data.documents),
+    editable: data.documents.map(
+      (document) => !!(document?._id !== undefined && data.namespace),
+    ),
+  };
+
+  return getWebviewPageHtml({
+    title: 'Playground Results',
+    style: `
+      table { border-collapse: collapse; }
+      th, td { border: 1px solid var(--vscode-panel-border); padding: 4px 8px; text-align: left; vertical-align: top; white-space: nowrap; }
+      th.sortable { cursor: pointer; }
+      .cell-text { font-family: var(--vscode-editor-font-family); }
+      .action { visibility: hidden; margin-left: 8px; font-size: 11px; }
+      td:hover .action, summary:hover .action, .leaf:hover .action, .row-actions .action, .action.always { visibility: visible; }
+      .tree details, .tree .leaf { margin-left: 16px; font-family: var(--vscode-editor-font-family); }
+      .modes button.selected { font-weight: bold; }
+    `,
+    body: `
+      <div class="modes">
+        <button data-mode="table">Table</button>
+        <button data-mode="tree">Tree</button>
+        <button data-mode="raw">EJSON</button>
+      </div>
+      <p>${data.documents.length} document${
+        data.documents.length === 1 ? '' : 's'
+      }</p>
+      <div id="content"></div>
+    `,
+    scripts: [
+      {
+        id: 'results-data',
+        type: 'application/json',
+        content: toScriptData(viewData),
+      },
+      { content: RESULTS_VIEW_SCRIPT },
+    ],
+  });
+}
+
+/**
+ * Shows the documents of a cursor result of a playground as a table,
+ * a tree or raw extended JSON.
+ */
+export default class PlaygroundResultsView {
+  _panel?: vscode.WebviewPanel;
+  _data?: PlaygroundResultsViewData;
+
+  show(data: PlaygroundResultsViewData): void {
+    this._data = data;
+
+    if (!this._panel) {
+      this._panel = vscode.window.createWebviewPanel(
+        'mongodbPlaygroundResults',
+        'Playground Results',
+        { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+        { enableScripts: true },
+      );
+      this._panel.onDidDispose(() => {
+        this._panel = undefined;
+      });
+      this._panel.webview.onDidReceiveMessage(
+        (message: MessageFromResultsView) =>
+          this.onReceivedWebviewMessage(message),
+      );
+    }
+
+    this._panel.title = data.namespace
+      ? `Playground Results: ${data.namespace}`
+      : 'Playground Results';
+    this._panel.webview.html = getPlaygroundResultsWebviewContent(data);
+    this._panel.reveal(undefined, true);
+  }
+
+  async onReceivedWebviewMessage(
+    message: MessageFromResultsView,
+  ): Promise<void> {
+    if (message.command === 'copy') {
+      await vscode.env.clipboard.writeText(message.text);
+      void vscode.window.showInformationMessage('Copied to clipboard.');
+      return;
+    }
+
+    const document = this._data?.documents[message.index];
+
+    if (message.command === 'openDocument' && document && this._data) {
+      const editDocumentInfo: EditDocumentInfo = {
+        source: DocumentSource.DOCUMENT_SOURCE_PLAYGROUND,
+        line: 1,
+        documentId: EJSON.deserialize(EJSON.serialize(document._id)),
+        namespace: this._data.namespace as string,
+        connectionId: this._data.connectionId,
+      };
+
+      await vscode.commands.executeCommand(
+        EXTENSION_COMMANDS.MDB_OPEN_MONGODB_DOCUMENT_FROM_CODE_LENS,
+        editDocumentInfo,
+      );
+    }
+  }
+}
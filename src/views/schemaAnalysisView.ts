@@ -0,0 +1,265 @@
+import * as vscode from 'vscode';
+import type { DataService } from 'mongodb-data-service';
+
+import type PlaygroundController from '../editors/playgroundController';
+import { sampleCollectionDocuments } from '../explorer/schemaTreeItem';
+import formatError from '../utils/formatError';
+import { analyzeSchema, formatSchemaValue } from '../utils/schemaAnalysis';
+import { escapeHtml, getWebviewPageHtml } from './webviewHtml';
+import type {
+  SchemaAnalysis,
+  SchemaFieldAnalysis,
+} from '../utils/schemaAnalysis';
+
+export const DEFAULT_SCHEMA_ANALYSIS_SAMPLE_SIZE = 1000;
+
+const MAX_VALUE_LABEL_LENGTH = 100;
+
+export type SchemaAnalysisViewData = {
+  analysis: SchemaAnalysis;
+  databaseName: string;
+  collectionName: string;
+  connectionId: string | null;
+};
+
+type MessageFromSchemaAnalysisView = {
+  command: 'queryValue';
+  fieldIndex: number;
+  valueIndex: number;
+};
+
+const formatPercentage = (probability: number): string =>
+  `${Math.round(probability * 1000) / 10}%`;
+
+function formatValueLabel(value: unknown): string {
+  const label = formatSchemaValue(value);
+
+  return label.length > MAX_VALUE_LABEL_LENGTH
+    ? `${label.slice(0, MAX_VALUE_LABEL_LENGTH)}...`
+    : label;
+}
+
+function getRangeHtml(field: SchemaFieldAnalysis): string {
+  const ranges: string[] = [];
+
+  if (field.numberRange) {
+    ranges.push(
+      `<span>Numbers: ${escapeHtml(field.numberRange.min)} to ${escapeHtml(
+        field.numberRange.max,
+      )}</span>`,
+    );
+  }
+
+  if (field.dateRange) {
+    ranges.push(
+      `<span>Dates: ${escapeHtml(
+        field.dateRange.min.toISOString(),
+      )} to ${escapeHtml(field.dateRange.max.toISOString())}</span>`,
+    );
+  }
+
+  return ranges.join('');
+}
+
+function getFieldHtml(field: SchemaFieldAnalysis, fieldIndex: number): string {
+  const maxValueCount = field.topValues[0]?.count ?? 0;
+
+  return `<section class="field">
+    <h3><code>${escapeHtml(field.path)}</code>
+      <span class="presence">present in ${formatPercentage(
+        field.presence,
+      )} of the documents</span>
+    </h3>
+    <div class="stats">${field.types
+      .map(
+        (type) =>
+          `<span>${escapeHtml(type.name)}: ${formatPercentage(
+            type.probability,
+          )}</span>`,
+      )
+      .join('')}</div>
+    ${
+      field.topValues.length > 0
+        ? `<div class="stats">
+            <span>Distinct in sample: ${field.distinctValuesInSample}${
+              maxValueCount === 1 && field.distinctValuesInSample > 1
+                ? ' (all unique in sample)'
+                : ''
+            }</span>
+            ${getRangeHtml(field)}
+          </div>
+          <table>${field.topValues
+            .map(
+              (fieldValue, valueIndex) => `<tr>
+                <td><button class="value" data-field="${fieldIndex}" data-value="${valueIndex}" title="Query the documents with this value">${escapeHtml(
+                  formatValueLabel(fieldValue.value),
+                )}</button></td>
+                <td><progress max="${maxValueCount}" value="${
+                  fieldValue.count
+                }"></progress></td>
+                <td>${fieldValue.count}</td>
+              </tr>`,
+            )
+            .join('')}</table>`
+        : ''
+    }
+  </section>`;
+}
+
+// Posts the clicked value to the extension, which opens a playground
+// that queries the documents with it.
+const SCHEMA_ANALYSIS_VIEW_SCRIPT = `
+const vscode = acquireVsCodeApi();
+for (const button of document.querySelectorAll('[data-value]')) {
+  button.addEventListener('click', () =>
+    vscode.postMessage({
+      command: 'queryValue',
+      fieldIndex: Number(button.dataset.field),
+      valueIndex: Number(button.dataset.value),
+    }),
+  );
+}
+`;
+
+export function getSchemaAnalysisWebviewContent(
+  data: SchemaAnalysisViewData,
+): string {
+  const { analysis } = data;
+
+  return getWebviewPageHtml({
+    title: 'Schema Analysis',
+    style: `
+      .field { margin: 8px 0; padding: 8px; border: 1px solid var(--vscode-panel-border); border-radius: 4px; }
+      .presence { font-weight: normal; font-size: 12px; margin-left: 8px; }
+      .stats span { margin-right: 16px; }
+      .stats { margin-bottom: 8px; }
+      td { padding: 2px 8px 2px 0; }
+      .value { font-family: var(--vscode-editor-font-family); cursor: pointer; text-align: left; }
+    `,
+    body: `
+      <h2>${escapeHtml(`${data.databaseName}.${data.collectionName}`)}</h2>
+      <p>${analysis.documentCount} sampled document${
+        analysis.documentCount === 1 ? '' : 's'
+      }, ${analysis.fields.length} field${
+        analysis.fields.length === 1 ? '' : 's'
+      }. Click a value to query the documents that have it.</p>
+      ${analysis.fields.map(getFieldHtml).join('')}
+    `,
+    scripts: [{ content: SCHEMA_ANALYSIS_VIEW_SCRIPT }],
+  });
+}
+
+/**
+ * Shows the schema analysis of sampled documents of a collection.
+ * Each collection has its own panel, which is reused while it is open.
+ */
+export default class SchemaAnalysisView {
+  _playgroundController: PlaygroundController;
+  _panels = new Map<
+    string,
+    { panel: vscode.WebviewPanel; data: SchemaAnalysisViewData }
+  >();
+
+  constructor({
+    playgroundController,
+  }: {
+    playgroundController: PlaygroundController;
+  }) {
+    this._playgroundController = playgroundController;
+  }
+
+  async analyzeCollection({
+    dataService,
+    databaseName,
+    collectionName,
+    connectionId,
+  }: {
+    dataService: DataService;
+    databaseName: string;
+    collectionName: string;
+    connectionId: string | null;
+  }): Promise<boolean> {
+    const namespace = `${databaseName}.${collectionName}`;
+    const sampleSize =
+      vscode.workspace
+        .getConfiguration('mdb')
+        .get<number>('schemaAnalysisSampleSize') ??
+      DEFAULT_SCHEMA_ANALYSIS_SAMPLE_SIZE;
+    let analysis: SchemaAnalysis;
+
+    try {
+      analysis = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: `Analyzing the schema of '${namespace}'...`,
+        },
+        async () =>
+          analyzeSchema(
+            await sampleCollectionDocuments(dataService, namespace, sampleSize),
+          ),
+      );
+    } catch (error) {
+      void vscode.window.showErrorMessage(
+        `Unable to analyze the schema: ${formatError(error).message}`,
+      );
+      return false;
+    }
+
+    if (analysis.documentCount === 0) {
+      void vscode.window.showInformationMessage(
+        `No documents were found in '${namespace}' to analyze.`,
+      );
+      return false;
+    }
+
+    this.show({ analysis, databaseName, collectionName, connectionId });
+    return true;
+  }
+
+  show(data: SchemaAnalysisViewData): void {
+    const namespace = `${data.databaseName}.${data.collectionName}`;
+    const key = `${data.connectionId}:${namespace}`;
+    let panel = this._panels.get(key)?.panel;
+
+    if (!panel) {
+      panel = vscode.window.createWebviewPanel(
+        'mongodbSchemaAnalysis',
+        `Schema: ${namespace}`,
+        vscode.ViewColumn.Active,
+        { enableScripts: true },
+      );
+      panel.onDidDispose(() => {
+        this._panels.delete(key);
+      });
+      panel.webview.onDidReceiveMessage(
+        (message: MessageFromSchemaAnalysisView) =>
+          this.onReceivedWebviewMessage(key, message),
+      );
+    }
+
+    this._panels.set(key, { panel, data });
+    panel.webview.html = getSchemaAnalysisWebviewContent(data);
+    panel.reveal();
+  }
+
+  async onReceivedWebviewMessage(
+    key: string,
+    message: MessageFromSchemaAnalysisView,
+  ): Promise<void> {
+    const data = this._panels.get(key)?.data;
+    const field = data?.analysis.fields[message.fieldIndex];
+    const fieldValue = field?.topValues[message.valueIndex];
+
+    if (message.command !== 'queryValue' || !data || !field || !fieldValue) {
+      return;
+    }
+
+    await this._playgroundController.createPlaygroundForSchemaValue({
+      databaseName: data.databaseName,
+      collectionName: data.collectionName,
+      fieldPath: field.path,
+      value: fieldValue.value,
+      connectionId: data.connectionId,
+    });
+  }
+}
@@ -0,0 +1,208 @@
+import * as vscode from 'vscode';
+import { EJSON } from 'bson';
+import type { Document } from 'bson';
+
+import type StreamProcessorTreeItem from '../explorer/streamProcessorTreeItem';
+import formatError from '../utils/formatError';
+import { createLogger } from '../logging';
+import { getWebviewPageHtml } from './webviewHtml';
+
+const log = createLogger('stream processor sample view');
+
+const MAX_SAMPLED_DOCUMENTS = 500;
+const SAMPLE_BATCH_SIZE = 20;
+const SAMPLE_POLL_INTERVAL_MS = 1000;
+
+type MessageToSampleView =
+  | { command: 'appendDocuments'; documents: string[] }
+  | { command: 'setStatus'; status: string; isSampling: boolean };
+
+type MessageFromSampleView = { command: 'ready' } | { command: 'stop' };
+
+type SampleSession = {
+  panel: vscode.WebviewPanel;
+  isStopped: boolean;
+  isDisposed: boolean;
+};
+
+// Appends the sampled documents with DOM APIs only, so values are never
+// interpreted as HTML. The stop action is posted to the extension, as is
+// `ready` once the listener is attached so no documents are posted before.
+const SAMPLE_VIEW_SCRIPT = `
+const vscode = acquireVsCodeApi();
+const documents = document.getElementById('documents');
+const status = document.getElementById('status');
+const stopButton = document.getElementById('stop');
+
+stopButton.addEventListener('click', () => {
+  vscode.postMessage({ command: 'stop' });
+});
+
+window.addEventListener('message', (event) => {
+  const message = event.data;
+  if (message.command === 'appendDocuments') {
+    for (const text of message.documents) {
+      const pre = document.createElement('pre');
+      pre.textContent = text;
+      documents.appendChild(pre);
+    }
+    window.scrollTo(0, document.body.scrollHeight);
+  } else if (message.command === 'setStatus') {
+    status.textContent = message.status;
+    stopButton.disabled = !message.isSampling;
+  }
+});
+
+vscode.postMessage({ command: 'ready' });
+`;
+
+export function getStreamProcessorSampleWebviewContent(): string {
+  return getWebviewPageHtml({
+    title: 'Stream Processor Sample',
+    style: `
+      .toolbar { position: sticky; top: 0; padding: 8px 0; background: var(--vscode-editor-background); }
+      pre { font-family: var(--vscode-editor-font-family); border-bottom: 1px solid var(--vscode-panel-border); padding-bottom: 8px; }
+    `,
+    body: `
+      <div class="toolbar">
+        <button id="stop">Stop</button>
+        <span id="status">Waiting for output documents...</span>
+      </div>
+      <div id="documents"></div>
+    `,
+    scripts: [{ content: SAMPLE_VIEW_SCRIPT }],
+  });
+}
+
+const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+const isExhausted = (cursorId: unknown): boolean =>
+  cursorId === undefined || cursorId === null || String(cursorId) === '0';
+
+/**
+ * Samples the output documents of a running stream processor into a view
+ * they are appended to as they arrive, until the sample is stopped, its
+ * view is closed or enough documents were sampled.
+ */
+export default class StreamProcessorSampleView {
+  _sessions = new Map<string, SampleSession>();
+
+  async sample({
+    streamProcessor,
+    connectionId,
+  }: {
+    streamProcessor: StreamProcessorTreeItem;
+    connectionId: string | null;
+  }): Promise<boolean> {
+    const name = streamProcessor.streamProcessorName;
+    const key = `${connectionId}:${name}`;
+
+    // Closing the previous view stops its sample.
+    this._sessions.get(key)?.panel.dispose();
+
+    const panel = vscode.window.createWebviewPanel(
+      'mongodbStreamProcessorSample',
+      `Sample: ${name}`,
+      { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+      { enableScripts: true, retainContextWhenHidden: true },
+    );
+    const session: SampleSession = {
+      panel,
+      isStopped: false,
+      isDisposed: false,
+    };
+    const postMessage = (message: MessageToSampleView): void => {
+      if (!session.isDisposed) {
+        void panel.webview.postMessage(message);
+      }
+    };
+
+    let onReady = (): void => {};
+    const isReady = new Promise<void>((resolve) => {
+      onReady = resolve;
+    });
+
+    this._sessions.set(key, session);
+    panel.onDidDispose(() => {
+      session.isStopped = true;
+      session.isDisposed = true;
+      if (this._sessions.get(key) === session) {
+        this._sessions.delete(key);
+      }
+      onReady();
+    });
+    panel.webview.onDidReceiveMessage((message: MessageFromSampleView) => {
+      if (message.command === 'ready') {
+        onReady();
+      } else if (message.command === 'stop') {
+        session.isStopped = true;
+      }
+    });
+    panel.webview.html = getStreamProcessorSampleWebviewContent();
+
+    // Messages posted before the view listens for them are lost.
+    await isReady;
+
+    if (session.isDisposed) {
+      return false;
+    }
+
+    log.info('Sample stream processor', { name });
+
+    let sampledCount = 0;
+
+    try {
+      let cursorId = await streamProcessor.startSample(MAX_SAMPLED_DOCUMENTS);
+
+      while (!session.isStopped && !isExhausted(cursorId)) {
+        const batch = await streamProcessor.getMoreSample(
+          cursorId,
+          SAMPLE_BATCH_SIZE,
+        );
+        cursorId = batch.cursorId;
+        sampledCount += batch.messages.length;
+
+        if (batch.messages.length > 0) {
+          postMessage({
+            command: 'appendDocuments',
+            documents: batch.messages.map((message: Document) =>
+              EJSON.stringify(message, undefined, 2, { relaxed: true }),
+            ),
+          });
+          postMessage({
+            command: 'setStatus',
+            status: `Sampling... ${sampledCount} document${
+              sampledCount === 1 ? '' : 's'
+            }`,
+            isSampling: true,
+          });
+        } else {
+          await sleep(SAMPLE_POLL_INTERVAL_MS);
+        }
+      }
+    } catch (error) {
+      session.isStopped = true;
+      postMessage({
+        command: 'setStatus',
+        status: `Sample failed: ${formatError(error).message}`,
+        isSampling: false,
+      });
+      void vscode.window.showErrorMessage(
+        `Sample stream processor failed: ${formatError(error).message}`,
+      );
+      return false;
+    }
+
+    session.isStopped = true;
+    postMessage({
+      command: 'setStatus',
+      status: `Sampled ${sampledCount} document${
+        sampledCount === 1 ? '' : 's'
+      }.`,
+      isSampling: false,
+    });
+
+    return true;
+  }
+}
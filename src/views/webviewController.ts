@@ -1,6 +1,5 @@
 import * as vscode from 'vscode';
 import path from 'path';
-import crypto from 'crypto';
 import type { ConnectionOptions } from 'mongodb-data-service';
 
 import type ConnectionController from '../connectionController';
@@ -23,13 +22,10 @@ import {
   OpenEditConnectionTelemetryEvent,
 } from '../telemetry';
 import type { FileChooserOptions } from './webview-app/use-connection-form';
+import { getNonce } from './webviewHtml';
 
 const log = createLogger('webview controller');
 
-const getNonce = (): string => {
-  return crypto.randomBytes(16).toString('base64');
-};
-
 export const getReactAppUri = (
   extensionPath: string,
   webview: vscode.Webview,
@@ -0,0 +1,62 @@
+import crypto from 'crypto';
+
+export const getNonce = (): string => {
+  return crypto.randomBytes(16).toString('base64');
+};
+
+export const escapeHtml = (value: unknown): string =>
+  String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+export type WebviewPageScript = {
+  content: string;
+  id?: string;
+  type?: string;
+};
+
+// The panels that are not part of the React app are static pages. A nonce
+// only allows their own inline styles and scripts.
+export function getWebviewPageHtml({
+  title,
+  style,
+  body,
+  scripts = [],
+}: {
+  title: string;
+  style: string;
+  body: string;
+  scripts?: WebviewPageScript[];
+}): string {
+  const nonce = getNonce();
+  const scriptSource =
+    scripts.length > 0 ? ` script-src 'nonce-${nonce}';` : '';
+
+  return `<!DOCTYPE html>
+  <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta http-equiv="Content-Security-Policy" content="default-src 'none';${scriptSource} style-src 'nonce-${nonce}';"/>
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${escapeHtml(title)}</title>
+      <style nonce="${nonce}">
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+        ${style}
+      </style>
+    </head>
+    <body>
+      ${body}
+      ${scripts
+        .map(
+          ({ content, id, type }) =>
+            `<script nonce="${nonce}"${id ? ` id="${id}"` : ''}${
+              type ? ` type="${type}"` : ''
+            }>${content}</script>`,
+        )
+        .join('\n')}
+    </body>
+  </html>`;
+}
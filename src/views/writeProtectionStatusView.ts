@@ -0,0 +1,83 @@
+import * as vscode from 'vscode';
+
+import type ConnectionController from '../connectionController';
+import { DataServiceEventTypes } from '../connectionController';
+
+// Shows the active connection in the status bar when it is write protected,
+// on a background that stands out from the rest of the status bar.
+export default class WriteProtectionStatusView {
+  _connectionController: ConnectionController;
+  _statusBarItem: vscode.StatusBarItem;
+  _connectionsChangedHandler: () => void;
+
+  constructor({
+    context,
+    connectionController,
+  }: {
+    context: vscode.ExtensionContext;
+    connectionController: ConnectionController;
+  }) {
+    this._connectionController = connectionController;
+    this._statusBarItem = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Left,
+      1,
+    );
+
+    context.subscriptions.push(this._statusBarItem);
+
+    this._connectionsChangedHandler = (): void => {
+      this.update();
+    };
+    this._connectionController.addEventListener(
+      DataServiceEventTypes.ACTIVE_CONNECTION_CHANGED,
+      this._connectionsChangedHandler,
+    );
+    this._connectionController.addEventListener(
+      DataServiceEventTypes.CONNECTIONS_DID_CHANGE,
+      this._connectionsChangedHandler,
+    );
+  }
+
+  update(): void {
+    const connectionId = this._connectionController.getActiveConnectionId();
+    const writeProtection =
+      this._connectionController.getConnectionWriteProtection(connectionId);
+
+    if (!connectionId || !writeProtection) {
+      this._statusBarItem.hide();
+      return;
+    }
+
+    const connectionName =
+      this._connectionController.getSavedConnectionName(connectionId);
+
+    if (writeProtection === 'production') {
+      this._statusBarItem.text = `$(shield) Production: ${connectionName}`;
+      this._statusBarItem.tooltip =
+        'Write operations on this connection ask to enter the connection name.';
+      this._statusBarItem.backgroundColor = new vscode.ThemeColor(
+        'statusBarItem.errorBackground',
+      );
+    } else {
+      this._statusBarItem.text = `$(lock) Read-only: ${connectionName}`;
+      this._statusBarItem.tooltip =
+        'Write operations on this connection are blocked.';
+      this._statusBarItem.backgroundColor = new vscode.ThemeColor(
+        'statusBarItem.warningBackground',
+      );
+    }
+
+    this._statusBarItem.show();
+  }
+
+  deactivate(): void {
+    this._connectionController.removeEventListener(
+      DataServiceEventTypes.ACTIVE_CONNECTION_CHANGED,
+      this._connectionsChangedHandler,
+    );
+    this._connectionController.removeEventListener(
+      DataServiceEventTypes.CONNECTIONS_DID_CHANGE,
+      this._connectionsChangedHandler,
+    );
+  }
+}